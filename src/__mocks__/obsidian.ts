@@ -366,6 +366,10 @@ export class Component {
 		// Mock implementation
 		return id;
 	}
+
+	registerEvent(eventRef: any): void {
+		// Mock implementation
+	}
 }
 
 // Mock other common Obsidian utilities
@@ -0,0 +1,150 @@
+/**
+ * Auto Archive Tests
+ * Tests for picking the completed tasks the archive rules move and where
+ * they go
+ */
+
+import {
+	findArchiveCandidates,
+	getTaskBlockEnd,
+	planArchive,
+	resolveArchiveTemplate,
+} from "../utils/AutoArchiver";
+import { AutoArchiveRule } from "../common/setting-definition";
+import { Task } from "../types/task";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 18, 12);
+
+const createTask = (
+	id: string,
+	overrides: Partial<Task> = {},
+	metadata: Partial<Task["metadata"]> = {}
+): Task => ({
+	id,
+	content: `Task ${id}`,
+	filePath: "Projects/Website.md",
+	line: 0,
+	completed: true,
+	status: "x",
+	originalMarkdown: `- [x] Task ${id}`,
+	...overrides,
+	metadata: {
+		tags: [],
+		children: [],
+		completedDate: now - 20 * DAY_MS,
+		project: "Website",
+		...metadata,
+	},
+});
+
+const rule: AutoArchiveRule = {
+	id: "projects",
+	name: "Projects",
+	enabled: true,
+	completedDaysAgo: 14,
+	folder: "Projects/",
+	targetFile: "Archive/{{project}}",
+	targetHeading: "{{filename}}",
+};
+
+describe("Auto Archive", () => {
+	test("should fill in the project and file name", () => {
+		const task = createTask("1");
+
+		expect(resolveArchiveTemplate(rule.targetFile, task)).toBe(
+			"Archive/Website"
+		);
+		expect(resolveArchiveTemplate("{{filename}}", task)).toBe("Website");
+		// No project, no archive
+		expect(
+			resolveArchiveTemplate(
+				rule.targetFile,
+				createTask("2", {}, { project: undefined })
+			)
+		).toBeUndefined();
+	});
+
+	test("should skip rules with placeholders that aren't dates", () => {
+		const resolve = (template: string) =>
+			resolveArchiveTemplate(template, createTask("1"));
+
+		expect(resolve("Archive/{{YYYY-MM}}")).toBeDefined();
+		expect(resolve("{{DATE:MMMM [week] ww}}")).toBeDefined();
+		expect(resolve("Archive/{{projet}}")).toBeUndefined();
+		expect(resolve("Archive/{{DATE:}}")).toBeUndefined();
+	});
+
+	test("should list the tasks a rule with an unknown placeholder skips", () => {
+		const tasks = [createTask("old")];
+		const typo = { ...rule, id: "typo", targetHeading: "{{mode}}" };
+
+		const plan = planArchive(tasks, [typo], () => undefined, now);
+		expect(plan.candidates).toEqual([]);
+		expect(plan.skipped).toEqual([
+			{ task: tasks[0], rule: typo, placeholders: ["{{mode}}"] },
+		]);
+
+		// A later rule that can be filled in takes the task
+		expect(
+			planArchive(tasks, [typo, rule], () => undefined, now)
+		).toMatchObject({ candidates: [{ rule }], skipped: [] });
+	});
+
+	test("should pick old completed tasks in the rule folder", () => {
+		const tasks = [
+			createTask("old"),
+			createTask("recent", {}, { completedDate: now - 3 * DAY_MS }),
+			createTask("open", { completed: false, status: " " }),
+			createTask("elsewhere", { filePath: "Inbox.md" }),
+			createTask("archived", { filePath: "Archive/Website.md" }),
+		];
+		const byId = new Map(tasks.map((task) => [task.id, task]));
+
+		const candidates = findArchiveCandidates(
+			tasks,
+			[rule],
+			(id) => byId.get(id),
+			now
+		);
+
+		expect(candidates.map((c) => c.task.id)).toEqual(["old"]);
+		expect(candidates[0].targetFile).toBe("Archive/Website.md");
+		expect(candidates[0].targetHeading).toBe("Website");
+	});
+
+	test("should keep parents with open subtasks and move done ones whole", () => {
+		const tasks = [
+			createTask("parent", {}, { children: ["child"] }),
+			createTask("child", { line: 1 }, { parent: "parent" }),
+			createTask("blocked", { line: 2 }, { children: ["open"] }),
+			createTask(
+				"open",
+				{ line: 3, completed: false, status: " " },
+				{ parent: "blocked" }
+			),
+		];
+		const byId = new Map(tasks.map((task) => [task.id, task]));
+
+		expect(
+			findArchiveCandidates(tasks, [rule], (id) => byId.get(id), now).map(
+				(c) => c.task.id
+			)
+		).toEqual(["parent"]);
+	});
+
+	test("should take the indented lines of a task along", () => {
+		const lines = [
+			"- [x] Parent",
+			"    - [x] Child",
+			"",
+			"        notes",
+			"",
+			"- [ ] Next",
+		];
+
+		expect(getTaskBlockEnd(lines, 0)).toBe(4);
+		expect(getTaskBlockEnd(lines, 1)).toBe(4);
+		expect(getTaskBlockEnd(lines, 5)).toBe(6);
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Bulk Edit Tests
+ * Tests for the changes a bulk edit makes to the selected tasks and for
+ * undoing the lines it wrote
+ */
+
+import {
+	applyBulkAction,
+	getLineChange,
+	resolveBulkDate,
+	revertLineChange,
+} from "../utils/bulkEdit";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+import { Task } from "../types/task";
+
+const today = new Date(2025, 5, 18, 12);
+const day = (d: number, month = 5) => new Date(2025, month, d).getTime();
+
+const createTask = (metadata: Partial<Task["metadata"]> = {}): Task => ({
+	id: "1",
+	content: "Task",
+	filePath: "Tasks.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: "- [ ] Task",
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+describe("Bulk Edit", () => {
+	test("should read absolute dates and relative shifts", () => {
+		expect(resolveBulkDate("2025-07-01", undefined, today)).toBe(day(1, 6));
+		expect(resolveBulkDate("+3d", undefined, today)).toBe(day(21));
+		expect(resolveBulkDate("-1w", day(18), today)).toBe(day(11));
+		expect(resolveBulkDate("+1m", day(10), today)).toBe(day(10, 6));
+		expect(resolveBulkDate("", day(10), today)).toBeUndefined();
+		expect(resolveBulkDate("next week", undefined, today)).toBeNull();
+	});
+
+	test("should shift each task from its own date", () => {
+		const action = { type: "date", field: "dueDate", value: "+2d" } as const;
+
+		expect(
+			applyBulkAction(
+				createTask({ dueDate: day(1) }),
+				action,
+				DEFAULT_SETTINGS,
+				today.getTime()
+			).metadata.dueDate
+		).toBe(day(3));
+		expect(
+			applyBulkAction(
+				createTask(),
+				action,
+				DEFAULT_SETTINGS,
+				today.getTime()
+			).metadata.dueDate
+		).toBe(day(20));
+	});
+
+	test("should keep the time of day of timed tasks", () => {
+		const meeting = new Date(2025, 5, 18, 14, 30).getTime();
+
+		expect(resolveBulkDate("+3d", meeting, today)).toBe(
+			new Date(2025, 5, 21, 14, 30).getTime()
+		);
+		expect(resolveBulkDate("-1m", meeting, today)).toBe(
+			new Date(2025, 4, 18, 14, 30).getTime()
+		);
+	});
+
+	test("should complete tasks and edit tags without touching the original", () => {
+		const task = createTask({ tags: ["#work", "#later"] });
+
+		const completed = applyBulkAction(
+			task,
+			{ type: "status", status: "x" },
+			DEFAULT_SETTINGS,
+			today.getTime()
+		);
+		expect(completed.completed).toBe(true);
+		expect(completed.metadata.completedDate).toBe(today.getTime());
+
+		const tagged = applyBulkAction(
+			task,
+			{ type: "add-tags", tags: ["urgent", "#work"] },
+			DEFAULT_SETTINGS
+		);
+		expect(tagged.metadata.tags).toEqual(["#work", "#later", "#urgent"]);
+
+		const untagged = applyBulkAction(
+			task,
+			{ type: "remove-tags", tags: ["later"] },
+			DEFAULT_SETTINGS
+		);
+		expect(untagged.metadata.tags).toEqual(["#work"]);
+		expect(task.metadata.tags).toEqual(["#work", "#later"]);
+	});
+
+	test("should undo the changed lines only while the file is unchanged", () => {
+		const before = "# Tasks\n- [ ] One\n- [ ] Two\n- [ ] Three";
+		const after = "# Tasks\n- [x] One\n- [ ] Three";
+
+		const change = getLineChange("Tasks.md", before, after)!;
+		expect(change).toMatchObject({
+			filePath: "Tasks.md",
+			line: 1,
+			before: ["- [ ] One", "- [ ] Two"],
+			after: ["- [x] One"],
+		});
+
+		expect(revertLineChange(after, change)).toBe(before);
+		expect(revertLineChange(after + "\n- [ ] Four", change)).toBeNull();
+		expect(
+			revertLineChange("# Tasks\n- [ ] One edited\n- [ ] Three", change)
+		).toBeNull();
+		expect(getLineChange("Tasks.md", before, before)).toBeNull();
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * Calendar Reschedule Tests
+ * Tests for the dates a task gets when it is dropped on a day of a calendar
+ * view or from the unscheduled tray
+ */
+
+import { getRescheduledTask } from "../components/calendar/reschedule";
+import { Task } from "../types/task";
+
+const at = (day: number, hours = 0, minutes = 0) =>
+	new Date(2025, 2, day, hours, minutes).getTime();
+
+const createTask = (metadata: Partial<Task["metadata"]> = {}): Task => ({
+	id: "1",
+	content: "Task",
+	filePath: "Tasks.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: "- [ ] Task",
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+describe("Calendar Reschedule", () => {
+	test("should move the date the task is shown by and keep its time", () => {
+		const task = createTask({
+			dueDate: at(3, 14, 30),
+			startDate: at(1),
+		});
+
+		const moved = getRescheduledTask(task, { date: "2025-03-10" });
+		expect(moved.metadata.dueDate).toBe(at(10, 14, 30));
+		expect(moved.metadata.startDate).toBe(at(1));
+		expect(task.metadata.dueDate).toBe(at(3, 14, 30));
+
+		const scheduled = getRescheduledTask(
+			createTask({ scheduledDate: at(3) }),
+			{ date: "2025-03-05" }
+		);
+		expect(scheduled.metadata.scheduledDate).toBe(at(5));
+	});
+
+	test("should set the time of a task dropped on the time grid", () => {
+		const moved = getRescheduledTask(createTask({ dueDate: at(3) }), {
+			date: "2025-03-04",
+			minutes: 9 * 60 + 45,
+		});
+		expect(moved.metadata.dueDate).toBe(at(4, 9, 45));
+	});
+
+	test("should give unscheduled tasks the configured date", () => {
+		const task = createTask();
+
+		const scheduled = getRescheduledTask(
+			task,
+			{ date: "2025-03-07" },
+			"scheduledDate"
+		);
+		expect(scheduled.metadata.scheduledDate).toBe(at(7));
+		expect(scheduled.metadata.dueDate).toBeUndefined();
+
+		const due = getRescheduledTask(task, { date: "2025-03-07" }, "dueDate");
+		expect(due.metadata.dueDate).toBe(at(7));
+	});
+});
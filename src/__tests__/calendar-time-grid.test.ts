@@ -0,0 +1,195 @@
+/**
+ * Calendar Time Grid Tests
+ * Tests for times of day on task dates and the layout of overlapping timed
+ * events in the day and week views
+ */
+
+import {
+	formatLocalDateTime,
+	getEndTimeDuration,
+	parseLocalDateTime,
+} from "../utils/dateUtil";
+import {
+	calculateEventLayout,
+	getTimeGridMinutes,
+	SNAP_MINUTES,
+} from "../components/calendar/algorithm";
+import { CalendarEvent } from "../components/calendar";
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import { TaskManager } from "../utils/TaskManager";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+import { Task } from "../types/task";
+
+const at = (hours: number, minutes = 0) =>
+	new Date(2025, 2, 1, hours, minutes);
+
+const createEvent = (id: string, start: Date, end?: Date): CalendarEvent => ({
+	id,
+	content: id,
+	title: id,
+	filePath: "Tasks.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: `- [ ] ${id}`,
+	metadata: { tags: [], children: [] },
+	start,
+	end,
+	allDay: false,
+});
+
+// Task manager with only the settings, for the line writing helpers
+const createTaskManager = (): any => {
+	const manager = Object.create(TaskManager.prototype);
+	manager.plugin = { settings: { ...DEFAULT_SETTINGS } };
+	manager.log = () => {};
+	return manager;
+};
+
+const createTask = (
+	markdown: string,
+	metadata: Partial<Task["metadata"]>
+): Task => ({
+	id: "1",
+	content: "Meeting",
+	filePath: "Tasks.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: markdown,
+	metadata: { tags: [], children: [], ...metadata },
+});
+
+describe("Calendar Time Grid", () => {
+	test("should read and write times of day on task dates", () => {
+		expect(parseLocalDateTime("2025-03-01 14:30")).toBe(
+			at(14, 30).getTime()
+		);
+		expect(parseLocalDateTime("2025-03-01T09:00")).toBe(at(9).getTime());
+		expect(parseLocalDateTime("2025-03-01")).toBe(at(0).getTime());
+		expect(getEndTimeDuration("2025-03-01 14:30-16:00")).toBe(90);
+		expect(getEndTimeDuration("2025-03-01 14:30")).toBeUndefined();
+
+		expect(formatLocalDateTime(at(14, 30).getTime())).toBe(
+			"2025-03-01 14:30"
+		);
+		expect(formatLocalDateTime(at(9).getTime(), "T")).toBe(
+			"2025-03-01T09:00"
+		);
+		expect(formatLocalDateTime(at(0).getTime())).toBe("2025-03-01");
+	});
+
+	test("should parse the time and duration of a task", () => {
+		const parser = new MarkdownTaskParser(getConfig("tasks"));
+
+		const [timed] = parser.parseLegacy(
+			"- [ ] Meeting 📅 2025-03-01 14:30-15:15",
+			"test.md"
+		);
+		expect(timed.metadata.dueDate).toBe(at(14, 30).getTime());
+		expect(timed.metadata.duration).toBe(45);
+
+		const [withDuration] = parser.parseLegacy(
+			"- [ ] Review [duration:: 1h30m] ⏳ 2025-03-01 09:00",
+			"test.md"
+		);
+		expect(withDuration.metadata.scheduledDate).toBe(at(9).getTime());
+		expect(withDuration.metadata.duration).toBe(90);
+	});
+
+	test("should place overlapping events side by side", () => {
+		const layouts = calculateEventLayout(
+			[
+				createEvent("a", at(9), at(11)),
+				createEvent("b", at(10), at(12)),
+				createEvent("c", at(11), at(12)),
+				createEvent("d", at(14)),
+			],
+			at(0),
+			new Date(2025, 2, 2)
+		);
+		const layout = (id: string) => layouts.find((l) => l.id === id)!;
+
+		expect(layout("a")).toMatchObject({ left: 0, width: 50 });
+		expect(layout("b")).toMatchObject({ left: 50, width: 50 });
+		// "c" starts when "a" ends and takes its column
+		expect(layout("c")).toMatchObject({ left: 0, width: 50 });
+		// "d" overlaps nothing and has the default length of an hour
+		expect(layout("d")).toMatchObject({ left: 0, width: 100 });
+		expect(layout("a").top).toBeCloseTo(37.5);
+		expect(layout("a").height).toBeCloseTo(100 / 12);
+		expect(layout("d").height).toBeCloseTo(100 / 24);
+	});
+
+	test("should write an end time back the way it was written", () => {
+		const manager = createTaskManager();
+		const line = "- [ ] Meeting 📅 2025-03-01 14:30-16:00";
+		const task = createTask(line, {
+			dueDate: at(14, 30).getTime(),
+			duration: 90,
+		});
+
+		const completed = { ...task, completed: true, status: "x" };
+		expect(manager.buildUpdatedTaskLine(task, completed, line)).toBe(
+			"- [x] Meeting 📅 2025-03-01 14:30-16:00"
+		);
+
+		const resized = {
+			...task,
+			metadata: { ...task.metadata, duration: 120 },
+		};
+		expect(manager.buildUpdatedTaskLine(task, resized, line)).toBe(
+			"- [ ] Meeting 📅 2025-03-01 14:30-16:30"
+		);
+	});
+
+	test("should keep a duration field unless the duration changed", () => {
+		const manager = createTaskManager();
+		const line = "- [ ] Meeting [duration:: 1h30m] 📅 2025-03-01 14:30";
+		const task = createTask(line, {
+			dueDate: at(14, 30).getTime(),
+			duration: 90,
+		});
+
+		const completed = { ...task, completed: true, status: "x" };
+		expect(manager.buildUpdatedTaskLine(task, completed, line)).toBe(
+			"- [x] Meeting 📅 2025-03-01 14:30 [duration:: 1h30m]"
+		);
+
+		const resized = {
+			...task,
+			metadata: { ...task.metadata, duration: 60 },
+		};
+		expect(manager.buildUpdatedTaskLine(task, resized, line)).toBe(
+			"- [ ] Meeting 📅 2025-03-01 14:30 [duration:: 60m]"
+		);
+	});
+
+	test("should keep the time and duration of a recurring task", () => {
+		const manager = createTaskManager();
+		const task = createTask(
+			"- [ ] Meeting 📅 2025-03-01 14:30-15:15 🔁 every day",
+			{
+				dueDate: at(14, 30).getTime(),
+				duration: 45,
+				recurrence: "every day",
+			}
+		);
+
+		expect(
+			manager.createRecurringTask({ ...task, completed: true }, "")
+		).toBe("- [ ] Meeting 🔁 every day 📅 2025-03-02 14:30-15:15");
+	});
+
+	test("should not drop tasks at midnight, which has no time of day", () => {
+		const columnEl = document.createElement("div");
+		columnEl.getBoundingClientRect = () =>
+			({ top: 100, height: 1440 } as DOMRect);
+
+		expect(getTimeGridMinutes(columnEl, 100)).toBe(SNAP_MINUTES);
+		expect(getTimeGridMinutes(columnEl, 100 + 9 * 60 + 50)).toBe(
+			9 * 60 + 45
+		);
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * Gantt drag-to-reschedule tests
+ */
+
+import {
+	getRescheduledTask,
+	isTaskDraggable,
+	snapDayDelta,
+} from "../components/gantt/task-drag";
+import { Task } from "../types/task";
+
+const day = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const createTask = (metadata: Partial<Task["metadata"]>): Task => ({
+	id: "test.md-L1",
+	content: "Task",
+	filePath: "test.md",
+	line: 1,
+	completed: false,
+	status: " ",
+	originalMarkdown: "- [ ] Task",
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+describe("Gantt task drag", () => {
+	describe("snapDayDelta", () => {
+		test("should snap to whole days on the day scale", () => {
+			expect(snapDayDelta(74, 50, "Day")).toBe(1);
+			expect(snapDayDelta(76, 50, "Day")).toBe(2);
+			expect(snapDayDelta(-60, 50, "Day")).toBe(-1);
+			expect(snapDayDelta(20, 50, "Day")).toBe(0);
+		});
+
+		test("should snap to weeks on the month scale", () => {
+			expect(snapDayDelta(3 * 20, 20, "Month")).toBe(0);
+			expect(snapDayDelta(5 * 20, 20, "Month")).toBe(7);
+			expect(snapDayDelta(-11 * 20, 20, "Month")).toBe(-14);
+		});
+	});
+
+	describe("getRescheduledTask", () => {
+		test("should move start and due dates together", () => {
+			const task = createTask({
+				startDate: day("2025-03-01"),
+				dueDate: day("2025-03-05"),
+			});
+			const updated = getRescheduledTask(task, "move", 3)!;
+
+			expect(updated.metadata.startDate).toBe(day("2025-03-04"));
+			expect(updated.metadata.dueDate).toBe(day("2025-03-08"));
+			// The original task is left untouched
+			expect(task.metadata.startDate).toBe(day("2025-03-01"));
+		});
+
+		test("should treat the scheduled date as the bar start", () => {
+			const task = createTask({
+				scheduledDate: day("2025-03-01"),
+				dueDate: day("2025-03-05"),
+			});
+			const updated = getRescheduledTask(task, "resize-start", -2)!;
+
+			expect(updated.metadata.scheduledDate).toBe(day("2025-02-27"));
+			expect(updated.metadata.startDate).toBeUndefined();
+			expect(updated.metadata.dueDate).toBe(day("2025-03-05"));
+		});
+
+		test("should only change the due date when resizing the end", () => {
+			const task = createTask({
+				startDate: day("2025-03-01"),
+				dueDate: day("2025-03-05"),
+			});
+			const updated = getRescheduledTask(task, "resize-end", 2)!;
+
+			expect(updated.metadata.startDate).toBe(day("2025-03-01"));
+			expect(updated.metadata.dueDate).toBe(day("2025-03-07"));
+		});
+
+		test("should not let the edges cross", () => {
+			const task = createTask({
+				startDate: day("2025-03-01"),
+				dueDate: day("2025-03-05"),
+			});
+
+			expect(
+				getRescheduledTask(task, "resize-start", 10)!.metadata
+					.startDate
+			).toBe(day("2025-03-05"));
+			expect(
+				getRescheduledTask(task, "resize-end", -10)!.metadata.dueDate
+			).toBe(day("2025-03-01"));
+		});
+
+		test("should add a due date when resizing a start-only bar", () => {
+			const task = createTask({ startDate: day("2025-03-01") });
+			const updated = getRescheduledTask(task, "resize-end", 4)!;
+
+			expect(updated.metadata.dueDate).toBe(day("2025-03-05"));
+		});
+
+		test("should move a milestone's due date", () => {
+			const task = createTask({ dueDate: day("2025-03-05") });
+			const updated = getRescheduledTask(task, "move", -1)!;
+
+			expect(updated.metadata.dueDate).toBe(day("2025-03-04"));
+			expect(updated.metadata.startDate).toBeUndefined();
+		});
+
+		test("should return null when nothing changes", () => {
+			const task = createTask({
+				startDate: day("2025-03-01"),
+				dueDate: day("2025-03-05"),
+			});
+
+			expect(getRescheduledTask(task, "move", 0)).toBeNull();
+			expect(
+				getRescheduledTask(
+					createTask({
+						startDate: day("2025-03-05"),
+						dueDate: day("2025-03-05"),
+					}),
+					"resize-end",
+					-1
+				)
+			).toBeNull();
+		});
+	});
+
+	describe("isTaskDraggable", () => {
+		test("should reject read-only ICS tasks and undated tasks", () => {
+			const icsTask = {
+				...createTask({ dueDate: day("2025-03-05") }),
+				readonly: true,
+				source: { type: "ics", name: "Calendar", id: "cal" },
+			} as Task;
+
+			expect(isTaskDraggable(icsTask)).toBe(false);
+			expect(isTaskDraggable(createTask({}))).toBe(false);
+			expect(
+				isTaskDraggable(createTask({ dueDate: day("2025-03-05") }))
+			).toBe(true);
+		});
+	});
+});
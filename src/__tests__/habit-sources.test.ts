@@ -0,0 +1,78 @@
+/**
+ * Habit Sources Tests
+ * Tests for reading and writing habit values kept as inline fields and
+ * dated list items
+ */
+
+import {
+	parseDatedLines,
+	parseInlineFields,
+	setDatedLineFields,
+	setInlineFields,
+} from "../utils/habitSources";
+
+const log = `# Habit log
+
+- 2025-06-16 [read:: 1] [water:: 8]
+- [[2025-06-17]] water:: 5
+- [x] 2025-06-18 (mood:: 3) walked to work
+Notes without a date:: ignored
+`;
+
+describe("Habit Sources", () => {
+	test("should read dated list items", () => {
+		expect(parseDatedLines(log)).toEqual({
+			"2025-06-16": { read: 1, water: 8 },
+			"2025-06-17": { water: 5 },
+			"2025-06-18": { mood: 3 },
+		});
+	});
+
+	test("should read inline fields of the note body", () => {
+		const note = `---
+read: yes
+---
+# Today
+
+read:: done
+- Walked [steps:: 9000] in the park
+`;
+
+		expect(parseInlineFields(note)).toEqual({ read: "done", steps: 9000 });
+	});
+
+	test("should write fields to the line of a date", () => {
+		// Fields without brackets get them before another one is added
+		let content = setDatedLineFields(log, "2025-06-17", {
+			water: 6,
+			read: 1,
+		});
+		expect(content).toContain("- [[2025-06-17]] [water:: 6] [read:: 1]\n");
+
+		content = setDatedLineFields(content, "2025-06-19", { read: 1 });
+		expect(content.endsWith("ignored\n- 2025-06-19 [read:: 1]\n")).toBe(
+			true
+		);
+
+		// The line goes once its last field is removed
+		content = setDatedLineFields(content, "2025-06-18", {
+			mood: undefined,
+		});
+		expect(content).toContain("- [x] 2025-06-18 walked to work\n");
+		content = setDatedLineFields(content, "2025-06-19", {
+			read: undefined,
+		});
+		expect(content).not.toContain("2025-06-19");
+	});
+
+	test("should write fields to the note body", () => {
+		const note = "# Today\n\nread:: 1\n- Walked [steps:: 9000]\n";
+
+		expect(setInlineFields(note, { read: 0, steps: 12000 })).toBe(
+			"# Today\n\nread:: 0\n- Walked [steps:: 12000]\n"
+		);
+		expect(setInlineFields(note, { read: undefined, water: 3 })).toBe(
+			"# Today\n\n- Walked [steps:: 9000]\nwater:: 3\n"
+		);
+	});
+});
@@ -0,0 +1,177 @@
+/**
+ * Habit Stats Tests
+ * Tests for streaks and completion rates against the habit frequency and
+ * the figures of the habit analytics
+ */
+
+import {
+	getHabitCoOccurrence,
+	getHabitLevel,
+	getHabitStats,
+	getMappingDistribution,
+	getMonthlyTotals,
+} from "../utils/habitStats";
+import {
+	CountHabitProps,
+	DailyHabitProps,
+	HabitFrequency,
+	MappingHabitProps,
+} from "../types/habit-card";
+
+// Wednesday
+const today = new Date(2025, 5, 18);
+
+const dailyHabit = (
+	dates: string[],
+	frequency?: HabitFrequency
+): DailyHabitProps => ({
+	id: "read",
+	name: "Read",
+	icon: "book",
+	type: "daily",
+	property: "read",
+	frequency,
+	completions: Object.fromEntries(dates.map((date) => [date, 1])),
+});
+
+const june = (...days: number[]) =>
+	days.map((day) => `2025-06-${String(day).padStart(2, "0")}`);
+
+describe("Habit Stats", () => {
+	test("should count daily streaks without breaking on an open today", () => {
+		const stats = getHabitStats(
+			dailyHabit(june(1, 2, 3, 4, 10, 11, 12, 13, 14, 15, 16, 17)),
+			today,
+			10
+		);
+
+		expect(stats.currentStreak).toBe(8);
+		expect(stats.longestStreak).toBe(8);
+		expect(stats.streakUnit).toBe("day");
+		// 8 of the 9 days before today, today isn't expected yet
+		expect(stats.completionRate).toBeCloseTo(8 / 9);
+
+		// A missed yesterday ends the streak
+		expect(
+			getHabitStats(dailyHabit(june(14, 15, 16)), today).currentStreak
+		).toBe(0);
+	});
+
+	test("should measure weekly and monthly targets per period", () => {
+		// Weeks start on Monday: 2, 9 and 16 June
+		const weekly = dailyHabit(june(2, 4, 6, 9, 10, 16, 17, 18), {
+			type: "weekly",
+			times: 3,
+		});
+		const stats = getHabitStats(weekly, today, 14);
+
+		expect(stats.streakUnit).toBe("week");
+		// The second week only had two days, this week is done already
+		expect(stats.currentStreak).toBe(1);
+		expect(stats.longestStreak).toBe(1);
+		// 6 days against 3 a week over two weeks
+		expect(stats.completionRate).toBe(1);
+
+		const monthly = dailyHabit(["2025-04-01", "2025-05-01", ...june(1)], {
+			type: "monthly",
+			times: 1,
+		});
+		expect(getHabitStats(monthly, today).currentStreak).toBe(3);
+	});
+
+	test("should only expect the scheduled weekdays", () => {
+		// Mondays and Fridays
+		const habit = dailyHabit(june(2, 6, 9, 13, 16), {
+			type: "weekdays",
+			days: [1, 5],
+		});
+		const stats = getHabitStats(habit, today, 14);
+
+		expect(stats.currentStreak).toBe(5);
+		// 6, 9, 13 and 16 June are the scheduled days in the window
+		expect(stats.completionRate).toBe(1);
+	});
+
+	test("should use the goal of count habits", () => {
+		const habit: CountHabitProps = {
+			id: "water",
+			name: "Water",
+			icon: "cup-soda",
+			type: "count",
+			property: "water",
+			max: 8,
+			completions: { "2025-06-16": 8, "2025-06-17": 5, "2025-06-18": 9 },
+		};
+		const stats = getHabitStats(habit, today);
+
+		expect(stats.currentStreak).toBe(1);
+		expect(stats.longestStreak).toBe(1);
+	});
+
+	describe("Analytics", () => {
+		const water: CountHabitProps = {
+			id: "water",
+			name: "Water",
+			icon: "cup-soda",
+			type: "count",
+			property: "water",
+			max: 8,
+			countUnit: "cups",
+			completions: {
+				"2024-12-31": 8,
+				"2025-01-30": 6,
+				"2025-01-31": 8,
+				"2025-03-01": 2,
+			},
+		};
+
+		test("should total count habits per month", () => {
+			expect(getMonthlyTotals(water, 2025)).toEqual([
+				14, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+			]);
+			expect(getHabitLevel(water, "2025-01-30")).toBe(3);
+			expect(getHabitLevel(water, "2025-01-31")).toBe(4);
+			expect(getHabitLevel(water, "2025-02-01")).toBe(0);
+		});
+
+		test("should count the days of every mapping value", () => {
+			const mood: MappingHabitProps = {
+				id: "mood",
+				name: "Mood",
+				icon: "smile",
+				type: "mapping",
+				property: "mood",
+				mapping: { 1: "😞", 2: "😐", 3: "😊" },
+				completions: {
+					"2024-12-31": 1,
+					"2025-01-01": 3,
+					"2025-01-02": 3,
+					"2025-01-03": 2,
+				},
+			};
+
+			expect(
+				getMappingDistribution(mood, "2025-01-01", "2025-12-31")
+			).toEqual([
+				{ value: 1, label: "😞", count: 0 },
+				{ value: 2, label: "😐", count: 1 },
+				{ value: 3, label: "😊", count: 2 },
+			]);
+		});
+
+		test("should count the days habits were done together", () => {
+			const read = dailyHabit(["2025-01-30", "2025-01-31", "2025-03-01"]);
+
+			expect(
+				getHabitCoOccurrence([read, water], "2025-01-01", "2025-12-31")
+			).toEqual({
+				habitIds: ["read", "water"],
+				// Water only counts on the days its goal was reached
+				counts: [
+					[3, 1],
+					[1, 1],
+				],
+			});
+		});
+	});
+});
@@ -0,0 +1,181 @@
+/**
+ * ICS Cache Tests
+ * Tests for persisting fetched events between sessions, conditional
+ * requests and the stale status when a source can't be reached
+ */
+
+import { requestUrl } from "obsidian";
+import { IcsManager } from "../utils/ics/IcsManager";
+import { IcsManagerConfig, IcsSource } from "../types/ics";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+import { LocalStorageCache } from "../utils/persister";
+
+jest.mock("obsidian", () => ({
+	...jest.requireActual("obsidian"),
+	requestUrl: jest.fn(),
+}));
+
+const mockRequestUrl = requestUrl as any;
+
+const source: IcsSource = {
+	id: "team",
+	name: "Team",
+	url: "https://example.com/team.ics",
+	enabled: true,
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+	showType: "event",
+	auth: { type: "bearer", token: "secret" },
+};
+
+const config: IcsManagerConfig = {
+	sources: [source],
+	enableBackgroundRefresh: false,
+	globalRefreshInterval: 60,
+	maxCacheAge: 24,
+	networkTimeout: 30,
+	maxEventsPerSource: 1000,
+	showInCalendar: true,
+	showInTaskLists: true,
+	defaultEventColor: "#3b82f6",
+};
+
+const content = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+UID:retro
+SUMMARY:Retro
+DTSTART:20250606T140000Z
+DTEND:20250606T150000Z
+BEGIN:VALARM
+ACTION:DISPLAY
+TRIGGER;VALUE=DATE-TIME:20250606T133000Z
+END:VALARM
+END:VEVENT
+END:VCALENDAR`;
+
+/**
+ * In-memory stand-in for the IndexedDB cache, stores a JSON copy like the
+ * localStorage fallback does
+ */
+const createPersister = () => {
+	const store = new Map<string, string>();
+	return {
+		store,
+		persister: {
+			loadConsolidatedCache: async (key: string) =>
+				store.has(key) ? JSON.parse(store.get(key)!) : null,
+			storeConsolidatedCache: async (key: string, data: any) => {
+				store.set(key, JSON.stringify({ data }));
+			},
+			removeConsolidatedCache: async (key: string) => {
+				store.delete(key);
+			},
+		} as unknown as LocalStorageCache,
+	};
+};
+
+const todoContent = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VTODO
+UID:boxes
+SUMMARY:Buy boxes
+DUE:20250610T170000Z
+END:VTODO
+END:VCALENDAR`;
+
+const response = (
+	status: number,
+	headers: Record<string, string> = {},
+	text = content
+) => ({
+	status,
+	text: status === 200 ? text : "",
+	headers,
+});
+
+describe("ICS Cache", () => {
+	beforeEach(() => {
+		mockRequestUrl.mockReset();
+	});
+
+	test("should restore the events of the last session", async () => {
+		const { store, persister } = createPersister();
+		mockRequestUrl.mockResolvedValueOnce(
+			response(200, { ETag: '"v1"', "Last-Modified": "Fri, 06 Jun" })
+		);
+		await new IcsManager(config, DEFAULT_SETTINGS, persister).syncSource(
+			source.id
+		);
+
+		// Credentials stay in the settings
+		expect(store.get("ics-team")).not.toContain("secret");
+
+		const manager = new IcsManager(config, DEFAULT_SETTINGS, persister);
+		await manager.initialize();
+		const [event] = manager.getAllEvents();
+
+		expect(event.summary).toBe("Retro");
+		expect(event.dtstart).toEqual(new Date(Date.UTC(2025, 5, 6, 14)));
+		expect(event.alarms![0].triggerDate).toEqual(
+			new Date(Date.UTC(2025, 5, 6, 13, 30))
+		);
+		expect(event.source).toBe(source);
+		expect(manager.getSyncStatus(source.id)?.eventCount).toBe(1);
+	});
+
+	test("should restore to-dos without a start", async () => {
+		const { persister } = createPersister();
+		mockRequestUrl.mockResolvedValueOnce(response(200, {}, todoContent));
+		await new IcsManager(config, DEFAULT_SETTINGS, persister).syncSource(
+			source.id
+		);
+
+		const manager = new IcsManager(config, DEFAULT_SETTINGS, persister);
+		await manager.initialize();
+		const [task] = manager.convertEventsToTasks(manager.getAllEvents());
+
+		expect(task.metadata.startDate).toBeUndefined();
+		expect(task.metadata.dueDate).toBe(Date.UTC(2025, 5, 10, 17));
+	});
+
+	test("should revalidate with conditional requests", async () => {
+		const { persister } = createPersister();
+		const manager = new IcsManager(config, DEFAULT_SETTINGS, persister);
+		mockRequestUrl.mockResolvedValueOnce(
+			response(200, { etag: '"v1"', "last-modified": "Fri, 06 Jun" })
+		);
+		await manager.syncSource(source.id);
+
+		mockRequestUrl.mockResolvedValueOnce(response(304));
+		const result = await manager.syncSource(source.id);
+
+		expect(mockRequestUrl.mock.calls[1][0].headers).toMatchObject({
+			"If-None-Match": '"v1"',
+			"If-Modified-Since": "Fri, 06 Jun",
+		});
+		expect(result.notModified).toBe(true);
+		expect(manager.getAllEvents()).toHaveLength(1);
+	});
+
+	test("should mark cached sources as stale when offline", async () => {
+		const { persister } = createPersister();
+		const manager = new IcsManager(config, DEFAULT_SETTINGS, persister);
+		mockRequestUrl.mockRejectedValueOnce(new Error("net::ERR_OFFLINE"));
+		await manager.syncSource(source.id);
+		expect(manager.getSyncStatus(source.id)?.status).toBe("error");
+
+		mockRequestUrl.mockResolvedValueOnce(response(200));
+		await manager.syncSource(source.id);
+		mockRequestUrl.mockRejectedValueOnce(new Error("net::ERR_OFFLINE"));
+		await manager.syncSource(source.id);
+
+		expect(manager.getSyncStatus(source.id)).toMatchObject({
+			status: "stale",
+			error: "net::ERR_OFFLINE",
+			eventCount: 1,
+		});
+		expect(manager.getAllEvents()).toHaveLength(1);
+	});
+});
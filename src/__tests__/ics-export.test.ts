@@ -0,0 +1,279 @@
+/**
+ * ICS Export Tests
+ *
+ * Tests for converting tasks to calendar events, serializing them and
+ * keeping the status and priority mapping symmetric with the import
+ */
+
+import { tasksToIcsEvents } from "../utils/ics/IcsExporter";
+import { IcsWriter } from "../utils/ics/IcsWriter";
+import { IcsParser } from "../utils/ics/IcsParser";
+import { StatusMapper } from "../utils/ics/StatusMapper";
+import { recurrenceToRRule } from "../utils/recurrenceUtils";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+import { IcsSource } from "../types/ics";
+import { Task } from "../types/task";
+
+const createTask = (
+	metadata: Partial<Task["metadata"]>,
+	content = "Renew passport",
+	status = " "
+): Task =>
+	({
+		id: "test.md-L0",
+		content,
+		filePath: "test.md",
+		line: 0,
+		completed: status === "x",
+		status,
+		originalMarkdown: `- [${status}] ${content}`,
+		metadata: { tags: [], children: [], ...metadata },
+	} as Task);
+
+const day = (year: number, month: number, date: number) =>
+	new Date(year, month - 1, date).getTime();
+
+const source: IcsSource = {
+	id: "export",
+	name: "Export",
+	url: "",
+	enabled: true,
+	showType: "event",
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+};
+
+describe("ICS Export", () => {
+	describe("Recurrence", () => {
+		test("should convert recurrences to RRULEs", () => {
+			expect(recurrenceToRRule("every week")).toBe("FREQ=WEEKLY");
+			expect(recurrenceToRRule("every 2 days")).toBe(
+				"INTERVAL=2;FREQ=DAILY"
+			);
+			expect(recurrenceToRRule("RRULE:FREQ=MONTHLY;BYMONTHDAY=1")).toBe(
+				"FREQ=MONTHLY;BYMONTHDAY=1"
+			);
+			expect(recurrenceToRRule("whenever I feel like it")).toBe(
+				undefined
+			);
+		});
+	});
+
+	describe("Mapping", () => {
+		test("should map statuses both ways", () => {
+			const statuses = ["x", "-", "/", " "];
+			for (const status of statuses) {
+				const icsStatus = StatusMapper.mapTaskStatusToIcsStatus(
+					status,
+					"VTODO",
+					DEFAULT_SETTINGS
+				);
+				expect(
+					StatusMapper.applyStatusMapping(
+						{
+							uid: "1",
+							summary: "",
+							dtstart: new Date(),
+							allDay: true,
+							status: icsStatus,
+							source,
+						},
+						undefined,
+						DEFAULT_SETTINGS
+					)
+				).toBe(status);
+			}
+			expect(
+				StatusMapper.mapTaskStatusToIcsStatus(
+					"x",
+					"VEVENT",
+					DEFAULT_SETTINGS
+				)
+			).toBe("CONFIRMED");
+		});
+
+		test("should map priorities both ways", () => {
+			for (const priority of [1, 2, 3, 4, 5]) {
+				expect(
+					StatusMapper.mapIcsPriorityToTaskPriority(
+						StatusMapper.mapTaskPriorityToIcsPriority(priority)
+					)
+				).toBe(priority);
+			}
+			// ICS 1 is the highest priority
+			expect(StatusMapper.mapIcsPriorityToTaskPriority(1)).toBe(5);
+			expect(StatusMapper.mapTaskPriorityToIcsPriority(undefined)).toBe(
+				undefined
+			);
+		});
+	});
+
+	describe("Tasks to events", () => {
+		test("should export tasks as to-dos", () => {
+			const [event] = tasksToIcsEvents(
+				[
+					createTask({
+						dueDate: day(2025, 6, 10),
+						priority: 4,
+						recurrence: "every week",
+						tags: ["#errands", "#home"],
+					}),
+				],
+				{ componentType: "VTODO", includeCompleted: false },
+				DEFAULT_SETTINGS
+			);
+
+			expect(event.componentType).toBe("VTODO");
+			expect(event.summary).toBe("Renew passport");
+			expect(event.dtstart).toBeUndefined();
+			expect(event.due?.getTime()).toBe(day(2025, 6, 10));
+			expect(event.status).toBe("NEEDS-ACTION");
+			expect(event.priority).toBe(3);
+			expect(event.categories).toEqual(["errands", "home"]);
+			expect(event.rrule).toBe("FREQ=WEEKLY");
+			expect(event.uid).toMatch(/@task-genius$/);
+		});
+
+		test("should export dated tasks as all-day events", () => {
+			const events = tasksToIcsEvents(
+				[
+					createTask({
+						startDate: day(2025, 6, 2),
+						dueDate: day(2025, 6, 4),
+					}),
+					createTask({}, "Someday"),
+					createTask({ dueDate: day(2025, 6, 1) }, "Done", "x"),
+				],
+				{ componentType: "VEVENT", includeCompleted: false },
+				DEFAULT_SETTINGS
+			);
+
+			expect(events).toHaveLength(1);
+			expect(events[0].dtstart?.getTime()).toBe(day(2025, 6, 2));
+			// DTEND is exclusive
+			expect(events[0].dtend?.getTime()).toBe(day(2025, 6, 5));
+		});
+
+		test("should export timed tasks as date-time events", () => {
+			const start = new Date(2025, 5, 2, 14, 30).getTime();
+			const [event, defaultLength] = tasksToIcsEvents(
+				[
+					createTask({ scheduledDate: start, duration: 90 }),
+					createTask({ dueDate: start }, "Call the bank"),
+				],
+				{ componentType: "VEVENT", includeCompleted: false },
+				DEFAULT_SETTINGS
+			);
+
+			expect(event.allDay).toBe(false);
+			expect(event.dtstart?.getTime()).toBe(start);
+			expect(event.dtend?.getTime()).toBe(start + 90 * 60 * 1000);
+			expect(defaultLength.dtend?.getTime()).toBe(
+				start + 60 * 60 * 1000
+			);
+
+			const lines = IcsWriter.serialize([event]).split("\r\n");
+			const utc = (time: number) =>
+				new Date(time)
+					.toISOString()
+					.replace(/[-:]/g, "")
+					.replace(/\.\d{3}/, "");
+			expect(lines).toContain(`DTSTART:${utc(start)}`);
+			expect(lines).toContain(`DTEND:${utc(start + 90 * 60 * 1000)}`);
+		});
+
+		test("should keep the uid when the task moves", () => {
+			const task = createTask({ dueDate: day(2025, 6, 10) });
+			const moved = { ...task, id: "test.md-L5", line: 5 };
+			const config = {
+				componentType: "VTODO" as const,
+				includeCompleted: true,
+			};
+
+			expect(
+				tasksToIcsEvents([moved], config, DEFAULT_SETTINGS)[0].uid
+			).toBe(tasksToIcsEvents([task], config, DEFAULT_SETTINGS)[0].uid);
+		});
+	});
+
+	describe("Writer", () => {
+		test("should write a calendar the parser reads back", () => {
+			const content = IcsWriter.serialize(
+				tasksToIcsEvents(
+					[
+						createTask(
+							{
+								startDate: day(2025, 6, 2),
+								priority: 5,
+								tags: ["#work"],
+							},
+							"Plan Q3; review budget, hiring"
+						),
+					],
+					{ componentType: "VEVENT", includeCompleted: false },
+					DEFAULT_SETTINGS
+				),
+				{ calendarName: "My tasks" }
+			);
+
+			expect(content).toContain("BEGIN:VCALENDAR\r\n");
+			expect(content).toContain("X-WR-CALNAME:My tasks\r\n");
+			expect(content).toContain(
+				"SUMMARY:Plan Q3\\; review budget\\, hiring\r\n"
+			);
+			expect(content).toContain("DTSTART;VALUE=DATE:20250602\r\n");
+
+			const result = IcsParser.parse(content, source);
+			expect(result.errors).toHaveLength(0);
+			expect(result.events).toHaveLength(1);
+			expect(result.events[0].dtstart.getTime()).toBe(day(2025, 6, 2));
+			expect(result.events[0].allDay).toBe(true);
+			expect(result.events[0].categories).toEqual(["work"]);
+			expect(
+				StatusMapper.mapIcsPriorityToTaskPriority(
+					result.events[0].priority
+				)
+			).toBe(5);
+		});
+
+		test("should fold long lines", () => {
+			const content = IcsWriter.serialize([
+				{
+					uid: "1",
+					summary: "a".repeat(200),
+					dtstart: new Date(Date.UTC(2025, 5, 2, 9, 30)),
+					allDay: false,
+				},
+			]);
+			const lines = content.split("\r\n");
+
+			expect(lines.every((line) => line.length <= 75)).toBe(true);
+			expect(lines).toContain("DTSTART:20250602T093000Z");
+			expect(lines.filter((line) => line.startsWith(" "))).toHaveLength(
+				2
+			);
+		});
+
+		test("should fold multi-byte characters by octets", () => {
+			const summary = "Überprüfung 会议 🗓️ ".repeat(12);
+			const content = IcsWriter.serialize([
+				{
+					uid: "1",
+					summary,
+					dtstart: new Date(Date.UTC(2025, 5, 2, 9, 30)),
+					allDay: false,
+				},
+			]);
+			const lines = content.split("\r\n");
+
+			expect(
+				lines.every((line) => Buffer.byteLength(line, "utf8") <= 75)
+			).toBe(true);
+			expect(lines.some((line) => line.includes("\uFFFD"))).toBe(false);
+			expect(content.replace(/\r\n /g, "")).toContain(
+				`SUMMARY:${summary}`
+			);
+		});
+	});
+});
@@ -0,0 +1,139 @@
+/**
+ * ICS Materialize Tests
+ * Tests for writing calendar events as markdown tasks with an [ics::]
+ * backlink and reading the backlink back
+ */
+
+import { IcsParser } from "../utils/ics/IcsParser";
+import { IcsManager } from "../utils/ics/IcsManager";
+import { RecurrenceExpander } from "../utils/ics/RecurrenceExpander";
+import {
+	getIcsMaterializeKey,
+	icsTaskToMarkdown,
+} from "../utils/ics/IcsMaterializer";
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+import { IcsManagerConfig, IcsSource } from "../types/ics";
+import { createMockPlugin } from "./mockUtils";
+
+const source: IcsSource = {
+	id: "work",
+	name: "Work",
+	url: "https://example.com/work.ics",
+	enabled: true,
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+	showType: "event",
+};
+
+const config: IcsManagerConfig = {
+	sources: [source],
+	enableBackgroundRefresh: false,
+	globalRefreshInterval: 60,
+	maxCacheAge: 24,
+	networkTimeout: 30,
+	maxEventsPerSource: 1000,
+	showInCalendar: true,
+	showInTaskLists: true,
+	defaultEventColor: "#3b82f6",
+};
+
+const content = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+UID:planning@example.com
+SUMMARY:Sprint planning
+DTSTART:20250602T090000
+DTEND:20250602T100000
+END:VEVENT
+BEGIN:VEVENT
+UID:standup
+SUMMARY:Standup
+DTSTART:20250602T093000
+RRULE:FREQ=DAILY;COUNT=3
+END:VEVENT
+BEGIN:VTODO
+UID:report
+SUMMARY:Send report
+DUE;VALUE=DATE:20250606
+PRIORITY:1
+END:VTODO
+END:VCALENDAR`;
+
+const createParser = (format: "tasks" | "dataview") => {
+	const mockPlugin = createMockPlugin({
+		preferMetadataFormat: format,
+		projectTagPrefix: { tasks: "project", dataview: "project" },
+		contextTagPrefix: { tasks: "@", dataview: "context" },
+		areaTagPrefix: { tasks: "area", dataview: "area" },
+	});
+	return new MarkdownTaskParser(getConfig(format, mockPlugin));
+};
+
+describe("ICS Materialize", () => {
+	const { events } = IcsParser.parse(content, source);
+	const manager = new IcsManager(config, DEFAULT_SETTINGS);
+	const tasks = manager.convertEventsToTasks(
+		RecurrenceExpander.expandEvents(
+			events,
+			new Date(2025, 5, 1),
+			new Date(2025, 5, 30)
+		)
+	);
+	const taskByUid = (uid: string) =>
+		tasks.find((task) => task.icsEvent.uid === uid)!;
+
+	test("should give each occurrence its own backlink", () => {
+		const standups = tasks.filter(
+			(task) => task.icsEvent.uid === "standup"
+		);
+		const keys = standups.map((task) => getIcsMaterializeKey(task.icsEvent));
+
+		expect(new Set(keys).size).toBe(3);
+		expect(keys[0]).toBe(
+			`standup/${new Date(2025, 5, 2, 9, 30)
+				.toISOString()
+				.replace(/[-:]|\.\d{3}/g, "")}`
+		);
+		expect(getIcsMaterializeKey(taskByUid("report").icsEvent)).toBe(
+			"report"
+		);
+	});
+
+	test("should write events as scheduled tasks", () => {
+		const line = icsTaskToMarkdown(
+			taskByUid("planning@example.com"),
+			DEFAULT_SETTINGS
+		);
+
+		expect(line).toBe(
+			"- [ ] Sprint planning ⏳ 2025-06-02 [ics:: planning@example.com]"
+		);
+
+		const [task] = createParser("tasks").parseLegacy(line, "Daily.md");
+		expect(task.content).toBe("Sprint planning");
+		expect(task.metadata.icsUid).toBe("planning@example.com");
+		expect(task.metadata.scheduledDate).toBe(
+			new Date(2025, 5, 2).getTime()
+		);
+	});
+
+	test("should write to-dos with their due date and priority", () => {
+		const settings = {
+			...DEFAULT_SETTINGS,
+			preferMetadataFormat: "dataview" as const,
+		};
+		const line = icsTaskToMarkdown(taskByUid("report"), settings);
+
+		expect(line).toBe(
+			"- [ ] Send report [priority:: highest] [due:: 2025-06-06] [ics:: report]"
+		);
+
+		const [task] = createParser("dataview").parseLegacy(line, "Daily.md");
+		expect(task.metadata.icsUid).toBe("report");
+		expect(task.metadata.dueDate).toBe(new Date(2025, 5, 6).getTime());
+		expect(task.metadata.priority).toBe(5);
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * ICS Recurrence Tests
+ * Tests for expanding recurring events into occurrences with EXDATE and
+ * RECURRENCE-ID overrides
+ */
+
+import { IcsParser } from "../utils/ics/IcsParser";
+import { IcsManager } from "../utils/ics/IcsManager";
+import { RecurrenceExpander } from "../utils/ics/RecurrenceExpander";
+import { IcsManagerConfig, IcsSource } from "../types/ics";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+
+const source: IcsSource = {
+	id: "work",
+	name: "Work",
+	url: "https://example.com/work.ics",
+	enabled: true,
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+	showType: "event",
+};
+
+const config: IcsManagerConfig = {
+	sources: [source],
+	enableBackgroundRefresh: false,
+	globalRefreshInterval: 60,
+	maxCacheAge: 24,
+	networkTimeout: 30,
+	maxEventsPerSource: 1000,
+	showInCalendar: true,
+	showInTaskLists: true,
+	defaultEventColor: "#3b82f6",
+};
+
+// Weekly standup on Mondays at 09:30 local time, the second one is
+// cancelled and the third one moved to Tuesday
+const content = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+UID:standup
+SUMMARY:Standup
+DTSTART:20250602T093000
+DTEND:20250602T094500
+RRULE:FREQ=WEEKLY;BYDAY=MO
+EXDATE:20250609T093000
+END:VEVENT
+BEGIN:VEVENT
+UID:standup
+RECURRENCE-ID:20250616T093000
+SUMMARY:Standup (moved)
+DTSTART:20250617T100000
+DTEND:20250617T101500
+END:VEVENT
+BEGIN:VEVENT
+UID:review
+SUMMARY:Monthly review
+DTSTART;VALUE=DATE:20250101
+RRULE:FREQ=MONTHLY;COUNT=3
+END:VEVENT
+BEGIN:VEVENT
+UID:launch
+SUMMARY:Launch
+DTSTART:20250603T120000
+END:VEVENT
+END:VCALENDAR`;
+
+const at = (month: number, day: number, hour = 0, minute = 0) =>
+	new Date(2025, month - 1, day, hour, minute);
+
+describe("ICS Recurrence", () => {
+	const { events } = IcsParser.parse(content, source);
+	const expand = (start: Date, end: Date) =>
+		RecurrenceExpander.expandEvents(events, start, end);
+
+	test("should expand occurrences within the window", () => {
+		const occurrences = expand(at(6, 1), at(7, 1)).filter(
+			(event) => event.uid === "standup"
+		);
+
+		expect(occurrences.map((event) => event.dtstart)).toEqual([
+			at(6, 2, 9, 30),
+			at(6, 17, 10, 0),
+			at(6, 23, 9, 30),
+			at(6, 30, 9, 30),
+		]);
+		// The duration is kept
+		expect(occurrences[0].dtend).toEqual(at(6, 2, 9, 45));
+	});
+
+	test("should use overridden instances", () => {
+		const moved = expand(at(6, 1), at(6, 30)).find(
+			(event) => event.summary === "Standup (moved)"
+		)!;
+
+		expect(moved.recurrenceId).toEqual(at(6, 16, 9, 30));
+		expect(moved.rrule).toBe("FREQ=WEEKLY;BYDAY=MO");
+	});
+
+	test("should leave single events and finished series alone", () => {
+		const expanded = expand(at(6, 1), at(6, 30));
+
+		expect(expanded.filter((event) => event.uid === "launch")).toEqual([
+			events.find((event) => event.uid === "launch"),
+		]);
+		// COUNT=3 ended in March
+		expect(expanded.some((event) => event.uid === "review")).toBe(false);
+		expect(
+			expand(at(1, 1), at(12, 31))
+				.filter((event) => event.uid === "review")
+				.map((event) => event.dtstart)
+		).toEqual([at(1, 1), at(2, 1), at(3, 1)]);
+	});
+
+	test("should give every occurrence a stable task id", () => {
+		const manager = new IcsManager(config, DEFAULT_SETTINGS);
+		const ids = (start: Date) =>
+			manager
+				.convertEventsToTasks(expand(start, at(6, 30)))
+				.filter((task) => task.icsEvent.uid === "standup")
+				.map((task) => task.id);
+
+		const juneIds = ids(at(6, 1));
+		expect(new Set(juneIds).size).toBe(juneIds.length);
+		// Moving the window doesn't change the ids of the occurrences in it
+		expect(ids(at(6, 20))).toEqual(juneIds.slice(2));
+		expect(juneIds[0]).toBe(
+			`ics-work-standup-${at(6, 2, 9, 30)
+				.toISOString()
+				.replace(/[-:]|\.\d{3}/g, "")}`
+		);
+	});
+});
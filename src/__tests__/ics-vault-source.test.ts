@@ -0,0 +1,155 @@
+/**
+ * ICS Vault Source Tests
+ * Tests for reading calendars from .ics files in the vault and for
+ * webcal:// links
+ */
+
+import { TFile, Vault } from "obsidian";
+import { IcsManager, normalizeIcsUrl } from "../utils/ics/IcsManager";
+import { IcsManagerConfig, IcsSource } from "../types/ics";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+
+const source: IcsSource = {
+	id: "synced",
+	name: "Synced",
+	type: "vault",
+	url: "",
+	filePath: "Calendars/synced.ics",
+	enabled: true,
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+	showType: "event",
+};
+
+const config: IcsManagerConfig = {
+	sources: [source],
+	enableBackgroundRefresh: true,
+	globalRefreshInterval: 60,
+	maxCacheAge: 24,
+	networkTimeout: 30,
+	maxEventsPerSource: 1000,
+	showInCalendar: true,
+	showInTaskLists: true,
+	defaultEventColor: "#3b82f6",
+};
+
+const calendar = (...summaries: string[]) =>
+	[
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		...summaries.flatMap((summary, index) => [
+			"BEGIN:VEVENT",
+			`UID:${index}`,
+			`SUMMARY:${summary}`,
+			"DTSTART;VALUE=DATE:20250610",
+			"END:VEVENT",
+		]),
+		"END:VCALENDAR",
+	].join("\n");
+
+const createFile = (path: string) =>
+	Object.assign(new TFile(), { path, name: path.split("/").pop() });
+
+/**
+ * Vault with a single .ics file whose content can be changed
+ */
+const createVault = (content: string) => {
+	const file = createFile(source.filePath!);
+	const handlers: Record<string, (file: TFile) => void> = {};
+	const vault = {
+		content,
+		handlers,
+		file,
+		on: (name: string, handler: (file: TFile) => void) => {
+			handlers[name] = handler;
+			return {};
+		},
+		getAbstractFileByPath: (path: string) =>
+			path === file.path ? file : null,
+		cachedRead: async () => vault.content,
+	};
+	return vault;
+};
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("ICS Vault Sources", () => {
+	test("should normalize webcal links", () => {
+		expect(normalizeIcsUrl("webcal://example.com/cal.ics")).toBe(
+			"https://example.com/cal.ics"
+		);
+		expect(normalizeIcsUrl(" WEBCALS://example.com/cal.ics")).toBe(
+			"https://example.com/cal.ics"
+		);
+		expect(normalizeIcsUrl("http://example.com/cal.ics")).toBe(
+			"http://example.com/cal.ics"
+		);
+	});
+
+	test("should read events from the vault file", async () => {
+		const vault = createVault(calendar("Planning"));
+		const manager = new IcsManager(
+			config,
+			DEFAULT_SETTINGS,
+			undefined,
+			vault as unknown as Vault
+		);
+
+		const result = await manager.syncSource(source.id);
+
+		expect(result.success).toBe(true);
+		expect(manager.getAllEvents().map((event) => event.summary)).toEqual([
+			"Planning",
+		]);
+	});
+
+	test("should refresh when the file changes instead of on a timer", async () => {
+		const vault = createVault(calendar("Planning"));
+		const manager = new IcsManager(
+			config,
+			DEFAULT_SETTINGS,
+			undefined,
+			vault as unknown as Vault
+		);
+		const setIntervalSpy = jest.spyOn(global, "setInterval");
+		manager.load();
+		await manager.initialize();
+		expect(setIntervalSpy).not.toHaveBeenCalled();
+		setIntervalSpy.mockRestore();
+
+		vault.content = calendar("Planning", "Review");
+		vault.handlers["modify"](vault.file);
+		await flushPromises();
+
+		expect(manager.getAllEvents()).toHaveLength(2);
+
+		// Other files are ignored
+		vault.content = calendar();
+		vault.handlers["modify"](createFile("notes.md"));
+		await flushPromises();
+
+		expect(manager.getAllEvents()).toHaveLength(2);
+		manager.unload();
+	});
+
+	test("should report a missing file", async () => {
+		const vault = createVault("");
+		const manager = new IcsManager(
+			{
+				...config,
+				sources: [{ ...source, filePath: "Calendars/missing.ics" }],
+			},
+			DEFAULT_SETTINGS,
+			undefined,
+			vault as unknown as Vault
+		);
+
+		await manager.syncSource(source.id);
+
+		expect(manager.getSyncStatus(source.id)).toMatchObject({
+			status: "error",
+			error: "File not found: Calendars/missing.ics",
+		});
+	});
+});
@@ -0,0 +1,195 @@
+/**
+ * ICS To-do Tests
+ * Tests for parsing VTODO and VALARM components and converting to-dos to
+ * tasks with their hierarchy
+ */
+
+import { IcsParser } from "../utils/ics/IcsParser";
+import { IcsManager } from "../utils/ics/IcsManager";
+import { IcsManagerConfig, IcsSource } from "../types/ics";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+
+const source: IcsSource = {
+	id: "caldav",
+	name: "CalDAV",
+	url: "https://example.com/tasks.ics",
+	enabled: true,
+	refreshInterval: 60,
+	showAllDayEvents: true,
+	showTimedEvents: true,
+	showType: "event",
+};
+
+const config: IcsManagerConfig = {
+	sources: [source],
+	enableBackgroundRefresh: false,
+	globalRefreshInterval: 60,
+	maxCacheAge: 24,
+	networkTimeout: 30,
+	maxEventsPerSource: 1000,
+	showInCalendar: true,
+	showInTaskLists: true,
+	defaultEventColor: "#3b82f6",
+};
+
+const content = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Example//CalDAV//EN
+BEGIN:VTODO
+UID:move
+SUMMARY:Move house
+DTSTART;VALUE=DATE:20250601
+DUE;VALUE=DATE:20250630
+PERCENT-COMPLETE:40
+STATUS:NEEDS-ACTION
+BEGIN:VALARM
+ACTION:DISPLAY
+DESCRIPTION:Moving soon
+TRIGGER:-P1D
+END:VALARM
+END:VTODO
+BEGIN:VTODO
+UID:boxes
+SUMMARY:Buy boxes
+DUE:20250610T170000Z
+RELATED-TO:move
+BEGIN:VALARM
+ACTION:DISPLAY
+TRIGGER;RELATED=END:-PT30M
+END:VALARM
+END:VTODO
+BEGIN:VTODO
+UID:utilities
+SUMMARY:Cancel utilities
+RELATED-TO;RELTYPE=PARENT:move
+COMPLETED:20250605T120000Z
+STATUS:COMPLETED
+END:VTODO
+BEGIN:VTODO
+UID:someday
+SUMMARY:Sort photos
+END:VTODO
+BEGIN:VEVENT
+UID:party
+SUMMARY:Housewarming party
+DESCRIPTION:Bring snacks
+DTSTART:20250705T180000Z
+DTEND:20250705T230000Z
+BEGIN:VALARM
+ACTION:AUDIO
+TRIGGER;VALUE=DATE-TIME:20250705T170000Z
+END:VALARM
+END:VEVENT
+END:VCALENDAR`;
+
+describe("ICS To-dos", () => {
+	const result = IcsParser.parse(content, source);
+	const byUid = (uid: string) =>
+		result.events.find((event) => event.uid === uid)!;
+
+	describe("Parsing", () => {
+		test("should parse to-dos next to events", () => {
+			expect(result.errors).toHaveLength(0);
+			expect(result.events.map((event) => event.uid)).toEqual([
+				"move",
+				"boxes",
+				"utilities",
+				"someday",
+				"party",
+			]);
+			expect(byUid("move").componentType).toBe("VTODO");
+			expect(byUid("party").componentType).toBe("VEVENT");
+		});
+
+		test("should parse to-do properties", () => {
+			const move = byUid("move");
+			expect(move.due).toEqual(new Date(2025, 5, 30));
+			expect(move.percentComplete).toBe(40);
+			expect(move.allDay).toBe(true);
+
+			expect(byUid("boxes").relatedTo).toBe("move");
+			expect(byUid("utilities").relatedTo).toBe("move");
+			expect(byUid("utilities").completed).toEqual(
+				new Date(Date.UTC(2025, 5, 5, 12))
+			);
+		});
+
+		test("should place to-dos without a start on their due date", () => {
+			const boxes = byUid("boxes");
+			expect(boxes.dtstart).toEqual(boxes.due);
+			expect(boxes.undated).toBeUndefined();
+			expect(byUid("someday").undated).toBe(true);
+		});
+
+		test("should keep alarm properties out of the event", () => {
+			const party = byUid("party");
+			expect(party.description).toBe("Bring snacks");
+			expect(party.alarms).toEqual([
+				expect.objectContaining({
+					action: "AUDIO",
+					triggerDate: new Date(Date.UTC(2025, 6, 5, 17)),
+				}),
+			]);
+			expect(byUid("move").alarms![0].description).toBe("Moving soon");
+			expect(byUid("move").description).toBeUndefined();
+		});
+
+		test("should resolve alarm times", () => {
+			expect(IcsParser.getAlarmTimes(byUid("move"))).toEqual([
+				new Date(2025, 4, 31),
+			]);
+			// Relative to the due date
+			expect(IcsParser.getAlarmTimes(byUid("boxes"))).toEqual([
+				new Date(Date.UTC(2025, 5, 10, 16, 30)),
+			]);
+			expect(IcsParser.getAlarmTimes(byUid("someday"))).toEqual([]);
+		});
+	});
+
+	describe("Tasks", () => {
+		const manager = new IcsManager(config, DEFAULT_SETTINGS);
+		const tasks = manager.convertEventsToTasks(result.events);
+		const taskByUid = (uid: string) =>
+			tasks.find((task) => task.icsEvent.uid === uid)!;
+
+		test("should map to-do dates and progress", () => {
+			const move = taskByUid("move");
+			expect(move.metadata.startDate).toBe(
+				new Date(2025, 5, 1).getTime()
+			);
+			expect(move.metadata.dueDate).toBe(new Date(2025, 5, 30).getTime());
+			expect(move.status).toBe("/");
+
+			const boxes = taskByUid("boxes");
+			expect(boxes.metadata.startDate).toBeUndefined();
+			expect(boxes.metadata.dueDate).toBe(
+				Date.UTC(2025, 5, 10, 17, 0, 0)
+			);
+			expect(boxes.status).toBe(" ");
+
+			const utilities = taskByUid("utilities");
+			expect(utilities.completed).toBe(true);
+			expect(utilities.metadata.completedDate).toBe(
+				Date.UTC(2025, 5, 5, 12)
+			);
+
+			const someday = taskByUid("someday");
+			expect(someday.metadata.startDate).toBeUndefined();
+			expect(someday.metadata.dueDate).toBeUndefined();
+		});
+
+		test("should link parents and children", () => {
+			const move = taskByUid("move");
+			expect(move.metadata.children).toEqual([
+				taskByUid("boxes").id,
+				taskByUid("utilities").id,
+			]);
+			expect(taskByUid("boxes").metadata.parent).toBe(move.id);
+		});
+
+		test("should keep to-dos with a missing parent at the top level", () => {
+			const [orphan] = manager.convertEventsToTasks([byUid("boxes")]);
+			expect(orphan.metadata.parent).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Kanban Grouping Tests
+ * Tests for splitting kanban cards into swimlanes and for the changes a
+ * card dropped into another lane makes
+ */
+
+import {
+	getPropertyGroups,
+	getSwimlaneBy,
+	isTaskInGroup,
+	moveTaskToGroup,
+} from "../components/kanban/kanban-grouping";
+import { KanbanSpecificConfig } from "../common/setting-definition";
+import { Task } from "../types/task";
+
+const createTask = (
+	id: string,
+	metadata: Partial<Task["metadata"]> = {}
+): Task => ({
+	id,
+	content: id,
+	filePath: "Tasks.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: `- [ ] ${id}`,
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+const createConfig = (
+	config: Partial<KanbanSpecificConfig> = {}
+): KanbanSpecificConfig => ({
+	viewType: "kanban",
+	showCheckbox: true,
+	hideEmptyColumns: false,
+	defaultSortField: "priority",
+	defaultSortOrder: "desc",
+	groupBy: "status",
+	...config,
+});
+
+describe("Kanban Grouping", () => {
+	test("should only split into lanes by another property", () => {
+		expect(getSwimlaneBy(createConfig({ swimlaneBy: "project" }))).toBe(
+			"project"
+		);
+		expect(getSwimlaneBy(createConfig({ swimlaneBy: "none" }))).toBeNull();
+		expect(
+			getSwimlaneBy(
+				createConfig({ groupBy: "project", swimlaneBy: "project" })
+			)
+		).toBeNull();
+		expect(getSwimlaneBy(undefined)).toBeNull();
+	});
+
+	test("should put every task in the lane of its value", () => {
+		const tasks = [
+			createTask("a", { project: "Home" }),
+			createTask("b", { project: "Work" }),
+			createTask("c", { project: "Home" }),
+			createTask("d"),
+		];
+		const lanes = getPropertyGroups("project", tasks);
+
+		expect(lanes.map((lane) => lane.title)).toEqual([
+			"Home",
+			"Work",
+			"No Project",
+		]);
+		expect(
+			lanes.map((lane) =>
+				tasks
+					.filter((task) =>
+						isTaskInGroup(task, "project", lane.value)
+					)
+					.map((task) => task.id)
+			)
+		).toEqual([["a", "c"], ["b"], ["d"]]);
+
+		const priorityLanes = getPropertyGroups("priority", tasks);
+		expect(priorityLanes[priorityLanes.length - 1].id).toBe(
+			"priority-none"
+		);
+		expect(
+			isTaskInGroup(createTask("e", { priority: 4 }), "priority", 4)
+		).toBe(true);
+	});
+
+	test("should give a card dropped into a lane the lane's value", () => {
+		const task = createTask("a", {
+			project: "Home",
+			context: "phone",
+			tags: ["#errands", "#calls"],
+		});
+
+		expect(
+			moveTaskToGroup(task, "project", "Home", "Work")?.metadata.project
+		).toBe("Work");
+		expect(
+			moveTaskToGroup(task, "context", "phone", "")?.metadata.context
+		).toBeUndefined();
+		expect(
+			moveTaskToGroup(task, "tags", "#errands", "#home")?.metadata.tags
+		).toEqual(["#calls", "#home"]);
+		expect(moveTaskToGroup(task, "status", "", "x")).toBeNull();
+		// The indexed task is left untouched
+		expect(task.metadata.project).toBe("Home");
+	});
+
+	test("should keep read-only projects on lane drops", () => {
+		const task = createTask("a", {
+			tgProject: { type: "path", name: "Inbox", readonly: true },
+		});
+
+		expect(
+			moveTaskToGroup(task, "project", "Inbox", "Work")?.metadata.project
+		).toBeUndefined();
+	});
+});
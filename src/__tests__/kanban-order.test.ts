@@ -0,0 +1,67 @@
+/**
+ * Kanban Order Tests
+ * Tests for the order keys that keep the manual order of kanban cards
+ */
+
+import {
+	getOrderKeyChanges,
+	ORDER_KEY_GAP,
+} from "../components/kanban/kanban-order";
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+
+// Changed keys after moving a card, as [id, key] pairs
+const move = (
+	orders: Record<string, number | undefined>,
+	columnIds: string[],
+	movedId: string
+) => [...getOrderKeyChanges(columnIds, movedId, (id) => orders[id])];
+
+describe("Kanban Order", () => {
+	test("should give a moved card a key between its neighbours", () => {
+		const orders = { a: 1000, b: 2000, c: 3000 };
+
+		expect(move(orders, ["a", "c", "b"], "c")).toEqual([["c", 1500]]);
+		expect(move(orders, ["c", "a", "b"], "c")).toEqual([
+			["c", 1000 - ORDER_KEY_GAP],
+		]);
+		expect(move(orders, ["b", "c", "a"], "a")).toEqual([
+			["a", 3000 + ORDER_KEY_GAP],
+		]);
+	});
+
+	test("should renumber the column when there is no room", () => {
+		const orders = { a: 1, b: 2, c: 3 };
+
+		expect(move(orders, ["a", "c", "b"], "c")).toEqual([
+			["a", 1000],
+			["c", 2000],
+			["b", 3000],
+		]);
+	});
+
+	test("should number cards without keys up to the moved card", () => {
+		const orders = {};
+
+		expect(move(orders, ["a", "c", "b"], "c")).toEqual([
+			["a", 1000],
+			["c", 2000],
+		]);
+		expect(move(orders, ["b", "a", "c"], "b")).toEqual([
+			["b", ORDER_KEY_GAP],
+		]);
+	});
+
+	test("should read the order field of a task", () => {
+		const parser = new MarkdownTaskParser(getConfig("tasks"));
+
+		const [task] = parser.parseLegacy(
+			"- [ ] Write report [order:: 1500]",
+			"test.md"
+		);
+		expect(task.metadata.order).toBe(1500);
+
+		const [unordered] = parser.parseLegacy("- [ ] Write report", "test.md");
+		expect(unordered.metadata.order).toBeUndefined();
+	});
+});
@@ -0,0 +1,115 @@
+/**
+ * Kanban Policy Tests
+ * Tests for the WIP limits and done rules of kanban columns
+ */
+
+import {
+	getColumnPolicy,
+	getUnmetDoneRules,
+} from "../components/kanban/kanban-policy";
+import { KanbanSpecificConfig } from "../common/setting-definition";
+import { Task } from "../types/task";
+
+const createTask = (
+	id: string,
+	completed = false,
+	metadata: Partial<Task["metadata"]> = {}
+): Task => ({
+	id,
+	content: id,
+	filePath: "Tasks.md",
+	line: 0,
+	completed,
+	status: completed ? "x" : " ",
+	originalMarkdown: `- [${completed ? "x" : " "}] ${id}`,
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+const createConfig = (
+	config: Partial<KanbanSpecificConfig> = {}
+): KanbanSpecificConfig => ({
+	viewType: "kanban",
+	showCheckbox: true,
+	hideEmptyColumns: false,
+	defaultSortField: "priority",
+	defaultSortOrder: "desc",
+	groupBy: "status",
+	...config,
+});
+
+describe("Kanban Policy", () => {
+	test("should find the policy of status and custom columns", () => {
+		const statusConfig = createConfig({
+			statusColumnPolicies: { "In Progress": { wipLimit: 3 } },
+		});
+		expect(getColumnPolicy(statusConfig, "In Progress")).toEqual({
+			wipLimit: 3,
+		});
+		expect(getColumnPolicy(statusConfig, "Done")).toBeUndefined();
+
+		const customConfig = createConfig({
+			groupBy: "project",
+			customColumns: [
+				{
+					id: "review",
+					title: "Review",
+					value: "review",
+					order: 0,
+					wipLimit: 2,
+					doneRules: ["noOpenSubtasks"],
+				},
+			],
+		});
+		expect(getColumnPolicy(customConfig, "Review")).toMatchObject({
+			wipLimit: 2,
+			doneRules: ["noOpenSubtasks"],
+		});
+		expect(getColumnPolicy(undefined, "Review")).toBeUndefined();
+	});
+
+	test("should report the done rules a task does not meet", () => {
+		const subtasks = new Map([
+			["open", createTask("open")],
+			["done", createTask("done", true)],
+		]);
+		const getTask = (id: string) => subtasks.get(id);
+
+		const task = createTask("parent", false, {
+			children: ["open", "done"],
+		});
+		expect(
+			getUnmetDoneRules(
+				task,
+				["completedDate", "noOpenSubtasks"],
+				getTask
+			)
+		).toEqual(["completedDate", "noOpenSubtasks"]);
+
+		const finished = createTask("parent", true, {
+			children: ["done"],
+			completedDate: new Date(2025, 2, 1).getTime(),
+		});
+		expect(
+			getUnmetDoneRules(
+				finished,
+				["completedDate", "noOpenSubtasks"],
+				getTask
+			)
+		).toEqual([]);
+	});
+
+	test("should accept a drop that completes the task", () => {
+		expect(
+			getUnmetDoneRules(
+				createTask("task"),
+				["completedDate"],
+				() => undefined,
+				true
+			)
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,227 @@
+/**
+ * Recurrence Tests
+ *
+ * Tests for parsing 🏁 / [onCompletion::] / [completions::], next
+ * occurrence dates, projected occurrences and the completion history
+ */
+
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import {
+	appendCompletionHistory,
+	calculateNextOccurrence,
+	getProjectedOccurrences,
+	insertCompletionHistoryLine,
+	isRecurrenceGhost,
+} from "../utils/recurrenceUtils";
+import { Task } from "../types/task";
+import { createMockPlugin } from "./mockUtils";
+
+const createParser = (format: "tasks" | "dataview" = "tasks") => {
+	const mockPlugin = createMockPlugin({
+		preferMetadataFormat: format,
+		projectTagPrefix: { tasks: "project", dataview: "project" },
+		contextTagPrefix: { tasks: "@", dataview: "context" },
+		areaTagPrefix: { tasks: "area", dataview: "area" },
+	});
+	return new MarkdownTaskParser(getConfig(format, mockPlugin));
+};
+
+const createTask = (
+	metadata: Partial<Task["metadata"]>,
+	content = "Water the plants"
+): Task =>
+	({
+		id: "test.md-L0",
+		content,
+		filePath: "test.md",
+		line: 0,
+		completed: false,
+		status: " ",
+		originalMarkdown: `- [ ] ${content}`,
+		metadata: { tags: [], children: [], ...metadata },
+	} as Task);
+
+const day = (year: number, month: number, date: number) =>
+	new Date(year, month - 1, date).getTime();
+
+describe("Recurrence", () => {
+	describe("Parsing", () => {
+		test("should parse 🏁 without eating the text after it", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Water the plants 🔁 every week 🏁 delete in the hall",
+				"test.md"
+			);
+
+			expect(task.metadata.recurrence).toBe("every week");
+			expect(task.metadata.onCompletion).toBe("delete");
+			expect(task.content).toBe("Water the plants in the hall");
+		});
+
+		test("should parse dataview onCompletion and completions", () => {
+			const parser = createParser("dataview");
+			const [task] = parser.parseLegacy(
+				"- [ ] Water the plants [repeat:: every week] [onCompletion:: Keep] [completions:: 2025-06-01, 2025-06-08]",
+				"test.md"
+			);
+
+			expect(task.metadata.onCompletion).toBe("keep");
+			expect(task.metadata.completions).toEqual([
+				"2025-06-01",
+				"2025-06-08",
+			]);
+		});
+
+		test("should ignore unknown onCompletion values", () => {
+			const parser = createParser("dataview");
+			const [task] = parser.parseLegacy(
+				"- [ ] Water the plants [onCompletion:: archive]",
+				"test.md"
+			);
+
+			expect(task.metadata.onCompletion).toBeUndefined();
+		});
+	});
+
+	describe("Next occurrence", () => {
+		test("should calculate simple rules", () => {
+			const base = new Date(2025, 5, 2); // Monday
+
+			expect(calculateNextOccurrence("every day", base)).toBe(
+				day(2025, 6, 3)
+			);
+			expect(calculateNextOccurrence("every 2 weeks", base)).toBe(
+				day(2025, 6, 16)
+			);
+			expect(calculateNextOccurrence("every month", base)).toBe(
+				day(2025, 7, 2)
+			);
+			expect(calculateNextOccurrence("every friday", base)).toBe(
+				day(2025, 6, 6)
+			);
+			expect(
+				calculateNextOccurrence("every month on the 15th", base)
+			).toBe(day(2025, 6, 15));
+		});
+
+		test("should keep the interval of weekday rules", () => {
+			const monday = new Date(2025, 5, 2);
+			const wednesday = new Date(2025, 5, 4);
+
+			expect(
+				calculateNextOccurrence("every 2 weeks on monday", monday)
+			).toBe(day(2025, 6, 16));
+			expect(
+				calculateNextOccurrence("every 2 weeks on monday", wednesday)
+			).toBe(day(2025, 6, 16));
+			expect(
+				calculateNextOccurrence("every week on monday", monday)
+			).toBe(day(2025, 6, 9));
+		});
+
+		test("should calculate RRULE strings", () => {
+			expect(
+				calculateNextOccurrence(
+					"FREQ=WEEKLY;INTERVAL=1",
+					new Date(2025, 5, 2)
+				)
+			).toBe(day(2025, 6, 9));
+		});
+	});
+
+	describe("Projected occurrences", () => {
+		test("should project occurrences until the end date", () => {
+			const task = createTask({
+				recurrence: "every week",
+				dueDate: day(2025, 6, 2),
+				startDate: day(2025, 5, 31),
+			});
+
+			const ghosts = getProjectedOccurrences(task, day(2025, 6, 23));
+
+			expect(ghosts.map((ghost) => ghost.metadata.dueDate)).toEqual([
+				day(2025, 6, 9),
+				day(2025, 6, 16),
+				day(2025, 6, 23),
+			]);
+			// The start date keeps its distance to the due date
+			expect(ghosts[0].metadata.startDate).toBe(day(2025, 6, 7));
+			expect(ghosts[0].id).toBe("test.md-L0-occurrence-2025-06-09");
+			expect(ghosts.every(isRecurrenceGhost)).toBe(true);
+			expect(ghosts[0].readonly).toBe(true);
+			expect(isRecurrenceGhost(task)).toBe(false);
+		});
+
+		test("should move the scheduled date when there is no due date", () => {
+			const task = createTask({
+				recurrence: "every day",
+				scheduledDate: day(2025, 6, 2),
+			});
+
+			const ghosts = getProjectedOccurrences(task, day(2025, 6, 30), 2);
+
+			expect(ghosts).toHaveLength(2);
+			expect(ghosts[1].metadata.scheduledDate).toBe(day(2025, 6, 4));
+			expect(ghosts[1].metadata.dueDate).toBeUndefined();
+		});
+
+		test("should not project completed or undated tasks", () => {
+			const until = day(2025, 12, 31);
+
+			expect(
+				getProjectedOccurrences(
+					{
+						...createTask({
+							recurrence: "every day",
+							dueDate: day(2025, 6, 2),
+						}),
+						completed: true,
+					},
+					until
+				)
+			).toHaveLength(0);
+			expect(
+				getProjectedOccurrences(
+					createTask({ recurrence: "every day" }),
+					until
+				)
+			).toHaveLength(0);
+		});
+	});
+
+	describe("Completion history", () => {
+		test("should keep the latest completions in the property", () => {
+			expect(appendCompletionHistory(undefined, "2025-06-01", 3)).toEqual(
+				["2025-06-01"]
+			);
+			expect(
+				appendCompletionHistory(
+					["2025-05-18", "2025-05-25", "2025-06-01"],
+					"2025-06-08",
+					3
+				)
+			).toEqual(["2025-05-25", "2025-06-01", "2025-06-08"]);
+		});
+
+		test("should insert a history child and drop the oldest", () => {
+			const lines = [
+				"- [ ] Water the plants 🔁 every week 📅 2025-06-15",
+				"\t- ✅ 2025-06-01",
+				"\t- [ ] Buy fertilizer",
+				"\t- ✅ 2025-05-25",
+				"- [ ] Another task",
+			];
+
+			insertCompletionHistoryLine(lines, 0, "", "2025-06-08", 2);
+
+			expect(lines).toEqual([
+				"- [ ] Water the plants 🔁 every week 📅 2025-06-15",
+				"\t- ✅ 2025-06-08",
+				"\t- ✅ 2025-06-01",
+				"\t- [ ] Buy fertilizer",
+				"- [ ] Another task",
+			]);
+		});
+	});
+});
@@ -0,0 +1,237 @@
+/**
+ * Reminder Tests
+ *
+ * Tests for parsing 🔔 / [reminder::], resolving reminder times and
+ * picking the reminders that should fire
+ */
+
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import {
+	getDueReminders,
+	getReminderKey,
+	parseReminderOffset,
+	resolveReminderTime,
+} from "../utils/reminderUtils";
+import { ReminderSettings } from "../common/setting-definition";
+import { Task } from "../types/task";
+import { createMockPlugin } from "./mockUtils";
+
+const createParser = (format: "tasks" | "dataview" = "tasks") => {
+	const mockPlugin = createMockPlugin({
+		preferMetadataFormat: format,
+		projectTagPrefix: { tasks: "project", dataview: "project" },
+		contextTagPrefix: { tasks: "@", dataview: "context" },
+		areaTagPrefix: { tasks: "area", dataview: "area" },
+	});
+	return new MarkdownTaskParser(getConfig(format, mockPlugin));
+};
+
+const createSettings = (
+	overrides: Partial<ReminderSettings> = {}
+): ReminderSettings => ({
+	enableReminders: true,
+	defaultTime: "09:00",
+	remindBeforeDue: false,
+	defaultOffset: "0m",
+	snoozeMinutes: 10,
+	systemNotifications: false,
+	firedReminders: {},
+	snoozedReminders: {},
+	...overrides,
+});
+
+const createTask = (
+	metadata: Partial<Task["metadata"]>,
+	content = "Call the dentist"
+): Task =>
+	({
+		id: "test.md-L0",
+		content,
+		filePath: "test.md",
+		line: 0,
+		completed: false,
+		status: " ",
+		originalMarkdown: `- [ ] ${content}`,
+		metadata: { tags: [], children: [], ...metadata },
+	} as Task);
+
+const at = (year: number, month: number, day: number, h = 0, m = 0) =>
+	new Date(year, month - 1, day, h, m).getTime();
+
+describe("Reminders", () => {
+	describe("Parsing", () => {
+		test("should parse a reminder date and time without eating the text after it", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Call the dentist 🔔 2025-06-01 14:30 about the bill",
+				"test.md"
+			);
+
+			expect(task.metadata.reminder).toBe("2025-06-01 14:30");
+			expect(task.content).toBe("Call the dentist about the bill");
+		});
+
+		test("should treat a bare bell as a default reminder", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Call the dentist 🔔 📅 2025-06-01",
+				"test.md"
+			);
+
+			expect(task.metadata.reminder).toBe("true");
+			expect(task.metadata.dueDate).toBeDefined();
+		});
+
+		test("should parse a dataview reminder", () => {
+			const parser = createParser("dataview");
+			const [task] = parser.parseLegacy(
+				"- [ ] Call the dentist [reminder:: 1h]",
+				"test.md"
+			);
+
+			expect(task.metadata.reminder).toBe("1h");
+		});
+	});
+
+	describe("Resolving", () => {
+		test("should parse offsets", () => {
+			expect(parseReminderOffset("30m")).toBe(30);
+			expect(parseReminderOffset("-1h")).toBe(60);
+			expect(parseReminderOffset("2d")).toBe(2880);
+			expect(parseReminderOffset("soon")).toBeUndefined();
+		});
+
+		test("should resolve absolute reminders", () => {
+			const settings = createSettings();
+
+			expect(
+				resolveReminderTime(
+					createTask({ reminder: "2025-06-01 14:30" }),
+					settings
+				)
+			).toBe(at(2025, 6, 1, 14, 30));
+			// Date only uses the default time
+			expect(
+				resolveReminderTime(
+					createTask({ reminder: "2025-06-01" }),
+					settings
+				)
+			).toBe(at(2025, 6, 1, 9, 0));
+		});
+
+		test("should resolve times and offsets against the due date", () => {
+			const settings = createSettings();
+			const dueDate = at(2025, 6, 10);
+
+			expect(
+				resolveReminderTime(
+					createTask({ reminder: "16:00", dueDate }),
+					settings
+				)
+			).toBe(at(2025, 6, 10, 16, 0));
+			expect(
+				resolveReminderTime(
+					createTask({ reminder: "1h", dueDate }),
+					settings
+				)
+			).toBe(at(2025, 6, 10, 8, 0));
+			// Offsets need a date to count from
+			expect(
+				resolveReminderTime(createTask({ reminder: "1h" }), settings)
+			).toBeUndefined();
+		});
+
+		test("should only remind tasks without a bell when enabled", () => {
+			const task = createTask({ scheduledDate: at(2025, 6, 10) });
+
+			expect(
+				resolveReminderTime(task, createSettings())
+			).toBeUndefined();
+			expect(
+				resolveReminderTime(
+					task,
+					createSettings({
+						remindBeforeDue: true,
+						defaultOffset: "1d",
+					})
+				)
+			).toBe(at(2025, 6, 9, 9, 0));
+		});
+	});
+
+	describe("Due reminders", () => {
+		const reminderTime = at(2025, 6, 1, 14, 30);
+		const task = createTask({ reminder: "2025-06-01 14:30" });
+
+		test("should fire reminders that fell due since the last check", () => {
+			const due = getDueReminders(
+				[task],
+				createSettings(),
+				reminderTime + 60000,
+				reminderTime - 60000
+			);
+
+			expect(due).toHaveLength(1);
+			expect(due[0].time).toBe(reminderTime);
+			expect(due[0].snoozed).toBe(false);
+		});
+
+		test("should catch up on reminders missed while closed", () => {
+			// Last checked yesterday, reminder went off in between
+			const due = getDueReminders(
+				[task],
+				createSettings(),
+				reminderTime + 6 * 60 * 60000,
+				reminderTime - 24 * 60 * 60000
+			);
+
+			expect(due).toHaveLength(1);
+		});
+
+		test("should skip fired, future, old and completed reminders", () => {
+			const now = reminderTime + 60000;
+			const fired = createSettings({
+				firedReminders: { [getReminderKey(task, reminderTime)]: now },
+			});
+
+			expect(getDueReminders([task], fired, now, 0)).toHaveLength(0);
+			expect(
+				getDueReminders([task], createSettings(), reminderTime - 1, 0)
+			).toHaveLength(0);
+			// Due before the last check: it was already handled back then
+			expect(
+				getDueReminders([task], createSettings(), now, reminderTime)
+			).toHaveLength(0);
+			expect(
+				getDueReminders(
+					[{ ...task, completed: true }],
+					createSettings(),
+					now,
+					0
+				)
+			).toHaveLength(0);
+		});
+
+		test("should fire snoozed reminders once the snooze runs out", () => {
+			const key = getReminderKey(task, reminderTime);
+			const settings = createSettings({
+				firedReminders: { [key]: reminderTime },
+				snoozedReminders: { [key]: reminderTime + 10 * 60000 },
+			});
+
+			expect(
+				getDueReminders([task], settings, reminderTime + 5 * 60000, 0)
+			).toHaveLength(0);
+
+			const due = getDueReminders(
+				[task],
+				settings,
+				reminderTime + 11 * 60000,
+				0
+			);
+			expect(due).toHaveLength(1);
+			expect(due[0].snoozed).toBe(true);
+		});
+	});
+});
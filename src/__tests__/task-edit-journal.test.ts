@@ -0,0 +1,163 @@
+/**
+ * Task Edit Journal Tests
+ * Tests for the order of undo and redo, and for applying the recorded line
+ * changes in both directions
+ */
+
+import { TaskEditJournal } from "../utils/TaskEditJournal";
+import {
+	getLineChange,
+	invertLineChange,
+	revertLineChange,
+	TaskLineChange,
+} from "../utils/bulkEdit";
+import { TaskManager } from "../utils/TaskManager";
+import { Task } from "../types/task";
+
+const change = (line: number): TaskLineChange =>
+	getLineChange("Tasks.md", `- [ ] Task ${line}`, `- [x] Task ${line}`)!;
+
+// A task manager on a vault of in-memory files
+const createManager = (
+	files: Map<string, string>,
+	journal: TaskEditJournal
+): TaskManager => {
+	const getFile = (path: string) => (files.has(path) ? { path } : null);
+	const manager = Object.create(TaskManager.prototype);
+	manager.editJournal = journal;
+	manager.indexFile = async () => {};
+	manager.vault = {
+		getFileByPath: getFile,
+		getAbstractFileByPath: getFile,
+		read: async (file: { path: string }) => files.get(file.path),
+		process: async (
+			file: { path: string },
+			edit: (data: string) => string
+		) => files.set(file.path, edit(files.get(file.path)!)),
+		create: async (path: string, content: string) => {
+			files.set(path, content);
+			return { path };
+		},
+		createFolder: async () => {},
+		delete: async (file: { path: string }) => files.delete(file.path),
+	};
+	return manager;
+};
+
+describe("Task Edit Journal", () => {
+	test("should undo the last edit first and redo it again", () => {
+		const journal = new TaskEditJournal();
+		const first = journal.record("Edit task", [change(1)]);
+		const second = journal.record("Edit task", [change(2)]);
+
+		expect(journal.peekUndo()).toBe(second);
+		journal.markUndone();
+		expect(journal.peekUndo()).toBe(first);
+		expect(journal.peekRedo()).toBe(second);
+
+		journal.markRedone();
+		expect(journal.peekUndo()).toBe(second);
+		expect(journal.peekRedo()).toBeUndefined();
+	});
+
+	test("should drop undone edits on a new edit and keep a bounded history", () => {
+		const journal = new TaskEditJournal(2);
+		journal.record("Edit task", [change(1)]);
+		journal.markUndone();
+		journal.record("Edit task", [change(2)]);
+
+		expect(journal.peekRedo()).toBeUndefined();
+		expect(journal.record("Edit task", [])).toBeNull();
+
+		journal.record("Edit task", [change(3)]);
+		journal.record("Edit task", [change(4)]);
+		journal.markUndone();
+		journal.markUndone();
+		expect(journal.peekUndo()).toBeUndefined();
+	});
+
+	test("should apply a reverted change again while the file is unchanged", () => {
+		const before = "- [ ] One\n- [ ] Two";
+		const after = "- [ ] One\n- [x] Two 🔼";
+		const recorded = getLineChange("Tasks.md", before, after)!;
+
+		const undone = revertLineChange(after, recorded)!;
+		expect(undone).toBe(before);
+		expect(revertLineChange(undone, invertLineChange(recorded))).toBe(
+			after
+		);
+		expect(
+			revertLineChange(
+				"- [ ] One\n- [ ] Two edited",
+				invertLineChange(recorded)
+			)
+		).toBeNull();
+		// Also when only other lines were edited
+		expect(
+			revertLineChange("- [ ] One edited\n- [x] Two 🔼", recorded)
+		).toBeNull();
+	});
+
+	test("should delete a file the edit created when it is undone", async () => {
+		const files = new Map([["Archive.md", "- [ ] Moved\n"]]);
+		const journal = new TaskEditJournal();
+		const manager = createManager(files, journal);
+		journal.record("Move tasks", [
+			{
+				...getLineChange("Archive.md", "", "- [ ] Moved\n")!,
+				file: "created",
+			},
+		]);
+
+		await manager.undoTaskEdit();
+		expect(files.has("Archive.md")).toBe(false);
+
+		await manager.redoTaskEdit();
+		expect(files.get("Archive.md")).toBe("- [ ] Moved\n");
+
+		// Lines added to the file since keep it and the edit
+		files.set("Archive.md", "- [ ] Moved\n- [ ] Added\n");
+		await expect(manager.undoTaskEdit()).rejects.toThrow(
+			"Archive.md has changed since the edit was made"
+		);
+		expect(files.get("Archive.md")).toBe("- [ ] Moved\n- [ ] Added\n");
+		expect(journal.peekUndo()?.label).toBe("Move tasks");
+	});
+
+	test("should keep the files written before a bulk edit failed", async () => {
+		const files = new Map([
+			["A.md", "- [ ] One\n- [ ] Two"],
+			["B.md", "- [ ] Three"],
+		]);
+		const journal = new TaskEditJournal();
+		const manager = createManager(files, journal);
+		const tasks = [
+			["A.md", 1, "- [ ] Two"],
+			["B.md", 0, "- [ ] Three"],
+		].map(
+			([filePath, line, originalMarkdown]) =>
+				({
+					id: `${filePath}-L${line}`,
+					filePath,
+					line,
+					originalMarkdown,
+					metadata: {},
+				} as Task)
+		);
+		const vault = (manager as any).vault;
+		const process = vault.process;
+		vault.process = async (file: { path: string }, edit: any) => {
+			if (file.path === "B.md") throw new Error("B.md is locked");
+			return process(file, edit);
+		};
+		(manager as any).indexer = {
+			getTaskById: (id: string) => tasks.find((task) => task.id === id),
+		};
+
+		await expect(manager.deleteTasks(tasks)).rejects.toThrow("locked");
+		expect(files.get("A.md")).toBe("- [ ] One");
+
+		await manager.undoTaskEdit();
+		expect(files.get("A.md")).toBe("- [ ] One\n- [ ] Two");
+	});
+});
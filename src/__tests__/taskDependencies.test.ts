@@ -0,0 +1,144 @@
+/**
+ * Task Dependency Tests
+ *
+ * Tests for parsing 🆔 / ⛔ (and [id::] / [dependsOn::]) and the blocked index
+ */
+
+import { App, MetadataCache, Vault } from "obsidian";
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import { TaskIndexer } from "../utils/import/TaskIndexer";
+import { Task } from "../types/task";
+import { createMockPlugin } from "./mockUtils";
+
+const createParser = (format: "tasks" | "dataview" = "tasks") => {
+	const mockPlugin = createMockPlugin({
+		preferMetadataFormat: format,
+		projectTagPrefix: { tasks: "project", dataview: "project" },
+		contextTagPrefix: { tasks: "@", dataview: "context" },
+		areaTagPrefix: { tasks: "area", dataview: "area" },
+	});
+	return new MarkdownTaskParser(getConfig(format, mockPlugin));
+};
+
+describe("Task Dependencies", () => {
+	describe("Parsing", () => {
+		test("should parse emoji id and dependsOn", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Write draft 🆔 abc123 ⛔ def456, ghi789 📅 2025-03-01",
+				"test.md"
+			);
+
+			expect(task.content).toBe("Write draft");
+			expect(task.metadata.id).toBe("abc123");
+			expect(task.metadata.dependsOn).toEqual(["def456", "ghi789"]);
+			expect(task.metadata.dueDate).toBeDefined();
+		});
+
+		test("should keep text after a dependency id in the content", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Review ⛔ abc123 with the team",
+				"test.md"
+			);
+
+			expect(task.metadata.dependsOn).toEqual(["abc123"]);
+			expect(task.content).toContain("with the team");
+		});
+
+		test("should parse dataview id and dependsOn", () => {
+			const parser = createParser("dataview");
+			const [task] = parser.parseLegacy(
+				"- [ ] Ship release [id:: release] [dependsOn:: build,test]",
+				"test.md"
+			);
+
+			expect(task.content).toBe("Ship release");
+			expect(task.metadata.id).toBe("release");
+			expect(task.metadata.dependsOn).toEqual(["build", "test"]);
+		});
+
+		test("should leave dependency fields undefined when absent", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy("- [ ] Plain task", "test.md");
+
+			expect(task.metadata.id).toBeUndefined();
+			expect(task.metadata.dependsOn).toBeUndefined();
+		});
+	});
+
+	describe("Indexing", () => {
+		const createIndexer = () => {
+			const vault = { on: () => ({}) } as unknown as Vault;
+			return new TaskIndexer(new App(), vault, new MetadataCache());
+		};
+
+		const parseFile = (content: string): Task[] => {
+			const parser = createParser();
+			return parser.parseLegacy(content, "deps.md");
+		};
+
+		test("should build the reverse blocks index", () => {
+			const indexer = createIndexer();
+			const tasks = parseFile(
+				[
+					"- [ ] Build 🆔 build",
+					"- [ ] Test 🆔 test ⛔ build",
+					"- [ ] Release ⛔ build,test",
+				].join("\n")
+			);
+			indexer.updateIndexWithTasks("deps.md", tasks);
+
+			const cache = indexer.getCache();
+			expect(cache.ids.get("build")).toEqual(new Set([tasks[0].id]));
+			expect(cache.blocks.get("build")).toEqual(
+				new Set([tasks[1].id, tasks[2].id])
+			);
+			expect(cache.blocks.get("test")).toEqual(new Set([tasks[2].id]));
+
+			expect(indexer.getBlockedTasks(tasks[0]).map((t) => t.id)).toEqual(
+				[tasks[1].id, tasks[2].id]
+			);
+			expect(
+				indexer.getBlockingTasks(tasks[2]).map((t) => t.id)
+			).toEqual([tasks[0].id, tasks[1].id]);
+		});
+
+		test("should compute blocked state from dependency completion", () => {
+			const indexer = createIndexer();
+			let tasks = parseFile(
+				["- [ ] Build 🆔 build", "- [ ] Release ⛔ build,missing"].join(
+					"\n"
+				)
+			);
+			indexer.updateIndexWithTasks("deps.md", tasks);
+			expect(indexer.isTaskBlocked(tasks[1])).toBe(true);
+			expect(indexer.isTaskBlocked(tasks[0])).toBe(false);
+
+			tasks = parseFile(
+				["- [x] Build 🆔 build", "- [ ] Release ⛔ build,missing"].join(
+					"\n"
+				)
+			);
+			indexer.updateIndexWithTasks("deps.md", tasks);
+			expect(indexer.isTaskBlocked(tasks[1])).toBe(false);
+		});
+
+		test("should drop dependency entries when a file is reindexed", () => {
+			const indexer = createIndexer();
+			indexer.updateIndexWithTasks(
+				"deps.md",
+				parseFile("- [ ] Release 🆔 release ⛔ build")
+			);
+			indexer.updateIndexWithTasks(
+				"deps.md",
+				parseFile("- [ ] Release")
+			);
+
+			const cache = indexer.getCache();
+			expect(cache.ids.size).toBe(0);
+			expect(cache.blocks.size).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * Public API tests
+ */
+
+// The API opens views; keep their UI out of these tests
+jest.mock("../pages/TaskView", () => ({}));
+
+import { TFile } from "obsidian";
+import { TaskGeniusApiImpl } from "../utils/TaskGeniusApi";
+import { createMockPlugin } from "./mockUtils";
+import { Task } from "../types/task";
+import { DEFAULT_SETTINGS } from "../common/setting-definition";
+
+const createTask = (id: string, metadata: Partial<Task["metadata"]> = {}) =>
+	({
+		id,
+		content: `Task ${id}`,
+		filePath: "test.md",
+		line: 0,
+		completed: false,
+		status: " ",
+		originalMarkdown: `- [ ] Task ${id}`,
+		metadata: { tags: [], children: [], ...metadata },
+	} as Task);
+
+describe("TaskGeniusApi", () => {
+	let tasks: Task[];
+	let updateTask: any;
+	let plugin: any;
+	let api: TaskGeniusApiImpl;
+
+	beforeEach(() => {
+		tasks = [
+			createTask("a", { priority: 3 }),
+			createTask("b", { tags: ["#work"] }),
+		];
+		updateTask = jest.fn().mockResolvedValue(undefined);
+
+		plugin = createMockPlugin({
+			quickCapture: DEFAULT_SETTINGS.quickCapture,
+			projectTagPrefix: DEFAULT_SETTINGS.projectTagPrefix,
+			contextTagPrefix: DEFAULT_SETTINGS.contextTagPrefix,
+		});
+		plugin.taskManager = {
+			isInitialized: () => true,
+			queryTasks: () => tasks,
+			getAllTasks: () => tasks,
+			getTaskById: (id: string) => tasks.find((t) => t.id === id),
+			updateTask,
+		};
+		api = new TaskGeniusApiImpl(plugin);
+	});
+
+	test("should expose a version", () => {
+		expect(api.version).toBe(1);
+		expect(api.isReady()).toBe(true);
+	});
+
+	test("should filter queries with a filter state", () => {
+		const result = api.queryTasks({
+			filterState: {
+				rootCondition: "all",
+				filterGroups: [
+					{
+						id: "g1",
+						groupCondition: "all",
+						filters: [
+							{
+								id: "f1",
+								property: "tags",
+								condition: "contains",
+								value: "work",
+							},
+						],
+					},
+				],
+			},
+		});
+
+		expect(result.map((t) => t.id)).toEqual(["b"]);
+		expect(api.queryTasks({ limit: 1 })).toHaveLength(1);
+	});
+
+	test("should merge metadata changes into the stored task", async () => {
+		await api.updateTask("a", { metadata: { dueDate: 1000 } });
+
+		const updated = updateTask.mock.calls[0][0] as Task;
+		expect(updated.id).toBe("a");
+		expect(updated.metadata.priority).toBe(3);
+		expect(updated.metadata.dueDate).toBe(1000);
+	});
+
+	test("should set the completed status mark", async () => {
+		await api.completeTask("a");
+
+		const updated = updateTask.mock.calls[0][0] as Task;
+		expect(updated.completed).toBe(true);
+		expect(updated.status).toBe("x");
+		expect(updated.metadata.completedDate).toBeDefined();
+	});
+
+	test("should return where a created task was written", async () => {
+		const files = new Map([
+			["Inbox.md", "# Inbox\n\n## Today\n- [ ] Call Bob\n\n## Later"],
+		]);
+		plugin.app.vault = {
+			getFileByPath: (path: string) =>
+				files.has(path) ? Object.assign(new TFile(), { path }) : null,
+			process: async (file: TFile, edit: (data: string) => string) =>
+				files.set(file.path, edit(files.get(file.path)!)),
+		};
+		// Index every line as a task
+		plugin.taskManager.indexFile = async () => {
+			tasks = files
+				.get("Inbox.md")!
+				.split("\n")
+				.map((line, i) => ({ ...createTask(`L${i}`), line: i }));
+		};
+		plugin.taskManager.getTasksForFile = () => tasks;
+
+		const created = await api.createTask("Buy milk", {
+			filePath: "Inbox.md",
+			heading: "Today",
+			metadata: { priority: 4, dueDate: new Date(2025, 5, 1) },
+		});
+
+		// Under the heading's tasks, after a blank line
+		expect(files.get("Inbox.md")!.split("\n")[5]).toBe(
+			"- [ ] Buy milk 📅 2025-06-01 ⏫"
+		);
+		expect(created.filePath).toBe("Inbox.md");
+		expect(created.line).toBe(5);
+		expect(created.task?.id).toBe("L5");
+	});
+
+	test("should reject unknown task ids", async () => {
+		await expect(api.completeTask("missing")).rejects.toThrow(
+			"Task with ID missing not found"
+		);
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * Task query code block tests
+ */
+
+import { parseTaskQuery, runTaskQuery } from "../utils/taskQueryUtils";
+import { createMockPlugin } from "./mockUtils";
+import { Task } from "../types/task";
+
+const createTask = (
+	id: string,
+	content: string,
+	metadata: Partial<Task["metadata"]> = {}
+): Task => ({
+	id,
+	content,
+	filePath: "test.md",
+	line: 0,
+	completed: false,
+	status: " ",
+	originalMarkdown: `- [ ] ${content}`,
+	metadata: {
+		tags: [],
+		children: [],
+		...metadata,
+	},
+});
+
+describe("Task query blocks", () => {
+	const settings = createMockPlugin().settings;
+
+	describe("parseTaskQuery", () => {
+		test("should read known keys and keep the rest as filter text", () => {
+			const query = parseTaskQuery(
+				[
+					"#work AND PRIORITY:>=2",
+					"sort: due asc, priority desc",
+					"group: project",
+					"limit: 5",
+					"view: table",
+					"title: Work",
+				].join("\n")
+			);
+
+			expect(query.filter).toBe("#work AND PRIORITY:>=2");
+			expect(query.sort).toEqual([
+				{ field: "dueDate", order: "asc" },
+				{ field: "priority", order: "desc" },
+			]);
+			expect(query.groupBy).toBe("project");
+			expect(query.limit).toBe(5);
+			expect(query.view).toBe("table");
+			expect(query.title).toBe("Work");
+			expect(query.errors).toEqual([]);
+		});
+
+		test("should combine several filter lines with AND", () => {
+			const query = parseTaskQuery("filter: #work OR #home\nreport");
+
+			expect(query.filter).toBe("(#work OR #home) AND (report)");
+		});
+
+		test("should report invalid options", () => {
+			const query = parseTaskQuery(
+				"sort: colour\ngroup: mood\nlimit: lots\nview: board"
+			);
+
+			expect(query.errors).toHaveLength(4);
+			expect(query.sort).toEqual([]);
+			expect(query.groupBy).toBeUndefined();
+			expect(query.limit).toBeUndefined();
+			expect(query.view).toBe("list");
+		});
+	});
+
+	describe("runTaskQuery", () => {
+		const tasks = [
+			createTask("1", "Write report", {
+				tags: ["#work"],
+				project: "Alpha",
+				priority: 2,
+			}),
+			createTask("2", "Review report", {
+				tags: ["#work"],
+				project: "Beta",
+				priority: 4,
+			}),
+			createTask("3", "Buy milk", { tags: ["#home"] }),
+			createTask("4", "Plan offsite", {
+				tags: ["#work", "#home"],
+				project: "Alpha",
+				priority: 3,
+			}),
+		];
+
+		test("should filter with the advanced filter language", () => {
+			const result = runTaskQuery(
+				tasks,
+				parseTaskQuery("#work AND report"),
+				settings
+			);
+
+			expect(result.total).toBe(2);
+			expect(result.groups[0].tasks.map((t) => t.id)).toEqual([
+				"1",
+				"2",
+			]);
+		});
+
+		test("should sort before applying the limit", () => {
+			const result = runTaskQuery(
+				tasks,
+				parseTaskQuery("#work\nsort: priority desc\nlimit: 2"),
+				settings
+			);
+
+			expect(result.total).toBe(3);
+			expect(result.groups[0].tasks.map((t) => t.id)).toEqual([
+				"2",
+				"4",
+			]);
+		});
+
+		test("should group tasks and put tasks without a value last", () => {
+			const result = runTaskQuery(
+				tasks,
+				parseTaskQuery("group: project"),
+				settings
+			);
+
+			expect(result.groups.map((g) => g.key)).toEqual([
+				"Alpha",
+				"Beta",
+				"",
+			]);
+			expect(result.groups[0].tasks.map((t) => t.id)).toEqual([
+				"1",
+				"4",
+			]);
+		});
+
+		test("should list a task under each of its tags", () => {
+			const result = runTaskQuery(
+				tasks,
+				parseTaskQuery("group: tags"),
+				settings
+			);
+			const home = result.groups.find((g) => g.key === "#home");
+
+			expect(home?.tasks.map((t) => t.id)).toEqual(["3", "4"]);
+		});
+	});
+});
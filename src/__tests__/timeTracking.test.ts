@@ -0,0 +1,149 @@
+/**
+ * Time Tracking Tests
+ *
+ * Tests for duration parsing/formatting, the time log and [actualTime::] parsing
+ */
+
+import { MarkdownTaskParser } from "../utils/workers/ConfigurableTaskParser";
+import { getConfig } from "../common/task-parser-config";
+import {
+	formatDurationMinutes,
+	formatElapsed,
+	getElapsedMinutes,
+	isTrackedTask,
+	parseDurationMinutes,
+	sumLoggedMinutes,
+} from "../utils/timeTrackingUtils";
+import { TimeLogEntry } from "../types/time-tracking";
+import { Task } from "../types/task";
+import { createMockPlugin } from "./mockUtils";
+
+const createParser = (format: "tasks" | "dataview" = "tasks") => {
+	const mockPlugin = createMockPlugin({
+		preferMetadataFormat: format,
+		projectTagPrefix: { tasks: "project", dataview: "project" },
+		contextTagPrefix: { tasks: "@", dataview: "context" },
+		areaTagPrefix: { tasks: "area", dataview: "area" },
+	});
+	return new MarkdownTaskParser(getConfig(format, mockPlugin));
+};
+
+const createTask = (id: string, content: string, filePath = "a.md"): Task =>
+	({
+		id,
+		content,
+		filePath,
+		line: 0,
+		completed: false,
+		status: " ",
+		originalMarkdown: `- [ ] ${content}`,
+		metadata: { tags: [], children: [] },
+	} as Task);
+
+const createEntry = (
+	taskId: string,
+	content: string,
+	end: number,
+	minutes: number
+): TimeLogEntry => ({
+	taskId,
+	filePath: "a.md",
+	content,
+	start: end - minutes * 60000,
+	end,
+	minutes,
+});
+
+describe("Time Tracking", () => {
+	describe("Durations", () => {
+		test("should parse minutes, hours and combined durations", () => {
+			expect(parseDurationMinutes("90")).toBe(90);
+			expect(parseDurationMinutes("45m")).toBe(45);
+			expect(parseDurationMinutes("1h30m")).toBe(90);
+			expect(parseDurationMinutes("1h 30min")).toBe(90);
+			expect(parseDurationMinutes("1.5h")).toBe(90);
+			expect(parseDurationMinutes(25)).toBe(25);
+		});
+
+		test("should reject values that are not durations", () => {
+			expect(parseDurationMinutes(undefined)).toBeUndefined();
+			expect(parseDurationMinutes("")).toBeUndefined();
+			expect(parseDurationMinutes("soon")).toBeUndefined();
+			expect(parseDurationMinutes("h")).toBeUndefined();
+		});
+
+		test("should format durations and running timers", () => {
+			expect(formatDurationMinutes(45)).toBe("45m");
+			expect(formatDurationMinutes(120)).toBe("2h");
+			expect(formatDurationMinutes(95)).toBe("1h 35m");
+			expect(formatElapsed(65 * 1000)).toBe("1:05");
+			expect(formatElapsed((3600 + 125) * 1000)).toBe("1:02:05");
+		});
+
+		test("should round elapsed time to whole minutes", () => {
+			expect(getElapsedMinutes(0, 29 * 1000)).toBe(0);
+			expect(getElapsedMinutes(0, 90 * 1000)).toBe(2);
+			expect(getElapsedMinutes(1000, 0)).toBe(0);
+		});
+	});
+
+	describe("Time log", () => {
+		test("should sum entries for tasks by id or by file and content", () => {
+			const task = createTask("a.md-L3", "Write report");
+			const entries = [
+				createEntry("a.md-L3", "Write report", 1000, 30),
+				// Same task after it moved to another line
+				createEntry("a.md-L1", "Write report", 2000, 15),
+				createEntry("a.md-L5", "Something else", 3000, 60),
+			];
+
+			expect(sumLoggedMinutes(entries, [task])).toBe(45);
+		});
+
+		test("should not count entries of a task that left the line", () => {
+			// Another task took over line 3 after the logged one was deleted
+			const task = createTask("a.md-L3", "Call the bank");
+			const entries = [
+				createEntry("a.md-L3", "Write report", 1000, 30),
+				createEntry("a.md-L3", "Call the bank", 2000, 10),
+			];
+
+			expect(sumLoggedMinutes(entries, [task])).toBe(10);
+			expect(isTrackedTask(entries[0], task)).toBe(false);
+		});
+
+		test("should only count entries since the given time", () => {
+			const task = createTask("a.md-L3", "Write report");
+			const entries = [
+				createEntry("a.md-L3", "Write report", 1000, 30),
+				createEntry("a.md-L3", "Write report", 5000, 20),
+			];
+
+			expect(sumLoggedMinutes(entries, [task], 2000)).toBe(20);
+		});
+	});
+
+	describe("Parsing", () => {
+		test("should parse actualTime and estimatedTime fields", () => {
+			const parser = createParser();
+			const [task] = parser.parseLegacy(
+				"- [ ] Write report [estimatedTime:: 2h] [actualTime:: 45]",
+				"test.md"
+			);
+
+			expect(task.content).toBe("Write report");
+			expect(task.metadata.estimatedTime).toBe(120);
+			expect(task.metadata.actualTime).toBe(45);
+		});
+
+		test("should parse time fields in dataview format", () => {
+			const parser = createParser("dataview");
+			const [task] = parser.parseLegacy(
+				"- [ ] Write report [actualTime:: 1h30m]",
+				"test.md"
+			);
+
+			expect(task.metadata.actualTime).toBe(90);
+		});
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * obsidian:// URI handler tests
+ */
+
+// The capture modal pulls in editor UI that is not needed here
+jest.mock("../components/QuickCaptureModal", () => ({}));
+
+import { parseCaptureUri } from "../commands/uriCommands";
+
+describe("parseCaptureUri", () => {
+	test("should return null without content", () => {
+		expect(parseCaptureUri({ action: "task-genius/capture" })).toBeNull();
+		expect(parseCaptureUri({ content: "   " })).toBeNull();
+	});
+
+	test("should read metadata and target options", () => {
+		const request = parseCaptureUri({
+			action: "task-genius/capture",
+			content: "Buy milk",
+			due: "2025-06-01",
+			priority: "high",
+			project: "home",
+			file: "Inbox.md",
+			heading: "Errands",
+			silent: "true",
+		})!;
+
+		expect(request.content).toBe("Buy milk");
+		expect(request.metadata.dueDate).toEqual(new Date(2025, 5, 1));
+		expect(request.metadata.priority).toBe(4);
+		expect(request.metadata.project).toBe("home");
+		expect(request.filePath).toBe("Inbox.md");
+		expect(request.heading).toBe("Errands");
+		expect(request.silent).toBe(true);
+	});
+
+	test("should leave out invalid or missing values", () => {
+		const request = parseCaptureUri({
+			content: "Call Bob",
+			due: "next someday",
+			priority: "9",
+		})!;
+
+		expect(request.metadata).toEqual({});
+		expect(request.filePath).toBeUndefined();
+		expect(request.silent).toBe(false);
+	});
+
+	test("should accept numeric priorities and repeat rules", () => {
+		const request = parseCaptureUri({
+			text: "Water plants",
+			priority: "2",
+			repeat: "every week",
+		})!;
+
+		expect(request.content).toBe("Water plants");
+		expect(request.metadata.priority).toBe(2);
+		expect(request.metadata.recurrence).toBe("every week");
+	});
+});
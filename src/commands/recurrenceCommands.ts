@@ -0,0 +1,24 @@
+import { Editor, MarkdownFileInfo, MarkdownView, Notice } from "obsidian";
+import TaskProgressBarPlugin from "../index";
+import { t } from "../translations/helper";
+import { getTaskAtCursor } from "./timeTrackingCommands";
+
+/**
+ * Command to skip the current occurrence of the recurring task at the cursor
+ */
+export function skipOccurrenceAtCursorCommand(
+	checking: boolean,
+	editor: Editor,
+	ctx: MarkdownView | MarkdownFileInfo,
+	plugin: TaskProgressBarPlugin
+): boolean {
+	const task = getTaskAtCursor(editor, ctx, plugin);
+	if (!task || task.completed || !task.metadata.recurrence) return false;
+	if (checking) return true;
+
+	plugin.taskManager.skipOccurrence(task).catch((error) => {
+		console.error("Failed to skip occurrence:", error);
+		new Notice(t("Failed to update task"));
+	});
+	return true;
+}
@@ -0,0 +1,59 @@
+import { Editor, MarkdownFileInfo, MarkdownView, Notice } from "obsidian";
+import TaskProgressBarPlugin from "../index";
+import { Task } from "../types/task";
+import { t } from "../translations/helper";
+
+/**
+ * Find the indexed task on the editor's cursor line
+ */
+export function getTaskAtCursor(
+	editor: Editor,
+	ctx: MarkdownView | MarkdownFileInfo,
+	plugin: TaskProgressBarPlugin
+): Task | undefined {
+	const file = ctx.file;
+	if (!file || !plugin.taskManager) return undefined;
+
+	const line = editor.getCursor().line;
+	return plugin.taskManager
+		.getTasksForFile(file.path)
+		.find((task) => task.line === line);
+}
+
+/**
+ * Command to start or stop the timer for the task at the cursor
+ */
+export function toggleTimerAtCursorCommand(
+	checking: boolean,
+	editor: Editor,
+	ctx: MarkdownView | MarkdownFileInfo,
+	plugin: TaskProgressBarPlugin
+): boolean {
+	if (!plugin.timeTracker) return false;
+
+	const task = getTaskAtCursor(editor, ctx, plugin);
+	if (!task) return false;
+	if (checking) return true;
+
+	plugin.timeTracker.toggle(task).catch((error) => {
+		console.error("Failed to toggle timer:", error);
+		new Notice(t("Failed to update task"));
+	});
+	return true;
+}
+
+/**
+ * Command to stop the running timer
+ */
+export function stopTimerCommand(
+	checking: boolean,
+	plugin: TaskProgressBarPlugin
+): boolean {
+	if (!plugin.timeTracker?.isTracking()) return false;
+	if (checking) return true;
+
+	plugin.timeTracker.stop().catch((error) => {
+		console.error("Failed to stop timer:", error);
+	});
+	return true;
+}
@@ -0,0 +1,175 @@
+import { moment, Notice, ObsidianProtocolData } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import { QuickCaptureModal } from "../components/QuickCaptureModal";
+import { CreateTaskMetadata } from "../types/api";
+import { parseLocalDate } from "../utils/dateUtil";
+import { t } from "../translations/helper";
+
+/**
+ * URI actions:
+ *
+ * obsidian://task-genius/capture?content=Buy%20milk&due=2025-06-01&project=home
+ * obsidian://task-genius/open?view=forecast&task=<task id>
+ *
+ * `obsidian://task-genius?do=capture&...` is accepted as well.
+ */
+export const URI_ACTION = "task-genius";
+
+export interface CaptureUriRequest {
+	content: string;
+	metadata: CreateTaskMetadata;
+	filePath?: string;
+	heading?: string;
+	// Save straight away instead of opening the capture modal
+	silent: boolean;
+}
+
+const PRIORITY_NAMES: Record<string, number> = {
+	highest: 5,
+	high: 4,
+	medium: 3,
+	low: 2,
+	lowest: 1,
+};
+
+function parseUriDate(value: string | undefined): Date | undefined {
+	if (!value) return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "today") {
+		return moment().startOf("day").toDate();
+	}
+	if (normalized === "tomorrow") {
+		return moment().add(1, "day").startOf("day").toDate();
+	}
+	const timestamp = parseLocalDate(normalized);
+	return timestamp !== undefined ? new Date(timestamp) : undefined;
+}
+
+function parseUriPriority(value: string | undefined): number | undefined {
+	if (!value) return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (PRIORITY_NAMES[normalized]) return PRIORITY_NAMES[normalized];
+	const priority = parseInt(normalized, 10);
+	return priority >= 1 && priority <= 5 ? priority : undefined;
+}
+
+/**
+ * Read capture parameters from a URI.
+ * Returns null when there is nothing to capture.
+ */
+export function parseCaptureUri(
+	params: Record<string, string | undefined>
+): CaptureUriRequest | null {
+	const content = (params.content ?? params.text ?? "").trim();
+	if (!content) return null;
+
+	const metadata: CreateTaskMetadata = {
+		dueDate: parseUriDate(params.due),
+		startDate: parseUriDate(params.start),
+		scheduledDate: parseUriDate(params.scheduled),
+		priority: parseUriPriority(params.priority),
+		project: params.project?.trim() || undefined,
+		context: params.context?.trim() || undefined,
+		recurrence:
+			(params.repeat ?? params.recurrence)?.trim() || undefined,
+		status: params.status || undefined,
+	};
+	// Drop unset fields so they don't override modal defaults
+	for (const key of Object.keys(metadata) as (keyof CreateTaskMetadata)[]) {
+		if (metadata[key] === undefined) delete metadata[key];
+	}
+
+	return {
+		content,
+		metadata,
+		filePath: params.file?.trim() || undefined,
+		heading: params.heading?.trim() || undefined,
+		silent: params.silent === "true" || params.silent === "1",
+	};
+}
+
+async function handleCaptureUri(
+	plugin: TaskProgressBarPlugin,
+	params: ObsidianProtocolData
+) {
+	const request = parseCaptureUri(params);
+	if (!request) {
+		new Notice(t("Nothing to capture"));
+		return;
+	}
+
+	if (request.silent) {
+		try {
+			await plugin.api.createTask(request.content, {
+				filePath: request.filePath,
+				heading: request.heading,
+				metadata: request.metadata,
+			});
+			new Notice(t("Captured successfully"));
+		} catch (error) {
+			new Notice(`${t("Failed to save:")} ${error}`);
+		}
+		return;
+	}
+
+	const modal = new QuickCaptureModal(
+		plugin.app,
+		plugin,
+		request.metadata,
+		// Show the metadata fields when the URI filled some in
+		Object.keys(request.metadata).length > 0
+	);
+	modal.capturedContent = request.content;
+	if (request.filePath) {
+		modal.tempTargetFilePath = request.filePath;
+		modal.captureOptions.targetType = "fixed";
+	}
+	if (request.heading) {
+		modal.captureOptions.targetHeading = request.heading;
+	}
+	modal.open();
+}
+
+async function handleOpenUri(
+	plugin: TaskProgressBarPlugin,
+	params: ObsidianProtocolData
+) {
+	const taskId = params.task;
+	if (taskId && !plugin.api.getTaskById(taskId)) {
+		new Notice(t("Task not found"));
+		return;
+	}
+
+	try {
+		await plugin.api.openView(params.view || "inbox", { taskId });
+	} catch (error) {
+		console.error("Failed to open Task Genius view from URI:", error);
+		new Notice(`${error}`);
+	}
+}
+
+export function registerUriHandlers(plugin: TaskProgressBarPlugin) {
+	const handle = (
+		action: string | undefined,
+		params: ObsidianProtocolData
+	) => {
+		switch (action) {
+			case "capture":
+				return handleCaptureUri(plugin, params);
+			case "open":
+				return handleOpenUri(plugin, params);
+			default:
+				new Notice(`${t("Unknown Task Genius action")}: ${action}`);
+		}
+	};
+
+	plugin.registerObsidianProtocolHandler(URI_ACTION, (params) =>
+		handle(params.do, params)
+	);
+	plugin.registerObsidianProtocolHandler(`${URI_ACTION}/capture`, (params) =>
+		handle("capture", params)
+	);
+	plugin.registerObsidianProtocolHandler(`${URI_ACTION}/open`, (params) =>
+		handle("open", params)
+	);
+}
@@ -3,6 +3,7 @@ import type TaskProgressBarPlugin from "../index"; // Type-only import
 import { BaseHabitData } from "../types/habit-card";
 import type { RootFilterState } from "../components/task-filter/ViewTaskFilter";
 import { IcsManagerConfig } from "../types/ics";
+import { TimeTrackingSettings } from "../types/time-tracking";
 
 // Interface for individual project review settings (If still needed, otherwise remove)
 // Keep it for now, in case it's used elsewhere, but it's not part of TaskProgressBarSettings anymore
@@ -31,6 +32,7 @@ export type ViewMode =
 
 export type DateExistType = "hasDate" | "noDate" | "any";
 export type PropertyExistType = "hasProperty" | "noProperty" | "any";
+export type BlockedStateType = "blocked" | "notBlocked" | "any";
 
 // Define and export ViewFilterRule interface
 export interface ViewFilterRule {
@@ -56,6 +58,7 @@ export interface ViewFilterRule {
 	textContains?: string;
 	pathIncludes?: string;
 	pathExcludes?: string;
+	blocked?: BlockedStateType; // Task dependencies (⛔ / [dependsOn::]) still open
 	// Add more rules based on Task properties: createdDate, completedDate, recurrence, context, time estimates etc.
 
 	// Add advanced filtering support
@@ -86,7 +89,8 @@ export interface KanbanSpecificConfig {
 		| "dueDate"
 		| "scheduledDate"
 		| "startDate"
-		| "createdDate";
+		| "createdDate"
+		| "manual";
 	defaultSortOrder: "asc" | "desc";
 	// New properties for flexible column grouping
 	groupBy:
@@ -100,20 +104,37 @@ export interface KanbanSpecificConfig {
 		| "context"
 		| "filePath";
 	customColumns?: KanbanColumnConfig[]; // Custom column definitions when not using status
+	swimlaneBy?: KanbanSwimlaneBy | "none"; // Property the columns are split into horizontal lanes by
+	statusColumnPolicies?: Record<string, KanbanColumnPolicy>; // WIP limits and done rules of status columns, by status name
+	wipPolicy?: "warn" | "block"; // What happens on drops into a full column, defaults to warn
 }
 
+export type KanbanSwimlaneBy = "project" | "context" | "priority" | "tags";
+
 export interface KanbanColumnConfig {
 	id: string;
 	title: string;
 	value: string | number | null; // The value that tasks should have for this property to appear in this column
 	color?: string; // Optional color for the column
 	order: number; // Display order
+	wipLimit?: number; // Max cards before the column is over its work-in-progress limit
+	doneRules?: KanbanDoneRule[]; // Rules a card must meet to be dropped into the column
 }
 
+// Rules a card dropped into a column is checked against
+export type KanbanDoneRule = "completedDate" | "noOpenSubtasks";
+
+export type KanbanColumnPolicy = Pick<
+	KanbanColumnConfig,
+	"wipLimit" | "doneRules"
+>;
+
 export interface CalendarSpecificConfig {
 	viewType: "calendar"; // Discriminator
 	firstDayOfWeek?: number; // 0=Sun, 1=Mon, ..., 6=Sat; undefined=locale default
 	hideWeekends?: boolean; // Whether to hide weekend columns/cells in calendar views
+	showRecurrenceGhosts?: boolean; // Whether to show projected occurrences of recurring tasks
+	unscheduledDropDate?: "scheduledDate" | "dueDate"; // Date set on a task without dates dropped on a day, defaults to scheduled
 }
 
 export interface GanttSpecificConfig {
@@ -126,6 +147,7 @@ export interface ForecastSpecificConfig {
 	viewType: "forecast"; // Discriminator
 	firstDayOfWeek?: number; // 0=Sun, 1=Mon, ..., 6=Sat; undefined=locale default
 	hideWeekends?: boolean; // Whether to hide weekend columns/cells in forecast calendar
+	showRecurrenceGhosts?: boolean; // Whether to show projected occurrences of recurring tasks
 }
 
 export interface TwoColumnSpecificConfig {
@@ -498,6 +520,74 @@ export interface TimelineSidebarSettings {
 	maxEventsToShow: number;
 }
 
+/** Reminder Settings */
+export interface ReminderSettings {
+	enableReminders: boolean;
+	/** Time of day ("HH:mm") for reminders on dates without a time */
+	defaultTime: string;
+	/** Remind about every open task with a due or scheduled date */
+	remindBeforeDue: boolean;
+	/** How long before the due/scheduled time to remind, e.g. "30m", "1h", "1d" */
+	defaultOffset: string;
+	snoozeMinutes: number;
+	/** Also show a system notification */
+	systemNotifications: boolean;
+	/** Reminder key -> time it fired, so reminders never fire twice */
+	firedReminders: Record<string, number>;
+	/** Reminder key -> time it should fire again */
+	snoozedReminders: Record<string, number>;
+	/** Last time reminders were checked, used to catch up after a restart */
+	lastCheckedAt?: number;
+}
+
+/**
+ * A rule of the auto-archive, e.g. tasks completed over 14 days ago in
+ * Projects/ go to Archive/{{project}}.md under the heading {{YYYY-MM}}
+ */
+export interface AutoArchiveRule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	/** Days since completion before a task is archived */
+	completedDaysAgo: number;
+	/** Only archive tasks in this folder, the whole vault when empty */
+	folder?: string;
+	/**
+	 * Archive file, {{project}}, {{filename}} and date formats like
+	 * {{YYYY-MM}} are filled in from the task and its completion date
+	 */
+	targetFile: string;
+	/** Heading to archive under, takes the same placeholders */
+	targetHeading?: string;
+}
+
+/** A task moved by an archive run */
+export interface AutoArchiveLogTask {
+	content: string;
+	from: string;
+	to: string;
+}
+
+/** An archive run that moved tasks, or was started by hand */
+export interface AutoArchiveLogEntry {
+	time: number;
+	trigger: "startup" | "schedule" | "manual";
+	moved: number;
+	/** The first moved tasks, the count covers all of them */
+	tasks: AutoArchiveLogTask[];
+}
+
+/** Auto-archive Settings */
+export interface AutoArchiveSettings {
+	enabled: boolean;
+	runOnStartup: boolean;
+	/** Hours between runs, 0 only runs at startup or by hand */
+	intervalHours: number;
+	rules: AutoArchiveRule[];
+	/** Latest runs first */
+	log: AutoArchiveLogEntry[];
+}
+
 /** Define the main settings structure */
 export interface TaskProgressBarSettings {
 	// General Settings (Example)
@@ -542,6 +632,8 @@ export interface TaskProgressBarSettings {
 	enablePriorityKeyboardShortcuts: boolean;
 	enableDatePicker: boolean;
 	recurrenceDateBase: "due" | "scheduled" | "current"; // Base date for calculating next recurrence
+	recurrenceHistory: "none" | "property" | "children"; // Where completed occurrences of recurring tasks are recorded
+	recurrenceHistoryLimit: number; // Number of completions kept in the history
 
 	// Task Filter Settings
 	taskFilter: TaskFilterSettings;
@@ -620,6 +712,15 @@ export interface TaskProgressBarSettings {
 
 	// Timeline Sidebar Settings
 	timelineSidebar: TimelineSidebarSettings;
+
+	// Time Tracking (running timer and finished sessions)
+	timeTracking: TimeTrackingSettings;
+
+	// Reminder Settings
+	reminders: ReminderSettings;
+
+	// Auto-archive of completed tasks across the vault
+	autoArchive: AutoArchiveSettings;
 }
 
 /** Define the default settings */
@@ -689,6 +790,8 @@ export const DEFAULT_SETTINGS: TaskProgressBarSettings = {
 	enablePriorityKeyboardShortcuts: false,
 	enableDatePicker: false,
 	recurrenceDateBase: "due",
+	recurrenceHistory: "none",
+	recurrenceHistoryLimit: 10,
 
 	// Task Filter Defaults
 	taskFilter: {
@@ -1188,6 +1291,7 @@ export const DEFAULT_SETTINGS: TaskProgressBarSettings = {
 		showInCalendar: false,
 		showInTaskLists: false,
 		defaultEventColor: "#3b82f6", // Blue color
+		exports: [],
 	},
 
 	// Timeline Sidebar Defaults
@@ -1198,6 +1302,33 @@ export const DEFAULT_SETTINGS: TaskProgressBarSettings = {
 		focusModeByDefault: false,
 		maxEventsToShow: 100,
 	},
+
+	// Time Tracking Defaults
+	timeTracking: {
+		activeSession: null,
+		timeLog: [],
+	},
+
+	// Reminder Defaults
+	reminders: {
+		enableReminders: false,
+		defaultTime: "09:00",
+		remindBeforeDue: false,
+		defaultOffset: "0m",
+		snoozeMinutes: 10,
+		systemNotifications: true,
+		firedReminders: {},
+		snoozedReminders: {},
+	},
+
+	// Auto-archive Defaults
+	autoArchive: {
+		enabled: false,
+		runOnStartup: true,
+		intervalHours: 24,
+		rules: [],
+		log: [],
+	},
 };
 
 // Helper function to get view settings safely
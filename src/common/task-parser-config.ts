@@ -65,6 +65,10 @@ export const getConfig = (
 			"🔼": "priority",
 			"🔽": "priority",
 			"⏬": "priority",
+			"🆔": "id",
+			"⛔": "dependsOn",
+			"🔔": "reminder",
+			"🏁": "onCompletion",
 		},
 
 		// Special tag prefixes for project/context/area (now configurable)
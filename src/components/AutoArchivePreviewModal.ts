@@ -0,0 +1,120 @@
+import { ButtonComponent, Modal } from "obsidian";
+import TaskProgressBarPlugin from "../index";
+import { AutoArchiveCandidate, AutoArchiveSkip } from "../utils/AutoArchiver";
+import { t } from "../translations/helper";
+import "../styles/modal.css";
+
+/**
+ * Dry run of the auto-archive: lists the tasks the rules would move now,
+ * by archive, without touching any file
+ */
+export class AutoArchivePreviewModal extends Modal {
+	constructor(
+		private plugin: TaskProgressBarPlugin,
+		private onArchived?: () => void
+	) {
+		super(plugin.app);
+		this.modalEl.addClass("auto-archive-preview-modal");
+	}
+
+	onOpen() {
+		this.titleEl.setText(t("Auto-archive preview"));
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		if (!this.plugin.taskManager?.isInitialized()) {
+			contentEl.createEl("p", {
+				text: t("Tasks are still being indexed, try again later"),
+			});
+			return;
+		}
+
+		const { candidates, skipped } = this.plugin.autoArchiver.getPlan();
+		if (candidates.length === 0) {
+			contentEl.createEl("p", {
+				text: t("No completed tasks match the archive rules"),
+			});
+			this.renderSkipped(skipped);
+			return;
+		}
+
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: t("Tasks that would be archived now:") + ` ${candidates.length}`,
+		});
+
+		const byTarget = new Map<string, AutoArchiveCandidate[]>();
+		for (const candidate of candidates) {
+			const target = candidate.targetHeading
+				? `${candidate.targetFile} > ${candidate.targetHeading}`
+				: candidate.targetFile;
+			byTarget.set(target, [...(byTarget.get(target) ?? []), candidate]);
+		}
+
+		const list = contentEl.createDiv({ cls: "auto-archive-preview-list" });
+		for (const [target, targetCandidates] of byTarget) {
+			const group = list.createDiv({ cls: "auto-archive-preview-group" });
+			group.createDiv({
+				cls: "auto-archive-preview-target",
+				text: `→ ${target}`,
+			});
+			const items = group.createEl("ul");
+			for (const { task, rule } of targetCandidates) {
+				const item = items.createEl("li");
+				item.createSpan({ text: task.content });
+				item.createSpan({
+					cls: "auto-archive-preview-source",
+					text: ` — ${task.filePath} (${rule.name || t("Rule")})`,
+				});
+			}
+		}
+
+		this.renderSkipped(skipped);
+
+		const buttons = contentEl.createDiv({ cls: "confirm-modal-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("Archive now"))
+			.setCta()
+			.onClick(async () => {
+				this.close();
+				await this.plugin.autoArchiver.run("manual");
+				this.onArchived?.();
+			});
+		new ButtonComponent(buttons)
+			.setButtonText(t("Cancel"))
+			.onClick(() => this.close());
+	}
+
+	// Tasks left in place because their rule's path can't be filled in
+	private renderSkipped(skipped: AutoArchiveSkip[]) {
+		if (skipped.length === 0) return;
+
+		this.contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text:
+				t("Tasks skipped, their archive path can't be filled in:") +
+				` ${skipped.length}`,
+		});
+		const items = this.contentEl
+			.createDiv({ cls: "auto-archive-preview-group" })
+			.createEl("ul");
+		for (const { task, rule, placeholders } of skipped) {
+			const item = items.createEl("li");
+			item.createSpan({ text: task.content });
+			item.createSpan({
+				cls: "auto-archive-preview-source",
+				text: ` — ${placeholders.join(", ")} (${
+					rule.name || t("Rule")
+				})`,
+			});
+		}
+	}
+}
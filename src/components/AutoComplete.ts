@@ -240,6 +240,29 @@ export class FolderSuggest extends CustomSuggest {
 	}
 }
 
+/**
+ * IcsFileSuggest - Provides autocomplete for .ics calendar files
+ */
+export class IcsFileSuggest extends CustomSuggest {
+	constructor(app: App, inputEl: HTMLInputElement) {
+		const paths = app.vault
+			.getFiles()
+			.filter((file) => file.extension.toLowerCase() === "ics")
+			.map((file) => file.path);
+		super(app, inputEl, paths);
+	}
+}
+
+/**
+ * MarkdownFileSuggest - Provides autocomplete for markdown file paths
+ */
+export class MarkdownFileSuggest extends CustomSuggest {
+	constructor(app: App, inputEl: HTMLInputElement) {
+		const paths = app.vault.getMarkdownFiles().map((file) => file.path);
+		super(app, inputEl, paths);
+	}
+}
+
 /**
  * ImageSuggest - Provides autocomplete for image paths
  */
@@ -0,0 +1,442 @@
+import {
+	App,
+	ButtonComponent,
+	Component,
+	FuzzySuggestModal,
+	Menu,
+	Modal,
+	Notice,
+	Setting,
+	TFile,
+} from "obsidian";
+import TaskProgressBarPlugin from "../index";
+import { Task } from "../types/task";
+import { t } from "../translations/helper";
+import {
+	applyBulkAction,
+	BulkDateField,
+	BulkTaskAction,
+	resolveBulkDate,
+} from "../utils/bulkEdit";
+import { ProjectSuggest, TagSuggest } from "./AutoComplete";
+import { ConfirmModal } from "./ConfirmModal";
+import "../styles/bulk-action-bar.css";
+
+interface BulkActionBarParams {
+	getSelectedTasks: () => Task[];
+	onClearSelection: () => void;
+}
+
+/**
+ * Actions on the tasks selected in a view, shown while there is a
+ * selection. Ctrl/Cmd-click adds a task to the selection.
+ */
+export class BulkActionBar extends Component {
+	private barEl: HTMLElement;
+	private countEl: HTMLElement;
+
+	constructor(
+		private plugin: TaskProgressBarPlugin,
+		private parentEl: HTMLElement,
+		private params: BulkActionBarParams
+	) {
+		super();
+	}
+
+	onload() {
+		this.barEl = this.parentEl.createDiv({ cls: "task-bulk-action-bar" });
+		this.countEl = this.barEl.createSpan({ cls: "task-bulk-count" });
+		const actionsEl = this.barEl.createDiv({ cls: "task-bulk-actions" });
+
+		this.addButton(actionsEl, "circle-check", t("Set status"), (ev) =>
+			this.showStatusMenu(ev)
+		);
+		this.addButton(actionsEl, "flag", t("Set priority"), (ev) =>
+			this.showPriorityMenu(ev)
+		);
+		this.addButton(actionsEl, "calendar", t("Set date"), (ev) =>
+			this.showDateMenu(ev)
+		);
+		this.addButton(actionsEl, "tag", t("Tags"), (ev) =>
+			this.showTagMenu(ev)
+		);
+		this.addButton(actionsEl, "folder", t("Set project"), () =>
+			this.askProject()
+		);
+		this.addButton(actionsEl, "file-input", t("Move to file"), () =>
+			this.askMoveTarget()
+		);
+		this.addButton(actionsEl, "trash", t("Delete"), () =>
+			this.confirmDelete()
+		).setWarning();
+		this.addButton(actionsEl, "x", t("Clear selection"), () =>
+			this.params.onClearSelection()
+		);
+
+		this.update();
+	}
+
+	onunload() {
+		this.barEl?.remove();
+	}
+
+	/**
+	 * Show the number of selected tasks, the bar hides without a selection
+	 */
+	public update(): void {
+		if (!this.barEl) return;
+		const count = this.params.getSelectedTasks().length;
+		this.barEl.toggleClass("is-hidden", count === 0);
+		this.countEl.setText(`${count} ${t("selected")}`);
+	}
+
+	private addButton(
+		containerEl: HTMLElement,
+		icon: string,
+		tooltip: string,
+		onClick: (ev: MouseEvent) => void
+	): ButtonComponent {
+		return new ButtonComponent(containerEl)
+			.setIcon(icon)
+			.setTooltip(tooltip)
+			.onClick(onClick);
+	}
+
+	private showStatusMenu(ev: MouseEvent) {
+		const menu = new Menu();
+		const marks = new Set<string>();
+		for (const [name, mark] of Object.entries(
+			this.plugin.settings.taskStatusMarks
+		)) {
+			if (marks.has(mark)) continue;
+			marks.add(mark);
+			menu.addItem((item) =>
+				item
+					.setTitle(`[${mark}] ${t(name)}`)
+					.onClick(() => this.apply({ type: "status", status: mark }))
+			);
+		}
+		menu.showAtMouseEvent(ev);
+	}
+
+	private showPriorityMenu(ev: MouseEvent) {
+		const priorities: [number | undefined, string][] = [
+			[5, t("Highest")],
+			[4, t("High")],
+			[3, t("Medium")],
+			[2, t("Low")],
+			[1, t("Lowest")],
+			[undefined, t("No priority")],
+		];
+
+		const menu = new Menu();
+		priorities.forEach(([priority, title]) => {
+			menu.addItem((item) =>
+				item
+					.setTitle(title)
+					.onClick(() => this.apply({ type: "priority", priority }))
+			);
+		});
+		menu.showAtMouseEvent(ev);
+	}
+
+	private showDateMenu(ev: MouseEvent) {
+		const fields: [BulkDateField, string][] = [
+			["dueDate", t("Due Date")],
+			["startDate", t("Start Date")],
+			["scheduledDate", t("Scheduled Date")],
+		];
+
+		const menu = new Menu();
+		fields.forEach(([field, title]) => {
+			menu.addItem((item) =>
+				item.setTitle(title).onClick(() => {
+					new BulkValueModal(this.plugin.app, {
+						title,
+						description: t(
+							"A date like 2025-06-18, a shift of the current date like +3d, -1w or +1m, or nothing to clear it"
+						),
+						validate: (value) => resolveBulkDate(value) !== null,
+						onSubmit: (value) =>
+							this.apply({ type: "date", field, value }),
+					}).open();
+				})
+			);
+		});
+		menu.showAtMouseEvent(ev);
+	}
+
+	private showTagMenu(ev: MouseEvent) {
+		const menu = new Menu();
+		const askTags = (title: string, type: "add-tags" | "remove-tags") => {
+			new BulkValueModal(this.plugin.app, {
+				title,
+				description: t("Tags separated by spaces or commas"),
+				onOpenInput: (inputEl) =>
+					new TagSuggest(this.plugin.app, inputEl, this.plugin),
+				onSubmit: (value) => {
+					const tags = value.split(/[\s,]+/).filter(Boolean);
+					if (tags.length > 0) this.apply({ type, tags });
+				},
+			}).open();
+		};
+
+		menu.addItem((item) =>
+			item
+				.setTitle(t("Add tags"))
+				.setIcon("plus")
+				.onClick(() => askTags(t("Add tags"), "add-tags"))
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle(t("Remove tags"))
+				.setIcon("minus")
+				.onClick(() => askTags(t("Remove tags"), "remove-tags"))
+		);
+		menu.showAtMouseEvent(ev);
+	}
+
+	private askProject() {
+		new BulkValueModal(this.plugin.app, {
+			title: t("Set project"),
+			description: t("Leave empty to remove the project"),
+			onOpenInput: (inputEl) =>
+				new ProjectSuggest(this.plugin.app, inputEl, this.plugin),
+			onSubmit: (project) => this.apply({ type: "project", project }),
+		}).open();
+	}
+
+	private askMoveTarget() {
+		new BulkFileModal(this.plugin.app, async (path) => {
+			const tasks = this.params.getSelectedTasks();
+			await this.run(() =>
+				this.plugin.taskManager.moveTasks(tasks, path)
+			);
+		}).open();
+	}
+
+	private confirmDelete() {
+		const count = this.params.getSelectedTasks().length;
+		new ConfirmModal(this.plugin, {
+			title: t("Delete tasks"),
+			message:
+				t("Delete the lines of the selected tasks?") + ` (${count})`,
+			confirmText: t("Delete"),
+			cancelText: t("Cancel"),
+			onConfirm: async (confirmed) => {
+				if (!confirmed) return;
+				const tasks = this.params.getSelectedTasks();
+				await this.run(() =>
+					this.plugin.taskManager.deleteTasks(tasks)
+				);
+			},
+		}).open();
+	}
+
+	private async apply(action: BulkTaskAction) {
+		const tasks = this.params.getSelectedTasks().map((task) =>
+			applyBulkAction(task, action, this.plugin.settings)
+		);
+		const notUndoable = tasks.filter(
+			(task) => !this.plugin.taskManager.isMarkdownTask(task)
+		).length;
+		await this.run(
+			() => this.plugin.taskManager.updateTasks(tasks),
+			notUndoable
+		);
+	}
+
+	/**
+	 * Run a bulk operation, then offer to undo what it wrote, also when it
+	 * failed partway
+	 * @param notUndoable Canvas and file metadata tasks of the operation,
+	 * which the undo leaves as they are
+	 */
+	private async run(
+		operation: () => Promise<number>,
+		notUndoable: number = 0
+	) {
+		const previousEdit = this.plugin.taskManager.getUndoEdit();
+		let message: string;
+		try {
+			const count = await operation();
+			this.params.onClearSelection();
+			message = `${t("Tasks updated:")} ${count}`;
+		} catch (error) {
+			console.error("Bulk edit failed:", error);
+			message = t("Bulk edit failed: ") + error.message;
+		}
+
+		const edit = this.plugin.taskManager.getUndoEdit();
+		new Notice(
+			createFragment((frag) => {
+				frag.createSpan({ text: `${message} ` });
+				if (notUndoable > 0) {
+					frag.createSpan({
+						text: `${t(
+							"Canvas and file property tasks can't be undone:"
+						)} ${notUndoable} `,
+					});
+				}
+				if (!edit || edit === previousEdit) return;
+				frag.createEl("a", { text: t("Undo") }).addEventListener(
+					"click",
+					() => {
+						// Only while nothing was edited after it
+						if (this.plugin.taskManager.getUndoEdit() !== edit) {
+							new Notice(
+								t("Tasks were edited since, undo them first")
+							);
+							return;
+						}
+						this.plugin.undoTaskEdit();
+					}
+				);
+			}),
+			8000
+		);
+	}
+}
+
+/**
+ * Toggle the task of a Ctrl/Cmd-clicked item in a selection, true when the
+ * click was taken
+ */
+export function toggleMultiSelection(
+	event: MouseEvent,
+	itemSelector: string,
+	selectedIds: Set<string>
+): boolean {
+	if (!(event.ctrlKey || event.metaKey)) return false;
+	const itemEl = (event.target as HTMLElement).closest<HTMLElement>(
+		itemSelector
+	);
+	const taskId = itemEl?.dataset.taskId;
+	if (!itemEl || !taskId || taskId === "load-marker") return false;
+
+	event.preventDefault();
+	event.stopPropagation();
+	if (selectedIds.has(taskId)) {
+		selectedIds.delete(taskId);
+	} else {
+		selectedIds.add(taskId);
+	}
+	itemEl.toggleClass("is-multi-selected", selectedIds.has(taskId));
+	return true;
+}
+
+/**
+ * Highlight the selected items again after they were rendered
+ */
+export function markMultiSelection(
+	containerEl: HTMLElement,
+	itemSelector: string,
+	selectedIds: Set<string>
+): void {
+	containerEl
+		.querySelectorAll<HTMLElement>(itemSelector)
+		.forEach((itemEl) =>
+			itemEl.toggleClass(
+				"is-multi-selected",
+				selectedIds.has(itemEl.dataset.taskId ?? "")
+			)
+		);
+}
+
+class BulkValueModal extends Modal {
+	private value = "";
+
+	constructor(
+		app: App,
+		private params: {
+			title: string;
+			description: string;
+			validate?: (value: string) => boolean;
+			onOpenInput?: (inputEl: HTMLInputElement) => void;
+			onSubmit: (value: string) => void;
+		}
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		this.titleEl.setText(this.params.title);
+
+		new Setting(this.contentEl)
+			.setDesc(this.params.description)
+			.addText((text) => {
+				text.onChange((value) => {
+					this.value = value;
+					text.inputEl.toggleClass(
+						"is-invalid",
+						!!this.params.validate && !this.params.validate(value)
+					);
+				});
+				this.params.onOpenInput?.(text.inputEl);
+				text.inputEl.addEventListener("keydown", (ev) => {
+					if (ev.key === "Enter" && !ev.isComposing) {
+						ev.preventDefault();
+						this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		const buttons = this.contentEl.createDiv({
+			cls: "confirm-modal-buttons",
+		});
+		new ButtonComponent(buttons)
+			.setButtonText(t("Apply"))
+			.setCta()
+			.onClick(() => this.submit());
+		new ButtonComponent(buttons)
+			.setButtonText(t("Cancel"))
+			.onClick(() => this.close());
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit() {
+		if (this.params.validate && !this.params.validate(this.value)) {
+			new Notice(t("Invalid value"));
+			return;
+		}
+		this.close();
+		this.params.onSubmit(this.value);
+	}
+}
+
+/**
+ * Pick a markdown file, or type the path of a new one
+ */
+class BulkFileModal extends FuzzySuggestModal<TFile | string> {
+	constructor(app: App, private onChoose: (path: string) => void) {
+		super(app);
+		this.setPlaceholder(t("Select a file or type a new file name"));
+	}
+
+	getItems(): (TFile | string)[] {
+		const files: (TFile | string)[] = this.app.vault.getMarkdownFiles();
+		const query = this.inputEl.value.trim();
+		if (query && !this.app.vault.getFileByPath(this.toPath(query))) {
+			files.unshift(query);
+		}
+		return files;
+	}
+
+	getItemText(item: TFile | string): string {
+		return typeof item === "string"
+			? `${t("Create")} ${this.toPath(item)}`
+			: item.path;
+	}
+
+	onChooseItem(item: TFile | string): void {
+		this.onChoose(typeof item === "string" ? this.toPath(item) : item.path);
+	}
+
+	private toPath(name: string): string {
+		return name.endsWith(".md") ? name : `${name}.md`;
+	}
+}
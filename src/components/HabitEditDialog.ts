@@ -8,6 +8,7 @@ import {
 	setIcon,
 	ButtonComponent,
 	ExtraButtonComponent,
+	moment,
 } from "obsidian";
 import {
 	BaseHabitData,
@@ -15,11 +16,14 @@ import {
 	BaseCountHabitData,
 	BaseMappingHabitData,
 	BaseScheduledHabitData,
+	HabitFrequency,
+	HabitSource,
 	ScheduledEvent,
 } from "../types/habit-card";
 import TaskProgressBarPlugin from "../index";
 import { t } from "../translations/helper";
 import { attachIconMenu } from "./IconMenu";
+import { MarkdownFileSuggest } from "./AutoComplete";
 import "../styles/habit-edit-dialog.css";
 
 export class HabitEditDialog extends Modal {
@@ -29,6 +33,8 @@ export class HabitEditDialog extends Modal {
 	isNew: boolean;
 	habitType: string = "daily";
 	iconInput: string = "circle-check";
+	frequency: HabitFrequency = { type: "daily" };
+	source: HabitSource = { type: "daily-note", location: "frontmatter" };
 
 	constructor(
 		app: App,
@@ -45,6 +51,18 @@ export class HabitEditDialog extends Modal {
 		if (habitData) {
 			this.habitType = habitData.type;
 			this.iconInput = habitData.icon;
+			// Edited on a copy, the settings only change on save
+			this.frequency = JSON.parse(
+				JSON.stringify(habitData.frequency ?? { type: "daily" })
+			);
+			this.source = JSON.parse(
+				JSON.stringify(
+					habitData.source ?? {
+						type: "daily-note",
+						location: "frontmatter",
+					}
+				)
+			);
 		}
 	}
 
@@ -196,6 +214,16 @@ export class HabitEditDialog extends Modal {
 			});
 		});
 
+		// Frequency target
+		this.buildFrequencyForm(
+			commonForm.createDiv({ cls: "habit-frequency-form" })
+		);
+
+		// Where the values are kept
+		this.buildSourceForm(
+			commonForm.createDiv({ cls: "habit-source-form" })
+		);
+
 		// Type-specific form container
 		const typeFormContainer = contentEl.createDiv({
 			cls: "habit-type-form",
@@ -233,13 +261,24 @@ export class HabitEditDialog extends Modal {
 							// Type-specific fields from getTypeSpecificData
 						} as any;
 
+						const frequency = this.getFrequencyData();
+						const source = this.getSourceData();
+						if (frequency === null || source === null) {
+							return; // Validation failed
+						}
+
 						// Add type-specific fields
 						const typeData = this.getTypeSpecificData();
 						if (!typeData) {
 							return; // Validation failed
 						}
 
-						habitData = { ...habitData, ...typeData };
+						habitData = {
+							...habitData,
+							frequency,
+							source,
+							...typeData,
+						};
 
 						this.onSubmit(habitData);
 						this.close();
@@ -251,6 +290,203 @@ export class HabitEditDialog extends Modal {
 		this.buildTypeSpecificForm(typeFormContainer);
 	}
 
+	// Frequency form, rebuilt when the frequency type changes
+	buildFrequencyForm(container: HTMLElement) {
+		container.empty();
+
+		new Setting(container)
+			.setName(t("Frequency"))
+			.setDesc(t("How often the habit should be done"))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("daily", t("Every day"))
+					.addOption("weekly", t("Times per week"))
+					.addOption("monthly", t("Times per month"))
+					.addOption("weekdays", t("Specific weekdays"))
+					.setValue(this.frequency.type)
+					.onChange((value) => {
+						switch (value) {
+							case "weekly":
+								this.frequency = { type: "weekly", times: 3 };
+								break;
+							case "monthly":
+								this.frequency = { type: "monthly", times: 10 };
+								break;
+							case "weekdays":
+								this.frequency = {
+									type: "weekdays",
+									days: [1, 2, 3, 4, 5],
+								};
+								break;
+							default:
+								this.frequency = { type: "daily" };
+						}
+						this.buildFrequencyForm(container);
+					});
+			});
+
+		const frequency = this.frequency;
+		if (frequency.type === "weekly" || frequency.type === "monthly") {
+			new Setting(container)
+				.setName(t("Times"))
+				.setDesc(
+					frequency.type === "weekly"
+						? t("Number of days per week")
+						: t("Number of days per month")
+				)
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.min = "1";
+					text.setValue(frequency.times.toString()).onChange(
+						(value) => {
+							frequency.times = parseInt(value);
+						}
+					);
+				});
+		} else if (frequency.type === "weekdays") {
+			const setting = new Setting(container).setName(t("Weekdays"));
+			const weekdays = moment.weekdaysShort();
+			// Monday first, like the weeks of the habit stats
+			for (const day of [1, 2, 3, 4, 5, 6, 0]) {
+				const button = new ButtonComponent(setting.controlEl)
+					.setButtonText(weekdays[day])
+					.setClass("habit-weekday-button");
+				button.buttonEl.toggleClass(
+					"is-active",
+					frequency.days.includes(day)
+				);
+				button.onClick(() => {
+					frequency.days = frequency.days.includes(day)
+						? frequency.days.filter((d) => d !== day)
+						: [...frequency.days, day].sort((a, b) => a - b);
+					button.buttonEl.toggleClass(
+						"is-active",
+						frequency.days.includes(day)
+					);
+				});
+			}
+		}
+	}
+
+	// Get the frequency, undefined for daily habits
+	getFrequencyData(): HabitFrequency | undefined | null {
+		const frequency = this.frequency;
+		switch (frequency.type) {
+			case "weekly":
+			case "monthly":
+				if (
+					!Number.isInteger(frequency.times) ||
+					frequency.times < 1 ||
+					frequency.times > (frequency.type === "weekly" ? 7 : 31)
+				) {
+					new Notice(t("Please enter a valid number of days"));
+					return null;
+				}
+				return frequency;
+			case "weekdays":
+				if (frequency.days.length === 0) {
+					new Notice(t("Please select at least one weekday"));
+					return null;
+				}
+				return frequency;
+			default:
+				return undefined;
+		}
+	}
+
+	// Source form, rebuilt when the source type changes
+	buildSourceForm(container: HTMLElement) {
+		container.empty();
+
+		const source = this.source;
+		const sourceValue =
+			source.type === "periodic-note"
+				? `${source.period}-note`
+				: source.type;
+
+		new Setting(container)
+			.setName(t("Source"))
+			.setDesc(
+				source.type === "daily-note"
+					? t("Where the habit values are kept")
+					: t(
+							"Values are read from dated list items, e.g. '- 2025-06-18 [property:: value]'"
+					  )
+			)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("daily-note", t("Daily note"))
+					.addOption("week-note", t("Weekly note"))
+					.addOption("month-note", t("Monthly note"))
+					.addOption("log-file", t("Log file"))
+					.setValue(sourceValue)
+					.onChange((value) => {
+						switch (value) {
+							case "week-note":
+								this.source = {
+									type: "periodic-note",
+									period: "week",
+								};
+								break;
+							case "month-note":
+								this.source = {
+									type: "periodic-note",
+									period: "month",
+								};
+								break;
+							case "log-file":
+								this.source = {
+									type: "log-file",
+									filePath: "",
+								};
+								break;
+							default:
+								this.source = {
+									type: "daily-note",
+									location: "frontmatter",
+								};
+						}
+						this.buildSourceForm(container);
+					});
+			});
+
+		if (source.type === "daily-note") {
+			new Setting(container)
+				.setName(t("Field location"))
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("frontmatter", t("Frontmatter"))
+						.addOption("inline", t("Inline fields"))
+						.setValue(source.location)
+						.onChange((value) => {
+							source.location = value as "frontmatter" | "inline";
+						});
+				});
+		} else if (source.type === "log-file") {
+			new Setting(container).setName(t("Log file")).addText((text) => {
+				text.setPlaceholder("Habits/habit-log.md")
+					.setValue(source.filePath)
+					.onChange((value) => {
+						source.filePath = value.trim();
+					});
+				new MarkdownFileSuggest(this.app, text.inputEl);
+			});
+		}
+	}
+
+	// Get the source, undefined for daily note frontmatter
+	getSourceData(): HabitSource | undefined | null {
+		const source = this.source;
+		if (source.type === "daily-note") {
+			return source.location === "inline" ? source : undefined;
+		}
+		if (source.type === "log-file" && !source.filePath) {
+			new Notice(t("Please enter the path of the log file"));
+			return null;
+		}
+		return source;
+	}
+
 	// Build form based on current habit type
 	buildTypeSpecificForm(container?: HTMLElement) {
 		if (!container) {
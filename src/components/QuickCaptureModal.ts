@@ -14,24 +14,18 @@ import {
 } from "../editor-ext/markdownEditor";
 import TaskProgressBarPlugin from "../index";
 import { saveCapture, processDateTemplates } from "../utils/fileUtils";
-import { FileSuggest } from "../editor-ext/quickCapture";
+import {
+	formatCaptureDate,
+	formatCapturedTasks,
+	TaskMetadata,
+} from "../utils/captureFormat";
+import { FileSuggest, QuickCaptureOptions } from "../editor-ext/quickCapture";
 import { t } from "../translations/helper";
 import { MarkdownRendererComponent } from "./MarkdownRenderer";
 import { StatusComponent } from "./StatusComponent";
 import { Task } from "../types/task";
 import { ContextSuggest, ProjectSuggest } from "./AutoComplete";
 
-interface TaskMetadata {
-	startDate?: Date;
-	dueDate?: Date;
-	scheduledDate?: Date;
-	priority?: number;
-	project?: string;
-	context?: string;
-	recurrence?: string;
-	status?: string;
-}
-
 /**
  * Sanitize filename by replacing unsafe characters with safe alternatives
  * @param filename - The filename to sanitize
@@ -60,6 +54,9 @@ export class QuickCaptureModal extends Modal {
 
 	preferMetadataFormat: "dataview" | "tasks" = "tasks";
 
+	// Per-capture overrides of the quick capture settings (e.g. from a URI)
+	captureOptions: Partial<QuickCaptureOptions> = {};
+
 	constructor(
 		app: App,
 		plugin: TaskProgressBarPlugin,
@@ -242,7 +239,7 @@ export class QuickCaptureModal extends Modal {
 			text.setPlaceholder("YYYY-MM-DD")
 				.setValue(
 					this.taskMetadata.startDate
-						? this.formatDate(this.taskMetadata.startDate)
+						? formatCaptureDate(this.taskMetadata.startDate)
 						: ""
 				)
 				.onChange((value) => {
@@ -261,7 +258,7 @@ export class QuickCaptureModal extends Modal {
 			text.setPlaceholder("YYYY-MM-DD")
 				.setValue(
 					this.taskMetadata.dueDate
-						? this.formatDate(this.taskMetadata.dueDate)
+						? formatCaptureDate(this.taskMetadata.dueDate)
 						: ""
 				)
 				.onChange((value) => {
@@ -282,7 +279,7 @@ export class QuickCaptureModal extends Modal {
 				text.setPlaceholder("YYYY-MM-DD")
 					.setValue(
 						this.taskMetadata.scheduledDate
-							? this.formatDate(this.taskMetadata.scheduledDate)
+							? formatCaptureDate(this.taskMetadata.scheduledDate)
 							: ""
 					)
 					.onChange((value) => {
@@ -406,6 +403,7 @@ export class QuickCaptureModal extends Modal {
 				container,
 				{
 					placeholder: this.plugin.settings.quickCapture.placeholder,
+					value: this.capturedContent,
 
 					onEnter: (editor, mod, shift) => {
 						if (mod) {
@@ -493,6 +491,7 @@ export class QuickCaptureModal extends Modal {
 			// Create options with current settings
 			const captureOptions = {
 				...this.plugin.settings.quickCapture,
+				...this.captureOptions,
 				targetFile: this.tempTargetFilePath,
 			};
 
@@ -505,213 +504,10 @@ export class QuickCaptureModal extends Modal {
 	}
 
 	processContentWithMetadata(content: string): string {
-		// Split content into lines
-		const lines = content.split("\n");
-		const processedLines: string[] = [];
-		const indentationRegex = /^(\s+)/;
-
-		for (const line of lines) {
-			if (!line.trim()) {
-				processedLines.push(line);
-				continue;
-			}
-
-			// Check for indentation to identify sub-tasks
-			const indentMatch = line.match(indentationRegex);
-			const isSubTask = indentMatch && indentMatch[1].length > 0;
-
-			// Check if line is already a task or a list item
-			const isTaskOrList = line
-				.trim()
-				.match(/^(-|\d+\.|\*|\+)(\s+\[[^\]]+\])?/);
-
-			if (isSubTask) {
-				// Don't add metadata to sub-tasks
-				processedLines.push(line);
-			} else if (isTaskOrList) {
-				// If it's a task, add metadata
-				if (line.trim().match(/^(-|\d+\.|\*|\+)\s+\[[^\]]+\]/)) {
-					processedLines.push(this.addMetadataToTask(line));
-				} else {
-					// If it's a list item but not a task, convert to task and add metadata
-					const listPrefix = line
-						.trim()
-						.match(/^(-|\d+\.|\*|\+)/)?.[0];
-					const restOfLine = line
-						.trim()
-						.substring(listPrefix?.length || 0)
-						.trim();
-
-					// Use the specified status or default to empty checkbox
-					const statusMark = this.taskMetadata.status || " ";
-					processedLines.push(
-						this.addMetadataToTask(
-							`${listPrefix} [${statusMark}] ${restOfLine}`
-						)
-					);
-				}
-			} else {
-				// Not a list item or task, convert to task and add metadata
-				// Use the specified status or default to empty checkbox
-				const statusMark = this.taskMetadata.status || " ";
-				processedLines.push(
-					this.addMetadataToTask(`- [${statusMark}] ${line}`)
-				);
-			}
-		}
-
-		return processedLines.join("\n");
-	}
-
-	addMetadataToTask(taskLine: string): string {
-		const metadata = this.generateMetadataString();
-		if (!metadata) return taskLine;
-
-		return `${taskLine} ${metadata}`.trim();
-	}
-
-	generateMetadataString(): string {
-		const metadata: string[] = [];
-		const useDataviewFormat = this.preferMetadataFormat === "dataview";
-
-		// Format dates to strings in YYYY-MM-DD format
-		if (this.taskMetadata.startDate) {
-			const formattedStartDate = this.formatDate(
-				this.taskMetadata.startDate
-			);
-			metadata.push(
-				useDataviewFormat
-					? `[start:: ${formattedStartDate}]`
-					: `🛫 ${formattedStartDate}`
-			);
-		}
-
-		if (this.taskMetadata.dueDate) {
-			const formattedDueDate = this.formatDate(this.taskMetadata.dueDate);
-			metadata.push(
-				useDataviewFormat
-					? `[due:: ${formattedDueDate}]`
-					: `📅 ${formattedDueDate}`
-			);
-		}
-
-		if (this.taskMetadata.scheduledDate) {
-			const formattedScheduledDate = this.formatDate(
-				this.taskMetadata.scheduledDate
-			);
-			metadata.push(
-				useDataviewFormat
-					? `[scheduled:: ${formattedScheduledDate}]`
-					: `⏳ ${formattedScheduledDate}`
-			);
-		}
-
-		// Add priority if set
-		if (this.taskMetadata.priority) {
-			if (useDataviewFormat) {
-				// 使用 dataview 格式
-				let priorityValue: string | number;
-				switch (this.taskMetadata.priority) {
-					case 5:
-						priorityValue = "highest";
-						break;
-					case 4:
-						priorityValue = "high";
-						break;
-					case 3:
-						priorityValue = "medium";
-						break;
-					case 2:
-						priorityValue = "low";
-						break;
-					case 1:
-						priorityValue = "lowest";
-						break;
-					default:
-						priorityValue = this.taskMetadata.priority;
-				}
-				metadata.push(`[priority:: ${priorityValue}]`);
-			} else {
-				// 使用 emoji 格式
-				let priorityMarker = "";
-				switch (this.taskMetadata.priority) {
-					case 5:
-						priorityMarker = "🔺";
-						break; // Highest
-					case 4:
-						priorityMarker = "⏫";
-						break; // High
-					case 3:
-						priorityMarker = "🔼";
-						break; // Medium
-					case 2:
-						priorityMarker = "🔽";
-						break; // Low
-					case 1:
-						priorityMarker = "⏬";
-						break; // Lowest
-				}
-				if (priorityMarker) {
-					metadata.push(priorityMarker);
-				}
-			}
-		}
-
-		// Add project if set
-		if (this.taskMetadata.project) {
-			if (useDataviewFormat) {
-				const projectPrefix =
-					this.plugin.settings.projectTagPrefix[
-						this.plugin.settings.preferMetadataFormat
-					] || "project";
-				metadata.push(
-					`[${projectPrefix}:: ${this.taskMetadata.project}]`
-				);
-			} else {
-				const projectPrefix =
-					this.plugin.settings.projectTagPrefix[
-						this.plugin.settings.preferMetadataFormat
-					] || "project";
-				metadata.push(`#${projectPrefix}/${this.taskMetadata.project}`);
-			}
-		}
-
-		// Add context if set
-		if (this.taskMetadata.context) {
-			if (useDataviewFormat) {
-				const contextPrefix =
-					this.plugin.settings.contextTagPrefix[
-						this.plugin.settings.preferMetadataFormat
-					] || "context";
-				metadata.push(
-					`[${contextPrefix}:: ${this.taskMetadata.context}]`
-				);
-			} else {
-				const contextPrefix =
-					this.plugin.settings.contextTagPrefix[
-						this.plugin.settings.preferMetadataFormat
-					] || "@";
-				metadata.push(`${contextPrefix}${this.taskMetadata.context}`);
-			}
-		}
-
-		// Add recurrence if set
-		if (this.taskMetadata.recurrence) {
-			metadata.push(
-				useDataviewFormat
-					? `[repeat:: ${this.taskMetadata.recurrence}]`
-					: `🔁 ${this.taskMetadata.recurrence}`
-			);
-		}
-
-		return metadata.join(" ");
-	}
-
-	formatDate(date: Date): string {
-		return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
-			2,
-			"0"
-		)}-${String(date.getDate()).padStart(2, "0")}`;
+		return formatCapturedTasks(content, this.taskMetadata, {
+			...this.plugin.settings,
+			preferMetadataFormat: this.preferMetadataFormat,
+		});
 	}
 
 	parseDate(dateString: string): Date {
@@ -0,0 +1,293 @@
+import {
+	App,
+	Component,
+	debounce,
+	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
+	Menu,
+	TFile,
+} from "obsidian";
+import TaskProgressBarPlugin from "../index";
+import { Task } from "../types/task";
+import { t } from "../translations/helper";
+import {
+	parseTaskQuery,
+	runTaskQuery,
+	TaskQuery,
+	TaskQueryGroup,
+} from "../utils/taskQueryUtils";
+import { TaskListRendererComponent } from "./task-view/TaskList";
+import { TableView } from "./table/TableView";
+import {
+	getViewSettingOrDefault,
+	TableSpecificConfig,
+} from "../common/setting-definition";
+import "../styles/task-query.css";
+
+export const TASK_QUERY_CODE_BLOCK = "task-genius";
+
+/**
+ * Renders a ```task-genius``` code block as a live task list.
+ * The block re-runs its query whenever the task index changes.
+ */
+export class TaskQueryBlockComponent extends MarkdownRenderChild {
+	private query: TaskQuery;
+	// Owns the components created by the latest render
+	private results: Component | null = null;
+
+	private debouncedRender = debounce(() => this.render(), 300, true);
+
+	constructor(
+		containerEl: HTMLElement,
+		private app: App,
+		private plugin: TaskProgressBarPlugin,
+		source: string,
+		private sourcePath: string
+	) {
+		super(containerEl);
+		this.query = parseTaskQuery(source);
+	}
+
+	onload() {
+		this.containerEl.addClass("task-genius-query-block");
+
+		this.registerEvent(
+			this.app.workspace.on("task-genius:task-cache-updated", () => {
+				this.debouncedRender();
+			})
+		);
+
+		this.render();
+	}
+
+	private render() {
+		if (this.results) {
+			this.removeChild(this.results);
+		}
+		const results = this.addChild(new Component());
+		this.results = results;
+		this.containerEl.empty();
+
+		for (const error of this.query.errors) {
+			this.containerEl.createDiv({
+				cls: "task-query-error",
+				text: error,
+			});
+		}
+
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) {
+			this.containerEl.createDiv({
+				cls: "task-query-empty",
+				text: t(
+					"Task Genius views are disabled. Enable them in settings to use task queries."
+				),
+			});
+			return;
+		}
+
+		const allTasks = taskManager.getAllTasks();
+		const { groups, total } = runTaskQuery(
+			allTasks,
+			this.query,
+			this.plugin.settings
+		);
+		const shown = groups.reduce((sum, g) => sum + g.tasks.length, 0);
+
+		const headerEl = this.containerEl.createDiv({
+			cls: "task-query-header",
+		});
+		if (this.query.title) {
+			headerEl.createDiv({
+				cls: "task-query-title",
+				text: this.query.title,
+			});
+		}
+		headerEl.createDiv({
+			cls: "task-query-count",
+			text:
+				total > shown
+					? `${shown} / ${total} ${t("tasks")}`
+					: `${total} ${t("tasks")}`,
+		});
+
+		if (total === 0) {
+			this.containerEl.createDiv({
+				cls: "task-query-empty",
+				text: t("No tasks found."),
+			});
+			return;
+		}
+
+		const allTasksMap = new Map(allTasks.map((task) => [task.id, task]));
+		for (const group of groups) {
+			let groupEl = this.containerEl;
+			if (this.query.groupBy) {
+				groupEl = this.containerEl.createDiv({
+					cls: "task-query-group",
+				});
+				const groupHeader = groupEl.createDiv({
+					cls: "task-query-group-header",
+				});
+				groupHeader.createSpan({
+					cls: "task-query-group-title",
+					text: this.getGroupTitle(group),
+				});
+				groupHeader.createSpan({
+					cls: "task-query-group-count",
+					text: String(group.tasks.length),
+				});
+			}
+			this.renderGroup(results, groupEl, group.tasks, allTasksMap);
+		}
+	}
+
+	private renderGroup(
+		results: Component,
+		groupEl: HTMLElement,
+		tasks: Task[],
+		allTasksMap: Map<string, Task>
+	) {
+		const listEl = groupEl.createDiv({ cls: "task-query-list" });
+
+		if (this.query.view === "table") {
+			const tableView = new TableView(
+				this.app,
+				this.plugin,
+				listEl,
+				this.getTableConfig(),
+				{
+					onTaskCompleted: (task) => this.toggleTaskCompletion(task),
+					onTaskContextMenu: (event, task) =>
+						this.showTaskContextMenu(event, task),
+					onTaskUpdated: (task) => this.updateTask(task),
+				}
+			);
+			results.addChild(tableView);
+			tableView.updateTasks(tasks);
+			return;
+		}
+
+		const renderer = new TaskListRendererComponent(
+			results,
+			listEl,
+			this.plugin,
+			this.app,
+			"query"
+		);
+		renderer.onTaskSelected = () => {};
+		renderer.onTaskCompleted = (task) => this.toggleTaskCompletion(task);
+		renderer.onTaskUpdate = async (_originalTask, updatedTask) => {
+			await this.updateTask(updatedTask);
+		};
+		renderer.onTaskContextMenu = (event, task) =>
+			this.showTaskContextMenu(event, task);
+		renderer.renderTasks(tasks, this.query.view === "tree", allTasksMap);
+	}
+
+	private getTableConfig(): TableSpecificConfig {
+		const specificConfig = getViewSettingOrDefault(this.plugin, "table")
+			.specificConfig as TableSpecificConfig;
+		return {
+			...specificConfig,
+			enableTreeView: false,
+			// The query decides the order; an empty field keeps it as-is
+			defaultSortField: "",
+			// Results are small and the block has no fixed height to scroll in
+			enableLazyLoading: false,
+		};
+	}
+
+	private getGroupTitle(group: TaskQueryGroup): string {
+		if (!group.key) return t("None");
+		switch (this.query.groupBy) {
+			case "priority":
+				return `${t("Priority")} ${group.key}`;
+			case "status":
+				return `[${group.key}]`;
+			default:
+				return group.title;
+		}
+	}
+
+	private showTaskContextMenu(event: MouseEvent, task: Task) {
+		const menu = new Menu();
+		menu.addItem((item) => {
+			item.setTitle(t("Go to task"));
+			item.setIcon("file-input");
+			item.onClick(() => this.openTask(task));
+		});
+		menu.showAtMouseEvent(event);
+	}
+
+	private async openTask(task: Task) {
+		const file = this.app.vault.getAbstractFileByPath(task.filePath);
+		if (!(file instanceof TFile)) return;
+		const leaf = this.app.workspace.getLeaf(
+			task.filePath === this.sourcePath ? false : "tab"
+		);
+		await leaf.openFile(file, {
+			eState: { line: task.line },
+		});
+	}
+
+	private async toggleTaskCompletion(task: Task) {
+		const updatedTask = {
+			...task,
+			completed: !task.completed,
+			metadata: { ...task.metadata },
+		};
+
+		if (updatedTask.completed) {
+			updatedTask.metadata.completedDate = Date.now();
+			const completedMark = (
+				this.plugin.settings.taskStatuses.completed || "x"
+			).split("|")[0];
+			if (updatedTask.status !== completedMark) {
+				updatedTask.status = completedMark;
+			}
+		} else {
+			updatedTask.metadata.completedDate = undefined;
+			const notStartedMark =
+				this.plugin.settings.taskStatuses.notStarted || " ";
+			if (updatedTask.status.toLowerCase() === "x") {
+				updatedTask.status = notStartedMark;
+			}
+		}
+
+		await this.updateTask(updatedTask);
+	}
+
+	private async updateTask(task: Task) {
+		if (!this.plugin.taskManager) return;
+		try {
+			await this.plugin.taskManager.updateTask(task);
+		} catch (error) {
+			console.error("Failed to update task from query block:", error);
+		}
+	}
+
+	onunload() {
+		this.containerEl.empty();
+	}
+}
+
+/**
+ * Code block processor for ```task-genius``` blocks
+ */
+export function renderTaskQueryBlock(
+	plugin: TaskProgressBarPlugin,
+	source: string,
+	el: HTMLElement,
+	ctx: MarkdownPostProcessorContext
+) {
+	ctx.addChild(
+		new TaskQueryBlockComponent(
+			el,
+			plugin.app,
+			plugin,
+			source,
+			ctx.sourcePath
+		)
+	);
+}
@@ -103,12 +103,18 @@ class ViewComponentFactory {
 				return null;
 
 			case "forecast":
-				return new ForecastComponent(parentEl, app, plugin, {
-					onTaskSelected: handlers.onTaskSelected,
-					onTaskCompleted: handlers.onTaskCompleted,
-					onTaskContextMenu: handlers.onTaskContextMenu,
-					onTaskUpdate: handlers.onTaskUpdate,
-				});
+				return new ForecastComponent(
+					parentEl,
+					app,
+					plugin,
+					{
+						onTaskSelected: handlers.onTaskSelected,
+						onTaskCompleted: handlers.onTaskCompleted,
+						onTaskContextMenu: handlers.onTaskContextMenu,
+						onTaskUpdate: handlers.onTaskUpdate,
+					},
+					viewId
+				);
 
 			case "table":
 				if (viewConfig.specificConfig?.viewType === "table") {
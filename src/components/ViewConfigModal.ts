@@ -12,6 +12,8 @@ import { t } from "../translations/helper";
 import {
 	CalendarSpecificConfig,
 	KanbanSpecificConfig,
+	KanbanColumnPolicy,
+	KanbanDoneRule,
 	GanttSpecificConfig,
 	TwoColumnSpecificConfig,
 	SpecificViewConfig,
@@ -22,6 +24,7 @@ import {
 	QuadrantSpecificConfig,
 	DateExistType,
 	PropertyExistType,
+	BlockedStateType,
 	DEFAULT_SETTINGS,
 	SortCriterion,
 } from "../common/setting-definition";
@@ -366,6 +369,80 @@ export class ViewConfigModal extends Modal {
 						this.checkForChanges();
 					});
 				});
+
+			new Setting(contentEl)
+				.setName(t("Show future occurrences"))
+				.setDesc(
+					t(
+						"Show the upcoming occurrences of recurring tasks as read-only entries."
+					)
+				)
+				.addToggle((toggle) => {
+					const currentValue =
+						(
+							this.viewConfig
+								.specificConfig as CalendarSpecificConfig
+						)?.showRecurrenceGhosts ?? false;
+					toggle.setValue(currentValue);
+					toggle.onChange((value) => {
+						if (
+							!this.viewConfig.specificConfig ||
+							this.viewConfig.specificConfig.viewType !==
+								"calendar"
+						) {
+							this.viewConfig.specificConfig = {
+								viewType: "calendar",
+								showRecurrenceGhosts: value,
+							};
+						} else {
+							(
+								this.viewConfig
+									.specificConfig as CalendarSpecificConfig
+							).showRecurrenceGhosts = value;
+						}
+						this.checkForChanges();
+					});
+				});
+
+			new Setting(contentEl)
+				.setName(t("Date for dropped unscheduled tasks"))
+				.setDesc(
+					t(
+						"Which date a task without dates gets when it is dropped on a day."
+					)
+				)
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("scheduledDate", t("Scheduled Date"))
+						.addOption("dueDate", t("Due Date"))
+						.setValue(
+							(
+								this.viewConfig
+									.specificConfig as CalendarSpecificConfig
+							)?.unscheduledDropDate ?? "scheduledDate"
+						)
+						.onChange((value) => {
+							const dropDate = value as
+								| "scheduledDate"
+								| "dueDate";
+							if (
+								!this.viewConfig.specificConfig ||
+								this.viewConfig.specificConfig.viewType !==
+									"calendar"
+							) {
+								this.viewConfig.specificConfig = {
+									viewType: "calendar",
+									unscheduledDropDate: dropDate,
+								};
+							} else {
+								(
+									this.viewConfig
+										.specificConfig as CalendarSpecificConfig
+								).unscheduledDropDate = dropDate;
+							}
+							this.checkForChanges();
+						});
+				});
 		} else if (isKanbanView) {
 			new Setting(contentEl)
 				.setName(t("Group by"))
@@ -415,6 +492,51 @@ export class ViewConfigModal extends Modal {
 						});
 				});
 
+			new Setting(contentEl)
+				.setName(t("Swimlanes"))
+				.setDesc(
+					t(
+						"Split the columns into horizontal lanes by another task property."
+					)
+				)
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("none", t("None"))
+						.addOption("project", t("Project"))
+						.addOption("context", t("Context"))
+						.addOption("priority", t("Priority"))
+						.addOption("tags", t("Tags"))
+						.setValue(
+							(
+								this.viewConfig
+									.specificConfig as KanbanSpecificConfig
+							)?.swimlaneBy || "none"
+						)
+						.onChange((value) => {
+							if (
+								!this.viewConfig.specificConfig ||
+								this.viewConfig.specificConfig.viewType !==
+									"kanban"
+							) {
+								this.viewConfig.specificConfig = {
+									viewType: "kanban",
+									showCheckbox: true,
+									hideEmptyColumns: false,
+									defaultSortField: "priority",
+									defaultSortOrder: "desc",
+									groupBy: "status",
+									swimlaneBy: value as any,
+								};
+							} else {
+								(
+									this.viewConfig
+										.specificConfig as KanbanSpecificConfig
+								).swimlaneBy = value as any;
+							}
+							this.checkForChanges();
+						});
+				});
+
 			new Setting(contentEl)
 				.setName(t("Show checkbox"))
 				.setDesc(t("Show a checkbox for each task in the kanban view."))
@@ -489,6 +611,7 @@ export class ViewConfigModal extends Modal {
 						.addOption("scheduledDate", t("Scheduled Date"))
 						.addOption("startDate", t("Start Date"))
 						.addOption("createdDate", t("Created Date"))
+						.addOption("manual", t("Manual"))
 						.setValue(
 							(
 								this.viewConfig
@@ -559,6 +682,75 @@ export class ViewConfigModal extends Modal {
 			// Custom columns configuration for non-status grouping
 			const kanbanConfig = this.viewConfig
 				.specificConfig as KanbanSpecificConfig;
+
+			if (kanbanConfig) {
+				new Setting(contentEl)
+					.setName(t("When a column is full"))
+					.setDesc(
+						t(
+							"What happens when a card is dropped into a column at its WIP limit."
+						)
+					)
+					.addDropdown((dropdown) => {
+						dropdown
+							.addOption("warn", t("Warn"))
+							.addOption("block", t("Block the drop"))
+							.setValue(kanbanConfig.wipPolicy || "warn")
+							.onChange((value) => {
+								kanbanConfig.wipPolicy = value as any;
+								this.checkForChanges();
+							});
+					});
+			}
+
+			// Limits and rules of the default status columns, custom
+			// columns have them in their own rows
+			if (
+				kanbanConfig &&
+				(kanbanConfig.groupBy || "status") === "status"
+			) {
+				new Setting(contentEl)
+					.setName(t("Column limits and rules"))
+					.setDesc(
+						t(
+							"Maximum cards of each status column, and the rules a card must meet to be dropped into it."
+						)
+					)
+					.setHeading();
+
+				const excludedStatuses =
+					this.plugin.settings.excludeMarksFromCycle || [];
+				this.plugin.settings.taskStatusCycle
+					.filter(
+						(statusName) => !excludedStatuses.includes(statusName)
+					)
+					.forEach((statusName) => {
+						this.addColumnPolicyControls(
+							new Setting(contentEl)
+								.setClass("kanban-column-row")
+								.setName(statusName),
+							kanbanConfig.statusColumnPolicies?.[statusName],
+							() => {
+								if (!kanbanConfig.statusColumnPolicies) {
+									kanbanConfig.statusColumnPolicies = {};
+								}
+								if (
+									!kanbanConfig.statusColumnPolicies[
+										statusName
+									]
+								) {
+									kanbanConfig.statusColumnPolicies[
+										statusName
+									] = {};
+								}
+								return kanbanConfig.statusColumnPolicies[
+									statusName
+								];
+							}
+						);
+					});
+			}
+
 			if (kanbanConfig?.groupBy && kanbanConfig.groupBy !== "status") {
 				new Setting(contentEl)
 					.setName(t("Custom Columns"))
@@ -635,6 +827,11 @@ export class ViewConfigModal extends Modal {
 										}
 									});
 							});
+						this.addColumnPolicyControls(
+							columnSetting,
+							column,
+							() => column
+						);
 
 						// Controls for reordering and deleting
 						columnSetting.addExtraButton((button) => {
@@ -840,6 +1037,40 @@ export class ViewConfigModal extends Modal {
 						this.checkForChanges();
 					});
 				});
+
+			new Setting(contentEl)
+				.setName(t("Show future occurrences"))
+				.setDesc(
+					t(
+						"Show the upcoming occurrences of recurring tasks as read-only entries."
+					)
+				)
+				.addToggle((toggle) => {
+					const currentValue =
+						(
+							this.viewConfig
+								.specificConfig as ForecastSpecificConfig
+						)?.showRecurrenceGhosts ?? false;
+					toggle.setValue(currentValue);
+					toggle.onChange((value) => {
+						if (
+							!this.viewConfig.specificConfig ||
+							this.viewConfig.specificConfig.viewType !==
+								"forecast"
+						) {
+							this.viewConfig.specificConfig = {
+								viewType: "forecast",
+								showRecurrenceGhosts: value,
+							};
+						} else {
+							(
+								this.viewConfig
+									.specificConfig as ForecastSpecificConfig
+							).showRecurrenceGhosts = value;
+						}
+						this.checkForChanges();
+					});
+				});
 		} else if (isQuadrantView) {
 			new Setting(contentEl)
 				.setName(t("Quadrant Classification Method"))
@@ -1364,6 +1595,29 @@ export class ViewConfigModal extends Modal {
 				});
 			});
 
+		new Setting(contentEl)
+			.setName(t("Blocked tasks"))
+			.setDesc(
+				t(
+					"Filter tasks by whether they wait on an unfinished dependency."
+				)
+			)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("any", t("Show all"))
+					.addOption("blocked", t("Only blocked"))
+					.addOption("notBlocked", t("Hide blocked"))
+					.setValue(this.viewFilterRule.blocked || "any")
+					.onChange((value: BlockedStateType) => {
+						if (value === "any") {
+							delete this.viewFilterRule.blocked;
+						} else {
+							this.viewFilterRule.blocked = value;
+						}
+						this.checkForChanges();
+					});
+			});
+
 		// --- Advanced Filter Section ---
 		new Setting(contentEl)
 			.setName(t("Advanced Filtering"))
@@ -1634,6 +1888,50 @@ export class ViewConfigModal extends Modal {
 			});
 	}
 
+	/**
+	 * WIP limit and done rule controls of a kanban column. The policy is
+	 * only created once something is set.
+	 */
+	private addColumnPolicyControls(
+		setting: Setting,
+		policy: KanbanColumnPolicy | undefined,
+		getPolicy: () => KanbanColumnPolicy
+	) {
+		const toggleRule = (rule: KanbanDoneRule, enabled: boolean) => {
+			const target = getPolicy();
+			const rules = (target.doneRules || []).filter((r) => r !== rule);
+			if (enabled) rules.push(rule);
+			target.doneRules = rules.length > 0 ? rules : undefined;
+			this.checkForChanges();
+		};
+
+		setting
+			.addText((text) => {
+				text.setValue(policy?.wipLimit?.toString() || "")
+					.setPlaceholder(t("WIP limit"))
+					.onChange((value) => {
+						const limit = parseInt(value);
+						getPolicy().wipLimit =
+							isNaN(limit) || limit <= 0 ? undefined : limit;
+						this.checkForChanges();
+					});
+				text.inputEl.type = "number";
+				text.inputEl.min = "1";
+			})
+			.addToggle((toggle) => {
+				toggle
+					.setTooltip(t("Requires a completed date"))
+					.setValue(!!policy?.doneRules?.includes("completedDate"))
+					.onChange((value) => toggleRule("completedDate", value));
+			})
+			.addToggle((toggle) => {
+				toggle
+					.setTooltip(t("No open subtasks"))
+					.setValue(!!policy?.doneRules?.includes("noOpenSubtasks"))
+					.onChange((value) => toggleRule("noOpenSubtasks", value));
+			});
+	}
+
 	private parseStringToArray(input: string): string[] {
 		if (!input || input.trim() === "") return [];
 		return input
@@ -1653,6 +1951,10 @@ export class ViewConfigModal extends Modal {
 	private getCurrentFilterRule(): ViewFilterRule {
 		const rules: ViewFilterRule = {};
 
+		if (this.viewFilterRule.blocked) {
+			rules.blocked = this.viewFilterRule.blocked;
+		}
+
 		// Get advanced filter state if available
 		if (this.taskFilterComponent) {
 			try {
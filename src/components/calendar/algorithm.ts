@@ -1,26 +1,58 @@
 import { CalendarEvent } from ".";
 
 /**
- * Placeholder for event positioning algorithms.
- * This might involve calculating overlapping events, assigning vertical positions,
- * handling multi-day spans across different views, etc.
+ * Event positioning algorithms.
+ * Lays out overlapping timed events in the day and week time grids.
  */
 
 export interface EventLayout {
 	id: string; // Event ID
-	top: number; // Vertical position (e.g., percentage or pixel offset)
-	left: number; // Horizontal position (e.g., percentage or pixel offset)
-	width: number; // Width (e.g., percentage)
-	height: number; // Height (e.g., pixel offset for timed events)
+	top: number; // Offset from the start of the time range, in percent
+	left: number; // Horizontal position, in percent of the column
+	width: number; // Width, in percent of the column
+	height: number; // Length within the time range, in percent
 	zIndex: number; // Stacking order
 }
 
+/** Length of timed events without an end or a duration, in minutes */
+export const DEFAULT_TIMED_EVENT_MINUTES = 60;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/** Times set by dragging in the time grid are multiples of this */
+export const SNAP_MINUTES = 15;
+
 /**
- * Calculates layout for events within a specific day or time slot.
- * This is a complex task, especially for overlapping timed events.
+ * Earliest time a task can be dropped at. A date at midnight is read as a
+ * date without a time of day, and would leave the time grid.
+ */
+export const EARLIEST_TIMED_MINUTES = SNAP_MINUTES;
+
+/**
+ * Time of day at a height of a time grid column, in minutes, snapped to
+ * the quarter hour
+ */
+export function getTimeGridMinutes(
+	columnEl: HTMLElement,
+	clientY: number
+): number {
+	const rect = columnEl.getBoundingClientRect();
+	const minutes = ((clientY - rect.top) / rect.height) * MINUTES_PER_DAY;
+	const snapped = Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+	return Math.min(
+		Math.max(snapped, EARLIEST_TIMED_MINUTES),
+		MINUTES_PER_DAY - SNAP_MINUTES
+	);
+}
+
+/**
+ * Calculates the layout of timed events within a time range. Overlapping
+ * events share the width of the column: each gets the first column that is
+ * free at its start, and every event of an overlapping group is as wide as
+ * the group has columns.
  * @param events Events occurring on a specific day or within a time range.
- * @param timeRangeStart Start time of the viewable range (optional, for day/week views).
- * @param timeRangeEnd End time of the viewable range (optional).
+ * @param timeRangeStart Start time of the viewable range (defaults to the start of the first event's day).
+ * @param timeRangeEnd End time of the viewable range (defaults to one day after the start).
  * @returns An array of layout properties for each event.
  */
 export function calculateEventLayout(
@@ -28,16 +60,74 @@ export function calculateEventLayout(
 	timeRangeStart?: Date,
 	timeRangeEnd?: Date
 ): EventLayout[] {
-	console.log("Calculating event layout (stub)", events);
-	// Basic Stub: Return simple layout (no overlap calculation yet)
-	return events.map((event, index) => ({
-		id: event.id,
-		top: index * 10, // Simple stacking for now
-		left: 0,
-		width: 100,
-		height: 20,
-		zIndex: index,
-	}));
+	if (events.length === 0) return [];
+
+	const rangeStart = (
+		timeRangeStart ??
+		new Date(
+			events[0].start.getFullYear(),
+			events[0].start.getMonth(),
+			events[0].start.getDate()
+		)
+	).getTime();
+	const rangeEnd =
+		timeRangeEnd?.getTime() ?? rangeStart + 24 * 60 * 60 * 1000;
+	const rangeLength = rangeEnd - rangeStart;
+	// Short events still get room for their title
+	const minLength = 15 * 60 * 1000;
+
+	const items = events
+		.map((event) => {
+			const start = Math.max(event.start.getTime(), rangeStart);
+			const end =
+				event.end && event.end.getTime() > event.start.getTime()
+					? event.end.getTime()
+					: event.start.getTime() +
+					  DEFAULT_TIMED_EVENT_MINUTES * 60 * 1000;
+			return {
+				event,
+				start,
+				end: Math.min(Math.max(end, start + minLength), rangeEnd),
+				column: 0,
+			};
+		})
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+
+	const layouts: EventLayout[] = [];
+	let group: typeof items = [];
+	let columnEnds: number[] = [];
+	let groupEnd = -Infinity;
+
+	const closeGroup = () => {
+		group.forEach((item) => {
+			layouts.push({
+				id: item.event.id,
+				top: ((item.start - rangeStart) / rangeLength) * 100,
+				left: (item.column / columnEnds.length) * 100,
+				width: 100 / columnEnds.length,
+				height: ((item.end - item.start) / rangeLength) * 100,
+				zIndex: item.column + 1,
+			});
+		});
+		group = [];
+		columnEnds = [];
+	};
+
+	items.forEach((item) => {
+		if (item.start >= groupEnd) {
+			closeGroup();
+		}
+
+		const column = columnEnds.findIndex((end) => end <= item.start);
+		item.column = column === -1 ? columnEnds.length : column;
+		columnEnds[item.column] = item.end;
+		group.push(item);
+		groupEnd =
+			group.length === 1 ? item.end : Math.max(groupEnd, item.end);
+	});
+	closeGroup();
+
+	return layouts;
 }
 
 /**
@@ -3,6 +3,7 @@ import {
 	ButtonComponent,
 	Component,
 	DropdownComponent,
+	Notice,
 	TFile,
 	moment,
 	setIcon,
@@ -23,6 +24,13 @@ import { AgendaView } from "./views/agenda-view";
 import { YearView } from "./views/year-view";
 import TaskProgressBarPlugin from "../../index";
 import { QuickCaptureModal } from "../QuickCaptureModal";
+import { CalendarSpecificConfig } from "../../common/setting-definition";
+import { getProjectedOccurrences } from "../../utils/recurrenceUtils";
+import { hasTimeOfDay } from "../../utils/dateUtil";
+import { DEFAULT_TIMED_EVENT_MINUTES } from "./algorithm";
+import { renderCalendarEvent } from "./rendering/event-renderer";
+import { getDropTarget, getRescheduledTask } from "./reschedule";
+import Sortable from "sortablejs";
 // Import algorithm functions (optional for now, could be used within views)
 // import { calculateEventLayout, determineEventColor } from './algorithm';
 
@@ -51,7 +59,11 @@ export class CalendarComponent extends Component {
 	private currentDate: moment.Moment = moment(); // Use moment.js provided by Obsidian
 
 	private headerEl: HTMLElement;
+	private unscheduledTrayEl: HTMLElement; // Tasks without dates
 	private viewContainerEl: HTMLElement; // Parent container for all views
+	private unscheduledCollapsed = true;
+	private unscheduledComponents: Component[] = [];
+	private unscheduledSortable: Sortable | null = null;
 
 	private app: App;
 	private plugin: TaskProgressBarPlugin;
@@ -82,6 +94,9 @@ export class CalendarComponent extends Component {
 		this.tasks = initialTasks;
 
 		this.headerEl = this.containerEl.createDiv("calendar-header");
+		this.unscheduledTrayEl = this.containerEl.createDiv(
+			"calendar-unscheduled-tray"
+		);
 		this.viewContainerEl = this.containerEl.createDiv(
 			"calendar-view-container"
 		);
@@ -90,6 +105,12 @@ export class CalendarComponent extends Component {
 		if (viewMode) {
 			this.currentViewMode = viewMode as CalendarViewMode;
 		}
+		const trayCollapsed = this.app.loadLocalStorage(
+			"task-genius:calendar-unscheduled-collapsed"
+		);
+		if (typeof trayCollapsed === "boolean") {
+			this.unscheduledCollapsed = trayCollapsed;
+		}
 
 		console.log("CalendarComponent initialized with params:", this.params);
 	}
@@ -105,6 +126,8 @@ export class CalendarComponent extends Component {
 
 	override onunload() {
 		super.onunload();
+		this.unscheduledSortable?.destroy();
+		this.unscheduledSortable = null;
 		// Detach the active view component if it exists
 		if (this.activeViewComponent) {
 			this.removeChild(this.activeViewComponent);
@@ -130,6 +153,7 @@ export class CalendarComponent extends Component {
 		// Clear badge cache when tasks change
 		this.invalidateBadgeEventsCache();
 		this.processTasks();
+		this.renderUnscheduledTray();
 		// Only update the currently active view
 		if (this.activeViewComponent) {
 			this.activeViewComponent.updateEvents(this.events);
@@ -186,6 +210,7 @@ export class CalendarComponent extends Component {
 	 */
 	private render() {
 		this.renderHeader();
+		this.renderUnscheduledTray();
 		this.renderCurrentView();
 	}
 
@@ -288,6 +313,131 @@ export class CalendarComponent extends Component {
 		);
 	}
 
+	/**
+	 * Renders the collapsible tray of tasks without dates. Dragging one onto
+	 * a day of any view schedules it there.
+	 */
+	private renderUnscheduledTray() {
+		this.unscheduledSortable?.destroy();
+		this.unscheduledSortable = null;
+		this.unscheduledComponents.forEach((component) =>
+			this.removeChild(component)
+		);
+		this.unscheduledComponents = [];
+		this.unscheduledTrayEl.empty();
+		this.unscheduledTrayEl.toggleClass(
+			"is-collapsed",
+			this.unscheduledCollapsed
+		);
+
+		const unscheduledTasks = this.tasks.filter(
+			(task) =>
+				!task.completed &&
+				!task.metadata.dueDate &&
+				!task.metadata.scheduledDate &&
+				!task.metadata.startDate
+		);
+
+		const trayHeader = this.unscheduledTrayEl.createDiv(
+			"calendar-unscheduled-header"
+		);
+		setIcon(
+			trayHeader.createSpan("calendar-unscheduled-toggle"),
+			this.unscheduledCollapsed ? "chevron-right" : "chevron-down"
+		);
+		trayHeader.createSpan({
+			cls: "calendar-unscheduled-title",
+			text: t("Unscheduled"),
+		});
+		trayHeader.createSpan({
+			cls: "calendar-unscheduled-count",
+			text: String(unscheduledTasks.length),
+		});
+		this.registerDomEvent(trayHeader, "click", () => {
+			this.unscheduledCollapsed = !this.unscheduledCollapsed;
+			this.app.saveLocalStorage(
+				"task-genius:calendar-unscheduled-collapsed",
+				this.unscheduledCollapsed
+			);
+			this.renderUnscheduledTray();
+		});
+
+		if (this.unscheduledCollapsed) return;
+
+		const trayList = this.unscheduledTrayEl.createDiv(
+			"calendar-unscheduled-list"
+		);
+		if (unscheduledTasks.length === 0) {
+			trayList.createDiv({
+				cls: "calendar-unscheduled-empty",
+				text: t("No unscheduled tasks"),
+			});
+		}
+
+		unscheduledTasks.forEach((task) => {
+			const { eventEl, component } = renderCalendarEvent({
+				// Shown like an all-day agenda event, the start is not shown
+				event: {
+					...task,
+					title: task.content,
+					start: new Date(),
+					allDay: true,
+				},
+				viewType: "agenda",
+				app: this.app,
+				onEventClick: this.onEventClick,
+				onEventHover: this.onEventHover,
+				onEventContextMenu: this.onEventContextMenu,
+				onEventComplete: this.onEventComplete,
+			});
+			this.addChild(component);
+			this.unscheduledComponents.push(component);
+			trayList.appendChild(eventEl);
+		});
+
+		this.unscheduledSortable = Sortable.create(trayList, {
+			group: { name: "calendar-events", pull: true, put: false },
+			sort: false,
+			animation: 150,
+			draggable: ".calendar-event",
+			ghostClass: "calendar-event-ghost",
+			dragClass: "calendar-event-dragging",
+			onEnd: (event) => {
+				this.handleUnscheduledDrop(event);
+			},
+		});
+	}
+
+	/**
+	 * Schedule a task from the tray on the day it was dropped on
+	 */
+	private async handleUnscheduledDrop(event: Sortable.SortableEvent) {
+		if (event.from === event.to) return;
+
+		const task = this.tasks.find(
+			(task) => task.id === event.item.dataset.eventId
+		);
+		const target = getDropTarget(event);
+		// The task shows up in the view once it has its date
+		event.item.detach();
+		if (!task || !target) {
+			this.renderUnscheduledTray();
+			return;
+		}
+
+		const dateField =
+			this.getCalendarConfig()?.unscheduledDropDate ?? "scheduledDate";
+		try {
+			await this.plugin.taskManager.updateTask(
+				getRescheduledTask(task, target, dateField)
+			);
+		} catch (error) {
+			console.error("Failed to schedule task:", error);
+			new Notice(t("Failed to update task date: ") + error.message);
+			this.renderUnscheduledTray();
+		}
+	}
+
 	/**
 	 * Renders the currently selected view (Month, Day, Agenda, etc.).
 	 * Manages attaching/detaching the active view component.
@@ -453,8 +603,8 @@ export class CalendarComponent extends Component {
 		this.invalidateBadgeEventsCache();
 		const primaryDateField = "dueDate"; // TODO: Make this configurable via settings
 
-		// Process tasks
-		this.tasks.forEach((task) => {
+		// Process tasks, with projected occurrences of recurring tasks if enabled
+		[...this.tasks, ...this.getRecurrenceGhosts()].forEach((task) => {
 			// Check if this is an ICS task with badge showType
 			const isIcsTask = (task as any).source?.type === "ics";
 			const icsTask = isIcsTask ? (task as IcsTask) : null; // Type assertion for IcsTask
@@ -470,8 +620,13 @@ export class CalendarComponent extends Component {
 			let eventDate: number | null = null;
 			let isAllDay = true; // Assume tasks are all-day unless time info exists
 
-			// For ICS tasks, use the ICS event dates directly
-			if (isIcsTask && icsTask?.icsEvent) {
+			// For ICS events, use the ICS event dates directly; ICS to-dos
+			// have task dates like markdown tasks
+			if (
+				isIcsTask &&
+				icsTask?.icsEvent &&
+				icsTask.icsEvent.componentType !== "VTODO"
+			) {
 				eventDate = icsTask.icsEvent.dtstart.getTime();
 				isAllDay = icsTask.icsEvent.allDay;
 			} else {
@@ -485,6 +640,8 @@ export class CalendarComponent extends Component {
 				} else if (task.metadata.startDate) {
 					eventDate = task.metadata.startDate;
 				}
+				// Dates with a time of day go into the time grid
+				isAllDay = !eventDate || !hasTimeOfDay(eventDate);
 			}
 			// We could add completedDate here if we want to show completed tasks based on completion time
 
@@ -502,6 +659,15 @@ export class CalendarComponent extends Component {
 				if (isIcsTask && icsTask?.icsEvent?.dtend) {
 					// For ICS events, use the end date from the event
 					end = icsTask.icsEvent.dtend;
+				} else if (!isAllDay) {
+					// Timed tasks last their duration
+					end = moment(start)
+						.add(
+							task.metadata.duration ??
+								DEFAULT_TIMED_EVENT_MINUTES,
+							"minutes"
+						)
+						.toDate();
 				} else if (
 					task.metadata.startDate &&
 					task.metadata.dueDate &&
@@ -551,6 +717,26 @@ export class CalendarComponent extends Component {
 		);
 	}
 
+	/**
+	 * Projected occurrences of recurring tasks for the coming year, if
+	 * enabled for this view
+	 */
+	private getRecurrenceGhosts(): Task[] {
+		const calendarConfig = this.getCalendarConfig();
+		if (!calendarConfig?.showRecurrenceGhosts) return [];
+
+		const until = moment().add(1, "year").valueOf();
+		return this.tasks.flatMap((task) =>
+			getProjectedOccurrences(task, until, 366)
+		);
+	}
+
+	private getCalendarConfig(): CalendarSpecificConfig | undefined {
+		return this.plugin.settings.viewConfiguration.find(
+			(view) => view.id === this.viewId
+		)?.specificConfig as CalendarSpecificConfig | undefined;
+	}
+
 	/**
 	 * Invalidate the badge events cache
 	 */
@@ -1,4 +1,4 @@
-import { App, Component, debounce, moment } from "obsidian";
+import { App, Component, debounce, moment, setIcon } from "obsidian";
 import { CalendarEvent } from "../index"; // Adjust path as needed
 import { EventLayout, determineEventColor } from "../algorithm"; // Adjust path as needed
 import {
@@ -6,6 +6,9 @@ import {
 	MarkdownRendererComponent,
 } from "../../MarkdownRenderer";
 import { createTaskCheckbox } from "../../task-view/details";
+import { isRecurrenceGhost } from "../../../utils/recurrenceUtils";
+import { IcsParser } from "../../../utils/ics/IcsParser";
+import { IcsTask } from "../../../types/ics";
 
 export type EventViewType =
 	| "month"
@@ -90,6 +93,7 @@ export class CalendarEventComponent extends Component {
 
 		// --- View-Specific Rendering ---
 		this.renderByViewType();
+		this.renderAlarmIndicator();
 
 		// --- Common Click Handler ---
 		this.registerEventListeners();
@@ -113,12 +117,43 @@ export class CalendarEventComponent extends Component {
 			// Fallback if no color but completed
 			this.eventEl.addClass("is-completed");
 		}
+
+		if (isRecurrenceGhost(this.event)) {
+			this.eventEl.addClass("is-recurrence-ghost");
+		}
+	}
+
+	/**
+	 * Times the alarms of a calendar event go off
+	 */
+	private getAlarmTimes(): Date[] {
+		const icsEvent = (this.event as Partial<IcsTask>).icsEvent;
+		return icsEvent ? IcsParser.getAlarmTimes(icsEvent) : [];
+	}
+
+	/**
+	 * Show a bell on events with alarms
+	 */
+	private renderAlarmIndicator(): void {
+		if (this.getAlarmTimes().length === 0) return;
+
+		const alarmEl = this.eventEl.createSpan({
+			cls: "calendar-event-alarm",
+		});
+		setIcon(alarmEl, "bell");
 	}
 
 	/**
 	 * Set tooltip information for the event
 	 */
 	private setTooltip(): void {
+		const alarms = this.getAlarmTimes()
+			.map(
+				(time) =>
+					`\nAlarm: ${moment(time).format("YYYY-MM-DD HH:mm")}`
+			)
+			.join("");
+
 		this.eventEl.setAttr(
 			"title",
 			`${clearAllMarks(this.event.title) || "(No title)"}\nStatus: ${
@@ -135,7 +170,7 @@ export class CalendarEventComponent extends Component {
 							"YYYY-MM-DD"
 					  )}`
 					: ""
-			}`
+			}${alarms}`
 		);
 	}
 
@@ -218,37 +253,24 @@ export class CalendarEventComponent extends Component {
 		}
 
 		if (this.layout) {
-			// Apply absolute positioning from layout ONLY for week-timed view
-			if (this.viewType === "week-timed") {
-				this.eventEl.style.position = "absolute";
-				this.eventEl.style.top = `${this.layout.top}px`;
-				this.eventEl.style.left = `${this.layout.left}%`;
-				this.eventEl.style.width = `${this.layout.width}%`;
-				this.eventEl.style.height = `${this.layout.height}px`;
-				this.eventEl.style.zIndex = String(this.layout.zIndex);
-			} else {
-				// For day-timed (now a list), use relative positioning (handled by CSS)
-				this.eventEl.style.position = "relative"; // Ensure it's not absolute
-				this.eventEl.style.width = "100%"; // Take full width in the list
-			}
-		} else if (this.viewType === "week-timed") {
-			// Only warn if layout is missing for week-timed
-			console.warn(
-				"Timed event render called without layout info for event:",
-				this.event.id
-			);
-			// Provide some default fallback style
-			this.eventEl.style.position = "relative"; // Avoid breaking layout completely
-		}
-
-		// Add separate time and title elements
-		// Only show time for week-timed view, not day-timed
-		if (this.event.start && this.viewType === "week-timed") {
-			const eventTime = moment(this.event.start).format("h:mma");
+			// Place the event in the time grid, in percent of the day
+			this.eventEl.style.position = "absolute";
+			this.eventEl.style.top = `${this.layout.top}%`;
+			this.eventEl.style.left = `${this.layout.left}%`;
+			this.eventEl.style.width = `${this.layout.width}%`;
+			this.eventEl.style.height = `${this.layout.height}%`;
+			this.eventEl.style.zIndex = String(this.layout.zIndex);
+
+			const endTime = this.event.end
+				? ` – ${moment(this.event.end).format("HH:mm")}`
+				: "";
 			this.eventEl.createDiv({
 				cls: "calendar-event-time",
-				text: eventTime,
+				text: `${moment(this.event.start).format("HH:mm")}${endTime}`,
 			});
+		} else {
+			this.eventEl.style.position = "relative";
+			this.eventEl.style.width = "100%";
 		}
 
 		const checkbox = createTaskCheckbox(
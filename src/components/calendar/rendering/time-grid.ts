@@ -0,0 +1,360 @@
+import { App, Component, Notice, moment } from "obsidian";
+import { CalendarEvent } from "../index";
+import {
+	calculateEventLayout,
+	DEFAULT_TIMED_EVENT_MINUTES,
+	EARLIEST_TIMED_MINUTES,
+	MINUTES_PER_DAY,
+	SNAP_MINUTES,
+} from "../algorithm";
+import { renderCalendarEvent } from "./event-renderer";
+import { CalendarViewOptions } from "../views/base-view";
+import { isRecurrenceGhost } from "../../../utils/recurrenceUtils";
+import TaskProgressBarPlugin from "../../../index";
+import { t } from "../../../translations/helper";
+import Sortable from "sortablejs";
+
+// Pointer movement before a press on an event becomes a drag, in pixels
+const DRAG_THRESHOLD = 4;
+
+interface TimeGridDrag {
+	event: CalendarEvent;
+	eventEl: HTMLElement;
+	mode: "move" | "resize";
+	startX: number;
+	startY: number;
+	dayIndex: number;
+	startMinutes: number;
+	duration: number;
+	targetDayIndex: number;
+	newStartMinutes: number;
+	newDuration: number;
+	isDragging: boolean;
+}
+
+/**
+ * Hourly grid of the day and week views. Timed events are placed by their
+ * time and can be dragged to another time or day, or resized by their
+ * bottom edge to change their duration.
+ */
+export class TimeGrid extends Component {
+	private gridEl: HTMLElement;
+	private columnEls: HTMLElement[] = [];
+	private eventComponents: Component[] = [];
+	private sortableInstances: Sortable[] = [];
+	private drag: TimeGridDrag | null = null;
+	private suppressClick = false;
+
+	constructor(
+		private app: App,
+		private plugin: TaskProgressBarPlugin,
+		private containerEl: HTMLElement,
+		private days: moment.Moment[],
+		private events: CalendarEvent[],
+		private options: CalendarViewOptions,
+		private scrollTop?: number
+	) {
+		super();
+	}
+
+	onload(): void {
+		super.onload();
+		this.render();
+	}
+
+	onunload(): void {
+		this.stopDrag();
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+		this.gridEl?.detach();
+		super.onunload();
+	}
+
+	public getScrollTop(): number | undefined {
+		return this.gridEl?.scrollTop;
+	}
+
+	private render(): void {
+		const scrollTop = this.gridEl?.scrollTop ?? this.scrollTop;
+		this.gridEl?.detach();
+		this.columnEls = [];
+		this.eventComponents.forEach((component) =>
+			this.removeChild(component)
+		);
+		this.eventComponents = [];
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+
+		this.gridEl = this.containerEl.createDiv("calendar-time-grid");
+		const bodyEl = this.gridEl.createDiv("calendar-time-grid-body");
+
+		const gutterEl = bodyEl.createDiv("calendar-time-grid-gutter");
+		for (let hour = 0; hour < 24; hour++) {
+			gutterEl.createDiv({
+				cls: "calendar-time-grid-hour",
+				text: `${String(hour).padStart(2, "0")}:00`,
+			});
+		}
+
+		this.days.forEach((day, index) => {
+			const columnEl = bodyEl.createDiv({
+				cls: "calendar-time-grid-column",
+				attr: {
+					"data-date": day.format("YYYY-MM-DD"),
+					"data-index": String(index),
+				},
+			});
+			if (day.isSame(moment(), "day")) {
+				columnEl.addClass("is-today");
+				const now = moment();
+				columnEl.createDiv("calendar-time-grid-now").style.top = `${
+					((now.hours() * 60 + now.minutes()) / MINUTES_PER_DAY) *
+					100
+				}%`;
+			}
+			this.columnEls.push(columnEl);
+			this.renderDayEvents(columnEl, day, index);
+
+			// All-day and unscheduled tasks dropped here get this time,
+			// the list they come from writes it
+			this.sortableInstances.push(
+				Sortable.create(columnEl, {
+					group: { name: "calendar-events", pull: false, put: true },
+					sort: false,
+					// Timed events are moved by their own drag
+					draggable: ".calendar-time-grid-drop",
+					ghostClass: "calendar-event-ghost",
+				})
+			);
+		});
+
+		this.registerDomEvent(
+			this.gridEl,
+			"click",
+			(ev) => {
+				// A drag ends with a click on the event, which is not one
+				if (this.suppressClick) {
+					this.suppressClick = false;
+					ev.stopPropagation();
+				}
+			},
+			{ capture: true }
+		);
+
+		// Start at the working day unless the grid was scrolled before
+		this.gridEl.scrollTop = scrollTop ?? (bodyEl.offsetHeight / 24) * 8;
+	}
+
+	private renderDayEvents(
+		columnEl: HTMLElement,
+		day: moment.Moment,
+		dayIndex: number
+	): void {
+		const dayStart = day.clone().startOf("day");
+		const dayEvents = this.events.filter((event) =>
+			moment(event.start).isSame(dayStart, "day")
+		);
+		const layouts = calculateEventLayout(
+			dayEvents,
+			dayStart.toDate(),
+			dayStart.clone().add(1, "day").toDate()
+		);
+
+		dayEvents.forEach((event) => {
+			const layout = layouts.find((l) => l.id === event.id);
+			const { eventEl, component } = renderCalendarEvent({
+				event,
+				viewType: this.days.length > 1 ? "week-timed" : "day-timed",
+				layout,
+				app: this.app,
+				onEventClick: this.options.onEventClick,
+				onEventHover: this.options.onEventHover,
+				onEventContextMenu: this.options.onEventContextMenu,
+				onEventComplete: this.options.onEventComplete,
+			});
+			this.addChild(component);
+			this.eventComponents.push(component);
+			columnEl.appendChild(eventEl);
+
+			if (!this.isEditable(event)) return;
+
+			eventEl.addClass("is-draggable");
+			const handleEl = eventEl.createDiv(
+				"calendar-event-resize-handle"
+			);
+			this.registerDomEvent(eventEl, "pointerdown", (ev) => {
+				const target = ev.target as HTMLElement;
+				if (ev.button !== 0 || target.closest("input, a")) return;
+				this.startDrag(
+					ev,
+					event,
+					eventEl,
+					dayIndex,
+					target === handleEl ? "resize" : "move"
+				);
+			});
+		});
+	}
+
+	/**
+	 * Only tasks can be moved: events from calendars and projected
+	 * occurrences have no line to write to
+	 */
+	private isEditable(event: CalendarEvent): boolean {
+		return (
+			(event as any).source?.type !== "ics" && !isRecurrenceGhost(event)
+		);
+	}
+
+	private startDrag(
+		ev: PointerEvent,
+		event: CalendarEvent,
+		eventEl: HTMLElement,
+		dayIndex: number,
+		mode: "move" | "resize"
+	): void {
+		const start = moment(event.start);
+		const startMinutes = start.hours() * 60 + start.minutes();
+		const duration = event.end
+			? Math.max(
+					moment(event.end).diff(start, "minutes"),
+					SNAP_MINUTES
+			  )
+			: DEFAULT_TIMED_EVENT_MINUTES;
+
+		this.drag = {
+			event,
+			eventEl,
+			mode,
+			startX: ev.clientX,
+			startY: ev.clientY,
+			dayIndex,
+			startMinutes,
+			duration,
+			targetDayIndex: dayIndex,
+			newStartMinutes: startMinutes,
+			newDuration: duration,
+			isDragging: false,
+		};
+		document.addEventListener("pointermove", this.onPointerMove);
+		document.addEventListener("pointerup", this.onPointerUp);
+	}
+
+	private stopDrag(): void {
+		document.removeEventListener("pointermove", this.onPointerMove);
+		document.removeEventListener("pointerup", this.onPointerUp);
+		this.drag?.eventEl.removeClass("is-dragging");
+		this.drag = null;
+	}
+
+	private onPointerMove = (ev: PointerEvent) => {
+		const drag = this.drag;
+		if (!drag) return;
+
+		const dx = ev.clientX - drag.startX;
+		const dy = ev.clientY - drag.startY;
+		if (!drag.isDragging) {
+			if (
+				Math.abs(dx) < DRAG_THRESHOLD &&
+				Math.abs(dy) < DRAG_THRESHOLD
+			) {
+				return;
+			}
+			drag.isDragging = true;
+			drag.eventEl.addClass("is-dragging");
+		}
+		ev.preventDefault();
+
+		const minutesPerPixel =
+			MINUTES_PER_DAY / this.columnEls[drag.dayIndex].offsetHeight;
+		const delta =
+			Math.round((dy * minutesPerPixel) / SNAP_MINUTES) * SNAP_MINUTES;
+
+		if (drag.mode === "resize") {
+			drag.newDuration = Math.min(
+				Math.max(drag.duration + delta, SNAP_MINUTES),
+				MINUTES_PER_DAY - drag.startMinutes
+			);
+			drag.eventEl.style.height = `${
+				(drag.newDuration / MINUTES_PER_DAY) * 100
+			}%`;
+			return;
+		}
+
+		drag.newStartMinutes = Math.min(
+			Math.max(drag.startMinutes + delta, EARLIEST_TIMED_MINUTES),
+			MINUTES_PER_DAY - SNAP_MINUTES
+		);
+		const columnEl = document
+			.elementFromPoint(ev.clientX, ev.clientY)
+			?.closest<HTMLElement>(".calendar-time-grid-column");
+		if (columnEl && this.columnEls.includes(columnEl)) {
+			drag.targetDayIndex = this.columnEls.indexOf(columnEl);
+			if (drag.eventEl.parentElement !== columnEl) {
+				columnEl.appendChild(drag.eventEl);
+			}
+		}
+		drag.eventEl.style.top = `${
+			(drag.newStartMinutes / MINUTES_PER_DAY) * 100
+		}%`;
+		drag.eventEl.style.left = "0%";
+		drag.eventEl.style.width = "100%";
+	};
+
+	private onPointerUp = () => {
+		const drag = this.drag;
+		this.stopDrag();
+		if (!drag?.isDragging) return;
+
+		this.suppressClick = true;
+		if (
+			drag.targetDayIndex === drag.dayIndex &&
+			drag.newStartMinutes === drag.startMinutes &&
+			drag.newDuration === drag.duration
+		) {
+			this.render();
+			return;
+		}
+
+		const start = this.days[drag.targetDayIndex]
+			.clone()
+			.startOf("day")
+			.add(drag.newStartMinutes, "minutes");
+		this.updateEventTime(
+			drag.event,
+			start.valueOf(),
+			drag.mode === "resize"
+				? drag.newDuration
+				: drag.event.metadata.duration
+		).catch((error) => {
+			console.error("Failed to update task time:", error);
+			new Notice(t("Failed to update task time: ") + error.message);
+			this.render();
+		});
+	};
+
+	/**
+	 * Write the new time to the date the event is shown by, and the
+	 * duration when it was resized
+	 */
+	private async updateEventTime(
+		event: CalendarEvent,
+		start: number,
+		duration: number | undefined
+	): Promise<void> {
+		const field = event.metadata.dueDate
+			? "dueDate"
+			: event.metadata.scheduledDate
+			? "scheduledDate"
+			: "startDate";
+
+		await this.plugin.taskManager.updateTask({
+			...event,
+			metadata: {
+				...event.metadata,
+				[field]: start,
+				duration,
+			},
+		});
+	}
+}
@@ -0,0 +1,138 @@
+import Sortable from "sortablejs";
+import { Task } from "../../types/task";
+import { parseLocalDate } from "../../utils/dateUtil";
+import type TaskProgressBarPlugin from "../../index";
+import { CalendarEvent } from "./index";
+import { getTimeGridMinutes } from "./algorithm";
+
+/** Date a task without dates gets when it is dropped on a day */
+export type CalendarDropDateField = "scheduledDate" | "dueDate";
+
+export interface CalendarDropTarget {
+	/** Day the task was dropped on, as YYYY-MM-DD */
+	date: string;
+	/** Minutes into the day, when dropped on the time grid */
+	minutes?: number;
+}
+
+/**
+ * Where a dragged task was dropped: the day of the list it was dropped in,
+ * or of the day cell under the pointer for views without lists per day
+ */
+export function getDropTarget(
+	evt: Sortable.SortableEvent
+): CalendarDropTarget | null {
+	// Sortable passes the pointer event that ended the drag, untyped
+	const point = getClientPoint(
+		(evt as Sortable.SortableEvent & { originalEvent?: Event })
+			.originalEvent
+	);
+	const targetEl =
+		evt.to.closest<HTMLElement>("[data-date]") ??
+		(point
+			? document
+					.elementFromPoint(point.x, point.y)
+					?.closest<HTMLElement>("[data-date]")
+			: null);
+	if (!targetEl?.dataset.date) return null;
+
+	return {
+		date: targetEl.dataset.date,
+		minutes:
+			point && targetEl.hasClass("calendar-time-grid-column")
+				? getTimeGridMinutes(targetEl, point.y)
+				: undefined,
+	};
+}
+
+function getClientPoint(
+	ev: Event | undefined
+): { x: number; y: number } | null {
+	if (!ev) return null;
+	if ("changedTouches" in ev) {
+		const touch = (ev as TouchEvent).changedTouches[0];
+		return touch ? { x: touch.clientX, y: touch.clientY } : null;
+	}
+	const { clientX, clientY } = ev as MouseEvent;
+	// Some drag ends report no position
+	if (!clientX && !clientY) return null;
+	return { x: clientX, y: clientY };
+}
+
+/**
+ * The task moved to the target day. The date the calendar shows the task
+ * by is changed, tasks without dates get the fallback field. The time of
+ * day is kept unless the task was dropped on the time grid.
+ */
+export function getRescheduledTask<T extends Task>(
+	task: T,
+	target: CalendarDropTarget,
+	fallbackField: CalendarDropDateField = "dueDate"
+): T {
+	const field = task.metadata.dueDate
+		? "dueDate"
+		: task.metadata.scheduledDate
+		? "scheduledDate"
+		: task.metadata.startDate
+		? "startDate"
+		: fallbackField;
+
+	const day = parseLocalDate(target.date);
+	if (day === undefined) return task;
+
+	const current = task.metadata[field];
+	const minutes =
+		target.minutes ??
+		(current
+			? new Date(current).getHours() * 60 + new Date(current).getMinutes()
+			: 0);
+	const date = new Date(day);
+	date.setHours(0, minutes);
+
+	return {
+		...task,
+		metadata: { ...task.metadata, [field]: date.getTime() },
+	};
+}
+
+/**
+ * Write the new date of a calendar event dragged to another day
+ * @returns Whether the task was changed
+ */
+export async function rescheduleDroppedEvent(
+	plugin: TaskProgressBarPlugin,
+	events: CalendarEvent[],
+	evt: Sortable.SortableEvent,
+	originalDateStr: string
+): Promise<boolean> {
+	// Agenda items wrap the event element
+	const eventId =
+		evt.item.dataset.eventId ??
+		evt.item.querySelector<HTMLElement>("[data-event-id]")?.dataset
+			.eventId;
+	const target = getDropTarget(evt);
+	if (!eventId || !target) {
+		console.warn(
+			"Could not determine event ID or target date for drag operation"
+		);
+		return false;
+	}
+	if (target.date === originalDateStr && target.minutes === undefined) {
+		// No date change, nothing to do
+		return false;
+	}
+
+	const calendarEvent = events.find((e) => e.id === eventId);
+	if (!calendarEvent) {
+		console.warn(`Calendar event with ID ${eventId} not found`);
+		return false;
+	}
+	if (!plugin.taskManager) {
+		throw new Error("Task manager not available");
+	}
+
+	await plugin.taskManager.updateTask(
+		getRescheduledTask(calendarEvent, target)
+	);
+	return true;
+}
@@ -3,6 +3,8 @@ import { CalendarEvent } from "../index";
 import { renderCalendarEvent } from "../rendering/event-renderer"; // Use new renderer
 import { CalendarViewComponent, CalendarViewOptions } from "./base-view"; // Import base class
 import TaskProgressBarPlugin from "../../../index"; // Import plugin type
+import Sortable from "sortablejs";
+import { rescheduleDroppedEvent } from "../reschedule";
 
 export class AgendaView extends CalendarViewComponent {
 	// Extend base class
@@ -11,6 +13,7 @@ export class AgendaView extends CalendarViewComponent {
 	// private events: CalendarEvent[]; // Inherited
 	private app: App; // Keep app reference
 	private plugin: TaskProgressBarPlugin; // Added for base constructor
+	private sortableInstances: Sortable[] = [];
 
 	constructor(
 		app: App,
@@ -65,60 +68,76 @@ export class AgendaView extends CalendarViewComponent {
 
 		// 4. Render the list
 		if (Object.keys(eventsByDay).length === 0) {
-			this.containerEl.setText(
-				`No upcoming events from ${rangeStart.format(
+			this.containerEl.createDiv({
+				cls: "agenda-empty",
+				text: `No upcoming events from ${rangeStart.format(
 					"MMM D"
-				)} to ${rangeEnd.format("MMM D, YYYY")}.`
-			);
-			return;
+				)} to ${rangeEnd.format("MMM D, YYYY")}.`,
+			});
 		}
 
+		// Days without events are kept as places to drop tasks on
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+
 		let currentDayIter = rangeStart.clone();
 		while (currentDayIter.isSameOrBefore(rangeEnd, "day")) {
 			const dateStr = currentDayIter.format("YYYY-MM-DD");
-			if (eventsByDay[dateStr] && eventsByDay[dateStr].length > 0) {
-				// Create a container for the two-column layout for the day
-				const daySection =
-					this.containerEl.createDiv("agenda-day-section");
-
-				// Left column for the date
-				const dateColumn = daySection.createDiv(
-					"agenda-day-date-column"
-				);
-				const dayHeader = dateColumn.createDiv("agenda-day-header");
-				dayHeader.textContent = currentDayIter.format("dddd, MMMM D");
-				if (currentDayIter.isSame(moment(), "day")) {
-					dayHeader.addClass("is-today");
-				}
-
-				// Right column for the events
-				const eventsColumn = daySection.createDiv(
-					"agenda-day-events-column"
-				);
-				const eventsList = eventsColumn.createDiv("agenda-events-list"); // Keep the original list class if needed
-
-				eventsByDay[dateStr]
-					.sort((a, b) => {
-						const timeA = a.start ? moment(a.start).valueOf() : 0;
-						const timeB = b.start ? moment(b.start).valueOf() : 0;
-						return timeA - timeB;
-					})
-					.forEach((event) => {
-						const eventItem =
-							eventsList.createDiv("agenda-event-item");
-						const { eventEl, component } = renderCalendarEvent({
-							event: event,
-							viewType: "agenda",
-							app: this.app,
-							onEventClick: this.options.onEventClick,
-							onEventHover: this.options.onEventHover,
-							onEventContextMenu: this.options.onEventContextMenu,
-							onEventComplete: this.options.onEventComplete,
-						});
-						this.addChild(component);
-						eventItem.appendChild(eventEl);
-					});
+			const dayEvents = eventsByDay[dateStr] ?? [];
+			// Create a container for the two-column layout for the day
+			const daySection = this.containerEl.createDiv("agenda-day-section");
+			daySection.toggleClass("is-empty", dayEvents.length === 0);
+
+			// Left column for the date
+			const dateColumn = daySection.createDiv("agenda-day-date-column");
+			const dayHeader = dateColumn.createDiv("agenda-day-header");
+			dayHeader.textContent = currentDayIter.format("dddd, MMMM D");
+			if (currentDayIter.isSame(moment(), "day")) {
+				dayHeader.addClass("is-today");
 			}
+
+			// Right column for the events
+			const eventsColumn = daySection.createDiv(
+				"agenda-day-events-column"
+			);
+			const eventsList = eventsColumn.createDiv({
+				cls: "agenda-events-list",
+				attr: { "data-date": dateStr },
+			});
+
+			dayEvents
+				.sort((a, b) => {
+					const timeA = a.start ? moment(a.start).valueOf() : 0;
+					const timeB = b.start ? moment(b.start).valueOf() : 0;
+					return timeA - timeB;
+				})
+				.forEach((event) => {
+					const eventItem = eventsList.createDiv("agenda-event-item");
+					const { eventEl, component } = renderCalendarEvent({
+						event: event,
+						viewType: "agenda",
+						app: this.app,
+						onEventClick: this.options.onEventClick,
+						onEventHover: this.options.onEventHover,
+						onEventContextMenu: this.options.onEventContextMenu,
+						onEventComplete: this.options.onEventComplete,
+					});
+					this.addChild(component);
+					eventItem.appendChild(eventEl);
+				});
+
+			this.sortableInstances.push(
+				Sortable.create(eventsList, {
+					group: "calendar-events",
+					animation: 150,
+					draggable: ".agenda-event-item",
+					ghostClass: "calendar-event-ghost",
+					dragClass: "calendar-event-dragging",
+					onEnd: (event) => {
+						this.handleDragEnd(event, dateStr);
+					},
+				})
+			);
 			currentDayIter.add(1, "day");
 		}
 
@@ -139,4 +158,33 @@ export class AgendaView extends CalendarViewComponent {
 		this.currentDate = date;
 		this.render();
 	}
+
+	/**
+	 * Handle drag end event to update task dates
+	 */
+	private async handleDragEnd(
+		event: Sortable.SortableEvent,
+		originalDateStr: string
+	): Promise<void> {
+		try {
+			const updated = await rescheduleDroppedEvent(
+				this.plugin,
+				this.events,
+				event,
+				originalDateStr
+			);
+			if (!updated && event.from !== event.to) {
+				this.render();
+			}
+		} catch (error) {
+			console.error("Failed to update task date:", error);
+			this.render();
+		}
+	}
+
+	onunload(): void {
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+		super.onunload();
+	}
 }
@@ -1,13 +1,18 @@
 import { App, Component, moment } from "obsidian";
 import { CalendarEvent } from "../index";
 import { renderCalendarEvent } from "../rendering/event-renderer";
+import { TimeGrid } from "../rendering/time-grid";
 import { CalendarViewComponent, CalendarViewOptions } from "./base-view";
 import TaskProgressBarPlugin from "../../../index";
+import Sortable from "sortablejs";
+import { rescheduleDroppedEvent } from "../reschedule";
 
 export class DayView extends CalendarViewComponent {
 	private currentDate: moment.Moment;
 	private app: App;
 	private plugin: TaskProgressBarPlugin;
+	private timeGrid?: TimeGrid;
+	private sortableInstances: Sortable[] = [];
 
 	constructor(
 		app: App,
@@ -52,59 +57,66 @@ export class DayView extends CalendarViewComponent {
 				return 0;
 			});
 
-		// 2. Render Timeline Section (Combined List)
+		// 2. All-day events in a list above the time grid
 		const timelineSection = this.containerEl.createDiv(
-			"calendar-timeline-section" // Keep this class for general styling? Or rename?
-		);
-		const timelineEventsContainer = timelineSection.createDiv(
-			"calendar-timeline-events-container" // Renamed? maybe calendar-day-events-list
+			"calendar-timeline-section"
 		);
+		const dateStr = todayStart.format("YYYY-MM-DD");
+		const timelineEventsContainer = timelineSection.createDiv({
+			cls: "calendar-timeline-events-container",
+			attr: { "data-date": dateStr },
+		});
+		const allDayEvents = dayEvents.filter((event) => event.allDay);
 
-		// 3. Render events in a simple list
 		if (dayEvents.length === 0) {
 			timelineEventsContainer.addClass("is-empty");
 			timelineEventsContainer.setText("(No events for this day)");
-		} else {
-			dayEvents.forEach((event) => {
-				// Remove layout finding logic
-				/*
-				const layout = eventLayouts.find((l) => l.id === event.id);
-				if (!layout) {
-					console.warn("Layout not found for event:", event);
-					// Optionally render it somewhere as a fallback?
-					return;
-				}
-				*/
-
-				// Use the renderer, adjust viewType if needed, remove layout
-				const { eventEl, component } = renderCalendarEvent({
-					event: event,
-					// Use a generic type or reuse 'timed' but styles will handle layout
-					viewType: "day-timed", // Changed back to day-timed, CSS will handle layout
-					// layout: layout, // Removed layout
-					app: this.app,
-					onEventClick: this.options.onEventClick,
-					onEventHover: this.options.onEventHover,
-					onEventContextMenu: this.options.onEventContextMenu,
-					onEventComplete: this.options.onEventComplete,
-				});
-				this.addChild(component);
-				timelineEventsContainer.appendChild(eventEl); // Append directly to the container
+		} else if (allDayEvents.length === 0) {
+			timelineSection.addClass("is-empty");
+		}
 
-				// Add event listeners using the options from the base class
-				if (this.options.onEventClick) {
-					this.registerDomEvent(eventEl, "click", (ev) => {
-						this.options.onEventClick!(ev, event);
-					});
-				}
-				if (this.options.onEventHover) {
-					this.registerDomEvent(eventEl, "mouseenter", (ev) => {
-						this.options.onEventHover!(ev, event);
-					});
-					// Optionally add mouseleave if needed
-				}
+		allDayEvents.forEach((event) => {
+			const { eventEl, component } = renderCalendarEvent({
+				event: event,
+				viewType: "day-allday",
+				app: this.app,
+				onEventClick: this.options.onEventClick,
+				onEventHover: this.options.onEventHover,
+				onEventContextMenu: this.options.onEventContextMenu,
+				onEventComplete: this.options.onEventComplete,
 			});
-		}
+			this.addChild(component);
+			timelineEventsContainer.appendChild(eventEl);
+		});
+
+		// Events and unscheduled tasks dragged here become all-day, events
+		// dragged from here into the time grid get a time
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [
+			Sortable.create(timelineEventsContainer, {
+				group: "calendar-events",
+				animation: 150,
+				ghostClass: "calendar-event-ghost",
+				dragClass: "calendar-event-dragging",
+				onEnd: (event) => {
+					this.handleDragEnd(event, dateStr);
+				},
+			}),
+		];
+
+		// 3. Timed events in the hourly grid
+		const scrollTop = this.timeGrid?.getScrollTop();
+		if (this.timeGrid) this.removeChild(this.timeGrid);
+		this.timeGrid = new TimeGrid(
+			this.app,
+			this.plugin,
+			this.containerEl,
+			[todayStart],
+			dayEvents.filter((event) => !event.allDay),
+			this.options,
+			scrollTop
+		);
+		this.addChild(this.timeGrid);
 	}
 
 	// Update methods to allow changing data after initial render
@@ -117,4 +129,33 @@ export class DayView extends CalendarViewComponent {
 		this.currentDate = date;
 		this.render();
 	}
+
+	/**
+	 * Handle drag end event to update task dates
+	 */
+	private async handleDragEnd(
+		event: Sortable.SortableEvent,
+		originalDateStr: string
+	): Promise<void> {
+		try {
+			const updated = await rescheduleDroppedEvent(
+				this.plugin,
+				this.events,
+				event,
+				originalDateStr
+			);
+			if (!updated && event.from !== event.to) {
+				this.render();
+			}
+		} catch (error) {
+			console.error("Failed to update task date:", error);
+			this.render();
+		}
+	}
+
+	onunload(): void {
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+		super.onunload();
+	}
 }
@@ -8,6 +8,7 @@ import {
 import TaskProgressBarPlugin from "../../../index"; // Import plugin type for settings access
 import { CalendarViewComponent, CalendarViewOptions } from "./base-view"; // Import base class and options type
 import Sortable from "sortablejs";
+import { rescheduleDroppedEvent } from "../reschedule";
 
 /**
  * Utility function to parse date string (YYYY-MM-DD) to Date object
@@ -366,36 +367,17 @@ export class MonthView extends CalendarViewComponent {
 		event: Sortable.SortableEvent,
 		originalDateStr: string
 	): Promise<void> {
-		const eventEl = event.item;
-		const eventId = eventEl.dataset.eventId;
-		const targetContainer = event.to;
-		const targetDateCell = targetContainer.closest(".calendar-day-cell");
-
-		if (!eventId || !targetDateCell) {
-			console.warn(
-				"Could not determine event ID or target date for drag operation"
-			);
-			return;
-		}
-
-		const targetDateStr = targetDateCell.getAttribute("data-date");
-		if (!targetDateStr || targetDateStr === originalDateStr) {
-			// No date change, nothing to do
-			return;
-		}
-
-		// Find the calendar event
-		const calendarEvent = this.events.find((e) => e.id === eventId);
-		if (!calendarEvent) {
-			console.warn(`Calendar event with ID ${eventId} not found`);
-			return;
-		}
-
 		try {
-			await this.updateTaskDate(calendarEvent, targetDateStr);
-			console.log(
-				`Task ${eventId} moved from ${originalDateStr} to ${targetDateStr}`
+			const updated = await rescheduleDroppedEvent(
+				this.plugin,
+				this.events,
+				event,
+				originalDateStr
 			);
+			if (!updated && event.from !== event.to) {
+				// Put the event back where it came from
+				this.render();
+			}
 		} catch (error) {
 			console.error("Failed to update task date:", error);
 			// Revert the visual change by re-rendering
@@ -403,41 +385,6 @@ export class MonthView extends CalendarViewComponent {
 		}
 	}
 
-	/**
-	 * Update task date based on the target date
-	 */
-	private async updateTaskDate(
-		calendarEvent: CalendarEvent,
-		targetDateStr: string
-	): Promise<void> {
-		// Use optimized date parsing for better performance
-		const targetDate = parseDateString(targetDateStr).getTime();
-
-		const taskManager = this.plugin.taskManager;
-
-		if (!taskManager) {
-			throw new Error("Task manager not available");
-		}
-
-		// Create updated task with new date
-		const updatedTask = { ...calendarEvent };
-
-		// Determine which date field to update based on what the task currently has
-		if (calendarEvent.metadata.dueDate) {
-			updatedTask.metadata.dueDate = targetDate;
-		} else if (calendarEvent.metadata.scheduledDate) {
-			updatedTask.metadata.scheduledDate = targetDate;
-		} else if (calendarEvent.metadata.startDate) {
-			updatedTask.metadata.startDate = targetDate;
-		} else {
-			// Default to due date if no date is set
-			updatedTask.metadata.dueDate = targetDate;
-		}
-
-		// Update the task
-		await taskManager.updateTask(updatedTask);
-	}
-
 	/**
 	 * Clean up sortable instances when component is destroyed
 	 */
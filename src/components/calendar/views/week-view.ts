@@ -8,6 +8,8 @@ import {
 import TaskProgressBarPlugin from "../../../index"; // Import plugin type for settings access
 import { CalendarViewComponent, CalendarViewOptions } from "./base-view"; // Import base class and options type
 import Sortable from "sortablejs";
+import { rescheduleDroppedEvent } from "../reschedule";
+import { TimeGrid } from "../rendering/time-grid";
 
 /**
  * Renders the week view grid as a component.
@@ -20,6 +22,7 @@ export class WeekView extends CalendarViewComponent {
 	private app: App; // Keep app reference
 	private plugin: TaskProgressBarPlugin; // Keep plugin reference
 	private sortableInstances: Sortable[] = []; // Store sortable instances for cleanup
+	private timeGrid?: TimeGrid;
 	// Removed onEventClick/onMouseHover properties, now in this.options
 
 	constructor(
@@ -119,6 +122,7 @@ export class WeekView extends CalendarViewComponent {
 		);
 		const weekGrid = weekGridSection.createDiv("calendar-week-grid"); // Renamed class
 		const dayEventContainers: { [key: string]: HTMLElement } = {}; // Renamed variable
+		const visibleDays: moment.Moment[] = [];
 		currentDayIter = startOfWeek.clone();
 
 		while (currentDayIter.isSameOrBefore(endOfWeek, "day")) {
@@ -131,6 +135,7 @@ export class WeekView extends CalendarViewComponent {
 			}
 
 			const dateStr = currentDayIter.format("YYYY-MM-DD");
+			visibleDays.push(currentDayIter.clone());
 			const dayCell = weekGrid.createEl("div", {
 				cls: "calendar-day-column",
 				attr: {
@@ -172,6 +177,7 @@ export class WeekView extends CalendarViewComponent {
 		// --- Render events (Simplified Logic) ---
 		sortedWeekEvents.forEach((event) => {
 			if (!event.start) return; // Skip events without a start date
+			if (!event.allDay) return; // Timed events go into the time grid
 
 			const eventStartMoment = moment(event.start).startOf("day");
 
@@ -236,6 +242,20 @@ export class WeekView extends CalendarViewComponent {
 
 		// Initialize drag and drop functionality
 		this.initializeDragAndDrop(dayEventContainers);
+
+		// Timed events in the hourly grid below the all-day events
+		const scrollTop = this.timeGrid?.getScrollTop();
+		if (this.timeGrid) this.removeChild(this.timeGrid);
+		this.timeGrid = new TimeGrid(
+			this.app,
+			this.plugin,
+			this.containerEl,
+			visibleDays,
+			sortedWeekEvents.filter((event) => !event.allDay),
+			this.options,
+			scrollTop
+		);
+		this.addChild(this.timeGrid);
 	}
 
 	// Update methods to allow changing data after initial render
@@ -297,38 +317,17 @@ export class WeekView extends CalendarViewComponent {
 		event: Sortable.SortableEvent,
 		originalDateStr: string
 	): Promise<void> {
-		const eventEl = event.item;
-		const eventId = eventEl.dataset.eventId;
-		const targetContainer = event.to;
-		const targetDateColumn = targetContainer.closest(
-			".calendar-day-column"
-		);
-
-		if (!eventId || !targetDateColumn) {
-			console.warn(
-				"Could not determine event ID or target date for drag operation"
-			);
-			return;
-		}
-
-		const targetDateStr = targetDateColumn.getAttribute("data-date");
-		if (!targetDateStr || targetDateStr === originalDateStr) {
-			// No date change, nothing to do
-			return;
-		}
-
-		// Find the calendar event
-		const calendarEvent = this.events.find((e) => e.id === eventId);
-		if (!calendarEvent) {
-			console.warn(`Calendar event with ID ${eventId} not found`);
-			return;
-		}
-
 		try {
-			await this.updateTaskDate(calendarEvent, targetDateStr);
-			console.log(
-				`Task ${eventId} moved from ${originalDateStr} to ${targetDateStr}`
+			const updated = await rescheduleDroppedEvent(
+				this.plugin,
+				this.events,
+				event,
+				originalDateStr
 			);
+			if (!updated && event.from !== event.to) {
+				// Put the event back where it came from
+				this.render();
+			}
 		} catch (error) {
 			console.error("Failed to update task date:", error);
 			// Revert the visual change by re-rendering
@@ -336,39 +335,6 @@ export class WeekView extends CalendarViewComponent {
 		}
 	}
 
-	/**
-	 * Update task date based on the target date
-	 */
-	private async updateTaskDate(
-		calendarEvent: CalendarEvent,
-		targetDateStr: string
-	): Promise<void> {
-		const targetDate = moment(targetDateStr).valueOf();
-		const taskManager = this.plugin.taskManager;
-
-		if (!taskManager) {
-			throw new Error("Task manager not available");
-		}
-
-		// Create updated task with new date
-		const updatedTask = { ...calendarEvent };
-
-		// Determine which date field to update based on what the task currently has
-		if (calendarEvent.metadata.dueDate) {
-			updatedTask.metadata.dueDate = targetDate;
-		} else if (calendarEvent.metadata.scheduledDate) {
-			updatedTask.metadata.scheduledDate = targetDate;
-		} else if (calendarEvent.metadata.startDate) {
-			updatedTask.metadata.startDate = targetDate;
-		} else {
-			// Default to due date if no date is set
-			updatedTask.metadata.dueDate = targetDate;
-		}
-
-		// Update the task
-		await taskManager.updateTask(updatedTask);
-	}
-
 	/**
 	 * Clean up sortable instances when component is destroyed
 	 */
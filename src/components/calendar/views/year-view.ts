@@ -6,6 +6,7 @@ import {
 } from "../../../common/setting-definition"; // Import helper
 import TaskProgressBarPlugin from "../../../index"; // Import plugin type for settings access
 import { CalendarViewComponent, CalendarViewOptions } from "./base-view"; // Import base class
+import Sortable from "sortablejs";
 
 /**
  * Renders the year view grid as a component.
@@ -17,6 +18,7 @@ export class YearView extends CalendarViewComponent {
 	// private events: CalendarEvent[]; // Inherited
 	private app: App; // Keep app reference
 	private plugin: TaskProgressBarPlugin; // Keep plugin reference
+	private sortableInstances: Sortable[] = [];
 	// Removed specific click/hover properties, use this.options
 
 	constructor(
@@ -42,6 +44,9 @@ export class YearView extends CalendarViewComponent {
 			`YearView: Rendering year ${year}. Total events received: ${this.events.length}`
 		); // Log total events
 
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+
 		// Create a grid container for the 12 months (e.g., 4x3)
 		const yearGrid = this.containerEl.createDiv("calendar-year-grid");
 
@@ -123,6 +128,17 @@ export class YearView extends CalendarViewComponent {
 				effectiveFirstDay,
 				hideWeekends
 			);
+
+			// Tasks can be dropped on the days, the dragged task finds the
+			// day under the pointer
+			this.sortableInstances.push(
+				Sortable.create(monthBody, {
+					group: { name: "calendar-events", pull: false, put: true },
+					sort: false,
+					draggable: ".mini-month-drop",
+					ghostClass: "calendar-event-ghost",
+				})
+			);
 		}
 
 		const totalRenderEndTime = performance.now(); // End total render time
@@ -319,6 +335,12 @@ export class YearView extends CalendarViewComponent {
 		this.render(); // Re-render will pick up current settings and date
 	}
 
+	onunload(): void {
+		this.sortableInstances.forEach((instance) => instance.destroy());
+		this.sortableInstances = [];
+		super.onunload();
+	}
+
 	private debounceHover = debounce((ev: MouseEvent) => {
 		const target = ev.target as HTMLElement;
 		if (target.closest(".mini-day-cell")) {
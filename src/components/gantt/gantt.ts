@@ -3,6 +3,7 @@ import {
 	Component,
 	debounce,
 	MarkdownRenderer as ObsidianMarkdownRenderer,
+	Notice,
 	TFile,
 } from "obsidian";
 import { type Task } from "../../types/task";
@@ -21,6 +22,12 @@ import {
 import { ActiveFilter, FilterCategory } from "../inview-filter/filter-type";
 import { ScrollToDateButton } from "../inview-filter/custom/scroll-to-date-button";
 import { PRIORITY_MAP } from "../../common/default-symbol";
+import {
+	GanttDragMode,
+	getRescheduledTask,
+	snapDayDelta,
+} from "./task-drag";
+import { t } from "../../translations/helper";
 
 // Define the PRIORITY_MAP here as well, or import it if moved to a shared location
 // This is needed to convert filter value (icon/text) back to number for comparison
@@ -148,6 +155,17 @@ export class GanttComponent extends Component {
 	private leftIndicatorEl: HTMLElement; // Now a container
 	private rightIndicatorEl: HTMLElement; // Now a container
 
+	// Drag-to-reschedule state
+	private dragState: {
+		preparedTask: PlacedGanttTaskItem;
+		mode: GanttDragMode;
+		groupEl: SVGGElement;
+		originX: number;
+		dayDelta: number;
+		moved: boolean;
+	} | null = null;
+	private suppressNextClick: boolean = false;
+
 	constructor(
 		private plugin: TaskProgressBarPlugin,
 		containerEl: HTMLElement,
@@ -249,6 +267,10 @@ export class GanttComponent extends Component {
 		this.registerDomEvent(this.containerEl, "wheel", this.handleWheel, {
 			passive: false,
 		});
+
+		// Dragging continues outside the chart, so listen on the window
+		this.registerDomEvent(window, "pointermove", this.handleDragMove);
+		this.registerDomEvent(window, "pointerup", this.handleDragEnd);
 		// Initial render is triggered by updateTasks or refresh
 	}
 
@@ -789,6 +811,7 @@ export class GanttComponent extends Component {
 			useMarkdownRenderer: this.config.useMarkdownRenderer,
 			handleTaskClick: this.handleTaskClick.bind(this),
 			handleTaskContextMenu: this.handleTaskContextMenu.bind(this),
+			handleTaskDragStart: this.handleTaskDragStart.bind(this),
 			parentComponent: this, // Pass self as parent context for MarkdownRenderer
 			// Pass other params like milestoneSize, barHeightRatio if needed
 		});
@@ -1015,9 +1038,167 @@ export class GanttComponent extends Component {
 	};
 
 	private handleTaskClick(task: Task) {
+		// A drag ends with a click on the same element; don't treat it as a selection
+		if (this.suppressNextClick) {
+			this.suppressNextClick = false;
+			return;
+		}
 		this.params.onTaskSelected?.(task);
 	}
 
+	// --- Drag to Reschedule ---
+
+	private handleTaskDragStart(
+		event: PointerEvent,
+		preparedTask: PlacedGanttTaskItem,
+		mode: GanttDragMode,
+		groupEl: SVGGElement
+	) {
+		if (event.button !== 0 || !this.plugin.taskManager) return;
+
+		event.preventDefault();
+		this.containerEl.focus();
+		this.dragState = {
+			preparedTask,
+			mode,
+			groupEl,
+			originX: event.clientX,
+			dayDelta: 0,
+			moved: false,
+		};
+		groupEl.classList.add("is-dragging");
+	}
+
+	private handleDragMove = (event: PointerEvent) => {
+		if (!this.dragState) return;
+
+		const deltaX = event.clientX - this.dragState.originX;
+		if (Math.abs(deltaX) > 3) {
+			this.dragState.moved = true;
+		}
+
+		const dayDelta = snapDayDelta(deltaX, this.dayWidth, this.timescale);
+		if (dayDelta === this.dragState.dayDelta) return;
+		this.dragState.dayDelta = dayDelta;
+		this.previewDrag();
+	};
+
+	private handleDragEnd = async (event: PointerEvent) => {
+		if (!this.dragState) return;
+
+		const { preparedTask, mode, groupEl, dayDelta, moved } =
+			this.dragState;
+		this.dragState = null;
+		groupEl.classList.remove("is-dragging");
+
+		if (moved) {
+			this.suppressNextClick = true;
+			// Clear the flag if no click follows (e.g. released outside the bar)
+			setTimeout(() => (this.suppressNextClick = false), 0);
+		}
+
+		const updatedTask = getRescheduledTask(
+			preparedTask.task,
+			mode,
+			dayDelta
+		);
+		if (!updatedTask) {
+			this.debouncedRender(); // Snap the preview back
+			return;
+		}
+
+		await this.rescheduleTask(preparedTask.task, updatedTask);
+	};
+
+	/**
+	 * Move or resize the dragged element to show the snapped result
+	 */
+	private previewDrag() {
+		if (!this.dragState) return;
+
+		const { preparedTask, mode, groupEl, dayDelta } = this.dragState;
+		const offset = dayDelta * this.dayWidth;
+
+		if (mode === "move") {
+			groupEl.setAttribute("transform", `translate(${offset}, 0)`);
+			return;
+		}
+
+		const barEl = groupEl.querySelector(".gantt-task-bar");
+		if (!barEl || preparedTask.width === undefined) return;
+
+		if (mode === "resize-start") {
+			const width = Math.max(
+				this.dayWidth,
+				preparedTask.width - offset
+			);
+			barEl.setAttribute(
+				"x",
+				`${preparedTask.startX + preparedTask.width - width}`
+			);
+			barEl.setAttribute("width", `${width}`);
+		} else {
+			barEl.setAttribute(
+				"width",
+				`${Math.max(this.dayWidth, preparedTask.width + offset)}`
+			);
+		}
+	}
+
+	/**
+	 * Write the new dates through the task manager, the edit journal keeps
+	 * the old ones for undo
+	 */
+	private async rescheduleTask(originalTask: Task, updatedTask: Task) {
+		// Show the new position right away instead of waiting for the reindex
+		this.replaceTask(updatedTask);
+
+		const previousEdit = this.plugin.taskManager.getUndoEdit();
+		try {
+			await this.plugin.taskManager.updateTask(updatedTask);
+		} catch (error) {
+			console.error("Failed to reschedule task:", error);
+			new Notice(t("Failed to update task"));
+			this.replaceTask(originalTask);
+			return;
+		}
+
+		const edit = this.plugin.taskManager.getUndoEdit();
+		new Notice(
+			createFragment((frag) => {
+				frag.createSpan({ text: t("Task rescheduled") + " " });
+				if (!edit || edit === previousEdit) return;
+				const undoLink = frag.createEl("a", {
+					text: t("Undo"),
+					href: "#",
+				});
+				undoLink.addEventListener("click", (e) => {
+					e.preventDefault();
+					// Only while nothing was edited after it
+					if (this.plugin.taskManager.getUndoEdit() !== edit) {
+						new Notice(
+							t("Tasks were edited since, undo them first")
+						);
+						return;
+					}
+					this.plugin.undoTaskEdit();
+				});
+			}),
+			5000
+		);
+	}
+
+	/**
+	 * Swap a task in the local lists and redraw
+	 */
+	private replaceTask(task: Task) {
+		const replace = (tasks: Task[]) =>
+			tasks.map((existing) => (existing.id === task.id ? task : existing));
+		this.allTasks = replace(this.allTasks);
+		this.tasks = replace(this.tasks);
+		this.debouncedRender();
+	}
+
 	private handleTaskContextMenu(event: MouseEvent, task: Task) {
 		this.params.onTaskContextMenu?.(event, task);
 	}
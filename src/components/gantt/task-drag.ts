@@ -0,0 +1,106 @@
+import type { Timescale } from "./gantt";
+import { Task } from "../../types/task";
+import { DateHelper } from "../../utils/DateHelper";
+
+// What part of a task the user grabbed
+export type GanttDragMode = "move" | "resize-start" | "resize-end";
+
+// Snap step (in days) for each timescale
+const SNAP_DAYS: Record<Timescale, number> = {
+	Day: 1,
+	Week: 1,
+	Month: 7,
+	Year: 30,
+};
+
+const dateHelper = new DateHelper();
+
+/**
+ * Convert a horizontal drag distance into a whole number of days,
+ * snapped to the step of the current timescale.
+ */
+export function snapDayDelta(
+	deltaX: number,
+	dayWidth: number,
+	timescale: Timescale
+): number {
+	if (dayWidth <= 0) return 0;
+	const step = SNAP_DAYS[timescale] ?? 1;
+	const snapped = Math.round(deltaX / dayWidth / step) * step;
+	// Avoid returning -0
+	return snapped === 0 ? 0 : snapped;
+}
+
+/**
+ * Whether a task can be rescheduled from the Gantt chart
+ */
+export function isTaskDraggable(task: Task): boolean {
+	const source = (task as any).source;
+	if ((task as any).readonly || source?.type === "ics") return false;
+	return !!(
+		task.metadata.startDate ||
+		task.metadata.scheduledDate ||
+		task.metadata.dueDate
+	);
+}
+
+/**
+ * Build a copy of the task with its dates shifted for a drag.
+ * The bar start is the start date, or the scheduled date when there is none,
+ * matching how the Gantt chart places bars.
+ * Returns null when the drag leaves the dates unchanged.
+ */
+export function getRescheduledTask(
+	task: Task,
+	mode: GanttDragMode,
+	dayDelta: number
+): Task | null {
+	if (dayDelta === 0) return null;
+
+	const startField: "startDate" | "scheduledDate" | null = task.metadata
+		.startDate
+		? "startDate"
+		: task.metadata.scheduledDate
+		? "scheduledDate"
+		: null;
+	const start = startField ? task.metadata[startField] : undefined;
+	const due = task.metadata.dueDate;
+
+	const shift = (date: number, days: number) =>
+		dateHelper.addDays(new Date(date), days).getTime();
+
+	const metadata = { ...task.metadata };
+
+	switch (mode) {
+		case "move":
+			if (startField && start) {
+				metadata[startField] = shift(start, dayDelta);
+			}
+			if (due) {
+				metadata.dueDate = shift(due, dayDelta);
+			}
+			break;
+		case "resize-start": {
+			if (!startField || !start) return null;
+			let newStart = shift(start, dayDelta);
+			// The start may not pass the due date
+			if (due && newStart > due) newStart = due;
+			if (newStart === start) return null;
+			metadata[startField] = newStart;
+			break;
+		}
+		case "resize-end": {
+			// Bars without a due date end on their start day
+			const end = due ?? start;
+			if (!end) return null;
+			let newDue = shift(end, dayDelta);
+			// The due date may not pass the start
+			if (start && newDue < start) newDue = start;
+			if (newDue === due) return null;
+			metadata.dueDate = newDue;
+			break;
+		}
+	}
+
+	return { ...task, metadata };
+}
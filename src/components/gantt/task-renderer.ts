@@ -7,12 +7,14 @@ import {
 import { GanttTaskItem, PlacedGanttTaskItem, Timescale } from "./gantt"; // 添加PlacedGanttTaskItem导入
 import { Task } from "../../types/task";
 import { MarkdownRendererComponent } from "../MarkdownRenderer";
+import { GanttDragMode, isTaskDraggable } from "./task-drag";
 
 // Constants from GanttComponent (consider moving to a shared config/constants file)
 const ROW_HEIGHT = 24;
 const TASK_BAR_HEIGHT_RATIO = 0.6;
 const MILESTONE_SIZE = 10;
 const TASK_LABEL_PADDING = 5;
+const RESIZE_HANDLE_WIDTH = 6;
 
 // Interface for parameters needed by the task renderer
 interface TaskRendererParams {
@@ -26,6 +28,13 @@ interface TaskRendererParams {
 	useMarkdownRenderer: boolean;
 	handleTaskClick: (task: Task) => void; // Callback for task clicks
 	handleTaskContextMenu: (event: MouseEvent, task: Task) => void; // Callback for task context menu
+	// Callback when the user starts dragging a bar, a bar edge or a milestone
+	handleTaskDragStart?: (
+		event: PointerEvent,
+		preparedTask: PlacedGanttTaskItem,
+		mode: GanttDragMode,
+		groupEl: SVGGElement
+	) => void;
 	// Pass the parent component for MarkdownRenderer context if needed
 	// We might need a different approach if static rendering is used
 	parentComponent: Component;
@@ -100,6 +109,7 @@ export class TaskRendererComponent extends Component {
 			app,
 			handleTaskClick,
 			handleTaskContextMenu,
+			handleTaskDragStart,
 			showTaskLabels,
 			useMarkdownRenderer,
 			rowHeight = ROW_HEIGHT,
@@ -120,6 +130,16 @@ export class TaskRendererComponent extends Component {
 
 		const barHeight = rowHeight * taskBarHeightRatio;
 		const barY = preparedTask.y - barHeight / 2;
+		const draggable = !!handleTaskDragStart && isTaskDraggable(task);
+		const bindDrag = (el: SVGElement, mode: GanttDragMode) => {
+			el.addEventListener("pointerdown", (event: PointerEvent) => {
+				event.stopPropagation();
+				handleTaskDragStart?.(event, preparedTask, mode, group);
+			});
+		};
+		if (draggable) {
+			group.classList.add("is-draggable");
+		}
 
 		let taskElement: SVGElement | null = null;
 
@@ -199,6 +219,10 @@ export class TaskRendererComponent extends Component {
 				}
 			}
 
+			if (draggable) {
+				bindDrag(taskElement, "move");
+			}
+
 			// Add tooltip for milestone
 			group.setAttribute(
 				"title",
@@ -317,6 +341,44 @@ export class TaskRendererComponent extends Component {
 					textLabel.style.pointerEvents = "none";
 				}
 			}
+
+			// --- Drag handles (drawn last so they sit above the label) ---
+			if (draggable) {
+				bindDrag(taskElement, "move");
+
+				const handleWidth = Math.min(
+					RESIZE_HANDLE_WIDTH,
+					preparedTask.width / 3
+				);
+				const hasStart = !!(
+					task.metadata.startDate || task.metadata.scheduledDate
+				);
+				if (hasStart) {
+					const startHandle = group.createSvg("rect", {
+						attr: {
+							x: preparedTask.startX,
+							y: barY,
+							width: handleWidth,
+							height: barHeight,
+							class: "gantt-task-resize-handle gantt-task-resize-handle-start",
+						},
+					});
+					bindDrag(startHandle, "resize-start");
+				}
+				const endHandle = group.createSvg("rect", {
+					attr: {
+						x:
+							preparedTask.startX +
+							preparedTask.width -
+							handleWidth,
+						y: barY,
+						width: handleWidth,
+						height: barHeight,
+						class: "gantt-task-resize-handle gantt-task-resize-handle-end",
+					},
+				});
+				bindDrag(endHandle, "resize-end");
+			}
 		}
 
 		// Apply status class to the group for potential styling overrides
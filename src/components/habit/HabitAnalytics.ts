@@ -0,0 +1,253 @@
+import { Component, ExtraButtonComponent, moment, setIcon } from "obsidian";
+import {
+	CountHabitProps,
+	HabitProps,
+	MappingHabitProps,
+} from "../../types/habit-card";
+import TaskProgressBarPlugin from "../../index";
+import { t } from "../../translations/helper";
+import { getLocalDateString } from "../../utils/dateUtil";
+import {
+	getHabitCoOccurrence,
+	getHabitLevel,
+	getMappingDistribution,
+	getMonthlyTotals,
+	isHabitDoneOn,
+} from "../../utils/habitStats";
+
+/**
+ * Analytics mode of the habit view: a yearly heatmap per habit, monthly
+ * totals of count habits, the value distribution of mapping habits and
+ * which habits are done on the same days
+ */
+export class HabitAnalytics extends Component {
+	year: number = new Date().getFullYear();
+
+	constructor(public plugin: TaskProgressBarPlugin) {
+		super();
+	}
+
+	render(container: HTMLElement, habits: HabitProps[]): void {
+		const root = container.createDiv({ cls: "habit-analytics" });
+		const startDate = `${this.year}-01-01`;
+		const endDate = `${this.year}-12-31`;
+
+		const header = root.createDiv({ cls: "habit-analytics-header" });
+		new ExtraButtonComponent(header)
+			.setIcon("chevron-left")
+			.setTooltip(t("Previous year"))
+			.onClick(() => {
+				this.year--;
+				this.rerender(container, habits);
+			});
+		header.createSpan({
+			cls: "habit-analytics-year",
+			text: this.year.toString(),
+		});
+		new ExtraButtonComponent(header)
+			.setIcon("chevron-right")
+			.setTooltip(t("Next year"))
+			.onClick(() => {
+				this.year++;
+				this.rerender(container, habits);
+			});
+
+		habits.forEach((habit) => {
+			const section = root.createDiv({ cls: "habit-analytics-section" });
+			const title = section.createDiv({ cls: "habit-analytics-title" });
+			setIcon(
+				title.createSpan({ cls: "habit-icon" }),
+				habit.icon || "dice"
+			);
+			title.createSpan({ cls: "habit-name", text: habit.name });
+
+			const doneDays = Object.keys(habit.completions ?? {}).filter(
+				(date) =>
+					date >= startDate &&
+					date <= endDate &&
+					isHabitDoneOn(habit, date)
+			).length;
+			title.createSpan({
+				cls: "habit-analytics-count",
+				text: `${doneDays} ${t("days")}`,
+			});
+
+			this.renderYearHeatmap(section, habit);
+
+			if (habit.type === "count") {
+				this.renderMonthlyTotals(section, habit);
+			} else if (habit.type === "mapping") {
+				this.renderDistribution(section, habit, startDate, endDate);
+			}
+		});
+
+		if (habits.length > 1) {
+			this.renderCoOccurrence(root, habits, startDate, endDate);
+		}
+	}
+
+	private rerender(container: HTMLElement, habits: HabitProps[]) {
+		container.empty();
+		this.render(container, habits);
+	}
+
+	// GitHub-style heatmap, a column per week starting on Monday
+	private renderYearHeatmap(container: HTMLElement, habit: HabitProps) {
+		const heatmap = container.createDiv({ cls: "habit-year-heatmap" });
+		const firstDay = new Date(this.year, 0, 1);
+		// Empty cells before the first of January
+		for (let i = 0; i < (firstDay.getDay() + 6) % 7; i++) {
+			heatmap.createDiv({ cls: "habit-year-cell is-empty" });
+		}
+
+		for (
+			let day = firstDay;
+			day.getFullYear() === this.year;
+			day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+		) {
+			const date = getLocalDateString(day);
+			const level = getHabitLevel(habit, date);
+			const cell = heatmap.createDiv({
+				cls: `habit-year-cell level-${level}`,
+			});
+			cell.dataset.date = date;
+			cell.setAttribute(
+				"aria-label",
+				level > 0 ? `${date}: ${this.getValueText(habit, date)}` : date
+			);
+		}
+	}
+
+	private renderMonthlyTotals(
+		container: HTMLElement,
+		habit: CountHabitProps
+	) {
+		const totals = getMonthlyTotals(habit, this.year);
+		const highest = Math.max(...totals, 1);
+		const months = moment.monthsShort();
+
+		const chart = container.createDiv({ cls: "habit-analytics-bars" });
+		chart.createDiv({
+			cls: "habit-analytics-subtitle",
+			text: t("Monthly totals"),
+		});
+		totals.forEach((total, month) => {
+			this.renderBar(
+				chart,
+				months[month],
+				total / highest,
+				habit.countUnit ? `${total} ${habit.countUnit}` : `${total}`
+			);
+		});
+	}
+
+	private renderDistribution(
+		container: HTMLElement,
+		habit: MappingHabitProps,
+		startDate: string,
+		endDate: string
+	) {
+		const distribution = getMappingDistribution(habit, startDate, endDate);
+		const highest = Math.max(...distribution.map((item) => item.count), 1);
+
+		const chart = container.createDiv({ cls: "habit-analytics-bars" });
+		chart.createDiv({
+			cls: "habit-analytics-subtitle",
+			text: t("Value distribution"),
+		});
+		distribution.forEach((item) => {
+			this.renderBar(
+				chart,
+				item.label,
+				item.count / highest,
+				`${item.count} ${t("days")}`
+			);
+		});
+	}
+
+	private renderBar(
+		container: HTMLElement,
+		label: string,
+		ratio: number,
+		valueText: string
+	) {
+		const row = container.createDiv({ cls: "habit-analytics-bar-row" });
+		row.createSpan({ cls: "habit-analytics-bar-label", text: label });
+		const track = row.createDiv({ cls: "habit-analytics-bar-track" });
+		track.createDiv({ cls: "habit-analytics-bar" }).style.width = `${
+			ratio * 100
+		}%`;
+		row.createSpan({ cls: "habit-analytics-bar-value", text: valueText });
+	}
+
+	// Days both habits were done, as a share of the days of the row habit
+	private renderCoOccurrence(
+		container: HTMLElement,
+		habits: HabitProps[],
+		startDate: string,
+		endDate: string
+	) {
+		const { counts } = getHabitCoOccurrence(habits, startDate, endDate);
+
+		const section = container.createDiv({
+			cls: "habit-analytics-section habit-co-occurrence",
+		});
+		section.createDiv({
+			cls: "habit-analytics-title",
+			text: t("Done on the same days"),
+		});
+		section.createDiv({
+			cls: "habit-analytics-subtitle",
+			text: t(
+				"Share of the days a habit in a row was done on which the habit in a column was done too"
+			),
+		});
+
+		const table = section.createEl("table");
+		const headerRow = table.createEl("thead").createEl("tr");
+		headerRow.createEl("th");
+		habits.forEach((habit) => {
+			headerRow.createEl("th", { text: habit.name });
+		});
+
+		const body = table.createEl("tbody");
+		habits.forEach((habit, row) => {
+			const tr = body.createEl("tr");
+			tr.createEl("th", { text: habit.name });
+			habits.forEach((other, column) => {
+				const days = counts[row][row];
+				const shared = counts[row][column];
+				const share = days > 0 ? shared / days : 0;
+				const cell = tr.createEl("td", {
+					text: row === column ? "—" : `${Math.round(share * 100)}%`,
+				});
+				if (row === column) return;
+
+				cell.style.setProperty("--habit-co-occurrence", `${share}`);
+				cell.addClass("habit-co-occurrence-cell");
+				cell.setAttribute(
+					"aria-label",
+					`${habit.name} + ${other.name}: ${shared}/${days} ${t(
+						"days"
+					)}`
+				);
+			});
+		});
+	}
+
+	private getValueText(habit: HabitProps, date: string): string {
+		const value: any = habit.completions[date];
+		switch (habit.type) {
+			case "count":
+				return habit.countUnit
+					? `${value} ${habit.countUnit}`
+					: `${value}`;
+			case "mapping":
+				return habit.mapping[value] ?? `${value}`;
+			case "scheduled":
+				return Object.keys(value).join(", ");
+			default:
+				return isHabitDoneOn(habit, date) ? t("Completed") : `${value}`;
+		}
+	}
+}
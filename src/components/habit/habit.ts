@@ -20,17 +20,21 @@ import {
 	ScheduledHabitCard,
 	MappingHabitCard,
 } from "./habitcard/index"; // Import the habit card classes
+import { HabitAnalytics } from "./HabitAnalytics";
 import { t } from "../../translations/helper";
 import "../../styles/habit.css";
 
 export class Habit extends Component {
 	plugin: TaskProgressBarPlugin;
 	containerEl: HTMLElement; // The element where the view will be rendered
+	mode: "cards" | "analytics" = "cards";
+	analytics: HabitAnalytics;
 
 	constructor(plugin: TaskProgressBarPlugin, parentEl: HTMLElement) {
 		super();
 		this.plugin = plugin;
 		this.containerEl = parentEl.createDiv("tg-habit-component-container");
+		this.analytics = this.addChild(new HabitAnalytics(plugin));
 	}
 
 	async onload() {
@@ -63,7 +67,17 @@ export class Habit extends Component {
 		if (!habits || habits.length === 0) {
 			this.renderEmptyState();
 		} else {
-			this.renderHabitList(habits);
+			this.renderToolbar();
+			if (this.mode === "analytics") {
+				this.analytics.render(
+					this.containerEl.createDiv({
+						cls: "habit-analytics-container",
+					}),
+					habits
+				);
+			} else {
+				this.renderHabitList(habits);
+			}
 		}
 		this.containerEl.scrollTop = scrollState; // Restore scroll position
 	};
@@ -92,6 +106,22 @@ export class Habit extends Component {
 			});
 	}
 
+	// Switch between the habit cards and the analytics
+	renderToolbar() {
+		const toolbar = this.containerEl.createDiv({
+			cls: "habit-view-toolbar",
+		});
+		new ButtonComponent(toolbar)
+			.setIcon(this.mode === "cards" ? "bar-chart-2" : "layout-list")
+			.setButtonText(
+				this.mode === "cards" ? t("Analytics") : t("Habit cards")
+			)
+			.onClick(() => {
+				this.mode = this.mode === "cards" ? "analytics" : "cards";
+				this.redraw();
+			});
+	}
+
 	renderHabitList(habits: HabitProps[]) {
 		console.log("renderHabitList", habits);
 		const listContainer = this.containerEl.createDiv({
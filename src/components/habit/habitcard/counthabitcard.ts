@@ -74,5 +74,7 @@ export class CountHabitCard extends HabitCard {
 			);
 			this.renderProgressBar(progressArea, countToday, this.habit.max);
 		}
+
+		this.renderStats(card);
 	}
 }
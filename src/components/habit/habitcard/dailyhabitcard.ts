@@ -89,5 +89,7 @@ export class DailyHabitCard extends HabitCard {
 				return value > 0;
 			}
 		);
+
+		this.renderStats(card);
 	}
 }
@@ -6,6 +6,7 @@ import {
 } from "../../../types/habit-card";
 import TaskProgressBarPlugin from "../../../index";
 import { getTodayLocalDateString, getLocalDateString } from "../../../utils/dateUtil";
+import { t } from "../../../translations/helper";
 
 function getDatesInRange(startDate: string, endDate: string): string[] {
 	const dates = [];
@@ -78,6 +79,43 @@ export class HabitCard extends Component {
 		}
 	}
 
+	// Current streak, longest streak and completion rate against the frequency
+	renderStats(container: HTMLElement) {
+		const stats = this.plugin.habitManager?.getHabitStats(this.habit);
+		if (!stats) return;
+
+		const units = {
+			day: t("days"),
+			week: t("weeks"),
+			month: t("months"),
+		};
+		const statsContainer = container.createDiv({ cls: "habit-stats" });
+		const addStat = (cls: string, label: string, value: string) => {
+			const statEl = statsContainer.createDiv({
+				cls: `habit-stat ${cls}`,
+			});
+			statEl.createSpan({ cls: "habit-stat-value", text: value });
+			statEl.createSpan({ cls: "habit-stat-label", text: label });
+			statEl.setAttribute("aria-label", `${label}: ${value}`);
+		};
+
+		addStat(
+			"habit-stat-current",
+			t("Current streak"),
+			`${stats.currentStreak} ${units[stats.streakUnit]}`
+		);
+		addStat(
+			"habit-stat-longest",
+			t("Longest streak"),
+			`${stats.longestStreak} ${units[stats.streakUnit]}`
+		);
+		addStat(
+			"habit-stat-rate",
+			t("Completion rate"),
+			`${Math.round(stats.completionRate * 100)}%`
+		);
+	}
+
 	// Basic heatmap renderer (shows last N days)
 	renderHeatmap(
 		container: HTMLElement,
@@ -125,5 +125,7 @@ export class MappingHabitCard extends HabitCard {
 					this.habit.mapping?.[currentSelection] || "?"
 				);
 			});
+
+		this.renderStats(card);
 	}
 }
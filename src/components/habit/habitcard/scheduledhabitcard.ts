@@ -164,5 +164,7 @@ export class ScheduledHabitCard extends HabitCard {
 		eventDropdown.selectEl.toggleClass("habit-event-dropdown", true);
 
 		this.renderProgressBar(controlsDiv, completedEventsToday, totalEvents);
+
+		this.renderStats(card);
 	}
 }
@@ -18,6 +18,7 @@ export class KanbanColumnComponent extends Component {
 	private isLoadingMore = false; // Prevent multiple simultaneous loads
 	private observer: IntersectionObserver | null = null;
 	private sentinelEl: HTMLElement | null = null; // Element to observe
+	private wipLimit: { limit: number; count: number } | null = null;
 
 	constructor(
 		private app: App,
@@ -81,8 +82,8 @@ export class KanbanColumnComponent extends Component {
 
 		this.countEl = this.headerEl.createEl("span", {
 			cls: "tg-kanban-column-count",
-			text: `(${this.tasks.length})`,
 		});
+		this.renderCount();
 
 		// Column Content (Scrollable Area for Cards, and Drop Zone)
 		this.contentEl = this.element.createDiv({
@@ -217,7 +218,7 @@ export class KanbanColumnComponent extends Component {
 		this.tasks = newTasks;
 
 		// Update count in header
-		this.countEl.textContent = `(${this.tasks.length})`;
+		this.renderCount();
 
 		// Update empty state
 		if (this.tasks.length === 0) {
@@ -238,11 +239,41 @@ export class KanbanColumnComponent extends Component {
 		this.loadMoreCards();
 	}
 
+	/**
+	 * Show the column's work-in-progress limit, counting the cards of the
+	 * column in every swimlane
+	 */
+	public setWipLimit(limit: number | undefined, count: number) {
+		this.wipLimit = limit ? { limit, count } : null;
+		this.renderCount();
+	}
+
+	private renderCount() {
+		if (!this.countEl) return;
+		const { wipLimit } = this;
+		this.countEl.textContent = wipLimit
+			? `(${wipLimit.count}/${wipLimit.limit})`
+			: `(${this.tasks.length})`;
+		this.element.toggleClass(
+			"tg-kanban-column--at-limit",
+			!!wipLimit && wipLimit.count === wipLimit.limit
+		);
+		this.element.toggleClass(
+			"tg-kanban-column--over-limit",
+			!!wipLimit && wipLimit.count > wipLimit.limit
+		);
+	}
+
 	// Public getter for the content element (for SortableJS)
 	getContentElement(): HTMLElement {
 		return this.contentEl;
 	}
 
+	// Tasks of this column in their sorted order, rendered or not
+	public getTasks(): Task[] {
+		return this.tasks;
+	}
+
 	// Get the number of tasks in this column
 	public getTaskCount(): number {
 		return this.tasks.length;
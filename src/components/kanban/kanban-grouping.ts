@@ -0,0 +1,437 @@
+/**
+ * Grouping of kanban tasks by a property, shared by the columns and the
+ * swimlanes: the groups of a property, the tasks in a group, and the change
+ * that moves a card into another group.
+ */
+
+import { Task } from "../../types/task";
+import {
+	KanbanSpecificConfig,
+	KanbanSwimlaneBy,
+} from "../../common/setting-definition";
+import { getEffectiveProject, isProjectReadonly } from "../../utils/taskUtil";
+
+export interface KanbanGroup {
+	title: string;
+	value: any;
+	id: string;
+}
+
+/**
+ * Property the columns are split into lanes by, none when it is the
+ * property the columns are grouped by
+ */
+export function getSwimlaneBy(
+	kanbanConfig: KanbanSpecificConfig | undefined
+): KanbanSwimlaneBy | null {
+	const swimlaneBy = kanbanConfig?.swimlaneBy;
+	if (
+		!swimlaneBy ||
+		swimlaneBy === "none" ||
+		swimlaneBy === (kanbanConfig?.groupBy || "status")
+	) {
+		return null;
+	}
+	return swimlaneBy;
+}
+
+/**
+ * Groups of a property without custom columns, with the values of the
+ * tasks for tags, projects, contexts and files
+ */
+export function getPropertyGroups(
+	groupBy: string,
+	tasks: Task[]
+): KanbanGroup[] {
+	switch (groupBy) {
+		case "priority":
+			return [
+				{ title: "🔺 Highest", value: 5, id: "priority-5" },
+				{ title: "⏫ High", value: 4, id: "priority-4" },
+				{ title: "🔼 Medium", value: 3, id: "priority-3" },
+				{ title: "🔽 Low", value: 2, id: "priority-2" },
+				{ title: "⏬ Lowest", value: 1, id: "priority-1" },
+				{ title: "No Priority", value: null, id: "priority-none" },
+			];
+		case "tags":
+			// Get unique tags from all tasks
+			const allTags = new Set<string>();
+			tasks.forEach((task) => {
+				const metadata = task.metadata || {};
+				if (metadata.tags) {
+					metadata.tags.forEach((tag) => {
+						// Skip non-string tags
+						if (typeof tag === "string") {
+							allTags.add(tag);
+						}
+					});
+				}
+			});
+			const tagColumns = Array.from(allTags).map((tag) => ({
+				title: `${tag}`,
+				value: tag,
+				id: `tag-${tag}`,
+			}));
+			tagColumns.unshift({
+				title: "No Tags",
+				value: "",
+				id: "tag-none",
+			});
+			return tagColumns;
+		case "project":
+			// Get unique projects from all tasks (including tgProject)
+			const allProjects = new Set<string>();
+			tasks.forEach((task) => {
+				const effectiveProject = getEffectiveProject(task);
+				if (effectiveProject) {
+					allProjects.add(effectiveProject);
+				}
+			});
+			const projectColumns = Array.from(allProjects).map(
+				(project) => ({
+					title: project,
+					value: project,
+					id: `project-${project}`,
+				})
+			);
+			projectColumns.push({
+				title: "No Project",
+				value: "",
+				id: "project-none",
+			});
+			return projectColumns;
+		case "context":
+			// Get unique contexts from all tasks
+			const allContexts = new Set<string>();
+			tasks.forEach((task) => {
+				const metadata = task.metadata || {};
+				if (metadata.context) {
+					allContexts.add(metadata.context);
+				}
+			});
+			const contextColumns = Array.from(allContexts).map(
+				(context) => ({
+					title: `@${context}`,
+					value: context,
+					id: `context-${context}`,
+				})
+			);
+			contextColumns.push({
+				title: "No Context",
+				value: "",
+				id: "context-none",
+			});
+			return contextColumns;
+		case "dueDate":
+		case "scheduledDate":
+		case "startDate":
+			return [
+				{
+					title: "Overdue",
+					value: "overdue",
+					id: `${groupBy}-overdue`,
+				},
+				{ title: "Today", value: "today", id: `${groupBy}-today` },
+				{
+					title: "Tomorrow",
+					value: "tomorrow",
+					id: `${groupBy}-tomorrow`,
+				},
+				{
+					title: "This Week",
+					value: "thisWeek",
+					id: `${groupBy}-thisWeek`,
+				},
+				{
+					title: "Next Week",
+					value: "nextWeek",
+					id: `${groupBy}-nextWeek`,
+				},
+				{ title: "Later", value: "later", id: `${groupBy}-later` },
+				{ title: "No Date", value: null, id: `${groupBy}-none` },
+			];
+		case "filePath":
+			// Get unique file paths from all tasks
+			const allPaths = new Set<string>();
+			tasks.forEach((task) => {
+				if (task.filePath) {
+					allPaths.add(task.filePath);
+				}
+			});
+			return Array.from(allPaths).map((path) => ({
+				title: path.split("/").pop() || path, // Show just filename
+				value: path,
+				id: `path-${path.replace(/[^a-zA-Z0-9]/g, "-")}`,
+			}));
+		default:
+			return [{ title: "All Tasks", value: null, id: "all" }];
+	}
+}
+
+/** Whether a task belongs to the group of a property value */
+export function isTaskInGroup(
+	task: Task,
+	groupBy: string,
+	value: any
+): boolean {
+	const metadata = task.metadata || {};
+	switch (groupBy) {
+		case "priority":
+			if (value === null || value === "") {
+				return !metadata.priority;
+			}
+			return metadata.priority === value;
+		case "tags":
+			if (value === null || value === "") {
+				return !metadata.tags || metadata.tags.length === 0;
+			}
+			return (
+				metadata.tags &&
+				metadata.tags.some(
+					(tag) => typeof tag === "string" && tag === value
+				)
+			);
+		case "project":
+			if (value === null || value === "") {
+				return !getEffectiveProject(task);
+			}
+			return getEffectiveProject(task) === value;
+		case "context":
+			if (value === null || value === "") {
+				return !metadata.context;
+			}
+			return metadata.context === value;
+		case "dueDate":
+		case "scheduledDate":
+		case "startDate":
+			return matchesDateCategory(task, groupBy, value);
+		case "filePath":
+			return task.filePath === value;
+		default:
+			return true;
+	}
+}
+
+/**
+ * Copy of a task moved from the group of one property value to another,
+ * null when the property can't be set by moving cards
+ */
+export function moveTaskToGroup(
+	task: Task,
+	groupBy: string,
+	oldValue: any,
+	newValue: string
+): Task | null {
+	// Copy the task, leaving the indexed task untouched
+	const updatedTask = {
+		...task,
+		metadata: { ...task.metadata },
+	};
+
+	// Update the specific property based on groupBy type
+	switch (groupBy) {
+		case "priority":
+			updatedTask.metadata.priority =
+				newValue === null || newValue === ""
+					? undefined
+					: Number(newValue);
+			break;
+		case "tags":
+			if (newValue === null || newValue === "") {
+				// Moving to "No Tags" column - remove all tags
+				updatedTask.metadata.tags = [];
+			} else {
+				// Moving to a specific tag column
+				// Use the oldValue parameter to determine which tag to remove
+				let currentTags = [...(updatedTask.metadata.tags || [])];
+
+				// Remove the old tag if it exists and is different from the new value
+				if (oldValue && oldValue !== "" && oldValue !== newValue) {
+					// Try to match the oldValue with existing tags
+					// Handle both with and without # prefix
+					const oldTagVariants = [
+						oldValue,
+						`#${oldValue}`,
+						oldValue.startsWith("#")
+							? oldValue.substring(1)
+							: oldValue,
+					];
+
+					currentTags = currentTags.filter(
+						(tag) => !oldTagVariants.includes(tag)
+					);
+				}
+
+				// Add the new tag if it's not already present
+				// Handle both with and without # prefix
+				const newTagVariants = [
+					newValue,
+					`#${newValue}`,
+					newValue.startsWith("#")
+						? newValue.substring(1)
+						: newValue,
+				];
+
+				const hasNewTag = currentTags.some((tag) =>
+					newTagVariants.includes(tag)
+				);
+				if (!hasNewTag) {
+					// Add the tag in the same format as existing tags, or without # if no existing tags
+					const tagToAdd =
+						currentTags.length > 0 &&
+						currentTags[0].startsWith("#")
+							? newValue.startsWith("#")
+								? newValue
+								: `#${newValue}`
+							: newValue.startsWith("#")
+							? newValue.substring(1)
+							: newValue;
+					currentTags.push(tagToAdd);
+				}
+				updatedTask.metadata.tags = currentTags;
+			}
+			break;
+		case "project":
+			// Only update project if it's not a read-only tgProject
+			if (!isProjectReadonly(task)) {
+				updatedTask.metadata.project =
+					newValue === null || newValue === ""
+						? undefined
+						: newValue;
+			}
+			break;
+		case "context":
+			updatedTask.metadata.context =
+				newValue === null || newValue === "" ? undefined : newValue;
+			break;
+		case "dueDate":
+		case "scheduledDate":
+		case "startDate":
+			// For date fields, we need to convert the category back to an actual date
+			const dateValue = convertDateCategoryToTimestamp(newValue);
+			if (groupBy === "dueDate") {
+				updatedTask.metadata.dueDate = dateValue;
+			} else if (groupBy === "scheduledDate") {
+				updatedTask.metadata.scheduledDate = dateValue;
+			} else if (groupBy === "startDate") {
+				updatedTask.metadata.startDate = dateValue;
+			}
+			break;
+		default:
+			return null;
+	}
+
+	return updatedTask;
+}
+
+function matchesDateCategory(
+	task: Task,
+	dateField: string,
+	category: string
+): boolean {
+	const now = new Date();
+	const today = new Date(
+		now.getFullYear(),
+		now.getMonth(),
+		now.getDate()
+	);
+	const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+	const weekFromNow = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
+	const twoWeeksFromNow = new Date(
+		today.getTime() + 14 * 24 * 60 * 60 * 1000
+	);
+
+	const metadata = task.metadata || {};
+	let taskDate: number | undefined;
+	switch (dateField) {
+		case "dueDate":
+			taskDate = metadata.dueDate;
+			break;
+		case "scheduledDate":
+			taskDate = metadata.scheduledDate;
+			break;
+		case "startDate":
+			taskDate = metadata.startDate;
+			break;
+	}
+
+	if (!taskDate) {
+		return category === "none" || category === null || category === "";
+	}
+
+	const taskDateObj = new Date(taskDate);
+
+	switch (category) {
+		case "overdue":
+			return taskDateObj < today;
+		case "today":
+			return taskDateObj >= today && taskDateObj < tomorrow;
+		case "tomorrow":
+			return (
+				taskDateObj >= tomorrow &&
+				taskDateObj <
+					new Date(tomorrow.getTime() + 24 * 60 * 60 * 1000)
+			);
+		case "thisWeek":
+			return taskDateObj >= tomorrow && taskDateObj < weekFromNow;
+		case "nextWeek":
+			return (
+				taskDateObj >= weekFromNow && taskDateObj < twoWeeksFromNow
+			);
+		case "later":
+			return taskDateObj >= twoWeeksFromNow;
+		case "none":
+		case null:
+		case "":
+			return false; // Already handled above
+		default:
+			return false;
+	}
+}
+
+function convertDateCategoryToTimestamp(
+	category: string
+): number | undefined {
+	if (category === null || category === "" || category === "none") {
+		return undefined;
+	}
+
+	const now = new Date();
+	const today = new Date(
+		now.getFullYear(),
+		now.getMonth(),
+		now.getDate()
+	);
+
+	switch (category) {
+		case "overdue":
+			// For overdue, we can't determine a specific date, so return undefined
+			// The user should manually set a specific date
+			return undefined;
+		case "today":
+			return today.getTime();
+		case "tomorrow":
+			return new Date(
+				today.getTime() + 24 * 60 * 60 * 1000
+			).getTime();
+		case "thisWeek":
+			// Set to end of this week (Sunday)
+			const daysUntilSunday = 7 - today.getDay();
+			return new Date(
+				today.getTime() + daysUntilSunday * 24 * 60 * 60 * 1000
+			).getTime();
+		case "nextWeek":
+			// Set to end of next week
+			const daysUntilNextSunday = 14 - today.getDay();
+			return new Date(
+				today.getTime() + daysUntilNextSunday * 24 * 60 * 60 * 1000
+			).getTime();
+		case "later":
+			// Set to one month from now
+			const oneMonthLater = new Date(today);
+			oneMonthLater.setMonth(oneMonthLater.getMonth() + 1);
+			return oneMonthLater.getTime();
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,78 @@
+/**
+ * Manual card order of kanban columns. The position of a card is an order
+ * key written to its task ([order::]), so it survives edits and renamed
+ * files. Keys are spread out, so that a move mostly changes one card.
+ */
+
+export const ORDER_KEY_GAP = 1000;
+
+/**
+ * Sort tasks by their order key, tasks without one keep their order after
+ * the others
+ */
+export function compareOrderKeys(
+	a: number | undefined,
+	b: number | undefined
+): number {
+	return (a ?? Number.MAX_SAFE_INTEGER) - (b ?? Number.MAX_SAFE_INTEGER);
+}
+
+/**
+ * New order keys of a column after a card was moved in it
+ * @param columnIds Ids of the column's cards in their new order
+ * @param movedId Id of the moved card
+ * @param getOrder Current order key of a card
+ * @returns The cards whose order key changes, with their new key
+ */
+export function getOrderKeyChanges(
+	columnIds: string[],
+	movedId: string,
+	getOrder: (id: string) => number | undefined
+): Map<string, number> {
+	const changes = new Map<string, number>();
+	const setOrder = (id: string, order: number) => {
+		if (getOrder(id) !== order) changes.set(id, order);
+	};
+
+	const index = columnIds.indexOf(movedId);
+	if (index === -1) return changes;
+
+	const hasPrevious = index > 0;
+	const previous = hasPrevious ? getOrder(columnIds[index - 1]) : undefined;
+	const next =
+		index < columnIds.length - 1
+			? getOrder(columnIds[index + 1])
+			: undefined;
+
+	// Cards without keys come last, so when the previous card has a key,
+	// or there is none, a key next to the neighbours places the card
+	if (!hasPrevious || previous !== undefined) {
+		if (previous === undefined && next === undefined) {
+			setOrder(movedId, ORDER_KEY_GAP);
+			return changes;
+		}
+		if (previous === undefined) {
+			setOrder(movedId, next! - ORDER_KEY_GAP);
+			return changes;
+		}
+		if (next === undefined) {
+			setOrder(movedId, previous + ORDER_KEY_GAP);
+			return changes;
+		}
+		if (next - previous >= 2) {
+			setOrder(movedId, Math.floor((previous + next) / 2));
+			return changes;
+		}
+	}
+
+	// No room between the neighbours, or the card went among cards without
+	// keys: number the cards up to it and the ones with keys after it
+	let last = index;
+	columnIds.forEach((id, i) => {
+		if (getOrder(id) !== undefined) last = Math.max(last, i);
+	});
+	columnIds
+		.slice(0, last + 1)
+		.forEach((id, i) => setOrder(id, (i + 1) * ORDER_KEY_GAP));
+	return changes;
+}
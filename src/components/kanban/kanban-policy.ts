@@ -0,0 +1,53 @@
+/**
+ * Work-in-progress limits and done rules of kanban columns. Status columns
+ * take them from the view's status column policies, custom columns from
+ * their own config.
+ */
+
+import { Task } from "../../types/task";
+import {
+	KanbanColumnPolicy,
+	KanbanDoneRule,
+	KanbanSpecificConfig,
+} from "../../common/setting-definition";
+
+/** Limit and rules of the column with the given title */
+export function getColumnPolicy(
+	config: KanbanSpecificConfig | undefined,
+	columnTitle: string
+): KanbanColumnPolicy | undefined {
+	if (!config) return undefined;
+	if ((config.groupBy || "status") === "status") {
+		return config.statusColumnPolicies?.[columnTitle];
+	}
+	return config.customColumns?.find(
+		(column) => column.title === columnTitle
+	);
+}
+
+/**
+ * Done rules the task does not meet
+ * @param getTask Look up a subtask by its id
+ * @param completes Whether the drop itself completes the task, which gives
+ * it a completed date
+ */
+export function getUnmetDoneRules(
+	task: Task,
+	rules: KanbanDoneRule[],
+	getTask: (id: string) => Task | undefined,
+	completes = false
+): KanbanDoneRule[] {
+	return rules.filter((rule) => {
+		switch (rule) {
+			case "completedDate":
+				return !completes && !task.metadata.completedDate;
+			case "noOpenSubtasks":
+				return (task.metadata.children || []).some((id) => {
+					const child = getTask(id);
+					return child !== undefined && !child.completed;
+				});
+			default:
+				return false;
+		}
+	});
+}
@@ -2,6 +2,7 @@ import {
 	App,
 	Component,
 	Menu,
+	Notice,
 	Platform,
 	setIcon,
 	WorkspaceLeaf,
@@ -22,13 +23,28 @@ import {
 	KanbanSpecificConfig,
 	KanbanColumnConfig,
 } from "../../common/setting-definition";
-import { getEffectiveProject, isProjectReadonly } from "../../utils/taskUtil";
+import { getEffectiveProject } from "../../utils/taskUtil";
+import {
+	BulkActionBar,
+	markMultiSelection,
+	toggleMultiSelection,
+} from "../BulkActionBar";
+import { compareOrderKeys, getOrderKeyChanges } from "./kanban-order";
+import { getColumnPolicy, getUnmetDoneRules } from "./kanban-policy";
+import {
+	getPropertyGroups,
+	getSwimlaneBy,
+	isTaskInGroup,
+	KanbanGroup,
+	moveTaskToGroup,
+} from "./kanban-grouping";
 
 // CSS classes for drop indicators
 const DROP_INDICATOR_BEFORE_CLASS = "tg-kanban-card--drop-indicator-before";
 const DROP_INDICATOR_AFTER_CLASS = "tg-kanban-card--drop-indicator-after";
 const DROP_INDICATOR_EMPTY_CLASS =
 	"tg-kanban-column-content--drop-indicator-empty";
+const KANBAN_CARD_SELECTOR = ".tg-kanban-card[data-task-id]";
 
 export interface KanbanSortOption {
 	field:
@@ -36,7 +52,8 @@ export interface KanbanSortOption {
 		| "dueDate"
 		| "scheduledDate"
 		| "startDate"
-		| "createdDate";
+		| "createdDate"
+		| "manual";
 	order: "asc" | "desc";
 	label: string;
 }
@@ -70,6 +87,10 @@ export class KanbanComponent extends Component {
 		label: "Priority (High to Low)",
 	};
 	private hideEmptyColumns: boolean = false;
+	private swimlanes: KanbanGroup[] = [];
+	private collapsedSwimlanes: Set<string> = new Set();
+	private multiSelectedIds: Set<string> = new Set();
+	private bulkActionBar: BulkActionBar;
 
 	constructor(
 		app: App,
@@ -103,6 +124,12 @@ export class KanbanComponent extends Component {
 
 		// Load configuration settings
 		this.loadKanbanConfig();
+		const collapsedSwimlanes = this.app.loadLocalStorage(
+			`task-genius:kanban-collapsed-swimlanes:${this.currentViewId}`
+		);
+		if (Array.isArray(collapsedSwimlanes)) {
+			this.collapsedSwimlanes = new Set(collapsedSwimlanes);
+		}
 
 		this.filterContainerEl = this.containerEl.createDiv({
 			cls: "tg-kanban-filters",
@@ -114,9 +141,39 @@ export class KanbanComponent extends Component {
 		// Then render sort and toggle controls
 		this.renderControls(this.filterContainerEl);
 
+		// Actions on the cards selected with Ctrl/Cmd-click
+		this.bulkActionBar = new BulkActionBar(this.plugin, this.containerEl, {
+			getSelectedTasks: () =>
+				this.allTasks.filter((task) =>
+					this.multiSelectedIds.has(task.id)
+				),
+			onClearSelection: () => {
+				this.multiSelectedIds.clear();
+				this.markMultiSelected();
+			},
+		});
+		this.addChild(this.bulkActionBar);
+
 		this.columnContainerEl = this.containerEl.createDiv({
 			cls: "tg-kanban-column-container",
 		});
+		// Capture phase, before the cards handle the click
+		this.registerDomEvent(
+			this.columnContainerEl,
+			"click",
+			(event) => {
+				if (
+					toggleMultiSelection(
+						event,
+						KANBAN_CARD_SELECTOR,
+						this.multiSelectedIds
+					)
+				) {
+					this.bulkActionBar.update();
+				}
+			},
+			{ capture: true }
+		);
 
 		this.renderColumns();
 		console.log("KanbanComponent loaded.");
@@ -196,6 +253,11 @@ export class KanbanComponent extends Component {
 					order: "desc",
 					label: t("Start Date (Latest First)"),
 				},
+				{
+					field: "manual",
+					order: "asc",
+					label: t("Manual"),
+				},
 			];
 
 			sortOptions.forEach((option) => {
@@ -243,6 +305,11 @@ export class KanbanComponent extends Component {
 	public setTasks(newTasks: Task[]) {
 		console.log("Kanban setting tasks:", newTasks.length);
 		this.allTasks = [...newTasks]; // Store the full list
+		// Keep the selection of the cards that are still there
+		const taskIds = new Set(newTasks.map((task) => task.id));
+		this.multiSelectedIds.forEach((id) => {
+			if (!taskIds.has(id)) this.multiSelectedIds.delete(id);
+		});
 
 		console.log(this.filterComponent);
 		// Update filter options based on the complete task list
@@ -441,21 +508,121 @@ export class KanbanComponent extends Component {
 		)?.specificConfig as KanbanSpecificConfig;
 
 		const groupBy = kanbanConfig?.groupBy || "status";
+		const swimlaneBy = getSwimlaneBy(kanbanConfig);
 
-		if (groupBy === "status") {
-			this.renderStatusColumns();
+		const renderLaneColumns = (containerEl: HTMLElement, tasks: Task[]) => {
+			if (groupBy === "status") {
+				this.renderStatusColumns(containerEl, tasks);
+			} else {
+				this.renderCustomColumns(
+					groupBy,
+					kanbanConfig?.customColumns,
+					containerEl,
+					tasks
+				);
+			}
+		};
+
+		this.columnContainerEl?.toggleClass(
+			"tg-kanban-column-container--swimlanes",
+			!!swimlaneBy
+		);
+		if (swimlaneBy) {
+			this.swimlanes = getPropertyGroups(swimlaneBy, this.tasks);
+			this.swimlanes.forEach((lane) => {
+				const laneTasks = this.getTasksForProperty(
+					swimlaneBy,
+					lane.value
+				);
+				if (this.hideEmptyColumns && laneTasks.length === 0) return;
+				renderLaneColumns(
+					this.renderSwimlane(lane, laneTasks.length),
+					laneTasks
+				);
+			});
 		} else {
-			this.renderCustomColumns(groupBy, kanbanConfig?.customColumns);
+			this.swimlanes = [];
+			renderLaneColumns(this.columnContainerEl, this.tasks);
 		}
 
 		// Update column visibility based on hideEmptyColumns setting
 		this.updateColumnVisibility();
+		this.updateWipLimits(kanbanConfig);
 
 		// Re-initialize sortable instances after columns are rendered
 		this.initializeSortableInstances();
+		this.markMultiSelected();
+	}
+
+	private markMultiSelected() {
+		if (!this.columnContainerEl) return;
+		markMultiSelection(
+			this.columnContainerEl,
+			KANBAN_CARD_SELECTOR,
+			this.multiSelectedIds
+		);
+		this.bulkActionBar?.update();
+	}
+
+	/**
+	 * Render the header of a swimlane and return the element its columns
+	 * go in
+	 */
+	private renderSwimlane(
+		lane: KanbanGroup,
+		taskCount: number
+	): HTMLElement {
+		const laneEl = this.columnContainerEl.createDiv({
+			cls: "tg-kanban-swimlane",
+			attr: { "data-swimlane-id": lane.id },
+		});
+		laneEl.toggleClass("is-collapsed", this.collapsedSwimlanes.has(lane.id));
+
+		const headerEl = laneEl.createDiv("tg-kanban-swimlane-header");
+		const toggleEl = headerEl.createSpan("tg-kanban-swimlane-toggle");
+		setIcon(
+			toggleEl,
+			this.collapsedSwimlanes.has(lane.id)
+				? "chevron-right"
+				: "chevron-down"
+		);
+		headerEl.createSpan({
+			cls: "tg-kanban-swimlane-title",
+			text: lane.title,
+		});
+		headerEl.createSpan({
+			cls: "tg-kanban-swimlane-count",
+			text: `(${taskCount})`,
+		});
+		this.registerDomEvent(headerEl, "click", () => {
+			const collapsed = !this.collapsedSwimlanes.has(lane.id);
+			if (collapsed) {
+				this.collapsedSwimlanes.add(lane.id);
+			} else {
+				this.collapsedSwimlanes.delete(lane.id);
+			}
+			this.app.saveLocalStorage(
+				`task-genius:kanban-collapsed-swimlanes:${this.currentViewId}`,
+				Array.from(this.collapsedSwimlanes)
+			);
+			laneEl.toggleClass("is-collapsed", collapsed);
+			setIcon(toggleEl, collapsed ? "chevron-right" : "chevron-down");
+		});
+
+		return laneEl.createDiv("tg-kanban-swimlane-columns");
+	}
+
+	/** Swimlane a column content element belongs to */
+	private getSwimlane(
+		columnContentEl: HTMLElement
+	): KanbanGroup | undefined {
+		const laneId = columnContentEl.closest<HTMLElement>(
+			".tg-kanban-swimlane"
+		)?.dataset.swimlaneId;
+		return this.swimlanes.find((lane) => lane.id === laneId);
 	}
 
-	private renderStatusColumns() {
+	private renderStatusColumns(containerEl: HTMLElement, tasks: Task[]) {
 		const statusCycle = this.plugin.settings.taskStatusCycle;
 		let statusNames =
 			statusCycle.length > 0
@@ -490,12 +657,12 @@ export class KanbanComponent extends Component {
 		statusNames = [...spaceStatus, ...otherStatuses, ...xStatus];
 
 		statusNames.forEach((statusName) => {
-			const tasksForStatus = this.getTasksForStatus(statusName);
+			const tasksForStatus = this.getTasksForStatus(statusName, tasks);
 
 			const column = new KanbanColumnComponent(
 				this.app,
 				this.plugin,
-				this.columnContainerEl,
+				containerEl,
 				statusName,
 				tasksForStatus,
 				{
@@ -514,9 +681,11 @@ export class KanbanComponent extends Component {
 
 	private renderCustomColumns(
 		groupBy: string,
-		customColumns?: KanbanColumnConfig[]
+		customColumns: KanbanColumnConfig[] | undefined,
+		containerEl: HTMLElement,
+		tasks: Task[]
 	) {
-		let columnConfigs: { title: string; value: any; id: string }[] = [];
+		let columnConfigs: KanbanGroup[] = [];
 
 		if (customColumns && customColumns.length > 0) {
 			// Use custom defined columns
@@ -529,19 +698,20 @@ export class KanbanComponent extends Component {
 				}));
 		} else {
 			// Generate default columns based on groupBy type
-			columnConfigs = this.generateDefaultColumns(groupBy);
+			columnConfigs = getPropertyGroups(groupBy, this.tasks);
 		}
 
 		columnConfigs.forEach((config) => {
 			const tasksForColumn = this.getTasksForProperty(
 				groupBy,
-				config.value
+				config.value,
+				tasks
 			);
 
 			const column = new KanbanColumnComponent(
 				this.app,
 				this.plugin,
-				this.columnContainerEl,
+				containerEl,
 				config.title,
 				tasksForColumn,
 				{
@@ -561,137 +731,15 @@ export class KanbanComponent extends Component {
 		});
 	}
 
-	private generateDefaultColumns(
-		groupBy: string
-	): { title: string; value: any; id: string }[] {
-		switch (groupBy) {
-			case "priority":
-				return [
-					{ title: "🔺 Highest", value: 5, id: "priority-5" },
-					{ title: "⏫ High", value: 4, id: "priority-4" },
-					{ title: "🔼 Medium", value: 3, id: "priority-3" },
-					{ title: "🔽 Low", value: 2, id: "priority-2" },
-					{ title: "⏬ Lowest", value: 1, id: "priority-1" },
-					{ title: "No Priority", value: null, id: "priority-none" },
-				];
-			case "tags":
-				// Get unique tags from all tasks
-				const allTags = new Set<string>();
-				this.tasks.forEach((task) => {
-					const metadata = task.metadata || {};
-					if (metadata.tags) {
-						metadata.tags.forEach((tag) => {
-							// Skip non-string tags
-							if (typeof tag === "string") {
-								allTags.add(tag);
-							}
-						});
-					}
-				});
-				const tagColumns = Array.from(allTags).map((tag) => ({
-					title: `${tag}`,
-					value: tag,
-					id: `tag-${tag}`,
-				}));
-				tagColumns.unshift({
-					title: "No Tags",
-					value: "",
-					id: "tag-none",
-				});
-				return tagColumns;
-			case "project":
-				// Get unique projects from all tasks (including tgProject)
-				const allProjects = new Set<string>();
-				this.tasks.forEach((task) => {
-					const effectiveProject = getEffectiveProject(task);
-					if (effectiveProject) {
-						allProjects.add(effectiveProject);
-					}
-				});
-				const projectColumns = Array.from(allProjects).map(
-					(project) => ({
-						title: project,
-						value: project,
-						id: `project-${project}`,
-					})
-				);
-				projectColumns.push({
-					title: "No Project",
-					value: "",
-					id: "project-none",
-				});
-				return projectColumns;
-			case "context":
-				// Get unique contexts from all tasks
-				const allContexts = new Set<string>();
-				this.tasks.forEach((task) => {
-					const metadata = task.metadata || {};
-					if (metadata.context) {
-						allContexts.add(metadata.context);
-					}
-				});
-				const contextColumns = Array.from(allContexts).map(
-					(context) => ({
-						title: `@${context}`,
-						value: context,
-						id: `context-${context}`,
-					})
-				);
-				contextColumns.push({
-					title: "No Context",
-					value: "",
-					id: "context-none",
-				});
-				return contextColumns;
-			case "dueDate":
-			case "scheduledDate":
-			case "startDate":
-				return [
-					{
-						title: "Overdue",
-						value: "overdue",
-						id: `${groupBy}-overdue`,
-					},
-					{ title: "Today", value: "today", id: `${groupBy}-today` },
-					{
-						title: "Tomorrow",
-						value: "tomorrow",
-						id: `${groupBy}-tomorrow`,
-					},
-					{
-						title: "This Week",
-						value: "thisWeek",
-						id: `${groupBy}-thisWeek`,
-					},
-					{
-						title: "Next Week",
-						value: "nextWeek",
-						id: `${groupBy}-nextWeek`,
-					},
-					{ title: "Later", value: "later", id: `${groupBy}-later` },
-					{ title: "No Date", value: null, id: `${groupBy}-none` },
-				];
-			case "filePath":
-				// Get unique file paths from all tasks
-				const allPaths = new Set<string>();
-				this.tasks.forEach((task) => {
-					if (task.filePath) {
-						allPaths.add(task.filePath);
-					}
-				});
-				return Array.from(allPaths).map((path) => ({
-					title: path.split("/").pop() || path, // Show just filename
-					value: path,
-					id: `path-${path.replace(/[^a-zA-Z0-9]/g, "-")}`,
-				}));
-			default:
-				return [{ title: "All Tasks", value: null, id: "all" }];
-		}
-	}
-
 	private updateColumnVisibility() {
+		// Columns of swimlanes stay aligned, one is hidden only when it is
+		// empty in every lane
+		const isEmpty = (statusName: string) =>
+			this.columns.every(
+				(column) => column.statusName !== statusName || column.isEmpty()
+			);
 		this.columns.forEach((column) => {
-			if (this.hideEmptyColumns && column.isEmpty()) {
+			if (this.hideEmptyColumns && isEmpty(column.statusName)) {
 				column.setVisible(false);
 			} else {
 				column.setVisible(true);
@@ -699,12 +747,38 @@ export class KanbanComponent extends Component {
 		});
 	}
 
-	private getTasksForStatus(statusName: string): Task[] {
+	private updateWipLimits(kanbanConfig: KanbanSpecificConfig | undefined) {
+		this.columns.forEach((column) => {
+			const limit = getColumnPolicy(
+				kanbanConfig,
+				column.statusName
+			)?.wipLimit;
+			column.setWipLimit(
+				limit,
+				limit ? this.getColumnTaskIds(column.statusName).size : 0
+			);
+		});
+	}
+
+	/** Ids of the cards of a column, in every swimlane */
+	private getColumnTaskIds(columnTitle: string): Set<string> {
+		const taskIds = new Set<string>();
+		this.columns.forEach((column) => {
+			if (column.statusName !== columnTitle) return;
+			column.getTasks().forEach((task) => taskIds.add(task.id));
+		});
+		return taskIds;
+	}
+
+	private getTasksForStatus(
+		statusName: string,
+		tasks: Task[] = this.tasks
+	): Task[] {
 		const statusMark =
 			this.plugin.settings.taskStatusMarks[statusName] || " ";
 
 		// Filter from the already filtered list
-		const tasksForStatus = this.tasks.filter((task) => {
+		const tasksForStatus = tasks.filter((task) => {
 			const taskStatusMark = task.status || " ";
 			return taskStatusMark === statusMark;
 		});
@@ -759,6 +833,9 @@ export class KanbanComponent extends Component {
 					metadataB.createdDate ?? Number.MAX_SAFE_INTEGER;
 				comparison = createdA - createdB;
 				break;
+			case "manual":
+				comparison = compareOrderKeys(metadataA.order, metadataB.order);
+				break;
 		}
 
 		// Apply order (asc/desc)
@@ -825,11 +902,26 @@ export class KanbanComponent extends Component {
 				  )?.textContent
 				: null;
 
-			if (targetColumnTitle && sourceColumnTitle) {
-				const kanbanConfig =
-					this.plugin.settings.viewConfiguration.find(
-						(v) => v.id === this.currentViewId
-					)?.specificConfig as KanbanSpecificConfig;
+			const kanbanConfig = this.plugin.settings.viewConfiguration.find(
+				(v) => v.id === this.currentViewId
+			)?.specificConfig as KanbanSpecificConfig;
+
+			if (
+				targetColumnTitle &&
+				sourceColumnTitle &&
+				targetColumnTitle !== sourceColumnTitle
+			) {
+				if (
+					!this.checkColumnPolicy(
+						taskId,
+						targetColumnTitle,
+						kanbanConfig
+					)
+				) {
+					// Put the card back where it came from
+					this.renderColumns();
+					return;
+				}
 
 				const groupBy = kanbanConfig?.groupBy || "status";
 
@@ -870,6 +962,146 @@ export class KanbanComponent extends Component {
 					);
 				}
 			}
+
+			// A card moved to another swimlane takes the lane's value
+			const swimlaneBy = getSwimlaneBy(kanbanConfig);
+			const sourceLane = this.getSwimlane(sourceColumnContent);
+			const targetLane = this.getSwimlane(dropTargetColumnContent);
+			if (
+				swimlaneBy &&
+				sourceLane &&
+				targetLane &&
+				sourceLane !== targetLane
+			) {
+				await this.handlePropertyUpdate(
+					taskId,
+					swimlaneBy,
+					sourceLane.value,
+					targetLane.value
+				);
+			}
+
+			if (this.sortOption.field === "manual") {
+				await this.updateManualOrder(event, taskId);
+			}
+		}
+	}
+
+	/**
+	 * Check a card dropped into another column against the column's done
+	 * rules and work-in-progress limit
+	 * @returns Whether the card may be moved
+	 */
+	private checkColumnPolicy(
+		taskId: string,
+		columnTitle: string,
+		kanbanConfig: KanbanSpecificConfig | undefined
+	): boolean {
+		const policy = getColumnPolicy(kanbanConfig, columnTitle);
+		if (!policy) return true;
+
+		const task =
+			this.plugin.taskManager.getTaskById(taskId) ??
+			this.allTasks.find((task) => task.id === taskId);
+		if (task && policy.doneRules && policy.doneRules.length > 0) {
+			// Moving a card to a completed status completes its task
+			const statusMark = this.plugin.settings.taskStatusMarks[columnTitle];
+			const completes =
+				(kanbanConfig?.groupBy || "status") === "status" &&
+				statusMark !== undefined &&
+				this.plugin.settings.taskStatuses.completed
+					.split("|")
+					.includes(statusMark);
+			const unmetRules = getUnmetDoneRules(
+				task,
+				policy.doneRules,
+				(id) => this.plugin.taskManager.getTaskById(id),
+				completes
+			);
+			if (unmetRules.length > 0) {
+				const ruleLabels: Record<string, string> = {
+					completedDate: t("Requires a completed date"),
+					noOpenSubtasks: t("No open subtasks"),
+				};
+				new Notice(
+					t("Card does not meet the rules of the column: ") +
+						`${columnTitle} (${unmetRules
+							.map((rule) => ruleLabels[rule])
+							.join(", ")})`
+				);
+				return false;
+			}
+		}
+
+		const count = this.getColumnTaskIds(columnTitle).size;
+		if (policy.wipLimit && count >= policy.wipLimit) {
+			const column = `${columnTitle} (${count}/${policy.wipLimit})`;
+			if (kanbanConfig?.wipPolicy === "block") {
+				new Notice(
+					t("Column is full, the card was not moved: ") + column
+				);
+				return false;
+			}
+			new Notice(t("Column is over its WIP limit: ") + column);
+		}
+		return true;
+	}
+
+	/**
+	 * Write the order keys of the cards of the column a card was dropped in,
+	 * so the manual order holds across reloads
+	 */
+	private async updateManualOrder(
+		event: Sortable.SortableEvent,
+		taskId: string
+	): Promise<void> {
+		const column = this.columns.find(
+			(col) => col.getContentElement() === event.to
+		);
+		if (!column) return;
+
+		// Not every card of the column may be rendered, place the card after
+		// the one it was dropped below
+		const columnIds = column
+			.getTasks()
+			.map((task) => task.id)
+			.filter((id) => id !== taskId);
+		const previousCard = event.item.previousElementSibling;
+		const previousId = previousCard?.matches(KANBAN_CARD_SELECTOR)
+			? (previousCard as HTMLElement).dataset.taskId
+			: undefined;
+		columnIds.splice(
+			previousId ? columnIds.indexOf(previousId) + 1 : 0,
+			0,
+			taskId
+		);
+
+		// Status and property updates above reindex the task
+		const getTask = (id: string) =>
+			this.plugin.taskManager.getTaskById(id) ??
+			this.allTasks.find((task) => task.id === id);
+		const changes = getOrderKeyChanges(
+			columnIds,
+			taskId,
+			(id) => getTask(id)?.metadata.order
+		);
+
+		const updatedTasks: Task[] = [];
+		changes.forEach((order, id) => {
+			const task = getTask(id);
+			if (task) {
+				updatedTasks.push({
+					...task,
+					metadata: { ...task.metadata, order },
+				});
+			}
+		});
+		if (updatedTasks.length === 0) return;
+
+		try {
+			await this.plugin.taskManager.updateTasks(updatedTasks);
+		} catch (error) {
+			console.error("Failed to update manual card order:", error);
 		}
 	}
 
@@ -892,6 +1124,8 @@ export class KanbanComponent extends Component {
 	}
 
 	private getSortOptionLabel(field: string, order: string): string {
+		if (field === "manual") return t("Manual");
+
 		const fieldLabels: Record<string, string> = {
 			priority: t("Priority"),
 			dueDate: t("Due Date"),
@@ -933,8 +1167,11 @@ export class KanbanComponent extends Component {
 			return;
 		}
 
-		// Find the task to update
-		const taskToUpdate = this.allTasks.find((task) => task.id === taskId);
+		// Find the task to update, a column update of the same drop may
+		// have changed it already
+		const taskToUpdate =
+			this.plugin.taskManager.getTaskById(taskId) ??
+			this.allTasks.find((task) => task.id === taskId);
 		if (!taskToUpdate) {
 			console.warn(
 				`Task with ID ${taskId} not found for property update`
@@ -942,112 +1179,15 @@ export class KanbanComponent extends Component {
 			return;
 		}
 
-		taskToUpdate.metadata = taskToUpdate.metadata || {};
-
-		// Create updated task object
-		const updatedTask = { ...taskToUpdate };
-
-		// Update the specific property based on groupBy type
-		switch (groupBy) {
-			case "priority":
-				updatedTask.metadata.priority =
-					newValue === null || newValue === ""
-						? undefined
-						: Number(newValue);
-				break;
-			case "tags":
-				if (newValue === null || newValue === "") {
-					// Moving to "No Tags" column - remove all tags
-					updatedTask.metadata.tags = [];
-				} else {
-					// Moving to a specific tag column
-					// Use the oldValue parameter to determine which tag to remove
-					let currentTags = updatedTask.metadata.tags || [];
-
-					console.log("Tags update - current tags:", currentTags);
-					console.log("Tags update - oldValue:", oldValue);
-					console.log("Tags update - newValue:", newValue);
-
-					// Remove the old tag if it exists and is different from the new value
-					if (oldValue && oldValue !== "" && oldValue !== newValue) {
-						// Try to match the oldValue with existing tags
-						// Handle both with and without # prefix
-						const oldTagVariants = [
-							oldValue,
-							`#${oldValue}`,
-							oldValue.startsWith("#")
-								? oldValue.substring(1)
-								: oldValue,
-						];
-
-						currentTags = currentTags.filter(
-							(tag) => !oldTagVariants.includes(tag)
-						);
-						console.log("Tags after removing old:", currentTags);
-					}
-
-					// Add the new tag if it's not already present
-					// Handle both with and without # prefix
-					const newTagVariants = [
-						newValue,
-						`#${newValue}`,
-						newValue.startsWith("#")
-							? newValue.substring(1)
-							: newValue,
-					];
-
-					const hasNewTag = currentTags.some((tag) =>
-						newTagVariants.includes(tag)
-					);
-					if (!hasNewTag) {
-						// Add the tag in the same format as existing tags, or without # if no existing tags
-						const tagToAdd =
-							currentTags.length > 0 &&
-							currentTags[0].startsWith("#")
-								? newValue.startsWith("#")
-									? newValue
-									: `#${newValue}`
-								: newValue.startsWith("#")
-								? newValue.substring(1)
-								: newValue;
-						currentTags.push(tagToAdd);
-					}
-
-					console.log("Tags after adding new:", currentTags);
-					updatedTask.metadata.tags = currentTags;
-				}
-				break;
-			case "project":
-				// Only update project if it's not a read-only tgProject
-				if (!isProjectReadonly(taskToUpdate)) {
-					updatedTask.metadata.project =
-						newValue === null || newValue === ""
-							? undefined
-							: newValue;
-				}
-				break;
-			case "context":
-				updatedTask.metadata.context =
-					newValue === null || newValue === "" ? undefined : newValue;
-				break;
-			case "dueDate":
-			case "scheduledDate":
-			case "startDate":
-				// For date fields, we need to convert the category back to an actual date
-				const dateValue = this.convertDateCategoryToTimestamp(newValue);
-				if (groupBy === "dueDate") {
-					updatedTask.metadata.dueDate = dateValue;
-				} else if (groupBy === "scheduledDate") {
-					updatedTask.metadata.scheduledDate = dateValue;
-				} else if (groupBy === "startDate") {
-					updatedTask.metadata.startDate = dateValue;
-				}
-				break;
-			default:
-				console.warn(
-					`Unsupported property type for update: ${groupBy}`
-				);
-				return;
+		const updatedTask = moveTaskToGroup(
+			taskToUpdate,
+			groupBy,
+			oldValue,
+			newValue
+		);
+		if (!updatedTask) {
+			console.warn(`Unsupported property type for update: ${groupBy}`);
+			return;
 		}
 
 		// Update the task using TaskManager
@@ -1067,46 +1207,15 @@ export class KanbanComponent extends Component {
 		}
 	}
 
-	private getTasksForProperty(groupBy: string, value: any): Task[] {
+	private getTasksForProperty(
+		groupBy: string,
+		value: any,
+		tasks: Task[] = this.tasks
+	): Task[] {
 		// Filter tasks based on the groupBy property and value
-		const tasksForProperty = this.tasks.filter((task) => {
-			const metadata = task.metadata || {};
-			switch (groupBy) {
-				case "priority":
-					if (value === null || value === "") {
-						return !metadata.priority;
-					}
-					return metadata.priority === value;
-				case "tags":
-					if (value === null || value === "") {
-						return !metadata.tags || metadata.tags.length === 0;
-					}
-					return (
-						metadata.tags &&
-						metadata.tags.some(
-							(tag) => typeof tag === "string" && tag === value
-						)
-					);
-				case "project":
-					if (value === null || value === "") {
-						return !getEffectiveProject(task);
-					}
-					return getEffectiveProject(task) === value;
-				case "context":
-					if (value === null || value === "") {
-						return !metadata.context;
-					}
-					return metadata.context === value;
-				case "dueDate":
-				case "scheduledDate":
-				case "startDate":
-					return this.matchesDateCategory(task, groupBy, value);
-				case "filePath":
-					return task.filePath === value;
-				default:
-					return true;
-			}
-		});
+		const tasksForProperty = tasks.filter((task) =>
+			isTaskInGroup(task, groupBy, value)
+		);
 
 		// Sort tasks within the property column based on selected sort option
 		tasksForProperty.sort((a, b) => {
@@ -1116,71 +1225,6 @@ export class KanbanComponent extends Component {
 		return tasksForProperty;
 	}
 
-	private matchesDateCategory(
-		task: Task,
-		dateField: string,
-		category: string
-	): boolean {
-		const now = new Date();
-		const today = new Date(
-			now.getFullYear(),
-			now.getMonth(),
-			now.getDate()
-		);
-		const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
-		const weekFromNow = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
-		const twoWeeksFromNow = new Date(
-			today.getTime() + 14 * 24 * 60 * 60 * 1000
-		);
-
-		const metadata = task.metadata || {};
-		let taskDate: number | undefined;
-		switch (dateField) {
-			case "dueDate":
-				taskDate = metadata.dueDate;
-				break;
-			case "scheduledDate":
-				taskDate = metadata.scheduledDate;
-				break;
-			case "startDate":
-				taskDate = metadata.startDate;
-				break;
-		}
-
-		if (!taskDate) {
-			return category === "none" || category === null || category === "";
-		}
-
-		const taskDateObj = new Date(taskDate);
-
-		switch (category) {
-			case "overdue":
-				return taskDateObj < today;
-			case "today":
-				return taskDateObj >= today && taskDateObj < tomorrow;
-			case "tomorrow":
-				return (
-					taskDateObj >= tomorrow &&
-					taskDateObj <
-						new Date(tomorrow.getTime() + 24 * 60 * 60 * 1000)
-				);
-			case "thisWeek":
-				return taskDateObj >= tomorrow && taskDateObj < weekFromNow;
-			case "nextWeek":
-				return (
-					taskDateObj >= weekFromNow && taskDateObj < twoWeeksFromNow
-				);
-			case "later":
-				return taskDateObj >= twoWeeksFromNow;
-			case "none":
-			case null:
-			case "":
-				return false; // Already handled above
-			default:
-				return false;
-		}
-	}
-
 	private getColumnValueFromTitle(
 		title: string,
 		groupBy: string,
@@ -1230,53 +1274,6 @@ export class KanbanComponent extends Component {
 		return title;
 	}
 
-	private convertDateCategoryToTimestamp(
-		category: string
-	): number | undefined {
-		if (category === null || category === "" || category === "none") {
-			return undefined;
-		}
-
-		const now = new Date();
-		const today = new Date(
-			now.getFullYear(),
-			now.getMonth(),
-			now.getDate()
-		);
-
-		switch (category) {
-			case "overdue":
-				// For overdue, we can't determine a specific date, so return undefined
-				// The user should manually set a specific date
-				return undefined;
-			case "today":
-				return today.getTime();
-			case "tomorrow":
-				return new Date(
-					today.getTime() + 24 * 60 * 60 * 1000
-				).getTime();
-			case "thisWeek":
-				// Set to end of this week (Sunday)
-				const daysUntilSunday = 7 - today.getDay();
-				return new Date(
-					today.getTime() + daysUntilSunday * 24 * 60 * 60 * 1000
-				).getTime();
-			case "nextWeek":
-				// Set to end of next week
-				const daysUntilNextSunday = 14 - today.getDay();
-				return new Date(
-					today.getTime() + daysUntilNextSunday * 24 * 60 * 60 * 1000
-				).getTime();
-			case "later":
-				// Set to one month from now
-				const oneMonthLater = new Date(today);
-				oneMonthLater.setMonth(oneMonthLater.getMonth() + 1);
-				return oneMonthLater.getTime();
-			default:
-				return undefined;
-		}
-	}
-
 	private getTaskOriginalColumnValue(task: Task, groupBy: string): any {
 		// Determine which column the task currently belongs to based on its properties
 		const metadata = task.metadata || {};
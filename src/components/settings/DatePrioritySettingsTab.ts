@@ -86,4 +86,45 @@ export function renderDatePrioritySettingsTab(
 					settingTab.applySettingsUpdate();
 				})
 		);
+
+	new Setting(containerEl)
+		.setName(t("Recurrence completion history"))
+		.setDesc(
+			t(
+				"Record completed occurrences of recurring tasks on the next occurrence instead of keeping the completed line. Use 🏁 keep or 🏁 delete to override per task."
+			)
+		)
+		.addDropdown((dropdown) =>
+			dropdown
+				.addOption("none", t("Keep completed tasks"))
+				.addOption("property", t("Completions property"))
+				.addOption("children", t("Child list"))
+				.setValue(settingTab.plugin.settings.recurrenceHistory || "none")
+				.onChange(async (value: "none" | "property" | "children") => {
+					settingTab.plugin.settings.recurrenceHistory = value;
+					settingTab.applySettingsUpdate();
+
+					setTimeout(() => {
+						settingTab.display();
+					}, 200);
+				})
+		);
+
+	if (settingTab.plugin.settings.recurrenceHistory !== "none") {
+		new Setting(containerEl)
+			.setName(t("Completion history length"))
+			.setDesc(t("Number of completions kept in the history."))
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 50, 1)
+					.setValue(
+						settingTab.plugin.settings.recurrenceHistoryLimit ?? 10
+					)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						settingTab.plugin.settings.recurrenceHistoryLimit = value;
+						settingTab.applySettingsUpdate();
+					})
+			);
+	}
 }
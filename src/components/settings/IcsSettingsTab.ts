@@ -19,11 +19,14 @@ import {
 	IcsManagerConfig,
 	IcsTextReplacement,
 	IcsHolidayConfig,
+	IcsExportConfig,
+	IcsSyncStatus,
 } from "../../types/ics";
 import { t } from "../../translations/helper";
 import TaskProgressBarPlugin from "../../index";
 import "../../styles/ics-settings.css";
 import { HolidayDetector } from "../../utils/ics/HolidayDetector";
+import { IcsFileSuggest } from "../AutoComplete";
 
 export class IcsSettingsComponent {
 	private plugin: TaskProgressBarPlugin;
@@ -106,6 +109,9 @@ export class IcsSettingsComponent {
 				this.saveAndRefresh();
 			}).open();
 		};
+
+		// Export feeds
+		this.displayExportsList();
 	}
 
 	private displayGlobalSettings(): void {
@@ -244,13 +250,33 @@ export class IcsSettingsComponent {
 			// Source details
 			const sourceDetails =
 				sourceContainer.createDiv("ics-source-details");
-			sourceDetails.createEl("div", {
-				text: `${t("URL")}: ${this.truncateUrl(source.url)}`,
-				title: source.url, // Show full URL on hover
-			});
-			sourceDetails.createEl("div", {
-				text: `${t("Refresh")}: ${source.refreshInterval}${t("min")}`,
-			});
+			if (source.type === "vault") {
+				sourceDetails.createEl("div", {
+					text: `${t("File")}: ${source.filePath ?? ""}`,
+				});
+			} else {
+				sourceDetails.createEl("div", {
+					text: `${t("URL")}: ${this.truncateUrl(source.url)}`,
+					title: source.url, // Show full URL on hover
+				});
+				sourceDetails.createEl("div", {
+					text: `${t("Refresh")}: ${source.refreshInterval}${t(
+						"min"
+					)}`,
+				});
+			}
+			const syncStatus = this.plugin
+				.getIcsManager()
+				?.getSyncStatus(source.id);
+			if (syncStatus && source.enabled) {
+				sourceDetails.createEl("div", {
+					text: `${t("Status")}: ${this.getSyncStatusText(
+						syncStatus
+					)}`,
+					title: syncStatus.error ?? "",
+					cls: `ics-sync-status ics-sync-status-${syncStatus.status}`,
+				});
+			}
 			if (source.color) {
 				const colorDiv = sourceDetails.createEl("div");
 				colorDiv.createSpan({ text: `${t("Color")}: ` });
@@ -326,6 +352,7 @@ export class IcsSettingsComponent {
 				} finally {
 					syncButton.disabled = false;
 					syncButton.setText(t("Sync"));
+					this.display();
 				}
 			};
 
@@ -367,6 +394,174 @@ export class IcsSettingsComponent {
 		});
 	}
 
+	private displayExportsList(): void {
+		const exportsContainer = this.containerEl.createDiv("ics-exports-list");
+		exportsContainer.createEl("h3", { text: t("Export Feeds") });
+		exportsContainer.createEl("p", {
+			text: t(
+				"Write the tasks of a view to an .ics file in your vault, so calendar apps can subscribe to it. The file is updated when your tasks change."
+			),
+			cls: "ics-description",
+		});
+
+		const exports = this.config.exports ?? [];
+		const views = this.plugin.settings.viewConfiguration;
+
+		exports.forEach((exportConfig, index) => {
+			const exportContainer =
+				exportsContainer.createDiv("ics-export-item");
+
+			new Setting(exportContainer)
+				.setName(t("Name"))
+				.setDesc(t("Also used as the calendar name"))
+				.addText((text) => {
+					text.setValue(exportConfig.name).onChange((value) => {
+						exportConfig.name = value;
+						this.saveSettings();
+					});
+				})
+				.addToggle((toggle) => {
+					toggle
+						.setTooltip(t("Enable"))
+						.setValue(exportConfig.enabled)
+						.onChange((value) => {
+							exportConfig.enabled = value;
+							this.saveSettings();
+						});
+				});
+
+			new Setting(exportContainer)
+				.setName(t("View"))
+				.setDesc(t("Tasks matching this view's filters are exported"))
+				.addDropdown((dropdown) => {
+					views.forEach((view) => {
+						dropdown.addOption(view.id, view.name);
+					});
+					dropdown
+						.setValue(exportConfig.viewId)
+						.onChange((value) => {
+							exportConfig.viewId = value;
+							this.saveSettings();
+						});
+				});
+
+			new Setting(exportContainer)
+				.setName(t("File path"))
+				.setDesc(t("Vault path of the .ics file"))
+				.addText((text) => {
+					text.setPlaceholder("calendar/tasks.ics")
+						.setValue(exportConfig.filePath)
+						.onChange((value) => {
+							exportConfig.filePath = value;
+							this.saveSettings();
+						});
+				});
+
+			new Setting(exportContainer)
+				.setName(t("Export as"))
+				.setDesc(
+					t(
+						"To-dos keep undated tasks, events only include tasks with a date"
+					)
+				)
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption("VTODO", t("To-dos (VTODO)"))
+						.addOption("VEVENT", t("Events (VEVENT)"))
+						.setValue(exportConfig.componentType)
+						.onChange((value) => {
+							exportConfig.componentType = value as
+								| "VTODO"
+								| "VEVENT";
+							this.saveSettings();
+						});
+				});
+
+			new Setting(exportContainer)
+				.setName(t("Include completed tasks"))
+				.addToggle((toggle) => {
+					toggle
+						.setValue(exportConfig.includeCompleted)
+						.onChange((value) => {
+							exportConfig.includeCompleted = value;
+							this.saveSettings();
+						});
+				});
+
+			new Setting(exportContainer)
+				.addButton((button) => {
+					button.setButtonText(t("Export now")).onClick(async () => {
+						const exporter = this.plugin.icsExporter;
+						if (!exporter) return;
+						try {
+							const count = await exporter.exportFeed(
+								exportConfig
+							);
+							this.saveSettings();
+							new Notice(
+								`${t("Exported")} ${count} ${t("tasks")}`
+							);
+						} catch (error) {
+							new Notice(t("Export failed: ") + error.message);
+						}
+					});
+				})
+				.addButton((button) => {
+					button
+						.setButtonText(t("Delete"))
+						.setWarning()
+						.onClick(() => {
+							exports.splice(index, 1);
+							this.saveAndRefresh();
+						});
+				});
+		});
+
+		const addExportContainer = exportsContainer.createDiv(
+			"ics-add-source-container"
+		);
+		const addButton = addExportContainer.createEl("button", {
+			text: "+ " + t("Add Export Feed"),
+		});
+		addButton.onclick = () => {
+			const exportConfig: IcsExportConfig = {
+				id: `ics-export-${Date.now()}-${Math.random()
+					.toString(36)
+					.substr(2, 9)}`,
+				name: t("Tasks"),
+				enabled: true,
+				viewId: views[0]?.id ?? "inbox",
+				filePath: "tasks.ics",
+				componentType: "VTODO",
+				includeCompleted: false,
+			};
+			this.config.exports = [...exports, exportConfig];
+			this.saveAndRefresh();
+		};
+	}
+
+	private getSyncStatusText(syncStatus: IcsSyncStatus): string {
+		const lastSync = syncStatus.lastSync
+			? ` (${t("Last sync")}: ${new Date(
+					syncStatus.lastSync
+			  ).toLocaleString()})`
+			: "";
+
+		switch (syncStatus.status) {
+			case "syncing":
+				return t("Syncing...");
+			case "error":
+				return `${t("Error")}: ${syncStatus.error}`;
+			case "stale":
+				return t("stale (offline)") + lastSync;
+			default:
+				return (
+					(syncStatus.lastSync ? t("Up to date") : t("Not synced")) +
+					lastSync
+				);
+		}
+	}
+
 	private truncateUrl(url: string, maxLength: number = 50): string {
 		if (url.length <= maxLength) return url;
 		return url.substring(0, maxLength - 3) + "...";
@@ -444,18 +639,24 @@ class IcsSourceModal extends Modal {
 					});
 			});
 
-		// URL
-		new Setting(contentEl)
-			.setName(t("ICS URL"))
-			.setDesc(t("URL to the ICS/iCal file"))
-			.addText((text) => {
-				text.setPlaceholder("https://example.com/calendar.ics")
-					.setValue(this.source.url)
+		// Source type
+		const locationContainer = contentEl.createDiv();
+		new Setting(locationContainer)
+			.setName(t("Source Type"))
+			.setDesc(t("Fetch the calendar from a URL or read a vault file"))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("url", t("URL"))
+					.addOption("vault", t("Vault file"))
+					.setValue(this.source.type || "url")
 					.onChange((value) => {
-						this.source.url = value;
+						this.source.type = value as "url" | "vault";
+						this.refreshLocationFields(locationContainer);
 					});
 			});
 
+		this.refreshLocationFields(locationContainer);
+
 		// Enabled
 		new Setting(contentEl)
 			.setName(t("ICS Enabled"))
@@ -466,21 +667,6 @@ class IcsSourceModal extends Modal {
 				});
 			});
 
-		// Refresh interval
-		new Setting(contentEl)
-			.setName(t("Refresh Interval"))
-			.setDesc(t("How often to refresh this source (minutes)"))
-			.addText((text) => {
-				text.setPlaceholder("60")
-					.setValue(this.source.refreshInterval.toString())
-					.onChange((value) => {
-						const interval = parseInt(value, 10);
-						if (!isNaN(interval) && interval > 0) {
-							this.source.refreshInterval = interval;
-						}
-					});
-			});
-
 		// Color
 		new Setting(contentEl)
 			.setName(t("Color"))
@@ -544,6 +730,9 @@ class IcsSourceModal extends Modal {
 		// Status Mapping Configuration section
 		this.displayStatusMappingConfiguration(contentEl);
 
+		// Writing events as tasks section
+		this.displayMaterializeConfiguration(contentEl);
+
 		// Authentication section
 		const authContainer = contentEl.createDiv();
 		authContainer.createEl("h3", { text: t("Authentication (Optional)") });
@@ -882,6 +1071,117 @@ class IcsSourceModal extends Modal {
 		this.refreshStatusMappingSettings(statusContainer);
 	}
 
+	private displayMaterializeConfiguration(contentEl: HTMLElement): void {
+		const materializeContainer = contentEl.createDiv();
+		materializeContainer.createEl("h3", { text: t("Create Tasks") });
+		materializeContainer.createEl("p", {
+			text: t(
+				"Write events of this source as tasks into a note, where they can be checked off"
+			),
+			cls: "setting-item-description",
+		});
+
+		// Initialize materialize config if not exists
+		if (!this.source.materialize) {
+			this.source.materialize = {
+				targetType: "daily-note",
+				autoMaterialize: false,
+			};
+		}
+
+		this.refreshMaterializeSettings(materializeContainer);
+	}
+
+	private refreshMaterializeSettings(container: HTMLElement): void {
+		container
+			.querySelectorAll(".materialize-setting")
+			.forEach((setting) => setting.remove());
+
+		const config = this.source.materialize!;
+
+		new Setting(container)
+			.setName(t("Target"))
+			.setDesc(t("Daily note of the event's date or a fixed file"))
+			.setClass("materialize-setting")
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("daily-note", t("Daily note"))
+					.addOption("fixed", t("Fixed file"))
+					.setValue(config.targetType)
+					.onChange((value) => {
+						config.targetType = value as "daily-note" | "fixed";
+						this.refreshMaterializeSettings(container);
+					});
+			});
+
+		if (config.targetType === "fixed") {
+			new Setting(container)
+				.setName(t("Target file"))
+				.setClass("materialize-setting")
+				.addText((text) => {
+					text.setPlaceholder("Meetings.md")
+						.setValue(config.targetFile || "")
+						.onChange((value) => {
+							config.targetFile = value.trim() || undefined;
+						});
+				});
+		}
+
+		new Setting(container)
+			.setName(t("Target heading"))
+			.setDesc(t("Add the tasks under this heading (optional)"))
+			.setClass("materialize-setting")
+			.addText((text) => {
+				text.setValue(config.targetHeading || "").onChange((value) => {
+					config.targetHeading = value.trim() || undefined;
+				});
+			});
+
+		new Setting(container)
+			.setName(t("Create tasks automatically"))
+			.setDesc(
+				t("Write upcoming events as tasks when the calendar is synced")
+			)
+			.setClass("materialize-setting")
+			.addToggle((toggle) => {
+				toggle.setValue(config.autoMaterialize).onChange((value) => {
+					config.autoMaterialize = value;
+					this.refreshMaterializeSettings(container);
+				});
+			});
+
+		if (!config.autoMaterialize) return;
+
+		new Setting(container)
+			.setName(t("Days ahead"))
+			.setDesc(t("Also create tasks for this many days after today"))
+			.setClass("materialize-setting")
+			.addText((text) => {
+				text.setPlaceholder("0")
+					.setValue(String(config.autoMaterializeDays ?? 0))
+					.onChange((value) => {
+						const days = parseInt(value, 10);
+						if (!isNaN(days) && days >= 0) {
+							config.autoMaterializeDays = days;
+						}
+					});
+			});
+
+		new Setting(container)
+			.setName(t("Only events matching"))
+			.setDesc(
+				t("Regular expression the event title must match (optional)")
+			)
+			.setClass("materialize-setting")
+			.addText((text) => {
+				text.setPlaceholder("standup|review")
+					.setValue(config.autoMaterializePattern || "")
+					.onChange((value) => {
+						config.autoMaterializePattern = value || undefined;
+					});
+			});
+	}
+
 	private refreshHolidaySettings(container: HTMLElement): void {
 		// Remove existing holiday settings
 		const existingSettings = container.querySelectorAll(".holiday-setting");
@@ -1217,12 +1517,77 @@ class IcsSourceModal extends Modal {
 			});
 	}
 
+	/**
+	 * Show the URL and refresh interval, or the file picker for vault
+	 * sources
+	 */
+	private refreshLocationFields(container: HTMLElement): void {
+		container
+			.querySelectorAll(".ics-location-field")
+			.forEach((field) => field.remove());
+
+		if (this.source.type === "vault") {
+			new Setting(container)
+				.setClass("ics-location-field")
+				.setName(t("ICS File"))
+				.setDesc(
+					t(
+						"The .ics file in your vault, it is read again whenever it changes"
+					)
+				)
+				.addText((text) => {
+					new IcsFileSuggest(this.app, text.inputEl);
+					text.setPlaceholder("Calendars/work.ics")
+						.setValue(this.source.filePath || "")
+						.onChange((value) => {
+							this.source.filePath = value.trim();
+						});
+				});
+			return;
+		}
+
+		new Setting(container)
+			.setClass("ics-location-field")
+			.setName(t("ICS URL"))
+			.setDesc(t("URL to the ICS/iCal file, webcal:// links work too"))
+			.addText((text) => {
+				text.setPlaceholder("https://example.com/calendar.ics")
+					.setValue(this.source.url)
+					.onChange((value) => {
+						this.source.url = value;
+					});
+			});
+
+		new Setting(container)
+			.setClass("ics-location-field")
+			.setName(t("Refresh Interval"))
+			.setDesc(t("How often to refresh this source (minutes)"))
+			.addText((text) => {
+				text.setPlaceholder("60")
+					.setValue(this.source.refreshInterval.toString())
+					.onChange((value) => {
+						const interval = parseInt(value, 10);
+						if (!isNaN(interval) && interval > 0) {
+							this.source.refreshInterval = interval;
+						}
+					});
+			});
+	}
+
 	private validateSource(): boolean {
 		if (!this.source.name.trim()) {
 			new Notice(t("Please enter a name for the source"));
 			return false;
 		}
 
+		if (this.source.type === "vault") {
+			if (!this.source.filePath?.toLowerCase().endsWith(".ics")) {
+				new Notice(t("Please choose an .ics file from your vault"));
+				return false;
+			}
+			return true;
+		}
+
 		if (!this.source.url.trim()) {
 			new Notice(t("Please enter a URL for the source"));
 			return false;
@@ -0,0 +1,130 @@
+import { Setting } from "obsidian";
+import { TaskProgressBarSettingTab } from "../../setting";
+import { t } from "../../translations/helper";
+import { parseReminderOffset } from "../../utils/reminderUtils";
+
+export function renderReminderSettingsTab(
+	settingTab: TaskProgressBarSettingTab,
+	containerEl: HTMLElement
+) {
+	new Setting(containerEl).setName(t("Reminders")).setHeading();
+
+	new Setting(containerEl)
+		.setName(t("Enable reminders"))
+		.setDesc(
+			t(
+				"Show a notice and a system notification when a task reminder (🔔 or [reminder::]) is due. Requires views to be enabled and a restart."
+			)
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(settingTab.plugin.settings.reminders.enableReminders)
+				.onChange(async (value) => {
+					settingTab.plugin.settings.reminders.enableReminders =
+						value;
+					settingTab.applySettingsUpdate();
+
+					setTimeout(() => {
+						settingTab.display();
+					}, 200);
+				})
+		);
+
+	if (!settingTab.plugin.settings.reminders.enableReminders) return;
+
+	new Setting(containerEl)
+		.setName(t("Default reminder time"))
+		.setDesc(
+			t(
+				"Time of day (HH:mm) used for reminders on dates without a time."
+			)
+		)
+		.addText((text) =>
+			text
+				.setPlaceholder("09:00")
+				.setValue(settingTab.plugin.settings.reminders.defaultTime)
+				.onChange(async (value) => {
+					if (!/^\d{1,2}:\d{2}$/.test(value.trim())) return;
+					settingTab.plugin.settings.reminders.defaultTime =
+						value.trim();
+					settingTab.applySettingsUpdate();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName(t("Remind before due date"))
+		.setDesc(
+			t(
+				"Remind about every open task with a due or scheduled date, not only tasks with 🔔."
+			)
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(settingTab.plugin.settings.reminders.remindBeforeDue)
+				.onChange(async (value) => {
+					settingTab.plugin.settings.reminders.remindBeforeDue =
+						value;
+					settingTab.applySettingsUpdate();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName(t("Default reminder offset"))
+		.setDesc(
+			t(
+				"How long before the due or scheduled time to remind, e.g. 30m, 1h or 1d. Used by a bare 🔔 and by reminders before the due date."
+			)
+		)
+		.addText((text) =>
+			text
+				.setPlaceholder("0m")
+				.setValue(settingTab.plugin.settings.reminders.defaultOffset)
+				.onChange(async (value) => {
+					if (parseReminderOffset(value) === undefined) return;
+					settingTab.plugin.settings.reminders.defaultOffset =
+						value.trim();
+					settingTab.applySettingsUpdate();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName(t("Snooze duration"))
+		.setDesc(t("Minutes to wait before showing a snoozed reminder again."))
+		.addSlider((slider) =>
+			slider
+				.setLimits(5, 120, 5)
+				.setValue(settingTab.plugin.settings.reminders.snoozeMinutes)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					settingTab.plugin.settings.reminders.snoozeMinutes = value;
+					settingTab.applySettingsUpdate();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName(t("System notifications"))
+		.setDesc(
+			t(
+				"Also show reminders as system notifications. Your system may ask for permission."
+			)
+		)
+		.addToggle((toggle) =>
+			toggle
+				.setValue(
+					settingTab.plugin.settings.reminders.systemNotifications
+				)
+				.onChange(async (value) => {
+					settingTab.plugin.settings.reminders.systemNotifications =
+						value;
+					settingTab.applySettingsUpdate();
+
+					if (
+						value &&
+						typeof Notification !== "undefined" &&
+						Notification.permission === "default"
+					) {
+						Notification.requestPermission();
+					}
+				})
+		);
+}
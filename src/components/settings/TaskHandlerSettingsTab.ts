@@ -1,10 +1,12 @@
-import { Setting } from "obsidian";
+import { moment, Setting } from "obsidian";
 import {
 	SortCriterion,
 	DEFAULT_SETTINGS,
 } from "../../common/setting-definition";
 import { TaskProgressBarSettingTab } from "../../setting";
 import { t } from "../../translations/helper";
+import { SingleFolderSuggest } from "../AutoComplete";
+import { AutoArchivePreviewModal } from "../AutoArchivePreviewModal";
 
 export function renderTaskHandlerSettingsTab(
 	settingTab: TaskProgressBarSettingTab,
@@ -531,6 +533,8 @@ export function renderTaskHandlerSettingsTab(
 		}
 	}
 
+	renderAutoArchiveSettings(settingTab, containerEl);
+
 	// --- Task Sorting Settings ---
 	new Setting(containerEl)
 		.setName(t("Task Sorting"))
@@ -730,3 +734,245 @@ export function renderTaskHandlerSettingsTab(
 		refreshCriteriaList(); // Initial render
 	}
 }
+
+function renderAutoArchiveSettings(
+	settingTab: TaskProgressBarSettingTab,
+	containerEl: HTMLElement
+) {
+	const settings = settingTab.plugin.settings.autoArchive;
+
+	new Setting(containerEl)
+		.setName(t("Auto-archive"))
+		.setDesc(
+			t(
+				"Move completed tasks across the vault into archive files by rules, at startup and on a schedule. Tasks are archived with the marker of the completed task mover."
+			)
+		)
+		.setHeading();
+
+	new Setting(containerEl)
+		.setName(t("Enable auto-archive"))
+		.addToggle((toggle) =>
+			toggle.setValue(settings.enabled).onChange((value) => {
+				settings.enabled = value;
+				settingTab.applySettingsUpdate();
+				settingTab.plugin.autoArchiver?.reschedule();
+				settingTab.display();
+			})
+		);
+
+	if (!settings.enabled) return;
+
+	new Setting(containerEl)
+		.setName(t("Run at startup"))
+		.setDesc(t("Archive once the tasks are indexed after Obsidian starts."))
+		.addToggle((toggle) =>
+			toggle.setValue(settings.runOnStartup).onChange((value) => {
+				settings.runOnStartup = value;
+				settingTab.applySettingsUpdate();
+			})
+		);
+
+	new Setting(containerEl)
+		.setName(t("Run every (hours)"))
+		.setDesc(t("Hours between archive runs, 0 turns the schedule off."))
+		.addText((text) =>
+			text
+				.setPlaceholder("24")
+				.setValue(settings.intervalHours.toString())
+				.onChange((value) => {
+					const hours = Number(value);
+					if (isNaN(hours) || hours < 0) return;
+					settings.intervalHours = hours;
+					settingTab.applySettingsUpdate();
+					settingTab.plugin.autoArchiver?.reschedule();
+				})
+		);
+
+	new Setting(containerEl)
+		.setName(t("Archive rules"))
+		.setDesc(
+			t(
+				"Tasks completed the given number of days ago move to the archive file of the first matching rule. {{project}}, {{filename}} and date formats like {{YYYY-MM}} are filled in from the task and its completion date. Tasks without a project skip rules that use {{project}}. Rules with an unknown placeholder are skipped, the preview lists the tasks they leave."
+			)
+		)
+		.setHeading();
+
+	const rulesContainer = containerEl.createDiv({
+		cls: "auto-archive-rules",
+	});
+
+	settings.rules.forEach((rule, index) => {
+		const ruleContainer = rulesContainer.createDiv({
+			cls: "auto-archive-rule",
+		});
+
+		new Setting(ruleContainer)
+			.setName(rule.name || `${t("Rule")} ${index + 1}`)
+			.addText((text) =>
+				text
+					.setPlaceholder(t("Rule name"))
+					.setValue(rule.name)
+					.onChange((value) => {
+						rule.name = value;
+						settingTab.applySettingsUpdate();
+					})
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip(t("Enabled"))
+					.setValue(rule.enabled)
+					.onChange((value) => {
+						rule.enabled = value;
+						settingTab.applySettingsUpdate();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip(t("Remove"))
+					.onClick(() => {
+						settings.rules.splice(index, 1);
+						settingTab.applySettingsUpdate();
+						settingTab.display();
+					})
+			);
+
+		new Setting(ruleContainer)
+			.setName(t("Completed more than (days) ago"))
+			.addText((text) =>
+				text
+					.setPlaceholder("14")
+					.setValue(rule.completedDaysAgo.toString())
+					.onChange((value) => {
+						const days = Number(value);
+						if (isNaN(days) || days < 0) return;
+						rule.completedDaysAgo = days;
+						settingTab.applySettingsUpdate();
+					})
+			);
+
+		new Setting(ruleContainer)
+			.setName(t("In folder"))
+			.setDesc(t("Leave empty for the whole vault."))
+			.addText((text) => {
+				text.setPlaceholder("Projects")
+					.setValue(rule.folder ?? "")
+					.onChange((value) => {
+						rule.folder = value;
+						settingTab.applySettingsUpdate();
+					});
+				new SingleFolderSuggest(
+					settingTab.app,
+					text.inputEl,
+					settingTab.plugin
+				);
+			});
+
+		new Setting(ruleContainer)
+			.setName(t("Archive file"))
+			.addText((text) =>
+				text
+					.setPlaceholder("Archive/{{project}}.md")
+					.setValue(rule.targetFile)
+					.onChange((value) => {
+						rule.targetFile = value;
+						settingTab.applySettingsUpdate();
+					})
+			);
+
+		new Setting(ruleContainer)
+			.setName(t("Under heading"))
+			.setDesc(t("Leave empty to append to the end of the file."))
+			.addText((text) =>
+				text
+					.setPlaceholder("{{YYYY-MM}}")
+					.setValue(rule.targetHeading ?? "")
+					.onChange((value) => {
+						rule.targetHeading = value;
+						settingTab.applySettingsUpdate();
+					})
+			);
+	});
+
+	new Setting(containerEl)
+		.addButton((button) =>
+			button.setButtonText(t("Add rule")).onClick(() => {
+				settings.rules.push({
+					id: `archive-${Date.now()}-${Math.random()
+						.toString(36)
+						.substr(2, 9)}`,
+					name: "",
+					enabled: true,
+					completedDaysAgo: 14,
+					folder: "",
+					targetFile: "Archive/{{project}}.md",
+					targetHeading: "{{YYYY-MM}}",
+				});
+				settingTab.applySettingsUpdate();
+				settingTab.display();
+			})
+		)
+		.addButton((button) =>
+			button
+				.setButtonText(t("Preview"))
+				.setDisabled(!settingTab.plugin.autoArchiver)
+				.onClick(() => {
+					new AutoArchivePreviewModal(settingTab.plugin, () =>
+						settingTab.display()
+					).open();
+				})
+		)
+		.addButton((button) =>
+			button
+				.setButtonText(t("Run now"))
+				.setCta()
+				.setDisabled(!settingTab.plugin.autoArchiver)
+				.onClick(async () => {
+					await settingTab.plugin.autoArchiver.run("manual");
+					settingTab.display();
+				})
+		);
+
+	new Setting(containerEl).setName(t("Archive log")).setHeading();
+
+	if (settings.log.length === 0) {
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: t("No archive runs yet"),
+		});
+		return;
+	}
+
+	const triggerNames: Record<string, string> = {
+		startup: t("At startup"),
+		schedule: t("Scheduled"),
+		manual: t("By hand"),
+	};
+
+	const logContainer = containerEl.createDiv({ cls: "auto-archive-log" });
+	settings.log.forEach((entry) => {
+		const details = logContainer.createEl("details", {
+			cls: "auto-archive-log-entry",
+		});
+		details.createEl("summary", {
+			text: `${moment(entry.time).format("YYYY-MM-DD HH:mm")} · ${
+				triggerNames[entry.trigger]
+			} · ${t("Archived completed tasks:")} ${entry.moved}`,
+		});
+		const items = details.createEl("ul");
+		entry.tasks.forEach((task) => {
+			items.createEl("li", {
+				text: `${task.content} — ${task.from} → ${task.to}`,
+			});
+		});
+	});
+
+	new Setting(containerEl).addButton((button) =>
+		button.setButtonText(t("Clear log")).onClick(() => {
+			settings.log = [];
+			settingTab.applySettingsUpdate();
+			settingTab.display();
+		})
+	);
+}
@@ -13,3 +13,4 @@ export { renderWorkflowSettingsTab } from "./WorkflowSettingsTab";
 export { renderProjectSettingsTab } from "./ProjectSettingsTab";
 export { renderDatePrioritySettingsTab } from "./DatePrioritySettingsTab";
 export { renderTimelineSidebarSettingsTab } from "./TimelineSidebarSettingsTab";
+export { renderReminderSettingsTab } from "./ReminderSettingsTab";
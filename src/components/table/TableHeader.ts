@@ -1,5 +1,6 @@
 import { Component, setIcon } from "obsidian";
 import { t } from "../../translations/helper";
+import { formatDurationMinutes } from "../../utils/timeTrackingUtils";
 
 export interface TableHeaderCallbacks {
 	onTreeModeToggle?: (enabled: boolean) => void;
@@ -13,6 +14,8 @@ export interface TableHeaderCallbacks {
 export class TableHeader extends Component {
 	private headerEl: HTMLElement;
 	private taskCount: number = 0;
+	private actualMinutes: number = 0;
+	private estimatedMinutes: number = 0;
 	private isTreeMode: boolean = false;
 	private availableColumns: Array<{
 		id: string;
@@ -50,6 +53,15 @@ export class TableHeader extends Component {
 		this.updateTaskCountDisplay();
 	}
 
+	/**
+	 * Update the time spent / estimated totals
+	 */
+	public updateTimeSummary(actualMinutes: number, estimatedMinutes: number) {
+		this.actualMinutes = actualMinutes;
+		this.estimatedMinutes = estimatedMinutes;
+		this.updateTimeSummaryDisplay();
+	}
+
 	/**
 	 * Update tree mode state
 	 */
@@ -95,6 +107,34 @@ export class TableHeader extends Component {
 		const countText = countContainer.createSpan("task-count-text");
 		countText.textContent = this.getTaskCountText();
 		countText.dataset.countElement = "true";
+
+		const timeText = container.createSpan("task-time-summary");
+		timeText.dataset.timeElement = "true";
+		this.updateTimeSummaryDisplay();
+	}
+
+	/**
+	 * Update time summary display, hidden when no task has times
+	 */
+	private updateTimeSummaryDisplay() {
+		const timeElement = this.headerEl?.querySelector(
+			"[data-time-element]"
+		) as HTMLElement | null;
+		if (!timeElement) return;
+
+		if (!this.actualMinutes && !this.estimatedMinutes) {
+			timeElement.hide();
+			return;
+		}
+
+		let text = `${t("Time spent")}: ${formatDurationMinutes(
+			this.actualMinutes
+		)}`;
+		if (this.estimatedMinutes) {
+			text += ` / ${formatDurationMinutes(this.estimatedMinutes)}`;
+		}
+		timeElement.textContent = text;
+		timeElement.show();
 	}
 
 	/**
@@ -14,6 +14,7 @@ import { VirtualScrollManager } from "./VirtualScrollManager";
 import { TableHeader, TableHeaderCallbacks } from "./TableHeader";
 import { sortTasks } from "../../commands/sortTaskCommands";
 import { isProjectReadonly } from "../../utils/taskUtil";
+import { BulkActionBar } from "../BulkActionBar";
 import "../../styles/table.css";
 
 export interface TableViewCallbacks {
@@ -41,6 +42,7 @@ export class TableView extends Component {
 	private editor: TableEditor;
 	private treeManager: TreeManager;
 	private virtualScroll: VirtualScrollManager;
+	private bulkActionBar: BulkActionBar;
 
 	// Data management
 	private allTasks: Task[] = [];
@@ -264,6 +266,13 @@ export class TableView extends Component {
 		});
 		this.addChild(this.tableHeader);
 
+		// Actions on the selected rows
+		this.bulkActionBar = new BulkActionBar(this.plugin, this.containerEl, {
+			getSelectedTasks: () => this.getSelectedTasks(),
+			onClearSelection: () => this.clearSelection(),
+		});
+		this.addChild(this.bulkActionBar);
+
 		// Create table wrapper for proper scrolling
 		this.tableWrapper = this.containerEl.createDiv("task-table-wrapper");
 
@@ -470,6 +479,7 @@ export class TableView extends Component {
 
 		// Clear any existing selection that might be invalid after sorting
 		this.selectedRows.clear();
+		this.bulkActionBar?.update();
 
 		// If virtual scrolling is enabled and we have many rows, use virtual rendering
 		if (
@@ -1014,6 +1024,7 @@ export class TableView extends Component {
 	// UI update methods
 	private updateRowSelection() {
 		this.renderer.updateSelection(this.selectedRows);
+		this.bulkActionBar?.update();
 	}
 
 	private updateSortIndicators() {
@@ -1171,6 +1182,15 @@ export class TableView extends Component {
 			// Update task count
 			this.tableHeader.updateTaskCount(this.filteredTasks.length);
 
+			// Update time spent / estimated totals
+			let actualMinutes = 0;
+			let estimatedMinutes = 0;
+			for (const task of this.filteredTasks) {
+				actualMinutes += task.metadata.actualTime ?? 0;
+				estimatedMinutes += task.metadata.estimatedTime ?? 0;
+			}
+			this.tableHeader.updateTimeSummary(actualMinutes, estimatedMinutes);
+
 			// Update tree mode state
 			this.tableHeader.updateTreeMode(this.isTreeView);
 
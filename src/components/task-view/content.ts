@@ -10,11 +10,18 @@ import { tasksToTree } from "../../utils/treeViewUtil"; // Re-import needed util
 import { TaskTreeItemComponent } from "./treeItem"; // Re-import needed components
 import { t } from "../../translations/helper";
 import TaskProgressBarPlugin from "../../index";
+import {
+	BulkActionBar,
+	markMultiSelection,
+	toggleMultiSelection,
+} from "../BulkActionBar";
 
 // @ts-ignore
 import { filterTasks } from "../../utils/TaskFilterUtils";
 import { sortTasks } from "../../commands/sortTaskCommands"; // 导入 sortTasks 函数
 
+const TASK_ITEM_SELECTOR = ".task-item[data-task-id]";
+
 interface ContentComponentParams {
 	onTaskSelected?: (task: Task | null) => void;
 	onTaskCompleted?: (task: Task) => void;
@@ -35,6 +42,8 @@ export class ContentComponent extends Component {
 	private notFilteredTasks: Task[] = [];
 	private filteredTasks: Task[] = []; // Tasks after filters applied
 	private selectedTask: Task | null = null;
+	private multiSelectedIds: Set<string> = new Set();
+	private bulkActionBar: BulkActionBar;
 
 	// Child Components (managed by InboxComponent for lazy loading)
 	private taskComponents: TaskListItemComponent[] = [];
@@ -69,8 +78,32 @@ export class ContentComponent extends Component {
 		// Create header
 		this.createContentHeader();
 
+		// Actions on the tasks selected with Ctrl/Cmd-click
+		this.bulkActionBar = new BulkActionBar(this.plugin, this.containerEl, {
+			getSelectedTasks: () => this.getMultiSelectedTasks(),
+			onClearSelection: () => this.clearMultiSelection(),
+		});
+		this.addChild(this.bulkActionBar);
+
 		// Create task list container
 		this.taskListEl = this.containerEl.createDiv({ cls: "task-list" });
+		// Capture phase, before the items handle the click
+		this.registerDomEvent(
+			this.taskListEl,
+			"click",
+			(event) => {
+				if (
+					toggleMultiSelection(
+						event,
+						TASK_ITEM_SELECTOR,
+						this.multiSelectedIds
+					)
+				) {
+					this.bulkActionBar.update();
+				}
+			},
+			{ capture: true }
+		);
 
 		// Set up intersection observer for lazy loading
 		this.initializeVirtualList();
@@ -154,6 +187,12 @@ export class ContentComponent extends Component {
 	public setTasks(tasks: Task[], notFilteredTasks: Task[]) {
 		this.allTasks = tasks;
 		this.notFilteredTasks = notFilteredTasks;
+		// Keep the selection of the tasks that are still there
+		const taskIds = new Set(notFilteredTasks.map((task) => task.id));
+		this.multiSelectedIds.forEach((id) => {
+			if (!taskIds.has(id)) this.multiSelectedIds.delete(id);
+		});
+		this.bulkActionBar?.update();
 		this.applyFilters();
 		this.refreshTaskList();
 	}
@@ -310,6 +349,7 @@ export class ContentComponent extends Component {
 		}
 
 		this.taskListEl.appendChild(fragment);
+		this.markMultiSelected();
 		this.nextTaskIndex = end; // Update index for the next batch
 		return end; // Return the new end index
 	}
@@ -365,6 +405,7 @@ export class ContentComponent extends Component {
 		}
 
 		this.taskListEl.appendChild(fragment);
+		this.markMultiSelected();
 		this.nextRootTaskIndex = end; // Update index for the next batch
 		return end; // Return the new end index
 	}
@@ -543,6 +584,26 @@ export class ContentComponent extends Component {
 		return this.selectedTask;
 	}
 
+	public getMultiSelectedTasks(): Task[] {
+		return this.notFilteredTasks.filter((task) =>
+			this.multiSelectedIds.has(task.id)
+		);
+	}
+
+	public clearMultiSelection() {
+		this.multiSelectedIds.clear();
+		this.markMultiSelected();
+		this.bulkActionBar.update();
+	}
+
+	private markMultiSelected() {
+		markMultiSelection(
+			this.taskListEl,
+			TASK_ITEM_SELECTOR,
+			this.multiSelectedIds
+		);
+	}
+
 	onunload() {
 		this.cleanupComponents(); // Use the cleanup method
 		this.containerEl.empty(); // Extra safety
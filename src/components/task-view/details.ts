@@ -11,6 +11,7 @@ import {
 	debounce,
 } from "obsidian";
 import { Task } from "../../types/task";
+import { IcsTask } from "../../types/ics";
 import TaskProgressBarPlugin from "../../index";
 import { TaskProgressBarSettings } from "../../common/setting-definition";
 import "../../styles/task-details.css";
@@ -20,6 +21,8 @@ import { StatusComponent } from "../StatusComponent";
 import { ContextSuggest, ProjectSuggest, TagSuggest } from "../AutoComplete";
 import { FileTask } from "../../types/file-task";
 import { getEffectiveProject, isProjectReadonly } from "../../utils/taskUtil";
+import { formatDurationMinutes } from "../../utils/timeTrackingUtils";
+import { isRecurrenceGhost } from "../../utils/recurrenceUtils";
 
 function getStatus(task: Task, settings: TaskProgressBarSettings) {
 	const status = Object.keys(settings.taskStatuses).find((key) => {
@@ -67,6 +70,10 @@ export function createTaskCheckbox(
 	if (status !== " ") {
 		checkbox.checked = true;
 	}
+	// Projected occurrences of recurring tasks can't be completed
+	if (isRecurrenceGhost(task)) {
+		checkbox.disabled = true;
+	}
 
 	return checkbox;
 }
@@ -78,6 +85,7 @@ export class TaskDetailsComponent extends Component {
 	private isVisible: boolean = true;
 	private isEditing: boolean = false;
 	private editFormEl: HTMLElement | null = null;
+	private timerBtn: HTMLButtonElement | null = null;
 
 	// Events
 	public onTaskEdit: (task: Task) => void;
@@ -102,6 +110,13 @@ export class TaskDetailsComponent extends Component {
 
 		// Initial empty state
 		this.showEmptyState();
+
+		// Keep the timer button in sync when a timer starts or stops elsewhere
+		this.registerEvent(
+			this.app.workspace.on("task-genius:timer-changed", () => {
+				this.updateTimerButton();
+			})
+		);
 	}
 
 	private showEmptyState() {
@@ -244,6 +259,21 @@ export class TaskDetailsComponent extends Component {
 		// Task file location
 		this.addMetadataField(metaEl, t("File"), task.filePath);
 
+		if (task.metadata.estimatedTime) {
+			this.addMetadataField(
+				metaEl,
+				t("Estimated time"),
+				formatDurationMinutes(task.metadata.estimatedTime)
+			);
+		}
+		if (task.metadata.actualTime) {
+			this.addMetadataField(
+				metaEl,
+				t("Time spent"),
+				formatDurationMinutes(task.metadata.actualTime)
+			);
+		}
+
 		// Add action controls
 		const actionsEl = this.contentEl.createDiv({ cls: "details-actions" });
 
@@ -277,6 +307,41 @@ export class TaskDetailsComponent extends Component {
 				this.onTaskToggleComplete(task);
 			}
 		});
+
+		// Write a read-only calendar task into a note
+		if ((task as any).source?.type === "ics") {
+			const materializeBtn = actionsEl.createEl("button", {
+				cls: "details-materialize-btn",
+			});
+			materializeBtn.setText(t("Create task in note"));
+
+			this.registerDomEvent(materializeBtn, "click", () => {
+				this.plugin.icsMaterializer?.materializeTask(task as IcsTask);
+			});
+		}
+
+		// Start / stop timer button (not for read-only calendar tasks)
+		this.timerBtn = null;
+		if (
+			this.plugin.timeTracker &&
+			(task as any).source?.type !== "ics"
+		) {
+			this.timerBtn = actionsEl.createEl("button", {
+				cls: "details-timer-btn",
+			});
+			this.updateTimerButton();
+
+			this.registerDomEvent(this.timerBtn, "click", () => {
+				this.plugin.timeTracker.toggle(task);
+			});
+		}
+	}
+
+	private updateTimerButton() {
+		if (!this.timerBtn || !this.currentTask) return;
+		const tracking = this.plugin.timeTracker?.isTracking(this.currentTask);
+		this.timerBtn.setText(tracking ? t("Stop timer") : t("Start timer"));
+		this.timerBtn.toggleClass("is-tracking", !!tracking);
 	}
 
 	private showEditForm(task: Task) {
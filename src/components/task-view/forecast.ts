@@ -16,6 +16,13 @@ import { TaskListRendererComponent } from "./TaskList";
 import TaskProgressBarPlugin from "../../index";
 import { ForecastSpecificConfig } from "../../common/setting-definition";
 import { sortTasks } from "../../commands/sortTaskCommands"; // 导入 sortTasks 函数
+import {
+	getProjectedOccurrences,
+	isRecurrenceGhost,
+} from "../../utils/recurrenceUtils";
+
+// How far ahead future occurrences of recurring tasks are shown
+const RECURRENCE_GHOST_DAYS = 90;
 
 interface DateSection {
 	title: string;
@@ -71,7 +78,8 @@ export class ForecastComponent extends Component {
 				updatedTask: Task
 			) => Promise<void>;
 			onTaskContextMenu?: (event: MouseEvent, task: Task) => void;
-		} = {}
+		} = {},
+		private viewId: string = "forecast"
 	) {
 		super();
 		// Initialize dates
@@ -273,9 +281,7 @@ export class ForecastComponent extends Component {
 		});
 
 		// Create and initialize calendar component
-		const forecastConfig = this.plugin.settings.viewConfiguration.find(
-			(view) => view.id === "forecast"
-		)?.specificConfig as ForecastSpecificConfig;
+		const forecastConfig = this.getForecastConfig();
 
 		// Convert ForecastSpecificConfig to CalendarOptions
 		const calendarOptions: Partial<CalendarOptions> = {
@@ -382,7 +388,7 @@ export class ForecastComponent extends Component {
 	}
 
 	public setTasks(tasks: Task[]) {
-		this.allTasks = tasks;
+		this.allTasks = [...tasks, ...this.getRecurrenceGhosts(tasks)];
 		this.allTasksMap = new Map(
 			this.allTasks.map((task) => [task.id, task])
 		);
@@ -407,16 +413,36 @@ export class ForecastComponent extends Component {
 		this.renderDateSectionsUI();
 	}
 
+	/**
+	 * Projected occurrences of recurring tasks, if enabled for the view
+	 */
+	private getRecurrenceGhosts(tasks: Task[]): Task[] {
+		if (!this.getForecastConfig()?.showRecurrenceGhosts) return [];
+
+		const until = new Date(this.currentDate);
+		until.setDate(until.getDate() + RECURRENCE_GHOST_DAYS);
+		return tasks.flatMap((task) =>
+			getProjectedOccurrences(task, until.getTime())
+		);
+	}
+
+	private getForecastConfig(): ForecastSpecificConfig | undefined {
+		return this.plugin.settings.viewConfiguration.find(
+			(view) => view.id === this.viewId
+		)?.specificConfig as ForecastSpecificConfig | undefined;
+	}
+
 	private updateHeaderCount() {
-		// Count actions (tasks) and unique projects
+		// Count actions (tasks) and unique projects, without projected occurrences
+		const tasks = this.allTasks.filter((task) => !isRecurrenceGhost(task));
 		const projectSet = new Set<string>();
-		this.allTasks.forEach((task) => {
+		tasks.forEach((task) => {
 			if (task.metadata.project) {
 				projectSet.add(task.metadata.project);
 			}
 		});
 
-		const taskCount = this.allTasks.length;
+		const taskCount = tasks.length;
 		const projectCount = projectSet.size;
 
 		// Update header
@@ -437,7 +463,7 @@ export class ForecastComponent extends Component {
 		const todayTimestamp = today.getTime();
 
 		const sortCriteria = this.plugin.settings.viewConfiguration.find(
-			(view) => view.id === "forecast"
+			(view) => view.id === this.viewId
 		)?.sortCriteria;
 
 		// Filter for incomplete tasks with a relevant date
@@ -528,7 +554,9 @@ export class ForecastComponent extends Component {
 				} else if (item.hasClass("tg-today")) {
 					countEl.textContent = this.todayTasks.length.toString();
 				} else if (item.hasClass("tg-future")) {
-					countEl.textContent = this.futureTasks.length.toString();
+					countEl.textContent = this.futureTasks
+						.filter((task) => !isRecurrenceGhost(task))
+						.length.toString();
 				}
 			}
 		});
@@ -708,7 +736,7 @@ export class ForecastComponent extends Component {
 		}
 
 		const viewConfig = this.plugin.settings.viewConfiguration.find(
-			(view) => view.id === "forecast"
+			(view) => view.id === this.viewId
 		);
 		if (viewConfig?.sortCriteria && viewConfig.sortCriteria.length > 0) {
 			const dueDateSortCriterion = viewConfig.sortCriteria.find(
@@ -9,6 +9,8 @@ import TaskProgressBarPlugin from "../../index";
 import { TaskProgressBarSettings } from "../../common/setting-definition";
 import { InlineEditor, InlineEditorOptions } from "./InlineEditor";
 import { InlineEditorManager } from "./InlineEditorManager";
+import { isBlocked } from "../../utils/TaskFilterUtils";
+import { isRecurrenceGhost } from "../../utils/recurrenceUtils";
 
 export class TaskListItemComponent extends Component {
 	public element: HTMLElement;
@@ -148,6 +150,9 @@ export class TaskListItemComponent extends Component {
 		if (this.task.completed) {
 			this.element.classList.add("task-completed");
 		}
+		if (isRecurrenceGhost(this.task)) {
+			this.element.classList.add("task-recurrence-ghost");
+		}
 
 		// Task checkbox for completion status
 		const checkboxEl = createEl(
@@ -278,6 +283,11 @@ export class TaskListItemComponent extends Component {
 			if (this.task.metadata.recurrence) {
 				this.renderRecurrenceMetadata();
 			}
+
+			// Blocked badge if a dependency is still open
+			if (isBlocked(this.plugin, this.task)) {
+				this.renderBlockedMetadata();
+			}
 		} else {
 			// For completed tasks, show completion date
 			if (this.task.metadata.completedDate) {
@@ -498,6 +508,17 @@ export class TaskListItemComponent extends Component {
 		}
 	}
 
+	private renderBlockedMetadata() {
+		const blockingTasks = this.plugin.taskManager
+			.getBlockingTasks(this.task)
+			.map((task) => task.content);
+		this.metadataEl.createEl("div", {
+			cls: "task-date task-blocked",
+			text: t("Blocked"),
+			attr: { title: blockingTasks.join("\n") },
+		});
+	}
+
 	private renderAddMetadataButton() {
 		// Only show add metadata button if inline editor is enabled
 		if (!this.plugin.settings.enableInlineEditor) {
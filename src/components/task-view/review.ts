@@ -11,6 +11,7 @@ import { Task } from "../../types/task";
 import { t } from "../../translations/helper";
 import { ProjectReviewSetting } from "../../common/setting-definition";
 import TaskProgressBarPlugin from "../../index"; // Path used in TaskView.ts
+import { formatDurationMinutes } from "../../utils/timeTrackingUtils";
 import "../../styles/review-view.css"; // Assuming styles will be added here
 import { TaskListRendererComponent } from "./TaskList"; // Import the base renderer
 
@@ -922,6 +923,23 @@ export class ReviewComponent extends Component {
 				text: `${t("Last reviewed")}: ${lastReviewedDate}`,
 			});
 
+			// Time tracked on the project's tasks since the last review
+			const loggedMinutes = this.plugin.timeTracker?.getLoggedMinutes(
+				this.allTasks.filter(
+					(task) => task.metadata.project === projectName
+				),
+				setting.lastReviewed
+			);
+			if (loggedMinutes) {
+				reviewInfoEl.createSpan({ cls: "review-separator", text: "•" });
+				reviewInfoEl.createSpan({
+					cls: "review-time-logged",
+					text: `${t("Time logged")}: ${formatDurationMinutes(
+						loggedMinutes
+					)}`,
+				});
+			}
+
 			// Add "Mark as Reviewed" button
 			const reviewButtonContainer = headerContent.createDiv({
 				cls: "review-button-container",
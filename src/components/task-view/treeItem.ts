@@ -14,6 +14,7 @@ import { t } from "../../translations/helper";
 import TaskProgressBarPlugin from "../../index";
 import { InlineEditor, InlineEditorOptions } from "./InlineEditor";
 import { InlineEditorManager } from "./InlineEditorManager";
+import { isBlocked } from "../../utils/TaskFilterUtils";
 
 export class TaskTreeItemComponent extends Component {
 	public element: HTMLElement;
@@ -338,6 +339,11 @@ export class TaskTreeItemComponent extends Component {
 			if (this.task.metadata.recurrence) {
 				this.renderRecurrenceMetadata(metadataEl);
 			}
+
+			// Blocked badge if a dependency is still open
+			if (isBlocked(this.plugin, this.task)) {
+				this.renderBlockedMetadata(metadataEl);
+			}
 		} else {
 			// For completed tasks, show completion date
 			if (this.task.metadata.completedDate) {
@@ -569,6 +575,17 @@ export class TaskTreeItemComponent extends Component {
 		}
 	}
 
+	private renderBlockedMetadata(metadataEl: HTMLElement) {
+		const blockingTasks = this.plugin.taskManager
+			.getBlockingTasks(this.task)
+			.map((task) => task.content);
+		metadataEl.createEl("div", {
+			cls: "task-date task-blocked",
+			text: t("Blocked"),
+			attr: { title: blockingTasks.join("\n") },
+		});
+	}
+
 	private renderAddMetadataButton(metadataEl: HTMLElement) {
 		// Only show add metadata button if inline editor is enabled
 		if (!this.plugin.settings.enableInlineEditor) {
@@ -10,6 +10,7 @@ import {
 	TFile,
 } from "obsidian";
 import { Task } from "../../types/task";
+import { IcsTask } from "../../types/ics";
 import { t } from "../../translations/helper";
 import TaskProgressBarPlugin from "../../index";
 import { QuickCaptureModal } from "../QuickCaptureModal";
@@ -21,6 +22,7 @@ import { saveCapture } from "../../utils/fileUtils";
 import "../../styles/timeline-sidebar.css";
 import { createTaskCheckbox } from "../task-view/details";
 import { MarkdownRendererComponent } from "../MarkdownRenderer";
+import { IcsParser } from "../../utils/ics/IcsParser";
 
 export const TIMELINE_SIDEBAR_VIEW_TYPE = "tg-timeline-sidebar-view";
 
@@ -465,6 +467,20 @@ export class TimelineSidebarView extends ItemView {
 			contentContainer.setText(event.content);
 		}
 
+		// Alarms of calendar events
+		const icsEvent = (event.task as IcsTask | undefined)?.icsEvent;
+		const alarmTimes = icsEvent ? IcsParser.getAlarmTimes(icsEvent) : [];
+		if (alarmTimes.length > 0) {
+			const alarmEl = textEl.createDiv("timeline-event-alarm");
+			setIcon(alarmEl.createSpan(), "bell");
+			alarmEl.createSpan({
+				text: alarmTimes
+					.map((time) => moment(time).format("MMM DD HH:mm"))
+					.join(", "),
+			});
+			alarmEl.setAttribute("aria-label", t("Alarm"));
+		}
+
 		// Event actions
 		const actionsEl = eventEl.createDiv("timeline-event-actions");
 
@@ -478,6 +494,18 @@ export class TimelineSidebarView extends ItemView {
 			});
 		}
 
+		if (icsEvent) {
+			// Write the calendar event into a note
+			const materializeBtn = actionsEl.createDiv("timeline-event-action");
+			setIcon(materializeBtn, "file-plus");
+			materializeBtn.setAttribute("aria-label", t("Create task in note"));
+			this.registerDomEvent(materializeBtn, "click", () => {
+				this.plugin.icsMaterializer?.materializeTask(
+					event.task as IcsTask
+				);
+			});
+		}
+
 		// Click to focus (but not when clicking on checkbox or actions)
 		this.registerDomEvent(eventEl, "click", (e) => {
 			// Prevent navigation if clicking on checkbox or action buttons
@@ -6,7 +6,7 @@
 import { EditorView } from "@codemirror/view";
 import { gutter, GutterMarker } from "./patchedGutter";
 import { Extension } from "@codemirror/state";
-import { App, Platform, ExtraButtonComponent } from "obsidian";
+import { App, Platform, ExtraButtonComponent, Menu } from "obsidian";
 import { Task } from "../types/task";
 import TaskProgressBarPlugin from "../index";
 import { TaskDetailsModal } from "../components/task-edit/TaskDetailsModal";
@@ -17,6 +17,7 @@ import { syntaxTree, tokenClassNodeProp } from "@codemirror/language";
 import "../styles/task-gutter.css";
 import { getConfig } from "../common/task-parser-config";
 import { TaskParserConfig } from "../types/TaskParserConfig";
+import { t } from "../translations/helper";
 
 const taskRegex = /^(([\s>]*)?(-|\d+\.|\*|\+)\s\[(.)\])\s+(.*)$/m;
 
@@ -93,6 +94,40 @@ class TaskGutterMarker extends GutterMarker {
 			});
 
 		button.extraSettingsEl.toggleClass("task-gutter-marker", true);
+
+		// Right click offers the task timer
+		button.extraSettingsEl.addEventListener("contextmenu", (event) => {
+			const file = this.app.workspace.getActiveFile();
+			const timeTracker = this.plugin.timeTracker;
+			if (!file || !timeTracker) return;
+
+			const line = this.view.state.doc.line(this.lineNum);
+			const parsedTask = getTaskFromLine(
+				this.plugin,
+				file.path,
+				line.text,
+				line.number - 1
+			);
+			if (!parsedTask) return;
+
+			// Prefer the indexed task so the timer can find it again
+			const task =
+				this.plugin.taskManager?.getTaskById(parsedTask.id) ??
+				parsedTask;
+			const tracking = timeTracker.isTracking(task);
+
+			event.preventDefault();
+			const menu = new Menu();
+			menu.addItem((item) => {
+				item.setTitle(tracking ? t("Stop timer") : t("Start timer"));
+				item.setIcon(tracking ? "square" : "timer");
+				item.onClick(() => {
+					timeTracker.toggle(task);
+				});
+			});
+			menu.showAtMouseEvent(event);
+		});
+
 		return button.extraSettingsEl;
 	}
 }
@@ -2,6 +2,7 @@ import {
 	editorInfoField,
 	HoverParent,
 	HoverPopover,
+	ItemView,
 	MarkdownRenderer,
 	Plugin,
 	Editor,
@@ -12,6 +13,10 @@ import {
 import { taskProgressBarExtension } from "./editor-ext/progressBarWidget";
 import { updateProgressBarInElement } from "./components/readModeProgressbarWidget";
 import { applyTaskTextMarks } from "./components/readModeTextMark";
+import {
+	renderTaskQueryBlock,
+	TASK_QUERY_CODE_BLOCK,
+} from "./components/TaskQueryBlock";
 import {
 	DEFAULT_SETTINGS,
 	TaskProgressBarSettings,
@@ -91,6 +96,20 @@ import { taskGutterExtension } from "./editor-ext/TaskGutterHandler";
 import { autoDateManagerExtension } from "./editor-ext/autoDateManager";
 import { ViewManager } from "./pages/ViewManager";
 import { IcsManager } from "./utils/ics/IcsManager";
+import { IcsExporter } from "./utils/ics/IcsExporter";
+import { IcsMaterializer } from "./utils/ics/IcsMaterializer";
+import { AutoArchiver } from "./utils/AutoArchiver";
+import { AutoArchivePreviewModal } from "./components/AutoArchivePreviewModal";
+import { TaskGeniusApiImpl } from "./utils/TaskGeniusApi";
+import { TaskGeniusApi } from "./types/api";
+import { registerUriHandlers } from "./commands/uriCommands";
+import {
+	stopTimerCommand,
+	toggleTimerAtCursorCommand,
+} from "./commands/timeTrackingCommands";
+import { skipOccurrenceAtCursorCommand } from "./commands/recurrenceCommands";
+import { TimeTracker } from "./utils/TimeTracker";
+import { ReminderManager } from "./utils/ReminderManager";
 
 class TaskProgressBarPopover extends HoverPopover {
 	plugin: TaskProgressBarPlugin;
@@ -177,18 +196,35 @@ export default class TaskProgressBarPlugin extends Plugin {
 
 	habitManager: HabitManager;
 
+	// Task timer, available when views are enabled
+	timeTracker: TimeTracker;
+
+	reminderManager: ReminderManager;
+
 	// ICS manager instance
 	icsManager: IcsManager;
 
+	// Writes views as .ics feeds, available when views are enabled
+	icsExporter: IcsExporter;
+	icsMaterializer: IcsMaterializer;
+
+	// Archives completed tasks by rules, available when views are enabled
+	autoArchiver: AutoArchiver;
+
 	// Preloaded tasks:
 	preloadedTasks: Task[] = [];
 
 	// Setting tab
 	settingTab: TaskProgressBarSettingTab;
 
+	// Public API for other plugins and scripts
+	api: TaskGeniusApi;
+
 	async onload() {
 		await this.loadSettings();
 
+		this.api = new TaskGeniusApiImpl(this);
+
 		if (
 			requireApiVersion("1.9.0") &&
 			this.settings.betaTest?.enableBaseView
@@ -220,8 +256,27 @@ export default class TaskProgressBarPlugin extends Plugin {
 			);
 
 			this.addChild(this.taskManager);
+
+			this.timeTracker = new TimeTracker(this);
+			this.addChild(this.timeTracker);
+
+			if (this.settings.reminders.enableReminders) {
+				this.reminderManager = new ReminderManager(this);
+				this.addChild(this.reminderManager);
+			}
 		}
 
+		// Handle obsidian://task-genius URIs
+		registerUriHandlers(this);
+
+		// Render ```task-genius``` query blocks as live task lists
+		this.registerMarkdownCodeBlockProcessor(
+			TASK_QUERY_CODE_BLOCK,
+			(source, el, ctx) => {
+				renderTaskQueryBlock(this, source, el, ctx);
+			}
+		);
+
 		if (this.settings.rewards.enableRewards) {
 			this.rewardManager = new RewardManager(this);
 			this.addChild(this.rewardManager);
@@ -402,16 +457,73 @@ export default class TaskProgressBarPlugin extends Plugin {
 			if (this.settings.icsIntegration.sources.length > 0) {
 				this.icsManager = new IcsManager(
 					this.settings.icsIntegration,
-					this.settings
+					this.settings,
+					this.taskManager?.persister,
+					this.app.vault
 				);
 				this.addChild(this.icsManager);
 
+				// Refresh the views when cached or synced events come in
+				this.icsManager.setOnEventsUpdated(() => {
+					this.taskManager?.notifyExternalTasksUpdated();
+				});
+
 				// Initialize ICS manager
 				this.icsManager.initialize().catch((error) => {
 					console.error("Failed to initialize ICS manager:", error);
 				});
 			}
 
+			// Keep exported .ics feeds up to date
+			this.icsExporter = new IcsExporter(this);
+			this.addChild(this.icsExporter);
+
+			// Write calendar events as tasks into notes
+			this.icsMaterializer = new IcsMaterializer(this);
+			this.addChild(this.icsMaterializer);
+
+			// Archive completed tasks across the vault by rules
+			this.autoArchiver = new AutoArchiver(this);
+			this.addChild(this.autoArchiver);
+
+			this.addCommand({
+				id: "preview-auto-archive",
+				name: t("Preview auto-archive"),
+				callback: () => {
+					new AutoArchivePreviewModal(this).open();
+				},
+			});
+
+			this.addCommand({
+				id: "run-auto-archive",
+				name: t("Run auto-archive now"),
+				callback: () => {
+					this.autoArchiver.run("manual");
+				},
+			});
+
+			// Undo/redo of the task edits made from the views, the views
+			// also take Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z
+			this.addCommand({
+				id: "undo-task-edit",
+				name: t("Undo task edit"),
+				checkCallback: (checking: boolean) => {
+					if (!this.isTaskGeniusViewActive()) return false;
+					if (!checking) this.undoTaskEdit();
+					return true;
+				},
+			});
+
+			this.addCommand({
+				id: "redo-task-edit",
+				name: t("Redo task edit"),
+				checkCallback: (checking: boolean) => {
+					if (!this.isTaskGeniusViewActive()) return false;
+					if (!checking) this.redoTaskEdit();
+					return true;
+				},
+			});
+
 			// Auto-open timeline sidebar if enabled
 			if (
 				this.settings.timelineSidebar.enableTimelineSidebar &&
@@ -632,6 +744,41 @@ export default class TaskProgressBarPlugin extends Plugin {
 					}
 				},
 			});
+
+			// Time tracking commands
+			this.addCommand({
+				id: "toggle-task-timer",
+				name: t("Start or stop timer for task at cursor"),
+				editorCheckCallback: (checking, editor, ctx) => {
+					return toggleTimerAtCursorCommand(
+						checking,
+						editor,
+						ctx,
+						this
+					);
+				},
+			});
+
+			this.addCommand({
+				id: "stop-task-timer",
+				name: t("Stop running timer"),
+				checkCallback: (checking) => {
+					return stopTimerCommand(checking, this);
+				},
+			});
+
+			this.addCommand({
+				id: "skip-recurring-task-occurrence",
+				name: t("Skip occurrence of recurring task at cursor"),
+				editorCheckCallback: (checking, editor, ctx) => {
+					return skipOccurrenceAtCursorCommand(
+						checking,
+						editor,
+						ctx,
+						this
+					);
+				},
+			});
 		}
 
 		// Add priority keyboard shortcuts commands
@@ -1084,6 +1231,51 @@ export default class TaskProgressBarPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Undo the last task edit made through the task manager
+	 */
+	async undoTaskEdit() {
+		if (!this.taskManager) return;
+		if (!this.taskManager.getUndoEdit()) {
+			new Notice(t("Nothing to undo"));
+			return;
+		}
+		try {
+			const edit = await this.taskManager.undoTaskEdit();
+			new Notice(`${t("Undone:")} ${t(edit.label)}`);
+		} catch (error) {
+			new Notice(t("Cannot undo: ") + error.message);
+		}
+	}
+
+	/**
+	 * Apply the last undone task edit again
+	 */
+	async redoTaskEdit() {
+		if (!this.taskManager) return;
+		if (!this.taskManager.getRedoEdit()) {
+			new Notice(t("Nothing to redo"));
+			return;
+		}
+		try {
+			const edit = await this.taskManager.redoTaskEdit();
+			new Notice(`${t("Redone:")} ${t(edit.label)}`);
+		} catch (error) {
+			new Notice(t("Cannot redo: ") + error.message);
+		}
+	}
+
+	private isTaskGeniusViewActive(): boolean {
+		const viewType = this.app.workspace
+			.getActiveViewOfType(ItemView)
+			?.getViewType();
+		return (
+			viewType === TASK_VIEW_TYPE ||
+			viewType === TASK_SPECIFIC_VIEW_TYPE ||
+			viewType === TIMELINE_SIDEBAR_VIEW_TYPE
+		);
+	}
+
 	async triggerViewUpdate() {
 		// Update Task Views
 		const taskViewLeaves =
@@ -7,11 +7,13 @@ import {
 	ExtraButtonComponent,
 	ButtonComponent,
 	Menu,
+	Notice,
 	Scope,
 	debounce,
 	// FrontmatterCache,
 } from "obsidian";
 import { Task } from "../types/task";
+import { IcsTask } from "../types/ics";
 // Removed SidebarComponent import
 import { ContentComponent } from "../components/task-view/content";
 import { ForecastComponent } from "../components/task-view/forecast";
@@ -49,6 +51,8 @@ import {
 	FilterGroup,
 	RootFilterState,
 } from "../components/task-filter/ViewTaskFilter";
+import { isRecurrenceGhost } from "../utils/recurrenceUtils";
+import { registerTaskEditKeys } from "../utils/TaskEditJournal";
 
 export const TASK_SPECIFIC_VIEW_TYPE = "task-genius-specific-view";
 
@@ -106,6 +110,7 @@ export class TaskSpecificView extends ItemView {
 			e.preventDefault();
 			e.stopPropagation();
 		});
+		registerTaskEditKeys(this.scope, this.plugin);
 	}
 
 	// New State Management Methods
@@ -881,7 +886,43 @@ export class TaskSpecificView extends ItemView {
 					});
 				}
 			})
-			.addSeparator()
+			.addItem((item) => {
+				const timeTracker = this.plugin.timeTracker;
+				const tracking = !!timeTracker?.isTracking(task);
+				item.setTitle(tracking ? t("Stop timer") : t("Start timer"));
+				item.setIcon(tracking ? "square" : "timer");
+				item.setDisabled(
+					!timeTracker || (task as any).source?.type === "ics"
+				);
+				item.onClick(() => {
+					timeTracker?.toggle(task);
+				});
+			});
+
+		if (task.metadata.recurrence && !isRecurrenceGhost(task)) {
+			menu.addItem((item) => {
+				item.setTitle(t("Skip occurrence"));
+				item.setIcon("skip-forward");
+				item.setDisabled((task as any).source?.type === "ics");
+				item.onClick(() => {
+					this.skipOccurrence(task);
+				});
+			});
+		}
+
+		if ((task as any).source?.type === "ics") {
+			menu.addItem((item) => {
+				item.setTitle(t("Create task in note"));
+				item.setIcon("file-plus");
+				item.onClick(() => {
+					this.plugin.icsMaterializer?.materializeTask(
+						task as IcsTask
+					);
+				});
+			});
+		}
+
+		menu.addSeparator()
 			.addItem((item) => {
 				item.setTitle(t("Edit"));
 				item.setIcon("pencil");
@@ -1008,6 +1049,11 @@ export class TaskSpecificView extends ItemView {
 	}
 
 	private async toggleTaskCompletion(task: Task) {
+		if (isRecurrenceGhost(task)) {
+			new Notice(t("Future occurrences can't be completed"));
+			return;
+		}
+
 		const updatedTask = { ...task, completed: !task.completed };
 
 		if (updatedTask.completed) {
@@ -1041,6 +1087,18 @@ export class TaskSpecificView extends ItemView {
 		// Task cache listener will trigger loadTasks -> triggerViewUpdate
 	}
 
+	private async skipOccurrence(task: Task) {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) return;
+
+		try {
+			await taskManager.skipOccurrence(task);
+		} catch (error) {
+			console.error("Failed to skip occurrence:", error);
+			new Notice(t("Failed to update task"));
+		}
+	}
+
 	private async handleTaskUpdate(originalTask: Task, updatedTask: Task) {
 		const taskManager = this.plugin.taskManager;
 		if (!taskManager) return;
@@ -14,6 +14,7 @@ import {
 	// FrontmatterCache,
 } from "obsidian";
 import { Task } from "../types/task";
+import { IcsTask } from "../types/ics";
 import { SidebarComponent } from "../components/task-view/sidebar";
 import { ContentComponent } from "../components/task-view/content";
 import { ForecastComponent } from "../components/task-view/forecast";
@@ -53,6 +54,8 @@ import {
 } from "../components/task-filter/ViewTaskFilter";
 import { FilterConfigModal } from "../components/task-filter/FilterConfigModal";
 import { SavedFilterConfig } from "../common/setting-definition";
+import { isRecurrenceGhost } from "../utils/recurrenceUtils";
+import { registerTaskEditKeys } from "../utils/TaskEditJournal";
 
 export const TASK_VIEW_TYPE = "task-genius-view";
 
@@ -113,6 +116,7 @@ export class TaskView extends ItemView {
 			e.preventDefault();
 			e.stopPropagation();
 		});
+		registerTaskEditKeys(this.scope, this.plugin);
 	}
 
 	getViewType(): string {
@@ -818,7 +822,7 @@ export class TaskView extends ItemView {
 		};
 	}
 
-	private switchView(viewId: ViewMode, project?: string | null) {
+	public switchView(viewId: ViewMode, project?: string | null) {
 		this.currentViewId = viewId;
 		console.log("Switching view to:", viewId, "Project:", project);
 
@@ -1089,7 +1093,43 @@ export class TaskView extends ItemView {
 					});
 				}
 			})
-			.addSeparator()
+			.addItem((item) => {
+				const timeTracker = this.plugin.timeTracker;
+				const tracking = !!timeTracker?.isTracking(task);
+				item.setTitle(tracking ? t("Stop timer") : t("Start timer"));
+				item.setIcon(tracking ? "square" : "timer");
+				item.setDisabled(
+					!timeTracker || (task as any).source?.type === "ics"
+				);
+				item.onClick(() => {
+					timeTracker?.toggle(task);
+				});
+			});
+
+		if (task.metadata.recurrence && !isRecurrenceGhost(task)) {
+			menu.addItem((item) => {
+				item.setTitle(t("Skip occurrence"));
+				item.setIcon("skip-forward");
+				item.setDisabled((task as any).source?.type === "ics");
+				item.onClick(() => {
+					this.skipOccurrence(task);
+				});
+			});
+		}
+
+		if ((task as any).source?.type === "ics") {
+			menu.addItem((item) => {
+				item.setTitle(t("Create task in note"));
+				item.setIcon("file-plus");
+				item.onClick(() => {
+					this.plugin.icsMaterializer?.materializeTask(
+						task as IcsTask
+					);
+				});
+			});
+		}
+
+		menu.addSeparator()
 			.addItem((item) => {
 				item.setTitle(t("Edit"));
 				item.setIcon("pencil");
@@ -1108,6 +1148,17 @@ export class TaskView extends ItemView {
 		menu.showAtMouseEvent(event);
 	}
 
+	/**
+	 * Show a task in the details panel without toggling it
+	 */
+	public focusTask(task: Task) {
+		this.currentSelectedTaskId = task.id;
+		this.detailsComponent.showTaskDetails(task);
+		if (!this.isDetailsVisible) {
+			this.toggleDetailsVisibility(true);
+		}
+	}
+
 	private handleTaskSelection(task: Task | null) {
 		if (task) {
 			const now = Date.now();
@@ -1184,6 +1235,11 @@ export class TaskView extends ItemView {
 	}
 
 	private async toggleTaskCompletion(task: Task) {
+		if (isRecurrenceGhost(task)) {
+			new Notice(t("Future occurrences can't be completed"));
+			return;
+		}
+
 		const updatedTask = { ...task, completed: !task.completed };
 
 		if (updatedTask.completed) {
@@ -1209,6 +1265,18 @@ export class TaskView extends ItemView {
 		await taskManager.updateTask(updatedTask);
 	}
 
+	private async skipOccurrence(task: Task) {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) return;
+
+		try {
+			await taskManager.skipOccurrence(task);
+		} catch (error) {
+			console.error("Failed to skip occurrence:", error);
+			new Notice(t("Failed to update task"));
+		}
+	}
+
 	private async handleTaskUpdate(originalTask: Task, updatedTask: Task) {
 		const taskManager = this.plugin.taskManager;
 		if (!taskManager) return;
@@ -20,6 +20,7 @@ import {
 	renderProjectSettingsTab,
 	renderRewardSettingsTab,
 	renderTimelineSidebarSettingsTab,
+	renderReminderSettingsTab,
 	IcsSettingsComponent,
 } from "./components/settings";
 
@@ -108,6 +109,12 @@ export class TaskProgressBarSettingTab extends PluginSettingTab {
 			icon: "clock",
 			category: "workflow",
 		},
+		{
+			id: "reminders",
+			name: t("Reminders"),
+			icon: "bell",
+			category: "workflow",
+		},
 
 		// Gamification
 		{
@@ -408,6 +415,10 @@ export class TaskProgressBarSettingTab extends PluginSettingTab {
 			this.createTabSection("timeline-sidebar");
 		this.displayTimelineSidebarSettings(timelineSidebarSection);
 
+		// Reminders Tab
+		const remindersSection = this.createTabSection("reminders");
+		this.displayReminderSettings(remindersSection);
+
 		// Workflow Tab
 		const workflowSection = this.createTabSection("workflow");
 		this.displayWorkflowSettings(workflowSection);
@@ -478,6 +489,10 @@ export class TaskProgressBarSettingTab extends PluginSettingTab {
 		renderTimelineSidebarSettingsTab(this, containerEl);
 	}
 
+	private displayReminderSettings(containerEl: HTMLElement): void {
+		renderReminderSettingsTab(this, containerEl);
+	}
+
 	private displayTaskHandlerSettings(containerEl: HTMLElement): void {
 		renderTaskHandlerSettingsTab(this, containerEl);
 	}
@@ -1886,6 +1886,270 @@ const translations = {
 		"Automatically add/remove urgent/important tags when moved between quadrants",
 	"Hide Empty Quadrants": "Hide Empty Quadrants",
 	"Hide quadrants that have no tasks": "Hide quadrants that have no tasks",
+	"Blocked tasks": "Blocked tasks",
+	"Filter tasks by whether they wait on an unfinished dependency.":
+		"Filter tasks by whether they wait on an unfinished dependency.",
+	"Show all": "Show all",
+	"Only blocked": "Only blocked",
+	"Hide blocked": "Hide blocked",
+	Blocked: "Blocked",
+	"Task rescheduled": "Task rescheduled",
+	Undo: "Undo",
+	"Nothing to undo": "Nothing to undo",
+	"Task not found": "Task not found",
+	"Task Genius views are disabled. Enable them in settings to use task queries.":
+		"Task Genius views are disabled. Enable them in settings to use task queries.",
+	"Unknown Task Genius action": "Unknown Task Genius action",
+	"Start timer": "Start timer",
+	"Stop timer": "Stop timer",
+	"Timer started": "Timer started",
+	"Timer stopped": "Timer stopped",
+	"Time logged": "Time logged",
+	"Time spent": "Time spent",
+	"Estimated time": "Estimated time",
+	"Task for the running timer was not found": "Task for the running timer was not found",
+	"Start or stop timer for task at cursor": "Start or stop timer for task at cursor",
+	"Stop running timer": "Stop running timer",
+	"Reminders": "Reminders",
+	"Reminder": "Reminder",
+	"Snooze": "Snooze",
+	"Open": "Open",
+	"minutes": "minutes",
+	"Reminder snoozed for": "Reminder snoozed for",
+	"Task Genius reminder": "Task Genius reminder",
+	"Enable reminders": "Enable reminders",
+	"Show a notice and a system notification when a task reminder (🔔 or [reminder::]) is due. Requires views to be enabled and a restart.":
+		"Show a notice and a system notification when a task reminder (🔔 or [reminder::]) is due. Requires views to be enabled and a restart.",
+	"Default reminder time": "Default reminder time",
+	"Time of day (HH:mm) used for reminders on dates without a time.":
+		"Time of day (HH:mm) used for reminders on dates without a time.",
+	"Remind before due date": "Remind before due date",
+	"Remind about every open task with a due or scheduled date, not only tasks with 🔔.":
+		"Remind about every open task with a due or scheduled date, not only tasks with 🔔.",
+	"Default reminder offset": "Default reminder offset",
+	"How long before the due or scheduled time to remind, e.g. 30m, 1h or 1d. Used by a bare 🔔 and by reminders before the due date.":
+		"How long before the due or scheduled time to remind, e.g. 30m, 1h or 1d. Used by a bare 🔔 and by reminders before the due date.",
+	"Snooze duration": "Snooze duration",
+	"Minutes to wait before showing a snoozed reminder again.": "Minutes to wait before showing a snoozed reminder again.",
+	"System notifications": "System notifications",
+	"Also show reminders as system notifications. Your system may ask for permission.":
+		"Also show reminders as system notifications. Your system may ask for permission.",
+	"Recurrence completion history": "Recurrence completion history",
+	"Record completed occurrences of recurring tasks on the next occurrence instead of keeping the completed line. Use 🏁 keep or 🏁 delete to override per task.":
+		"Record completed occurrences of recurring tasks on the next occurrence instead of keeping the completed line. Use 🏁 keep or 🏁 delete to override per task.",
+	"Keep completed tasks": "Keep completed tasks",
+	"Completions property": "Completions property",
+	"Child list": "Child list",
+	"Completion history length": "Completion history length",
+	"Number of completions kept in the history.": "Number of completions kept in the history.",
+	"Show future occurrences": "Show future occurrences",
+	"Show the upcoming occurrences of recurring tasks as read-only entries.":
+		"Show the upcoming occurrences of recurring tasks as read-only entries.",
+	"Skip occurrence": "Skip occurrence",
+	"Future occurrences can't be completed": "Future occurrences can't be completed",
+	"Skip occurrence of recurring task at cursor": "Skip occurrence of recurring task at cursor",
+	"Export Feeds": "Export Feeds",
+	"Write the tasks of a view to an .ics file in your vault, so calendar apps can subscribe to it. The file is updated when your tasks change.":
+		"Write the tasks of a view to an .ics file in your vault, so calendar apps can subscribe to it. The file is updated when your tasks change.",
+	Name: "Name",
+	"Also used as the calendar name": "Also used as the calendar name",
+	"Tasks matching this view's filters are exported":
+		"Tasks matching this view's filters are exported",
+	"File path": "File path",
+	"Vault path of the .ics file": "Vault path of the .ics file",
+	"Export as": "Export as",
+	"To-dos keep undated tasks, events only include tasks with a date":
+		"To-dos keep undated tasks, events only include tasks with a date",
+	"To-dos (VTODO)": "To-dos (VTODO)",
+	"Events (VEVENT)": "Events (VEVENT)",
+	"Include completed tasks": "Include completed tasks",
+	"Export now": "Export now",
+	Exported: "Exported",
+	"Export failed: ": "Export failed: ",
+	"Add Export Feed": "Add Export Feed",
+	Alarm: "Alarm",
+	Error: "Error",
+	"Last sync": "Last sync",
+	"Up to date": "Up to date",
+	"Not synced": "Not synced",
+	"stale (offline)": "stale (offline)",
+	"Source Type": "Source Type",
+	"Fetch the calendar from a URL or read a vault file":
+		"Fetch the calendar from a URL or read a vault file",
+	"Vault file": "Vault file",
+	"ICS File": "ICS File",
+	"The .ics file in your vault, it is read again whenever it changes":
+		"The .ics file in your vault, it is read again whenever it changes",
+	"URL to the ICS/iCal file, webcal:// links work too":
+		"URL to the ICS/iCal file, webcal:// links work too",
+	"Please choose an .ics file from your vault":
+		"Please choose an .ics file from your vault",
+	"Create task in note": "Create task in note",
+	"A task was already created for this event":
+		"A task was already created for this event",
+	"Task created from calendar event": "Task created from calendar event",
+	"Failed to create task: ": "Failed to create task: ",
+	"Create Tasks": "Create Tasks",
+	"Write events of this source as tasks into a note, where they can be checked off":
+		"Write events of this source as tasks into a note, where they can be checked off",
+	"Daily note of the event's date or a fixed file":
+		"Daily note of the event's date or a fixed file",
+	"Add the tasks under this heading (optional)":
+		"Add the tasks under this heading (optional)",
+	"Create tasks automatically": "Create tasks automatically",
+	"Write upcoming events as tasks when the calendar is synced":
+		"Write upcoming events as tasks when the calendar is synced",
+	"Days ahead": "Days ahead",
+	"Also create tasks for this many days after today":
+		"Also create tasks for this many days after today",
+	"Only events matching": "Only events matching",
+	"Regular expression the event title must match (optional)":
+		"Regular expression the event title must match (optional)",
+	days: "days",
+	weeks: "weeks",
+	months: "months",
+	"Current streak": "Current streak",
+	"Longest streak": "Longest streak",
+	"Completion rate": "Completion rate",
+	Frequency: "Frequency",
+	"How often the habit should be done":
+		"How often the habit should be done",
+	"Every day": "Every day",
+	"Times per week": "Times per week",
+	"Times per month": "Times per month",
+	"Specific weekdays": "Specific weekdays",
+	Times: "Times",
+	"Number of days per week": "Number of days per week",
+	"Number of days per month": "Number of days per month",
+	Weekdays: "Weekdays",
+	"Please enter a valid number of days":
+		"Please enter a valid number of days",
+	"Please select at least one weekday":
+		"Please select at least one weekday",
+	Source: "Source",
+	"Where the habit values are kept": "Where the habit values are kept",
+	"Values are read from dated list items, e.g. '- 2025-06-18 [property:: value]'":
+		"Values are read from dated list items, e.g. '- 2025-06-18 [property:: value]'",
+	"Weekly note": "Weekly note",
+	"Monthly note": "Monthly note",
+	"Log file": "Log file",
+	"Field location": "Field location",
+	Frontmatter: "Frontmatter",
+	"Inline fields": "Inline fields",
+	"Please enter the path of the log file":
+		"Please enter the path of the log file",
+	"Previous year": "Previous year",
+	"Next year": "Next year",
+	"Monthly totals": "Monthly totals",
+	"Value distribution": "Value distribution",
+	"Done on the same days": "Done on the same days",
+	"Share of the days a habit in a row was done on which the habit in a column was done too":
+		"Share of the days a habit in a row was done on which the habit in a column was done too",
+	Analytics: "Analytics",
+	"Habit cards": "Habit cards",
+	"Add rule": "Add rule",
+	"Archive file": "Archive file",
+	"Archive log": "Archive log",
+	"Archive now": "Archive now",
+	"Archive once the tasks are indexed after Obsidian starts.":
+		"Archive once the tasks are indexed after Obsidian starts.",
+	"Archive rules": "Archive rules",
+	"Archived completed tasks:": "Archived completed tasks:",
+	"At startup": "At startup",
+	"Auto-archive": "Auto-archive",
+	"Auto-archive preview": "Auto-archive preview",
+	"By hand": "By hand",
+	"Clear log": "Clear log",
+	"Completed more than (days) ago": "Completed more than (days) ago",
+	"Enable auto-archive": "Enable auto-archive",
+	"Hours between archive runs, 0 turns the schedule off.":
+		"Hours between archive runs, 0 turns the schedule off.",
+	"In folder": "In folder",
+	"Leave empty for the whole vault.": "Leave empty for the whole vault.",
+	"Leave empty to append to the end of the file.":
+		"Leave empty to append to the end of the file.",
+	"Move completed tasks across the vault into archive files by rules, at startup and on a schedule. Tasks are archived with the marker of the completed task mover.":
+		"Move completed tasks across the vault into archive files by rules, at startup and on a schedule. Tasks are archived with the marker of the completed task mover.",
+	"No archive runs yet": "No archive runs yet",
+	"No completed tasks match the archive rules":
+		"No completed tasks match the archive rules",
+	"Preview auto-archive": "Preview auto-archive",
+	Rule: "Rule",
+	"Rule name": "Rule name",
+	"Run at startup": "Run at startup",
+	"Run auto-archive now": "Run auto-archive now",
+	"Run every (hours)": "Run every (hours)",
+	"Run now": "Run now",
+	"Tasks are still being indexed, try again later":
+		"Tasks are still being indexed, try again later",
+	"Tasks completed the given number of days ago move to the archive file of the first matching rule. {{project}}, {{filename}} and date formats like {{YYYY-MM}} are filled in from the task and its completion date. Tasks without a project skip rules that use {{project}}. Rules with an unknown placeholder are skipped, the preview lists the tasks they leave.":
+		"Tasks completed the given number of days ago move to the archive file of the first matching rule. {{project}}, {{filename}} and date formats like {{YYYY-MM}} are filled in from the task and its completion date. Tasks without a project skip rules that use {{project}}. Rules with an unknown placeholder are skipped, the preview lists the tasks they leave.",
+	"Tasks that would be archived now:": "Tasks that would be archived now:",
+	"Under heading": "Under heading",
+	"Set status": "Set status",
+	"Set date": "Set date",
+	"Set project": "Set project",
+	"Move to file": "Move to file",
+	"Clear selection": "Clear selection",
+	selected: "selected",
+	"Add tags": "Add tags",
+	"Remove tags": "Remove tags",
+	"Tags separated by spaces or commas": "Tags separated by spaces or commas",
+	"A date like 2025-06-18, a shift of the current date like +3d, -1w or +1m, or nothing to clear it":
+		"A date like 2025-06-18, a shift of the current date like +3d, -1w or +1m, or nothing to clear it",
+	"Leave empty to remove the project": "Leave empty to remove the project",
+	"Delete tasks": "Delete tasks",
+	"Delete the lines of the selected tasks?":
+		"Delete the lines of the selected tasks?",
+	"Tasks updated:": "Tasks updated:",
+	"Bulk edit failed: ": "Bulk edit failed: ",
+	"Cannot undo: ": "Cannot undo: ",
+	"Select a file or type a new file name":
+		"Select a file or type a new file name",
+	Create: "Create",
+	"Undo task edit": "Undo task edit",
+	"Redo task edit": "Redo task edit",
+	"Nothing to redo": "Nothing to redo",
+	"Undone:": "Undone:",
+	"Redone:": "Redone:",
+	"Cannot redo: ": "Cannot redo: ",
+	"Tasks were edited since, undo them first":
+		"Tasks were edited since, undo them first",
+	"Edit task": "Edit task",
+	"Delete task": "Delete task",
+	"Bulk edit": "Bulk edit",
+	"Move tasks": "Move tasks",
+	"Failed to update task time: ": "Failed to update task time: ",
+	Unscheduled: "Unscheduled",
+	"No unscheduled tasks": "No unscheduled tasks",
+	"Failed to update task date: ": "Failed to update task date: ",
+	"Date for dropped unscheduled tasks": "Date for dropped unscheduled tasks",
+	"Which date a task without dates gets when it is dropped on a day.":
+		"Which date a task without dates gets when it is dropped on a day.",
+	Manual: "Manual",
+	Swimlanes: "Swimlanes",
+	"Split the columns into horizontal lanes by another task property.":
+		"Split the columns into horizontal lanes by another task property.",
+	"When a column is full": "When a column is full",
+	"What happens when a card is dropped into a column at its WIP limit.":
+		"What happens when a card is dropped into a column at its WIP limit.",
+	Warn: "Warn",
+	"Block the drop": "Block the drop",
+	"Column limits and rules": "Column limits and rules",
+	"Maximum cards of each status column, and the rules a card must meet to be dropped into it.":
+		"Maximum cards of each status column, and the rules a card must meet to be dropped into it.",
+	"WIP limit": "WIP limit",
+	"Requires a completed date": "Requires a completed date",
+	"No open subtasks": "No open subtasks",
+	"Card does not meet the rules of the column: ":
+		"Card does not meet the rules of the column: ",
+	"Column is full, the card was not moved: ":
+		"Column is full, the card was not moved: ",
+	"Column is over its WIP limit: ": "Column is over its WIP limit: ",
+	"Canvas and file property tasks can't be undone:":
+		"Canvas and file property tasks can't be undone:",
+	"Tasks skipped, their archive path can't be filled in:":
+		"Tasks skipped, their archive path can't be filled in:",
 };
 
 export default translations;
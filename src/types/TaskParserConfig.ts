@@ -105,6 +105,10 @@ export function createDefaultParserConfig(): TaskParserConfig {
 		"⏬": "priority", // lowest (without variant selector)
 		"📌": "priority", // Generic priority marker
 
+		// Dependency emojis (Tasks plugin style)
+		"🆔": "id",
+		"⛔": "dependsOn",
+
 		// Other common emojis
 		"🔔": "reminder",
 		"⭐": "starred",
@@ -112,6 +116,7 @@ export function createDefaultParserConfig(): TaskParserConfig {
 		"💡": "idea",
 		"📍": "location",
 		"🔁": "recurrence",
+		"🏁": "onCompletion",
 
 		// Status and marker emojis
 		"🚀": "status",
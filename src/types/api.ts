@@ -0,0 +1,113 @@
+/**
+ * Public API exposed to other plugins and scripts as `plugin.api`
+ */
+
+import {
+	SortingCriteria,
+	StandardTaskMetadata,
+	Task,
+	TaskFilter,
+} from "./task";
+import { FileTask } from "./file-task";
+import { RootFilterState } from "../components/task-filter/ViewTaskFilter";
+import { ViewMode } from "../common/setting-definition";
+
+/** Options for querying tasks */
+export interface TaskQueryOptions {
+	/** Index-level filters, combined by their conjunction */
+	filters?: TaskFilter[];
+	/** Filter state as produced by the view filter panel */
+	filterState?: RootFilterState;
+	/** Sort order applied by the index */
+	sortBy?: SortingCriteria[];
+	/** Maximum number of tasks to return */
+	limit?: number;
+	/** Include read-only tasks from calendar sources (default: false) */
+	includeIcs?: boolean;
+}
+
+/** Metadata accepted when creating a task */
+export interface CreateTaskMetadata {
+	startDate?: Date;
+	dueDate?: Date;
+	scheduledDate?: Date;
+	priority?: number;
+	project?: string;
+	context?: string;
+	recurrence?: string;
+	/** Checkbox status mark, defaults to an empty checkbox */
+	status?: string;
+}
+
+/** Options for creating a task */
+export interface CreateTaskOptions {
+	/** Target file; defaults to the quick capture target */
+	filePath?: string;
+	/** Heading to insert the task under */
+	heading?: string;
+	metadata?: CreateTaskMetadata;
+}
+
+/** Where createTask wrote a task */
+export interface CreatedTask {
+	filePath: string;
+	/** Line of the task in the file */
+	line: number;
+	/** The indexed task, when the task index is available */
+	task?: Task;
+}
+
+/** Changes accepted when updating a task */
+export type TaskChanges = Partial<
+	Pick<Task, "content" | "status" | "completed">
+> & {
+	metadata?: Partial<StandardTaskMetadata>;
+};
+
+/** Options for opening a view */
+export interface OpenViewOptions {
+	/** Project to select in the projects view */
+	project?: string;
+	/** Task to show in the details panel */
+	taskId?: string;
+}
+
+/** Events that API consumers can subscribe to */
+export interface TaskGeniusApiEvents {
+	/** The task index changed */
+	"index-updated": () => void;
+	/** A task was marked as completed */
+	"task-completed": (task: Task) => void;
+}
+
+export type TaskGeniusApiEventName = keyof TaskGeniusApiEvents;
+
+export interface TaskGeniusApi {
+	/** Incremented on breaking changes to this interface */
+	readonly version: number;
+
+	/** Whether the task index is available and initialized */
+	isReady(): boolean;
+
+	queryTasks(options?: TaskQueryOptions): Task[];
+	getTaskById(id: string): Task | undefined;
+
+	createTask(
+		content: string,
+		options?: CreateTaskOptions
+	): Promise<CreatedTask>;
+	updateTask(id: string, changes: TaskChanges): Promise<Task>;
+	completeTask(id: string, completed?: boolean): Promise<Task>;
+	deleteTask(id: string): Promise<void>;
+	/** Update a file-level task shown in a Bases view */
+	updateFileTask(task: FileTask, updates: Partial<FileTask>): Promise<void>;
+
+	/** Subscribe to an event; call the returned function to unsubscribe */
+	on<E extends TaskGeniusApiEventName>(
+		event: E,
+		callback: TaskGeniusApiEvents[E]
+	): () => void;
+
+	/** Open the Task Genius view and switch to the given view id */
+	openView(viewId: ViewMode, options?: OpenViewOptions): Promise<void>;
+}
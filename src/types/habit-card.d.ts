@@ -1,9 +1,24 @@
+// How often a habit should be done, habits without one are daily
+export type HabitFrequency =
+	| { type: "daily" }
+	| { type: "weekly"; times: number } // N days per week
+	| { type: "monthly"; times: number } // N days per month
+	| { type: "weekdays"; days: number[] }; // 0 is Sunday
+
+// Where habit values are kept, habits without one use daily note frontmatter
+export type HabitSource =
+	| { type: "daily-note"; location: "frontmatter" | "inline" }
+	| { type: "periodic-note"; period: "week" | "month" } // Dated list items
+	| { type: "log-file"; filePath: string }; // Dated list items
+
 // 基础习惯类型（不含completions字段，用于存储基础配置）
 export interface BaseHabitProps {
 	id: string;
 	name: string;
 	description?: string;
 	icon: string; // Lucide icon id
+	frequency?: HabitFrequency;
+	source?: HabitSource;
 }
 
 // BaseDailyHabitData
@@ -73,6 +88,20 @@ export type HabitProps =
 	| ScheduledHabitProps
 	| MappingHabitProps;
 
+// Progress of a habit against its frequency
+export interface HabitStats {
+	currentStreak: number; // In periods of the frequency: days, weeks or months
+	longestStreak: number;
+	completionRate: number; // 0 to 1 over the rolling window
+	streakUnit: "day" | "week" | "month";
+}
+
+// Days habits were done together, counts[i][i] is the days habit i was done
+export interface HabitCoOccurrence {
+	habitIds: string[];
+	counts: number[][];
+}
+
 // HabitCardProps
 export interface HabitCardProps {
 	habit: HabitProps;
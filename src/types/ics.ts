@@ -10,15 +10,19 @@ export interface IcsSource {
 	id: string;
 	/** Display name for the source */
 	name: string;
-	/** URL to the ICS file */
+	/** Where the calendar is read from (default: url) */
+	type?: "url" | "vault";
+	/** URL to the ICS file, webcal:// links are fetched over https */
 	url: string;
+	/** Path of the .ics file in the vault for vault sources */
+	filePath?: string;
 	/** Whether this source is enabled */
 	enabled: boolean;
 	/** Color for events from this source */
 	color?: string;
 	/** Show type */
 	showType: "badge" | "event";
-	/** Refresh interval in minutes (default: 60) */
+	/** Refresh interval in minutes (default: 60), unused for vault files */
 	refreshInterval: number;
 	/** Last successful fetch timestamp */
 	lastFetched?: number;
@@ -36,6 +40,8 @@ export interface IcsSource {
 	holidayConfig?: IcsHolidayConfig;
 	/** Task status mapping configuration */
 	statusMapping?: IcsStatusMapping;
+	/** Writing events of this source as markdown tasks */
+	materialize?: IcsMaterializeConfig;
 }
 
 /** ICS event filter configuration */
@@ -123,6 +129,22 @@ export interface IcsHolidayConfig {
 	groupDisplayFormat?: string;
 }
 
+/** Where events are written as markdown tasks and which ones automatically */
+export interface IcsMaterializeConfig {
+	/** Write to the daily note of the event's date or to a fixed file */
+	targetType: "daily-note" | "fixed";
+	/** Target file for fixed targets */
+	targetFile?: string;
+	/** Heading the tasks are added under */
+	targetHeading?: string;
+	/** Write upcoming events as tasks without being asked */
+	autoMaterialize: boolean;
+	/** Days ahead written automatically, 0 for today only */
+	autoMaterializeDays?: number;
+	/** Only write events whose summary matches this pattern (regex) */
+	autoMaterializePattern?: string;
+}
+
 /** Task status mapping configuration for ICS events */
 export interface IcsStatusMapping {
 	/** Whether to enable status mapping */
@@ -197,6 +219,22 @@ export interface IcsEvent {
 	dtend?: Date;
 	/** All-day event flag */
 	allDay: boolean;
+	/** Calendar component the event comes from (default: VEVENT) */
+	componentType?: "VEVENT" | "VTODO";
+	/** Due date/time (VTODO) */
+	due?: Date;
+	/** Completion timestamp (VTODO) */
+	completed?: Date;
+	/** Percent complete, 0-100 (VTODO) */
+	percentComplete?: number;
+	/** UID of the parent component (RELATED-TO) */
+	relatedTo?: string;
+	/** Whether DTSTART is a placeholder for a to-do without any dates */
+	undated?: boolean;
+	/** Whether DTSTART is the due date of a to-do without a start */
+	startFromDue?: boolean;
+	/** Alarms (VALARM) */
+	alarms?: IcsAlarm[];
 	/** Event location */
 	location?: string;
 	/** Event categories */
@@ -207,6 +245,8 @@ export interface IcsEvent {
 	rrule?: string;
 	/** Exception dates */
 	exdate?: Date[];
+	/** Original start of a recurring event's instance (RECURRENCE-ID) */
+	recurrenceId?: Date;
 	/** Created timestamp */
 	created?: Date;
 	/** Last modified timestamp */
@@ -233,6 +273,20 @@ export interface IcsEvent {
 	source: IcsSource;
 }
 
+/** ICS alarm (VALARM) */
+export interface IcsAlarm {
+	/** Alarm action (DISPLAY, AUDIO, EMAIL) */
+	action: string;
+	/** Offset from the start or end in milliseconds, negative is before */
+	triggerOffset?: number;
+	/** Whether the offset is relative to the start or the end */
+	triggerRelated?: "START" | "END";
+	/** Absolute trigger time */
+	triggerDate?: Date;
+	/** Alarm description */
+	description?: string;
+}
+
 /** ICS event converted to Task format */
 export interface IcsTask extends Task {
 	/** Original ICS event data */
@@ -284,6 +338,12 @@ export interface IcsFetchResult {
 	error?: string;
 	/** HTTP status code */
 	statusCode?: number;
+	/** Whether the server answered 304 and the cached events were kept */
+	notModified?: boolean;
+	/** ETag header of the response */
+	etag?: string;
+	/** Last-Modified header of the response */
+	lastModified?: string;
 	/** Fetch timestamp */
 	timestamp: number;
 }
@@ -324,6 +384,28 @@ export interface IcsManagerConfig {
 	showInTaskLists: boolean;
 	/** Default color for ICS events */
 	defaultEventColor: string;
+	/** Feeds of vault tasks exported as .ics files */
+	exports?: IcsExportConfig[];
+}
+
+/** Export of the tasks in a view as an .ics feed file */
+export interface IcsExportConfig {
+	/** Unique identifier for the export */
+	id: string;
+	/** Display name, also used as the calendar name */
+	name: string;
+	/** Whether this export is enabled */
+	enabled: boolean;
+	/** View whose filters select the exported tasks */
+	viewId: string;
+	/** Vault path of the .ics file */
+	filePath: string;
+	/** Export tasks as to-dos or as events */
+	componentType: "VTODO" | "VEVENT";
+	/** Whether to include completed tasks */
+	includeCompleted: boolean;
+	/** Last successful export timestamp */
+	lastExported?: number;
 }
 
 /** ICS synchronization status */
@@ -334,9 +416,9 @@ export interface IcsSyncStatus {
 	lastSync?: number;
 	/** Next scheduled sync */
 	nextSync?: number;
-	/** Sync status */
-	status: "idle" | "syncing" | "error" | "disabled";
-	/** Error message if status is error */
+	/** Sync status, stale if the last fetch failed but the cache is shown */
+	status: "idle" | "syncing" | "error" | "stale" | "disabled";
+	/** Error message if status is error or stale */
 	error?: string;
 	/** Number of events synced */
 	eventCount?: number;
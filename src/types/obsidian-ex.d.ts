@@ -13,6 +13,7 @@ import {
 import { Component } from "obsidian";
 import { HabitProps } from "./habit-card";
 import { RootFilterState } from "../components/task-filter/ViewTaskFilter";
+import { TimeTrackingSession } from "./time-tracking";
 
 interface Token extends EditorRange {
 	/** @todo Documentation incomplete. */
@@ -385,6 +386,10 @@ declare module "obsidian" {
 			event: "task-genius:filter-changed",
 			callback: (filterState: RootFilterState, leafId?: string) => void
 		): EventRef;
+		on(
+			event: "task-genius:timer-changed",
+			callback: (session: TimeTrackingSession | null) => void
+		): EventRef;
 
 		trigger(event: "task-genius:task-completed", task: Task): void;
 		trigger(event: "task-genius:task-added", task: Task): void;
@@ -403,6 +408,10 @@ declare module "obsidian" {
 			filterState: RootFilterState,
 			leafId?: string
 		): void;
+		trigger(
+			event: "task-genius:timer-changed",
+			session: TimeTrackingSession | null
+		): void;
 	}
 
 	interface WorkspaceLeaf {
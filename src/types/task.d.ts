@@ -36,6 +36,10 @@ export interface StandardTaskMetadata {
 	completedDate?: number;
 	/** Recurrence pattern (Tasks plugin compatible) */
 	recurrence?: string;
+	/** What happens to a completed task (Tasks plugin 🏁 / [onCompletion::]) */
+	onCompletion?: "delete" | "keep";
+	/** Completion dates of a recurring task ([completions::]) */
+	completions?: string[];
 
 	/** Tags associated with the task */
 	tags: string[];
@@ -57,10 +61,25 @@ export interface StandardTaskMetadata {
 	estimatedTime?: number;
 	/** Actual time spent in minutes */
 	actualTime?: number;
+	/** Planned minutes of a task with a time ([duration::] or an end time like 14:30-16:00) */
+	duration?: number;
+	/** Position of the task in a manually sorted kanban column ([order::]) */
+	order?: number;
+
+	/** Reminder date/time or offset before the due date (🔔 / [reminder::]) */
+	reminder?: string;
+
+	/** Dependency identifier of this task (Tasks plugin 🆔 / [id::]) */
+	id?: string;
+	/** Dependency identifiers this task waits on (Tasks plugin ⛔ / [dependsOn::]) */
+	dependsOn?: string[];
 
 	/** File statistics and metadata for auto-date extraction */
 	useAsDateType?: "due" | "start" | "scheduled";
 
+	/** Calendar event the task was written from ([ics::]) */
+	icsUid?: string;
+
 	/** Task belongs to which heading */
 	heading?: string[];
 
@@ -190,6 +209,12 @@ export interface TaskCache {
 
 	/** Priority index: priority -> Set<taskIds> */
 	priority: Map<number, Set<string>>;
+
+	/** Dependency id index: metadata.id -> Set<taskIds> */
+	ids: Map<string, Set<string>>;
+
+	/** Reverse dependency index: metadata.id -> Set<taskIds that depend on it> */
+	blocks: Map<string, Set<string>>;
 }
 
 /** Task filter interface for querying tasks */
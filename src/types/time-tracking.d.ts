@@ -0,0 +1,29 @@
+/**
+ * Time tracking types
+ */
+
+/** A running timer; at most one is active at a time */
+export interface TimeTrackingSession {
+	taskId: string;
+	filePath: string;
+	line: number;
+	/** Task content when the timer started, used to find the task again */
+	content: string;
+	startedAt: number;
+}
+
+/** A finished timer session */
+export interface TimeLogEntry {
+	taskId: string;
+	filePath: string;
+	content: string;
+	project?: string;
+	start: number;
+	end: number;
+	minutes: number;
+}
+
+export interface TimeTrackingSettings {
+	activeSession: TimeTrackingSession | null;
+	timeLog: TimeLogEntry[];
+}
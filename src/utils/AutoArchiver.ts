@@ -0,0 +1,511 @@
+/**
+ * Auto Archiver
+ * Moves completed tasks across the vault into archive files by rules, at
+ * startup and on a schedule, using the task index to find them
+ */
+
+import { App, Component, moment, Notice, TFile } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import {
+	AutoArchiveLogEntry,
+	AutoArchiveLogTask,
+	AutoArchiveRule,
+} from "../common/setting-definition";
+import { Task } from "../types/task";
+import { QuickCaptureOptions } from "../editor-ext/quickCapture";
+import { TaskUtils } from "../commands/completedTaskMover";
+import { saveCapture } from "./fileUtils";
+import { getEffectiveProject } from "./taskUtil";
+import { t } from "../translations/helper";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Runs kept in the log, and tasks listed per run
+const MAX_LOG_ENTRIES = 20;
+const MAX_LOG_TASKS = 50;
+
+export interface AutoArchiveCandidate {
+	task: Task;
+	rule: AutoArchiveRule;
+	targetFile: string;
+	targetHeading?: string;
+}
+
+export type AutoArchiveTrigger = AutoArchiveLogEntry["trigger"];
+
+/** A task a rule matched but can't archive, and why */
+export interface AutoArchiveSkip {
+	task: Task;
+	rule: AutoArchiveRule;
+	/** Placeholders of the rule that can't be filled in for the task */
+	placeholders: string[];
+}
+
+export interface AutoArchivePlan {
+	candidates: AutoArchiveCandidate[];
+	skipped: AutoArchiveSkip[];
+}
+
+// Keys made only of moment tokens, separators and [literal] text
+const DATE_FORMAT_KEY =
+	/^(?:\[[^\]]*\]|YYYY|YY|Q|M{1,4}|Do|D{1,4}|d{1,4}|[Ww]{1,2}|gggg|GGGG|[Hhkms]{1,2}|[Aa]|[-_./:, ])+$/;
+
+/**
+ * Fill in {{project}}, {{filename}} and date formats, {{YYYY-MM}} or
+ * {{DATE:YYYY-MM}}, from the task and its completion date. Undefined when
+ * a placeholder can't be filled in: an unknown name, or {{project}} of a
+ * task without one.
+ */
+export function resolveArchiveTemplate(
+	template: string,
+	task: Task
+): string | undefined {
+	const { value, missing } = fillArchiveTemplate(template, task);
+	return missing.length > 0 ? undefined : value;
+}
+
+function fillArchiveTemplate(
+	template: string,
+	task: Task
+): { value: string; missing: string[] } {
+	const missing: string[] = [];
+	const completed = moment(task.metadata.completedDate);
+
+	const value = template.replace(/\{\{([^}]+)\}\}/g, (match, key: string) => {
+		const name = key.trim();
+		switch (name) {
+			case "project": {
+				const project = getEffectiveProject(task)?.trim();
+				if (!project) missing.push(match);
+				return project ? project.replace(/[<>:"|*?\\]/g, "-") : "";
+			}
+			case "filename":
+				return (
+					task.filePath
+						.split("/")
+						.pop()
+						?.replace(/\.md$/, "") ?? ""
+				);
+			default: {
+				const format = /^DATE:/i.test(name)
+					? name.slice("DATE:".length).trim()
+					: DATE_FORMAT_KEY.test(name)
+					? name
+					: "";
+				if (!format) missing.push(match);
+				return format ? completed.format(format) : "";
+			}
+		}
+	});
+
+	return { value, missing };
+}
+
+/**
+ * Completed tasks the rules archive. A task only goes with all its subtasks
+ * done, subtasks go with their parent, and the first matching rule wins.
+ */
+export function findArchiveCandidates(
+	tasks: Task[],
+	rules: AutoArchiveRule[],
+	getTask: (id: string) => Task | undefined,
+	now: number = Date.now()
+): AutoArchiveCandidate[] {
+	return planArchive(tasks, rules, getTask, now).candidates;
+}
+
+/**
+ * The archive candidates, and the tasks whose matching rules all have a
+ * placeholder that can't be filled in for them
+ */
+export function planArchive(
+	tasks: Task[],
+	rules: AutoArchiveRule[],
+	getTask: (id: string) => Task | undefined,
+	now: number = Date.now()
+): AutoArchivePlan {
+	const activeRules = rules.filter(
+		(rule) => rule.enabled && rule.targetFile.trim()
+	);
+	const candidates: AutoArchiveCandidate[] = [];
+	const skipped: AutoArchiveSkip[] = [];
+
+	const isSubtreeDone = (task: Task, seen: Set<string>): boolean => {
+		if (seen.has(task.id)) return true;
+		seen.add(task.id);
+		return (task.metadata.children ?? []).every((id) => {
+			const child = getTask(id);
+			return !child || (child.completed && isSubtreeDone(child, seen));
+		});
+	};
+
+	for (const task of tasks) {
+		if (
+			!task.completed ||
+			!task.metadata.completedDate ||
+			!task.filePath.endsWith(".md") ||
+			(task.metadata.parent && getTask(task.metadata.parent))
+		) {
+			continue;
+		}
+
+		let skip: AutoArchiveSkip | undefined;
+		for (const rule of activeRules) {
+			if (!matchesArchiveRule(task, rule, now)) continue;
+
+			const targetFile = fillArchiveTemplate(rule.targetFile, task);
+			const targetHeading = rule.targetHeading?.trim()
+				? fillArchiveTemplate(rule.targetHeading, task)
+				: undefined;
+			const placeholders = [
+				...targetFile.missing,
+				...(targetHeading?.missing ?? []),
+			];
+			if (placeholders.length > 0) {
+				skip = skip ?? { task, rule, placeholders };
+				continue;
+			}
+			skip = undefined;
+
+			const targetPath = targetFile.value.endsWith(".md")
+				? targetFile.value
+				: `${targetFile.value}.md`;
+			// Tasks already in their archive stay where they are
+			if (
+				targetPath !== task.filePath &&
+				isSubtreeDone(task, new Set())
+			) {
+				candidates.push({
+					task,
+					rule,
+					targetFile: targetPath,
+					targetHeading: targetHeading?.value,
+				});
+			}
+			break;
+		}
+		if (skip) skipped.push(skip);
+	}
+
+	return { candidates, skipped };
+}
+
+export function matchesArchiveRule(
+	task: Task,
+	rule: AutoArchiveRule,
+	now: number = Date.now()
+): boolean {
+	const completedDate = task.metadata.completedDate;
+	if (
+		!completedDate ||
+		now - completedDate < rule.completedDaysAgo * DAY_MS
+	) {
+		return false;
+	}
+
+	const folder = rule.folder?.trim().replace(/^\/+|\/+$/g, "");
+	return !folder || task.filePath.startsWith(`${folder}/`);
+}
+
+/**
+ * End, exclusive, of the block of a task line: the lines indented deeper
+ * than it, without trailing blank lines
+ */
+export function getTaskBlockEnd(lines: string[], lineIndex: number): number {
+	const indent = (line: string) => line.match(/^\s*/)![0].length;
+	const rootIndent = indent(lines[lineIndex]);
+
+	let end = lineIndex + 1;
+	for (let i = lineIndex + 1; i < lines.length; i++) {
+		if (lines[i].trim() === "") continue;
+		if (indent(lines[i]) <= rootIndent) break;
+		end = i + 1;
+	}
+	return end;
+}
+
+interface ArchiveBlock {
+	candidate: AutoArchiveCandidate;
+	start: number;
+	lines: string[];
+}
+
+export class AutoArchiver extends Component {
+	private plugin: TaskProgressBarPlugin;
+	private app: App;
+	private isRunning = false;
+	private hasRunOnStartup = false;
+	private intervalId: number | null = null;
+
+	constructor(plugin: TaskProgressBarPlugin) {
+		super();
+		this.plugin = plugin;
+		this.app = plugin.app;
+	}
+
+	onload() {
+		// The index has to be built before the startup run finds anything
+		this.registerEvent(
+			this.app.workspace.on("task-genius:task-cache-updated", () => {
+				this.runOnStartup();
+			})
+		);
+		this.app.workspace.onLayoutReady(() => this.runOnStartup());
+		this.reschedule();
+	}
+
+	onunload() {
+		this.clearSchedule();
+	}
+
+	/**
+	 * Restart the scheduled runs after the settings changed
+	 */
+	public reschedule(): void {
+		this.clearSchedule();
+		const { enabled, intervalHours } = this.plugin.settings.autoArchive;
+		if (!enabled || !(intervalHours > 0)) return;
+
+		this.intervalId = window.setInterval(() => {
+			this.run("schedule").catch((error) =>
+				console.error("Scheduled archive run failed:", error)
+			);
+		}, intervalHours * HOUR_MS);
+	}
+
+	/**
+	 * Tasks the enabled rules would archive now, empty until the index is
+	 * built
+	 */
+	public getCandidates(): AutoArchiveCandidate[] {
+		return this.getPlan().candidates;
+	}
+
+	/**
+	 * The candidates and the tasks the rules can't archive, for the dry run
+	 */
+	public getPlan(): AutoArchivePlan {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager?.isInitialized()) {
+			return { candidates: [], skipped: [] };
+		}
+
+		return planArchive(
+			taskManager.getAllTasks(),
+			this.plugin.settings.autoArchive.rules,
+			(id) => taskManager.getTaskById(id)
+		);
+	}
+
+	/**
+	 * Archive the candidates, returns the number of moved tasks. Runs that
+	 * moved tasks, and every manual run, are added to the log.
+	 */
+	public async run(trigger: AutoArchiveTrigger): Promise<number> {
+		const settings = this.plugin.settings.autoArchive;
+		if (this.isRunning || (trigger !== "manual" && !settings.enabled)) {
+			return 0;
+		}
+		if (!this.plugin.taskManager?.isInitialized()) {
+			if (trigger === "manual") {
+				new Notice(
+					t("Tasks are still being indexed, try again later")
+				);
+			}
+			return 0;
+		}
+
+		this.isRunning = true;
+		const moved: AutoArchiveLogTask[] = [];
+		try {
+			const byFile = new Map<string, AutoArchiveCandidate[]>();
+			for (const candidate of this.getCandidates()) {
+				const path = candidate.task.filePath;
+				byFile.set(path, [...(byFile.get(path) ?? []), candidate]);
+			}
+
+			for (const [path, candidates] of byFile) {
+				const file = this.app.vault.getFileByPath(path);
+				if (!file) continue;
+				try {
+					moved.push(...(await this.archiveFile(file, candidates)));
+				} catch (error) {
+					console.error(`Failed to archive tasks of ${path}:`, error);
+				}
+			}
+		} finally {
+			this.isRunning = false;
+		}
+
+		if (moved.length > 0 || trigger === "manual") {
+			settings.log = [
+				{
+					time: Date.now(),
+					trigger,
+					moved: moved.length,
+					tasks: moved.slice(0, MAX_LOG_TASKS),
+				},
+				...settings.log,
+			].slice(0, MAX_LOG_ENTRIES);
+			await this.plugin.saveSettings();
+			new Notice(t("Archived completed tasks:") + ` ${moved.length}`);
+		}
+
+		return moved.length;
+	}
+
+	private runOnStartup() {
+		const settings = this.plugin.settings.autoArchive;
+		if (
+			this.hasRunOnStartup ||
+			!settings.enabled ||
+			!settings.runOnStartup ||
+			!this.plugin.taskManager?.isInitialized()
+		) {
+			return;
+		}
+		this.hasRunOnStartup = true;
+		this.run("startup").catch((error) =>
+			console.error("Startup archive run failed:", error)
+		);
+	}
+
+	/**
+	 * Take the tasks of a file out of it, then write them to their
+	 * archives. Lines that changed since they were indexed are left alone,
+	 * and tasks whose archive can't be written are put back.
+	 */
+	private async archiveFile(
+		file: TFile,
+		candidates: AutoArchiveCandidate[]
+	): Promise<AutoArchiveLogTask[]> {
+		const lines = (await this.app.vault.read(file)).split("\n");
+		const blocks: ArchiveBlock[] = [];
+		for (const candidate of candidates) {
+			const { line, originalMarkdown } = candidate.task;
+			if (lines[line]?.trim() !== originalMarkdown.trim()) continue;
+			blocks.push({
+				candidate,
+				start: line,
+				lines: lines.slice(line, getTaskBlockEnd(lines, line)),
+			});
+		}
+		if (blocks.length === 0) return [];
+
+		// Bottom up, so the line numbers of the other blocks hold
+		const removed: ArchiveBlock[] = [];
+		await this.app.vault.process(file, (data) => {
+			const current = data.split("\n");
+			[...blocks]
+				.sort((a, b) => b.start - a.start)
+				.forEach((block) => {
+					const isUnchanged = block.lines.every(
+						(line, i) => current[block.start + i] === line
+					);
+					if (isUnchanged) {
+						current.splice(block.start, block.lines.length);
+						removed.push(block);
+					}
+				});
+			return current.join("\n");
+		});
+		if (removed.length === 0) return [];
+
+		// One write per archive and heading
+		const byTarget = new Map<string, ArchiveBlock[]>();
+		for (const block of removed) {
+			const { targetFile, targetHeading } = block.candidate;
+			const key = `${targetFile}#${targetHeading ?? ""}`;
+			byTarget.set(key, [...(byTarget.get(key) ?? []), block]);
+		}
+
+		const failed = new Set<ArchiveBlock>();
+		for (const targetBlocks of byTarget.values()) {
+			const { targetFile, targetHeading } = targetBlocks[0].candidate;
+			const content = targetBlocks
+				.sort((a, b) => a.start - b.start)
+				.map((block) => this.formatBlock(block, file))
+				.join("\n");
+			const options: QuickCaptureOptions = {
+				targetType: "fixed",
+				targetFile,
+				targetHeading,
+				appendToFile: "append",
+			};
+
+			try {
+				await saveCapture(this.app, content, options);
+			} catch (error) {
+				console.error(`Failed to write archive ${targetFile}:`, error);
+				targetBlocks.forEach((block) => failed.add(block));
+			}
+		}
+		if (failed.size > 0) {
+			await this.restoreBlocks(file, removed, failed);
+		}
+
+		return removed
+			.filter((block) => !failed.has(block))
+			.reverse()
+			.map(({ candidate }) => ({
+				content: candidate.task.content,
+				from: file.path,
+				to: candidate.targetHeading
+					? `${candidate.targetFile} > ${candidate.targetHeading}`
+					: candidate.targetFile,
+			}));
+	}
+
+	/**
+	 * Put blocks that weren't archived back where they were taken out,
+	 * shifted up by the archived blocks above them
+	 */
+	private async restoreBlocks(
+		file: TFile,
+		removed: ArchiveBlock[],
+		failed: Set<ArchiveBlock>
+	) {
+		await this.app.vault.process(file, (data) => {
+			const current = data.split("\n");
+			let archivedAbove = 0;
+			[...removed]
+				.sort((a, b) => a.start - b.start)
+				.forEach((block) => {
+					if (failed.has(block)) {
+						current.splice(
+							block.start - archivedAbove,
+							0,
+							...block.lines
+						);
+					} else {
+						archivedAbove += block.lines.length;
+					}
+				});
+			return current.join("\n");
+		});
+	}
+
+	// The archive marker of the completed task mover goes on the task line
+	private formatBlock(block: ArchiveBlock, file: TFile): string {
+		const [taskLine, ...children] = block.lines;
+		const marked = TaskUtils.addMarkerToTask(
+			taskLine,
+			this.plugin.settings,
+			file,
+			this.app,
+			true
+		);
+		return TaskUtils.resetIndentation(
+			[marked, ...children].join("\n"),
+			this.app
+		);
+	}
+
+	private clearSchedule() {
+		if (this.intervalId !== null) {
+			window.clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+}
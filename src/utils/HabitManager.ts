@@ -19,6 +19,7 @@ import {
 	BaseCountHabitData,
 	BaseScheduledHabitData,
 	BaseMappingHabitData,
+	HabitStats,
 } from "../types/habit-card";
 import TaskProgressBarPlugin from "../index"; // Assuming HabitTracker is the main plugin class
 import {
@@ -28,7 +29,20 @@ import {
 	getDateFromFile,
 	appHasDailyNotesPluginLoaded,
 	getDailyNoteSettings,
+	getAllWeeklyNotes,
+	getWeeklyNote,
+	createWeeklyNote,
+	getAllMonthlyNotes,
+	getMonthlyNote,
+	createMonthlyNote,
 } from "obsidian-daily-notes-interface";
+import { getHabitStats } from "./habitStats";
+import {
+	parseDatedLines,
+	parseInlineFields,
+	setDatedLineFields,
+	setInlineFields,
+} from "./habitSources";
 
 export class HabitManager extends Component {
 	private plugin: TaskProgressBarPlugin;
@@ -44,10 +58,11 @@ export class HabitManager extends Component {
 		this.registerEvent(
 			this.plugin.app.metadataCache.on(
 				"changed",
-				(file: TFile, _data: string, cache: CachedMetadata) => {
+				(file: TFile, data: string, cache: CachedMetadata) => {
 					if (this.isDailyNote(file)) {
 						this.updateHabitCompletions(file, cache);
 					}
+					this.updateSourceCompletions(file, data);
 				}
 			)
 		);
@@ -66,6 +81,13 @@ export class HabitManager extends Component {
 		);
 	}
 
+	/**
+	 * Streaks and completion rate of a habit against its frequency
+	 */
+	getHabitStats(habit: HabitProps, windowDays?: number): HabitStats {
+		return getHabitStats(habit, new Date(), windowDays);
+	}
+
 	private convertBaseHabitsToHabitProps(
 		baseHabits: BaseHabitData[]
 	): HabitProps[] {
@@ -78,6 +100,8 @@ export class HabitManager extends Component {
 						name: dailyHabit.name,
 						description: dailyHabit.description,
 						icon: dailyHabit.icon,
+						frequency: dailyHabit.frequency,
+						source: dailyHabit.source,
 						property: dailyHabit.property,
 						type: dailyHabit.type,
 						completionText: dailyHabit.completionText,
@@ -92,6 +116,8 @@ export class HabitManager extends Component {
 						name: countHabit.name,
 						description: countHabit.description,
 						icon: countHabit.icon,
+						frequency: countHabit.frequency,
+						source: countHabit.source,
 						property: countHabit.property,
 						type: countHabit.type,
 						min: countHabit.min,
@@ -109,6 +135,8 @@ export class HabitManager extends Component {
 						name: scheduledHabit.name,
 						description: scheduledHabit.description,
 						icon: scheduledHabit.icon,
+						frequency: scheduledHabit.frequency,
+						source: scheduledHabit.source,
 						type: scheduledHabit.type,
 						events: scheduledHabit.events,
 						propertiesMap: scheduledHabit.propertiesMap,
@@ -123,6 +151,8 @@ export class HabitManager extends Component {
 						name: mappingHabit.name,
 						description: mappingHabit.description,
 						icon: mappingHabit.icon,
+						frequency: mappingHabit.frequency,
+						source: mappingHabit.source,
 						property: mappingHabit.property,
 						type: mappingHabit.type,
 						mapping: mappingHabit.mapping,
@@ -168,114 +198,114 @@ export class HabitManager extends Component {
 				const date = dateMoment.format("YYYY-MM-DD");
 
 				for (const habit of convertedHabits) {
-					if (!habit.completions) habit.completions = {}; // Ensure completions object exists
-
-					switch (habit.type) {
-						case "scheduled":
-							// Handle scheduled habits (journey habits)
-							const scheduledHabit = habit as ScheduledHabitProps;
-							const eventMap = habit.propertiesMap || {};
-							if (!scheduledHabit.completions[date])
-								scheduledHabit.completions[date] = {};
-
-							for (const [
-								eventName,
-								propertyKey,
-							] of Object.entries(eventMap)) {
-								if (
-									propertyKey &&
-									frontmatter[propertyKey as string] !==
-										undefined &&
-									frontmatter[propertyKey as string] !== ""
-								) {
-									const value =
-										frontmatter[propertyKey as string];
-									// 只有当值不为空字符串时才添加到completions
-									if (value && value !== "") {
-										// Store the raw value or format it as needed
-										scheduledHabit.completions[date][
-											eventName
-										] = value;
-									}
-								}
-							}
-							break;
-
-						case "daily":
-							// Handle daily habits with custom completion text
-							const dailyHabit = habit as DailyHabitProps;
-
-							if (
-								habit.property &&
-								frontmatter[habit.property] !== undefined &&
-								frontmatter[habit.property] !== ""
-							) {
-								const value = frontmatter[habit.property];
-								// If completionText is defined, check if value matches it
-								if (dailyHabit.completionText) {
-									// If value matches completionText, mark as completed (1)
-									// Otherwise, store the actual text value
-									if (value === dailyHabit.completionText) {
-										dailyHabit.completions[date] = 1;
-									} else {
-										dailyHabit.completions[date] =
-											value as string;
-									}
-								} else {
-									// Default behavior: any non-empty value means completed
-									dailyHabit.completions[date] = value
-										? 1
-										: 0;
-								}
-								break; // Use the first found property
-							}
-
-							break;
+					if (!this.isFrontmatterHabit(habit)) continue;
+					this.applyHabitValues(habit, date, frontmatter);
+				}
+			}
+		}
+		await this.loadSourceCompletions(
+			convertedHabits.filter((habit) => !this.isFrontmatterHabit(habit)),
+			dailyNotes
+		);
+		return convertedHabits;
+	}
 
-						case "count":
-							// Handle count habits
-							const countHabit = habit as CountHabitProps;
-							if (
-								countHabit.property &&
-								frontmatter[countHabit.property] !==
-									undefined &&
-								frontmatter[countHabit.property] !== ""
-							) {
-								const value = frontmatter[countHabit.property];
-								// For count habits, try to parse as number
-								const numValue = Number(value);
-								if (!isNaN(numValue)) {
-									countHabit.completions[date] = numValue;
-								}
-							}
-							break;
+	/**
+	 * Set the completion of a day from the values of the habit properties
+	 */
+	private applyHabitValues(
+		habit: HabitProps,
+		date: string,
+		values: Record<string, any>
+	): void {
+		if (!habit.completions) habit.completions = {}; // Ensure completions object exists
+
+		switch (habit.type) {
+			case "scheduled":
+				// Handle scheduled habits (journey habits)
+				const scheduledHabit = habit as ScheduledHabitProps;
+				const eventMap = habit.propertiesMap || {};
+				if (!scheduledHabit.completions[date])
+					scheduledHabit.completions[date] = {};
+
+				for (const [eventName, propertyKey] of Object.entries(eventMap)) {
+					if (
+						propertyKey &&
+						values[propertyKey as string] !== undefined &&
+						values[propertyKey as string] !== ""
+					) {
+						const value = values[propertyKey as string];
+						// 只有当值不为空字符串时才添加到completions
+						if (value && value !== "") {
+							// Store the raw value or format it as needed
+							scheduledHabit.completions[date][eventName] = value;
+						}
+					}
+				}
+				break;
+
+			case "daily":
+				// Handle daily habits with custom completion text
+				const dailyHabit = habit as DailyHabitProps;
+
+				if (
+					habit.property &&
+					values[habit.property] !== undefined &&
+					values[habit.property] !== ""
+				) {
+					const value = values[habit.property];
+					// If completionText is defined, check if value matches it
+					if (dailyHabit.completionText) {
+						// If value matches completionText, mark as completed (1)
+						// Otherwise, store the actual text value
+						if (value === dailyHabit.completionText) {
+							dailyHabit.completions[date] = 1;
+						} else {
+							dailyHabit.completions[date] = value as string;
+						}
+					} else {
+						// Default behavior: any non-empty value means completed
+						dailyHabit.completions[date] = value ? 1 : 0;
+					}
+					break; // Use the first found property
+				}
 
-						case "mapping":
-							// Handle mapping habits
-							const mappingHabit = habit as MappingHabitProps;
-							if (
-								mappingHabit.property &&
-								frontmatter[mappingHabit.property] !==
-									undefined &&
-								frontmatter[mappingHabit.property] !== ""
-							) {
-								const value =
-									frontmatter[mappingHabit.property];
-								// For mapping habits, try to parse as number
-								const numValue = Number(value);
-								if (
-									!isNaN(numValue) &&
-									mappingHabit.mapping[numValue]
-								) {
-									mappingHabit.completions[date] = numValue;
-								}
-							}
-							break;
+				break;
+
+			case "count":
+				// Handle count habits
+				const countHabit = habit as CountHabitProps;
+				if (
+					countHabit.property &&
+					values[countHabit.property] !== undefined &&
+					values[countHabit.property] !== ""
+				) {
+					const value = values[countHabit.property];
+					// For count habits, try to parse as number
+					const numValue = Number(value);
+					if (!isNaN(numValue)) {
+						countHabit.completions[date] = numValue;
 					}
 				}
-			}
+				break;
+
+			case "mapping":
+				// Handle mapping habits
+				const mappingHabit = habit as MappingHabitProps;
+				if (
+					mappingHabit.property &&
+					values[mappingHabit.property] !== undefined &&
+					values[mappingHabit.property] !== ""
+				) {
+					const value = values[mappingHabit.property];
+					// For mapping habits, try to parse as number
+					const numValue = Number(value);
+					if (!isNaN(numValue) && mappingHabit.mapping[numValue]) {
+						mappingHabit.completions[date] = numValue;
+					}
+				}
+				break;
 		}
-		return convertedHabits;
 	}
 
 	private updateHabitCompletions(file: TFile, cache: CachedMetadata): void {
@@ -288,6 +318,7 @@ export class HabitManager extends Component {
 		let habitsChanged = false;
 
 		const updatedHabits = this.habits.map((habit) => {
+			if (!this.isFrontmatterHabit(habit)) return habit; // Read from its own source
 			const habitClone = JSON.parse(JSON.stringify(habit)) as HabitProps; // Work on a clone
 			if (!habitClone.completions) habitClone.completions = {};
 
@@ -486,6 +517,15 @@ export class HabitManager extends Component {
 			return;
 		}
 
+		// Periodic notes and log files have their own lookup
+		if (
+			updatedHabit.source?.type === "periodic-note" ||
+			updatedHabit.source?.type === "log-file"
+		) {
+			await this.updateHabitInSource(updatedHabit, date);
+			return;
+		}
+
 		let dailyNote: TFile | null = null;
 		try {
 			console.log(getAllDailyNotes());
@@ -528,122 +568,29 @@ export class HabitManager extends Component {
 		}
 
 		if (dailyNote) {
+			const values = this.getHabitFieldValues(updatedHabit, date);
 			try {
-				await app.fileManager.processFrontMatter(
-					dailyNote,
-					(frontmatter) => {
-						const completion = updatedHabit.completions[date];
-
-						switch (updatedHabit.type) {
-							case "scheduled":
-								// Handle scheduled habits (journey habits)
-								const eventMap =
-									updatedHabit.propertiesMap || {};
-								for (const [
-									eventName,
-									propertyKey,
-								] of Object.entries(eventMap)) {
-									if (propertyKey) {
-										// Only update if a property key is defined
-										if (
-											typeof completion === "object" &&
-											completion?.[eventName] !==
-												undefined &&
-											completion?.[eventName] !== ""
-										) {
-											frontmatter[propertyKey as string] =
-												completion[eventName];
-										} else {
-											// 如果completion不存在，事件名缺失或值为空字符串，删除该属性
-											delete frontmatter[
-												propertyKey as string
-											];
-										}
-									}
-								}
-								break;
-
-							case "daily":
-								// Handle daily habits with custom completion text
-								const dailyHabit =
-									updatedHabit as DailyHabitProps;
-
-								if (dailyHabit.property) {
-									const keyToUpdate = dailyHabit.property; // Update the primary property
-
-									if (completion !== undefined) {
-										// If completionText is defined and completion is 1, use the completionText
-										if (
-											dailyHabit.completionText &&
-											completion === 1
-										) {
-											frontmatter[keyToUpdate] =
-												dailyHabit.completionText;
-										} else {
-											// Otherwise use the raw value
-											frontmatter[keyToUpdate] =
-												completion;
-										}
-									} else {
-										// If completion is undefined, remove the property
-										delete frontmatter[keyToUpdate];
-									}
-								} else {
-									console.warn(
-										`Habit ${updatedHabit.id} has no properties defined in habitKeyMap.`
-									);
-								}
-								break;
-
-							case "count":
-								const countHabit =
-									updatedHabit as CountHabitProps;
-								// Handle count habits
-								if (countHabit.property) {
-									const keyToUpdate = countHabit.property; // Update the primary property
-
-									if (completion !== undefined) {
-										frontmatter[keyToUpdate] = completion;
-									} else {
-										// If completion is undefined, remove the property
-										delete frontmatter[keyToUpdate];
-									}
-								} else {
-									console.warn(
-										`Habit ${updatedHabit.id} has no properties defined in habitKeyMap.`
-									);
-								}
-								break;
-
-							case "mapping":
-								// Handle mapping habits
-								const mappingHabit =
-									updatedHabit as MappingHabitProps;
-								if (mappingHabit.property) {
-									const keyToUpdate = mappingHabit.property; // Update the primary property
-
-									if (
-										completion !== undefined &&
-										typeof completion === "number" &&
-										mappingHabit.mapping[completion]
-									) {
-										frontmatter[keyToUpdate] = completion;
-									} else {
-										// If completion is undefined or invalid, remove the property
-										delete frontmatter[keyToUpdate];
-									}
+				if (!this.isFrontmatterHabit(updatedHabit)) {
+					await app.vault.process(dailyNote, (content) =>
+						setInlineFields(content, values)
+					);
+				} else {
+					await app.fileManager.processFrontMatter(
+						dailyNote,
+						(frontmatter) => {
+							for (const [key, value] of Object.entries(values)) {
+								if (value === undefined) {
+									delete frontmatter[key];
 								} else {
-									console.warn(
-										`Habit ${updatedHabit.id} has no properties defined in habitKeyMap.`
-									);
+									frontmatter[key] = value;
 								}
-								break;
+							}
 						}
-					}
-				);
+					);
+				}
 			} catch (error) {
 				console.error(
-					`Error processing frontmatter for ${dailyNote.path}:`,
+					`Error writing habit to ${dailyNote.path}:`,
 					error
 				);
 			}
@@ -653,4 +600,269 @@ export class HabitManager extends Component {
 			);
 		}
 	}
+
+	/**
+	 * Property values of a habit for a day, undefined removes the property
+	 */
+	private getHabitFieldValues(
+		habit: HabitProps,
+		date: string
+	): Record<string, any> {
+		const values: Record<string, any> = {};
+		const completion = habit.completions[date];
+
+		switch (habit.type) {
+			case "scheduled":
+				// Handle scheduled habits (journey habits)
+				const eventMap = habit.propertiesMap || {};
+				for (const [eventName, propertyKey] of Object.entries(eventMap)) {
+					if (!propertyKey) continue; // Only update if a property key is defined
+					// 如果completion不存在，事件名缺失或值为空字符串，删除该属性
+					values[propertyKey] =
+						typeof completion === "object" &&
+						completion?.[eventName] !== undefined &&
+						completion?.[eventName] !== ""
+							? completion[eventName]
+							: undefined;
+				}
+				break;
+
+			case "daily":
+				// Handle daily habits with custom completion text
+				if (!habit.property) break;
+				// If completionText is defined and completion is 1, use the completionText
+				values[habit.property] =
+					habit.completionText && completion === 1
+						? habit.completionText
+						: completion;
+				break;
+
+			case "count":
+				if (!habit.property) break;
+				values[habit.property] = completion;
+				break;
+
+			case "mapping":
+				if (!habit.property) break;
+				// If completion is undefined or invalid, remove the property
+				values[habit.property] =
+					typeof completion === "number" && habit.mapping[completion]
+						? completion
+						: undefined;
+				break;
+		}
+
+		if (Object.keys(values).length === 0) {
+			console.warn(
+				`Habit ${habit.id} has no properties defined in habitKeyMap.`
+			);
+		}
+		return values;
+	}
+
+	/**
+	 * Habits kept in daily note frontmatter, the default source
+	 */
+	private isFrontmatterHabit(habit: HabitProps): boolean {
+		return (
+			!habit.source ||
+			(habit.source.type === "daily-note" &&
+				habit.source.location !== "inline")
+		);
+	}
+
+	private async loadSourceCompletions(
+		habits: HabitProps[],
+		dailyNotes: TFile[]
+	): Promise<void> {
+		for (const habit of habits) {
+			for (const file of this.getSourceFiles(habit, dailyNotes)) {
+				const content = await this.plugin.app.vault.cachedRead(file);
+				const values = this.readSourceValues(habit, file, content);
+				for (const [date, dateValues] of Object.entries(values)) {
+					this.applyHabitValues(habit, date, dateValues);
+				}
+			}
+		}
+	}
+
+	private getSourceFiles(habit: HabitProps, dailyNotes: TFile[]): TFile[] {
+		const source = habit.source;
+		try {
+			switch (source?.type) {
+				case "periodic-note":
+					return Object.values(
+						source.period === "week"
+							? getAllWeeklyNotes()
+							: getAllMonthlyNotes()
+					);
+				case "log-file":
+					const file = this.plugin.app.vault.getAbstractFileByPath(
+						source.filePath
+					);
+					return file instanceof TFile ? [file] : [];
+				default:
+					return dailyNotes;
+			}
+		} catch (error) {
+			// The periodic notes folder may be missing
+			console.warn(`Could not find notes of habit ${habit.id}:`, error);
+			return [];
+		}
+	}
+
+	private isSourceFile(habit: HabitProps, file: TFile): boolean {
+		const source = habit.source;
+		switch (source?.type) {
+			case "periodic-note":
+				try {
+					return getDateFromFile(file, source.period) !== null;
+				} catch (e) {
+					return false;
+				}
+			case "log-file":
+				return file.path === source.filePath;
+			default:
+				return this.isDailyNote(file);
+		}
+	}
+
+	/**
+	 * Property values by date of a source file
+	 */
+	private readSourceValues(
+		habit: HabitProps,
+		file: TFile,
+		content: string
+	): Record<string, Record<string, any>> {
+		if (
+			habit.source?.type === "periodic-note" ||
+			habit.source?.type === "log-file"
+		) {
+			return parseDatedLines(content);
+		}
+
+		const dateMoment = getDateFromFile(file, "day");
+		if (!dateMoment) return {};
+		return { [dateMoment.format("YYYY-MM-DD")]: parseInlineFields(content) };
+	}
+
+	/**
+	 * Dates a source file holds the values of, they are cleared before the
+	 * file is read again so removed lines remove their completion
+	 */
+	private getSourceDates(habit: HabitProps, file: TFile): string[] {
+		const source = habit.source;
+		switch (source?.type) {
+			case "periodic-note": {
+				const start = getDateFromFile(file, source.period);
+				if (!start) return [];
+				const day = start.clone().startOf(source.period);
+				const end = start.clone().endOf(source.period);
+				const dates: string[] = [];
+				for (; day.isBefore(end); day.add(1, "day")) {
+					dates.push(day.format("YYYY-MM-DD"));
+				}
+				return dates;
+			}
+			case "log-file":
+				return Object.keys(habit.completions);
+			default: {
+				const dateMoment = getDateFromFile(file, "day");
+				return dateMoment ? [dateMoment.format("YYYY-MM-DD")] : [];
+			}
+		}
+	}
+
+	/**
+	 * Read a changed file again for the habits it is the source of
+	 */
+	private updateSourceCompletions(file: TFile, content: string): void {
+		let habitsChanged = false;
+
+		const updatedHabits = this.habits.map((habit) => {
+			if (
+				this.isFrontmatterHabit(habit) ||
+				!this.isSourceFile(habit, file)
+			) {
+				return habit;
+			}
+
+			const habitClone = JSON.parse(JSON.stringify(habit)) as HabitProps; // Work on a clone
+			for (const date of this.getSourceDates(habitClone, file)) {
+				delete habitClone.completions[date];
+			}
+			const values = this.readSourceValues(habitClone, file, content);
+			for (const [date, dateValues] of Object.entries(values)) {
+				this.applyHabitValues(habitClone, date, dateValues);
+			}
+
+			if (
+				JSON.stringify(habitClone.completions) !==
+				JSON.stringify(habit.completions)
+			) {
+				habitsChanged = true;
+			}
+			return habitClone;
+		});
+
+		if (habitsChanged) {
+			this.habits = updatedHabits;
+			this.plugin.app.workspace.trigger(
+				"task-genius:habit-index-updated",
+				this.habits
+			);
+		}
+	}
+
+	/**
+	 * Write a day of a habit kept in a periodic note or log file, the note
+	 * or file is created when missing
+	 */
+	private async updateHabitInSource(
+		habit: HabitProps,
+		date: string
+	): Promise<void> {
+		const vault = this.plugin.app.vault;
+		const source = habit.source;
+		const momentDate = moment(date, "YYYY-MM-DD").set("hour", 12);
+		let file: TFile | null = null;
+
+		try {
+			if (source?.type === "periodic-note") {
+				if (source.period === "week") {
+					file =
+						getWeeklyNote(momentDate, getAllWeeklyNotes()) ??
+						(await createWeeklyNote(momentDate));
+				} else {
+					file =
+						getMonthlyNote(momentDate, getAllMonthlyNotes()) ??
+						(await createMonthlyNote(momentDate));
+				}
+			} else if (source?.type === "log-file") {
+				const existing = vault.getAbstractFileByPath(source.filePath);
+				file =
+					existing instanceof TFile
+						? existing
+						: await vault.create(source.filePath, "");
+			}
+		} catch (error) {
+			console.error(`Error getting or creating habit file:`, error);
+			return;
+		}
+
+		if (!file) {
+			console.warn(`Habit file could not be found or created for: ${date}`);
+			return;
+		}
+
+		const values = this.getHabitFieldValues(habit, date);
+		try {
+			await vault.process(file, (content) =>
+				setDatedLineFields(content, date, values)
+			);
+		} catch (error) {
+			console.error(`Error writing habit to ${file.path}:`, error);
+		}
+	}
 }
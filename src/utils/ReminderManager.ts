@@ -0,0 +1,236 @@
+import { App, Component, Notice, TFile } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import { ReminderSettings } from "../common/setting-definition";
+import { Task } from "../types/task";
+import { DueReminder, getDueReminders } from "./reminderUtils";
+import { clearAllMarks } from "../components/MarkdownRenderer";
+import { t } from "../translations/helper";
+import "../styles/reminder.css";
+
+// How often reminders are checked
+const CHECK_INTERVAL = 30 * 1000;
+// How often the last check time is saved when nothing fired
+const SAVE_INTERVAL = 15 * 60 * 1000;
+// Fired records older than this are dropped
+const FIRED_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Fires reminders (🔔 / [reminder::]) for indexed tasks as a notice and a
+ * system notification. Fired reminders are recorded in settings so they
+ * don't fire again after a restart, and reminders that fell due while the
+ * vault was closed fire on the next check.
+ */
+export class ReminderManager extends Component {
+	private plugin: TaskProgressBarPlugin;
+	private app: App;
+	private isChecking = false;
+	private lastSavedAt = 0;
+
+	constructor(plugin: TaskProgressBarPlugin) {
+		super();
+		this.plugin = plugin;
+		this.app = plugin.app;
+
+		// Don't share the record objects with DEFAULT_SETTINGS
+		const existing = plugin.settings.reminders;
+		plugin.settings.reminders = {
+			...existing,
+			firedReminders: { ...(existing.firedReminders ?? {}) },
+			snoozedReminders: { ...(existing.snoozedReminders ?? {}) },
+		};
+	}
+
+	onload() {
+		// On first use, start the catch-up window now instead of firing
+		// every reminder in the vault's past
+		if (this.settings.lastCheckedAt === undefined) {
+			this.settings.lastCheckedAt = Date.now();
+			this.plugin.saveSettings();
+		}
+
+		if (
+			this.settings.systemNotifications &&
+			typeof Notification !== "undefined" &&
+			Notification.permission === "default"
+		) {
+			Notification.requestPermission();
+		}
+
+		// The first index update after startup catches up on missed reminders
+		this.registerEvent(
+			this.app.workspace.on("task-genius:task-cache-updated", () => {
+				this.checkReminders();
+			})
+		);
+		this.registerInterval(
+			window.setInterval(() => this.checkReminders(), CHECK_INTERVAL)
+		);
+	}
+
+	private get settings(): ReminderSettings {
+		return this.plugin.settings.reminders;
+	}
+
+	/**
+	 * Fire every reminder that fell due since the last check
+	 */
+	public async checkReminders(): Promise<void> {
+		const taskManager = this.plugin.taskManager;
+		if (this.isChecking || !taskManager?.isInitialized()) return;
+
+		this.isChecking = true;
+		try {
+			const now = Date.now();
+			const tasks = taskManager
+				.getAllTasks()
+				.filter((task) => (task as any).source?.type !== "ics");
+			const dueReminders = getDueReminders(
+				tasks,
+				this.settings,
+				now,
+				this.settings.lastCheckedAt ?? now
+			);
+
+			for (const reminder of dueReminders) {
+				this.settings.firedReminders[reminder.key] = now;
+				delete this.settings.snoozedReminders[reminder.key];
+				this.showReminder(reminder);
+			}
+
+			this.settings.lastCheckedAt = now;
+			this.pruneReminderRecords(now);
+
+			if (
+				dueReminders.length > 0 ||
+				now - this.lastSavedAt > SAVE_INTERVAL
+			) {
+				this.lastSavedAt = now;
+				await this.plugin.saveSettings();
+			}
+		} catch (error) {
+			console.error("Failed to check reminders:", error);
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/**
+	 * Show the reminder again after the configured snooze time
+	 */
+	public async snooze(reminder: DueReminder): Promise<void> {
+		const minutes = this.settings.snoozeMinutes || 10;
+		this.settings.snoozedReminders[reminder.key] =
+			Date.now() + minutes * 60000;
+		await this.plugin.saveSettings();
+		new Notice(`${t("Reminder snoozed for")} ${minutes} ${t("minutes")}`);
+	}
+
+	/**
+	 * Mark the reminded task as completed
+	 */
+	public async markDone(reminder: DueReminder): Promise<void> {
+		const task = this.findTask(reminder.task);
+		if (!task) {
+			new Notice(t("Task not found"));
+			return;
+		}
+
+		try {
+			await this.plugin.api.completeTask(task.id);
+		} catch (error) {
+			console.error("Failed to complete task from reminder:", error);
+			new Notice(t("Failed to update task"));
+		}
+	}
+
+	private showReminder(reminder: DueReminder) {
+		const content = clearAllMarks(reminder.task.content);
+
+		const notice = new Notice(
+			createFragment((frag) => {
+				const el = frag.createDiv({ cls: "task-genius-reminder" });
+				el.createDiv({
+					cls: "task-genius-reminder-title",
+					text: `🔔 ${t("Reminder")}`,
+				});
+				el.createDiv({
+					cls: "task-genius-reminder-content",
+					text: content,
+				});
+
+				const actions = el.createDiv({
+					cls: "task-genius-reminder-actions",
+				});
+				const addAction = (text: string, action: () => void) => {
+					const button = actions.createEl("button", { text });
+					button.addEventListener("click", (e) => {
+						e.stopPropagation();
+						notice.hide();
+						action();
+					});
+				};
+				addAction(t("Snooze"), () => this.snooze(reminder));
+				addAction(t("Done"), () => this.markDone(reminder));
+				addAction(t("Open"), () => this.openTask(reminder.task));
+			}),
+			// Stay until dismissed
+			0
+		);
+
+		if (
+			this.settings.systemNotifications &&
+			typeof Notification !== "undefined" &&
+			Notification.permission === "granted"
+		) {
+			const notification = new Notification(t("Task Genius reminder"), {
+				body: content,
+				tag: reminder.key,
+			});
+			notification.onclick = () => {
+				window.focus();
+				this.openTask(reminder.task);
+			};
+		}
+	}
+
+	/**
+	 * Find the current version of a task; ids are line based, so fall back
+	 * to matching the content within the file
+	 */
+	private findTask(task: Task): Task | undefined {
+		const taskManager = this.plugin.taskManager;
+		const byId = taskManager.getTaskById(task.id);
+		if (byId && byId.content === task.content) return byId;
+
+		return (
+			taskManager
+				.getTasksForFile(task.filePath)
+				.find((candidate) => candidate.content === task.content) ??
+			byId
+		);
+	}
+
+	private async openTask(task: Task) {
+		const current = this.findTask(task) ?? task;
+		const file = this.app.vault.getAbstractFileByPath(current.filePath);
+		if (!(file instanceof TFile)) return;
+		await this.app.workspace.getLeaf(false).openFile(file, {
+			eState: { line: current.line },
+		});
+	}
+
+	private pruneReminderRecords(now: number) {
+		const { firedReminders, snoozedReminders } = this.settings;
+		for (const key of Object.keys(firedReminders)) {
+			if (now - firedReminders[key] > FIRED_RETENTION) {
+				delete firedReminders[key];
+			}
+		}
+		// Snoozes of tasks that were completed or edited never fire again
+		for (const key of Object.keys(snoozedReminders)) {
+			if (now - snoozedReminders[key] > FIRED_RETENTION) {
+				delete snoozedReminders[key];
+			}
+		}
+	}
+}
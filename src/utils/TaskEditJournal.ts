@@ -0,0 +1,109 @@
+/**
+ * Task Edit Journal
+ * Keeps the line changes of the task edits made from the views, so they
+ * can be undone and redone in order
+ */
+
+import { Scope } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import { TaskLineChange } from "./bulkEdit";
+
+export interface TaskEditEntry {
+	/** What the edit did, in English, translated when shown */
+	label: string;
+	time: number;
+	changes: TaskLineChange[];
+}
+
+export class TaskEditJournal {
+	private undoStack: TaskEditEntry[] = [];
+	private redoStack: TaskEditEntry[] = [];
+
+	constructor(private maxEntries: number = 50) {}
+
+	/**
+	 * Add an edit, which drops the edits that were undone before it
+	 */
+	public record(
+		label: string,
+		changes: TaskLineChange[],
+		time: number = Date.now()
+	): TaskEditEntry | null {
+		if (changes.length === 0) return null;
+
+		const entry = { label, time, changes };
+		this.undoStack.push(entry);
+		if (this.undoStack.length > this.maxEntries) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+		return entry;
+	}
+
+	/**
+	 * The edit undo would revert, if any
+	 */
+	public peekUndo(): TaskEditEntry | undefined {
+		return this.undoStack[this.undoStack.length - 1];
+	}
+
+	/**
+	 * The edit redo would apply again, if any
+	 */
+	public peekRedo(): TaskEditEntry | undefined {
+		return this.redoStack[this.redoStack.length - 1];
+	}
+
+	/**
+	 * The last edit was reverted in the files
+	 */
+	public markUndone(): void {
+		const entry = this.undoStack.pop();
+		if (entry) this.redoStack.push(entry);
+	}
+
+	/**
+	 * The last undone edit was applied again in the files
+	 */
+	public markRedone(): void {
+		const entry = this.redoStack.pop();
+		if (entry) this.undoStack.push(entry);
+	}
+
+	public clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
+
+/**
+ * Undo and redo hotkeys of a view. Text fields keep their own undo.
+ */
+export function registerTaskEditKeys(
+	scope: Scope,
+	plugin: TaskProgressBarPlugin
+): void {
+	const isEditingText = () => {
+		const el = document.activeElement as HTMLElement | null;
+		return (
+			!!el &&
+			(el.tagName === "INPUT" ||
+				el.tagName === "TEXTAREA" ||
+				el.isContentEditable)
+		);
+	};
+	const undo = () => {
+		if (isEditingText()) return true;
+		plugin.undoTaskEdit();
+		return false;
+	};
+	const redo = () => {
+		if (isEditingText()) return true;
+		plugin.redoTaskEdit();
+		return false;
+	};
+
+	scope.register(["Mod"], "z", undo);
+	scope.register(["Mod", "Shift"], "z", redo);
+	scope.register(["Mod"], "y", redo);
+}
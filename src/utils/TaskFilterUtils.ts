@@ -121,6 +121,22 @@ export function isBlank(
 	return true;
 }
 
+/**
+ * Checks if a task waits on an unfinished dependency (⛔ / [dependsOn::]).
+ *
+ * @param plugin The plugin instance
+ * @param task The task to check
+ * @returns true if at least one dependency is neither completed nor abandoned
+ */
+export function isBlocked(
+	plugin: TaskProgressBarPlugin,
+	task: Task
+): boolean {
+	// The task manager only exists while views are enabled
+	if (!plugin.taskManager) return false;
+	return plugin.taskManager.isTaskBlocked(task);
+}
+
 /**
  * 从RootFilterState应用过滤条件到任务列表
  * @param task 要过滤的任务
@@ -796,5 +812,16 @@ export function filterTasks(
 		}
 	}
 
+	// --- Apply `blocked` Filter ---
+	if (filterRules.blocked) {
+		if (filterRules.blocked === "any") {
+			// Do nothing
+		} else if (filterRules.blocked === "blocked") {
+			filtered = filtered.filter((task) => isBlocked(plugin, task));
+		} else if (filterRules.blocked === "notBlocked") {
+			filtered = filtered.filter((task) => !isBlocked(plugin, task));
+		}
+	}
+
 	return filtered;
 }
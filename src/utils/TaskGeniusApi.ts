@@ -0,0 +1,199 @@
+import { EventRef } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import { Task } from "../types/task";
+import { FileTask } from "../types/file-task";
+import {
+	CreatedTask,
+	CreateTaskOptions,
+	OpenViewOptions,
+	TaskChanges,
+	TaskGeniusApi,
+	TaskGeniusApiEventName,
+	TaskGeniusApiEvents,
+	TaskQueryOptions,
+} from "../types/api";
+import { ViewMode } from "../common/setting-definition";
+import { applyAdvancedFilter } from "./TaskFilterUtils";
+import { FileTaskManagerImpl } from "./FileTaskManager";
+import { saveCapture } from "./fileUtils";
+import { formatCapturedTasks } from "./captureFormat";
+import { TaskView, TASK_VIEW_TYPE } from "../pages/TaskView";
+
+export const TASK_GENIUS_API_VERSION = 1;
+
+// Maps API event names to the workspace events the plugin already triggers
+const WORKSPACE_EVENTS: Record<TaskGeniusApiEventName, string> = {
+	"index-updated": "task-genius:task-cache-updated",
+	"task-completed": "task-genius:task-completed",
+};
+
+/**
+ * Stable, versioned facade over the task manager and views.
+ * Scripts should use this instead of reaching into plugin internals.
+ */
+export class TaskGeniusApiImpl implements TaskGeniusApi {
+	readonly version = TASK_GENIUS_API_VERSION;
+
+	private fileTaskManager: FileTaskManagerImpl;
+
+	constructor(private plugin: TaskProgressBarPlugin) {
+		this.fileTaskManager = new FileTaskManagerImpl(plugin.app);
+	}
+
+	isReady(): boolean {
+		return !!this.plugin.taskManager?.isInitialized();
+	}
+
+	queryTasks(options: TaskQueryOptions = {}): Task[] {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) return [];
+
+		let tasks = taskManager.queryTasks(
+			options.filters ?? [],
+			options.sortBy ?? []
+		);
+
+		if (options.includeIcs) {
+			const markdownIds = new Set(tasks.map((task) => task.id));
+			tasks = tasks.concat(
+				taskManager
+					.getAllTasks()
+					.filter((task) => !markdownIds.has(task.id))
+			);
+		}
+
+		const filterState = options.filterState;
+		if (filterState && filterState.filterGroups?.length > 0) {
+			tasks = tasks.filter((task) =>
+				applyAdvancedFilter(task, filterState)
+			);
+		}
+
+		if (options.limit !== undefined) {
+			tasks = tasks.slice(0, options.limit);
+		}
+
+		return tasks;
+	}
+
+	getTaskById(id: string): Task | undefined {
+		return this.plugin.taskManager?.getTaskById(id);
+	}
+
+	async createTask(
+		content: string,
+		options: CreateTaskOptions = {}
+	): Promise<CreatedTask> {
+		const settings = this.plugin.settings;
+		// Formatted like quick capture, so tasks match the configured format
+		const { file, line } = await saveCapture(
+			this.plugin.app,
+			formatCapturedTasks(content, options.metadata ?? {}, settings),
+			{
+				...settings.quickCapture,
+				targetFile: options.filePath ?? settings.quickCapture.targetFile,
+				targetType: options.filePath
+					? "fixed"
+					: settings.quickCapture.targetType,
+				targetHeading:
+					options.heading ?? settings.quickCapture.targetHeading,
+			}
+		);
+
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) return { filePath: file.path, line };
+		await taskManager.indexFile(file);
+		return {
+			filePath: file.path,
+			line,
+			task: taskManager
+				.getTasksForFile(file.path)
+				.find((task) => task.line === line),
+		};
+	}
+
+	async updateTask(id: string, changes: TaskChanges): Promise<Task> {
+		const task = this.requireTask(id);
+		const updatedTask: Task = {
+			...task,
+			...changes,
+			id: task.id,
+			metadata: { ...task.metadata, ...changes.metadata },
+		};
+		await this.plugin.taskManager.updateTask(updatedTask);
+		return this.getTaskById(id) ?? updatedTask;
+	}
+
+	async completeTask(id: string, completed = true): Promise<Task> {
+		const task = this.requireTask(id);
+		if (task.completed === completed) return task;
+
+		const statuses = this.plugin.settings.taskStatuses;
+		return this.updateTask(id, {
+			completed,
+			status: completed
+				? (statuses.completed || "x").split("|")[0]
+				: statuses.notStarted || " ",
+			metadata: {
+				completedDate: completed ? Date.now() : undefined,
+			},
+		});
+	}
+
+	async deleteTask(id: string): Promise<void> {
+		const task = this.requireTask(id);
+		await this.plugin.taskManager.deleteTask(task);
+	}
+
+	async updateFileTask(
+		task: FileTask,
+		updates: Partial<FileTask>
+	): Promise<void> {
+		await this.fileTaskManager.updateFileTask(task, updates);
+	}
+
+	on<E extends TaskGeniusApiEventName>(
+		event: E,
+		callback: TaskGeniusApiEvents[E]
+	): () => void {
+		const workspace = this.plugin.app.workspace;
+		const ref: EventRef = workspace.on(
+			WORKSPACE_EVENTS[event] as any,
+			callback as (...data: unknown[]) => unknown
+		);
+		// Drop the subscription with the plugin so scripts cannot leak it
+		this.plugin.registerEvent(ref);
+		return () => workspace.offref(ref);
+	}
+
+	async openView(
+		viewId: ViewMode,
+		options: OpenViewOptions = {}
+	): Promise<void> {
+		if (!this.plugin.settings.enableView) {
+			throw new Error("Task Genius views are disabled");
+		}
+
+		await this.plugin.activateTaskView();
+		const leaf =
+			this.plugin.app.workspace.getLeavesOfType(TASK_VIEW_TYPE)[0];
+		if (!(leaf?.view instanceof TaskView)) return;
+
+		leaf.view.switchView(viewId, options.project);
+		if (options.taskId) {
+			const task = this.requireTask(options.taskId);
+			leaf.view.focusTask(task);
+		}
+	}
+
+	private requireTask(id: string): Task {
+		if (!this.plugin.taskManager) {
+			throw new Error("Task Genius task index is not available");
+		}
+		const task = this.plugin.taskManager.getTaskById(id);
+		if (!task) {
+			throw new Error(`Task with ID ${id} not found`);
+		}
+		return task;
+	}
+}
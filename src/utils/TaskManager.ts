@@ -11,11 +11,25 @@ import { TaskIndexer } from "./import/TaskIndexer";
 import { TaskWorkerManager } from "./workers/TaskWorkerManager";
 import { LocalStorageCache } from "./persister";
 import TaskProgressBarPlugin from "../index";
-import { RRule, RRuleSet, rrulestr } from "rrule";
 import { MarkdownTaskParser } from "./workers/ConfigurableTaskParser";
 import { getConfig } from "../common/task-parser-config";
 import { getEffectiveProject, isProjectReadonly } from "./taskUtil";
 import { HolidayDetector } from "./ics/HolidayDetector";
+import { getIcsMaterializeKey } from "./ics/IcsMaterializer";
+import { getTaskBlockEnd } from "./AutoArchiver";
+import {
+	formatLocalDateTime,
+	formatLocalTimeRange,
+	withTimeOfDay,
+} from "./dateUtil";
+import {
+	getLineChange,
+	invertLineChange,
+	revertLineChange,
+	TaskLineChange,
+} from "./bulkEdit";
+import { TaskEditEntry, TaskEditJournal } from "./TaskEditJournal";
+import { IcsTask } from "../types/ics";
 import {
 	TaskParsingService,
 	TaskParsingServiceOptions,
@@ -24,6 +38,13 @@ import { isSupportedFile, getFileType, SupportedFileType } from "./fileTypeUtils
 import { CanvasParser } from "./parsing/CanvasParser";
 import { CanvasTaskUpdater } from "./parsing/CanvasTaskUpdater";
 import { FileMetadataTaskUpdater } from "./workers/FileMetadataTaskUpdater";
+import {
+	appendCompletionHistory,
+	calculateNextOccurrence,
+	insertCompletionHistoryLine,
+	isRecurrenceGhost,
+} from "./recurrenceUtils";
+import { REMINDER_VALUE_REGEX } from "./reminderUtils";
 
 /**
  * TaskManager options
@@ -37,6 +58,15 @@ export interface TaskManagerOptions {
 	debug?: boolean;
 }
 
+/** Task dates that can have a time of day */
+type TaskDateField = "dueDate" | "scheduledDate" | "startDate";
+
+/** A 🔔 with the reminder value after it, if it has one */
+const REMINDER_EMOJI_REGEX = new RegExp(
+	`🔔(?:\\s*${REMINDER_VALUE_REGEX.source.replace(/^\^/, "")})?`,
+	"g"
+);
+
 /**
  * Default options for task manager
  */
@@ -74,6 +104,8 @@ export class TaskManager extends Component {
 	private canvasParser: CanvasParser;
 	/** Canvas task updater for modifying tasks in .canvas files */
 	private canvasTaskUpdater: CanvasTaskUpdater;
+	/** Line changes of the edits made through the manager, for undo/redo */
+	private editJournal = new TaskEditJournal();
 
 	/**
 	 * Create a new task manager
@@ -1188,6 +1220,13 @@ export class TaskManager extends Component {
 		return this.indexer.queryTasks(filters, sortBy);
 	}
 
+	/**
+	 * Whether the initial index has been built
+	 */
+	public isInitialized(): boolean {
+		return this.initialized;
+	}
+
 	/**
 	 * Get all tasks in the vault
 	 */
@@ -1207,7 +1246,10 @@ export class TaskManager extends Component {
 					);
 
 				// Merge ICS tasks with markdown tasks
-				return [...markdownTasks, ...icsTasks];
+				return [
+					...markdownTasks,
+					...this.excludeMaterializedIcsTasks(markdownTasks, icsTasks),
+				];
 			}
 		} catch (error) {
 			console.error("Error getting all tasks:", error);
@@ -1217,7 +1259,13 @@ export class TaskManager extends Component {
 				if (icsManager) {
 					const icsEvents = icsManager.getAllEvents();
 					const icsTasks = icsManager.convertEventsToTasks(icsEvents);
-					return [...markdownTasks, ...icsTasks];
+					return [
+						...markdownTasks,
+						...this.excludeMaterializedIcsTasks(
+							markdownTasks,
+							icsTasks
+						),
+					];
 				}
 			} catch (fallbackError) {
 				console.error(
@@ -1230,6 +1278,37 @@ export class TaskManager extends Component {
 		return markdownTasks;
 	}
 
+	/**
+	 * Leave out calendar tasks that were written to a note, the markdown
+	 * task takes their place
+	 */
+	private excludeMaterializedIcsTasks(
+		markdownTasks: Task[],
+		icsTasks: IcsTask[]
+	): IcsTask[] {
+		const materialized = new Set(
+			markdownTasks
+				.map((task) => task.metadata.icsUid)
+				.filter((uid): uid is string => !!uid)
+		);
+		if (materialized.size === 0) return icsTasks;
+
+		return icsTasks.filter(
+			(task) => !materialized.has(getIcsMaterializeKey(task.icsEvent))
+		);
+	}
+
+	/**
+	 * Notify listeners that tasks from outside the vault, like ICS events,
+	 * changed without an index update
+	 */
+	public notifyExternalTasksUpdated(): void {
+		this.app.workspace.trigger(
+			"task-genius:task-cache-updated",
+			this.indexer.getCache()
+		);
+	}
+
 	/**
 	 * Get all tasks with ICS sync - use this for initial load
 	 */
@@ -1269,7 +1348,10 @@ export class TaskManager extends Component {
 					);
 
 				// Merge ICS tasks with markdown tasks
-				return [...markdownTasks, ...icsTasks];
+				return [
+					...markdownTasks,
+					...this.excludeMaterializedIcsTasks(markdownTasks, icsTasks),
+				];
 			} catch (error) {
 				console.error(
 					"Error getting tasks with holiday detection:",
@@ -1278,7 +1360,10 @@ export class TaskManager extends Component {
 				// Fallback to original method
 				const icsEvents = await icsManager.getAllEventsWithSync();
 				const icsTasks = icsManager.convertEventsToTasks(icsEvents);
-				return [...markdownTasks, ...icsTasks];
+				return [
+					...markdownTasks,
+					...this.excludeMaterializedIcsTasks(markdownTasks, icsTasks),
+				];
 			}
 		}
 
@@ -1316,6 +1401,41 @@ export class TaskManager extends Component {
 		return this.indexer.getTaskById(id);
 	}
 
+	/**
+	 * Check whether a task waits on a dependency that is not done yet
+	 */
+	public isTaskBlocked(task: Task): boolean {
+		return this.indexer.isTaskBlocked(task, (dependency) =>
+			this.isTaskDone(dependency)
+		);
+	}
+
+	/**
+	 * Get the tasks a task depends on
+	 */
+	public getBlockingTasks(task: Task): Task[] {
+		return this.indexer.getBlockingTasks(task);
+	}
+
+	/**
+	 * Get the tasks that depend on a task
+	 */
+	public getBlockedTasks(task: Task): Task[] {
+		return this.indexer.getBlockedTasks(task);
+	}
+
+	/**
+	 * A dependency is done once it is completed or abandoned
+	 */
+	private isTaskDone(task: Task): boolean {
+		if (task.completed) return true;
+		const doneStatuses = [
+			...this.plugin.settings.taskStatuses.completed.split("|"),
+			...this.plugin.settings.taskStatuses.abandoned.split("|"),
+		];
+		return doneStatuses.includes(task.status.toLowerCase());
+	}
+
 	/**
 	 * Get all tasks in a file
 	 */
@@ -1389,6 +1509,12 @@ export class TaskManager extends Component {
 	 * This method updates both the task index and the task in the file
 	 */
 	public async updateTask(updatedTask: Task): Promise<void> {
+		if (isRecurrenceGhost(updatedTask)) {
+			throw new Error(
+				`Task ${updatedTask.id} is a projected occurrence and cannot be updated`
+			);
+		}
+
 		// Get the original task to compare changes
 		const originalTask = this.indexer.getTaskById(updatedTask.id);
 		if (!originalTask) {
@@ -1488,16 +1614,6 @@ export class TaskManager extends Component {
 			}
 		}
 
-		// Check if this is a completion of a recurring task
-		const isCompletingRecurringTask =
-			!originalTask.completed &&
-			updatedTask.completed &&
-			updatedTask.metadata.recurrence;
-
-		// Determine the metadata format from plugin settings
-		const useDataviewFormat =
-			this.plugin.settings.preferMetadataFormat === "dataview";
-
 		try {
 			const file = this.vault.getFileByPath(updatedTask.filePath);
 			if (!(file instanceof TFile) || !file) {
@@ -1514,350 +1630,12 @@ export class TaskManager extends Component {
 				);
 			}
 
-			const indentMatch = taskLine.match(/^(\s*)/);
-			const indentation = indentMatch ? indentMatch[0] : "";
-			let updatedLine = taskLine;
-
-			// Update status if it exists in the updated task
-			if (updatedTask.status) {
-				updatedLine = updatedLine.replace(
-					/(\s*[-*+]\s*\[)[^\]]*(\]\s*)/,
-					`$1${updatedTask.status}$2`
-				);
-			}
-			// Otherwise, update completion status if it changed
-			else if (originalTask.completed !== updatedTask.completed) {
-				const statusMark = updatedTask.completed ? "x" : " ";
-				updatedLine = updatedLine.replace(
-					/(\s*[-*+]\s*\[)[^\]]*(\]\s*)/,
-					`$1${statusMark}$2`
-				);
-			}
-
-			const formatDate = (
-				date: number | undefined
-			): string | undefined => {
-				if (!date) return undefined;
-				const d = new Date(date);
-				return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(
-					2,
-					"0"
-				)}-${String(d.getDate()).padStart(2, "0")}`;
-			};
-
-			// --- Update content first, then clean up metadata ---
-			// Extract the checkbox part and use the new content
-			const checkboxMatch = updatedLine.match(
-				/^(\s*[-*+]\s*\[[^\]]*\]\s*)/
-			);
-			const checkboxPart = checkboxMatch ? checkboxMatch[1] : "";
-
-			// Start with the checkbox part + new content
-			updatedLine = checkboxPart + updatedTask.content;
-
-			// --- Remove existing metadata (both formats) ---
-			// Emoji dates
-			updatedLine = updatedLine.replace(/📅\s*\d{4}-\d{2}-\d{2}/g, "");
-			updatedLine = updatedLine.replace(/🛫\s*\d{4}-\d{2}-\d{2}/g, "");
-			updatedLine = updatedLine.replace(/⏳\s*\d{4}-\d{2}-\d{2}/g, "");
-			updatedLine = updatedLine.replace(/✅\s*\d{4}-\d{2}-\d{2}/g, "");
-			updatedLine = updatedLine.replace(/➕\s*\d{4}-\d{2}-\d{2}/g, ""); // Added created date emoji
-			// Dataview dates (inline field format) - match key or emoji
-			updatedLine = updatedLine.replace(
-				/\[(?:due|🗓️)::\s*\d{4}-\d{2}-\d{2}\]/gi,
-				""
-			);
-			updatedLine = updatedLine.replace(
-				/\[(?:completion|✅)::\s*\d{4}-\d{2}-\d{2}\]/gi,
-				""
-			);
-			updatedLine = updatedLine.replace(
-				/\[(?:created|➕)::\s*\d{4}-\d{2}-\d{2}\]/gi,
-				""
-			);
-			updatedLine = updatedLine.replace(
-				/\[(?:start|🛫)::\s*\d{4}-\d{2}-\d{2}\]/gi,
-				""
-			);
-			updatedLine = updatedLine.replace(
-				/\[(?:scheduled|⏳)::\s*\d{4}-\d{2}-\d{2}\]/gi,
-				""
-			);
-
-			// Emoji Priority markers
-			updatedLine = updatedLine.replace(
-				/\s+(🔼|🔽|⏫|⏬|🔺|\[#[A-C]\])/g,
-				""
-			);
-			// Dataview Priority
-			updatedLine = updatedLine.replace(/\[priority::\s*\w+\]/gi, ""); // Assuming priority value is a word like high, medium, etc. or number
-
-			// Emoji Recurrence
-			updatedLine = updatedLine.replace(/🔁\s*[^\s]+/g, "");
-			// Dataview Recurrence
-			updatedLine = updatedLine.replace(
-				/\[(?:repeat|recurrence)::\s*[^\]]+\]/gi,
-				""
-			); // Allow 'repeat' or 'recurrence'
-
-			// Dataview Project and Context (using configurable prefixes)
-			const projectPrefix =
-				this.plugin.settings.projectTagPrefix[
-					this.plugin.settings.preferMetadataFormat
-				] || "project";
-			const contextPrefix =
-				this.plugin.settings.contextTagPrefix[
-					this.plugin.settings.preferMetadataFormat
-				] || "@";
-			updatedLine = updatedLine.replace(
-				new RegExp(`\\[${projectPrefix}::\\s*[^\\]]+\\]`, "gi"),
-				""
-			);
-			updatedLine = updatedLine.replace(
-				new RegExp(`\\[${contextPrefix}::\\s*[^\\]]+\\]`, "gi"),
-				""
-			);
-
-			// Remove ALL existing tags to prevent duplication
-			// This includes general hashtags, project tags, and context tags
-			updatedLine = updatedLine.replace(
-				/#[^\u2000-\u206F\u2E00-\u2E7F'!"#$%&()*+,.:;<=>?@^`{|}~\[\]\\\s]+/g,
-				""
-			); // Remove all hashtags
-			updatedLine = updatedLine.replace(/@[^\s@]+/g, ""); // Remove all @ mentions/context tags
-
-			// Clean up extra spaces
-			updatedLine = updatedLine.replace(/\s+/g, " ").trim();
-
-			// --- Add updated metadata ---
-			const metadata = [];
-			const formattedDueDate = formatDate(updatedTask.metadata.dueDate);
-			const formattedStartDate = formatDate(
-				updatedTask.metadata.startDate
-			);
-			const formattedScheduledDate = formatDate(
-				updatedTask.metadata.scheduledDate
-			);
-			const formattedCompletedDate = formatDate(
-				updatedTask.metadata.completedDate
+			const updatedLine = this.buildUpdatedTaskLine(
+				originalTask,
+				updatedTask,
+				taskLine
 			);
 
-			// --- Add non-project/context tags first (1. Tags) ---
-			if (
-				updatedTask.metadata.tags &&
-				updatedTask.metadata.tags.length > 0
-			) {
-				// Filter out project and context tags, and ensure uniqueness
-				const projectPrefix =
-					this.plugin.settings.projectTagPrefix[
-						this.plugin.settings.preferMetadataFormat
-					] || "project";
-				const generalTags = updatedTask.metadata.tags.filter((tag) => {
-					if (typeof tag !== "string") return false;
-					// Skip project tags - they'll be handled separately
-					if (tag.startsWith(`#${projectPrefix}/`)) return false;
-					// Skip context tags if they match the current context
-					if (
-						tag.startsWith("@") &&
-						updatedTask.metadata.context &&
-						tag === `@${updatedTask.metadata.context}`
-					)
-						return false;
-					return true;
-				});
-
-				// Ensure uniqueness and proper formatting
-				const uniqueGeneralTags = [...new Set(generalTags)]
-					.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`))
-					.filter((tag) => tag.length > 1); // Filter out empty tags
-
-				if (!useDataviewFormat && uniqueGeneralTags.length > 0) {
-					metadata.push(...uniqueGeneralTags);
-				} else if (useDataviewFormat && uniqueGeneralTags.length > 0) {
-					// For dataview format, add tags as regular hashtags
-					metadata.push(...uniqueGeneralTags);
-				}
-			}
-
-			// 2. Project - Only write project if it's not a read-only tgProject
-			// Check if the project should be written to the file
-			const shouldWriteProject =
-				updatedTask.metadata.project &&
-				!isProjectReadonly(originalTask);
-
-			if (shouldWriteProject) {
-				if (useDataviewFormat) {
-					const projectPrefix =
-						this.plugin.settings.projectTagPrefix[
-							this.plugin.settings.preferMetadataFormat
-						] || "project";
-					const projectField = `[${projectPrefix}:: ${updatedTask.metadata.project}]`;
-					if (!metadata.includes(projectField)) {
-						metadata.push(projectField);
-					}
-				} else {
-					const projectPrefix =
-						this.plugin.settings.projectTagPrefix[
-							this.plugin.settings.preferMetadataFormat
-						] || "project";
-					const projectTag = `#${projectPrefix}/${updatedTask.metadata.project}`;
-					if (!metadata.includes(projectTag)) {
-						metadata.push(projectTag);
-					}
-				}
-			}
-
-			// 3. Context
-			if (updatedTask.metadata.context) {
-				if (useDataviewFormat) {
-					const contextPrefix =
-						this.plugin.settings.contextTagPrefix[
-							this.plugin.settings.preferMetadataFormat
-						] || "context";
-					const contextField = `[${contextPrefix}:: ${updatedTask.metadata.context}]`;
-					if (!metadata.includes(contextField)) {
-						metadata.push(contextField);
-					}
-				} else {
-					// For emoji format, always use @ prefix (not configurable)
-					const contextTag = `@${updatedTask.metadata.context}`;
-					if (!metadata.includes(contextTag)) {
-						metadata.push(contextTag);
-					}
-				}
-			}
-
-			// 4. Priority
-			if (updatedTask.metadata.priority) {
-				if (useDataviewFormat) {
-					let priorityValue: string | number;
-					switch (updatedTask.metadata.priority) {
-						case 5:
-							priorityValue = "highest";
-							break;
-						case 4:
-							priorityValue = "high";
-							break;
-						case 3:
-							priorityValue = "medium";
-							break;
-						case 2:
-							priorityValue = "low";
-							break;
-						case 1:
-							priorityValue = "lowest";
-							break;
-						default:
-							priorityValue = updatedTask.metadata.priority;
-					}
-					metadata.push(`[priority:: ${priorityValue}]`);
-				} else {
-					// Emoji format
-					let priorityMarker = "";
-					switch (updatedTask.metadata.priority) {
-						case 5:
-							priorityMarker = "🔺";
-							break;
-						case 4:
-							priorityMarker = "⏫";
-							break;
-						case 3:
-							priorityMarker = "🔼";
-							break;
-						case 2:
-							priorityMarker = "🔽";
-							break;
-						case 1:
-							priorityMarker = "⏬";
-							break;
-					}
-					if (priorityMarker) metadata.push(priorityMarker);
-				}
-			}
-
-			// 5. Recurrence
-			if (updatedTask.metadata.recurrence) {
-				metadata.push(
-					useDataviewFormat
-						? `[repeat:: ${updatedTask.metadata.recurrence}]`
-						: `🔁 ${updatedTask.metadata.recurrence}`
-				);
-			}
-
-			// 6. Start Date
-			if (formattedStartDate) {
-				// Check if this date should be skipped based on useAsDateType
-				if (
-					!(
-						updatedTask.metadata.useAsDateType === "start" &&
-						formatDate(originalTask.metadata.startDate) ===
-							formattedStartDate
-					)
-				) {
-					metadata.push(
-						useDataviewFormat
-							? `[start:: ${formattedStartDate}]`
-							: `🛫 ${formattedStartDate}`
-					);
-				}
-			}
-
-			// 7. Scheduled Date
-			if (formattedScheduledDate) {
-				// Check if this date should be skipped based on useAsDateType
-				if (
-					!(
-						updatedTask.metadata.useAsDateType === "scheduled" &&
-						formatDate(originalTask.metadata.scheduledDate) ===
-							formattedScheduledDate
-					)
-				) {
-					metadata.push(
-						useDataviewFormat
-							? `[scheduled:: ${formattedScheduledDate}]`
-							: `⏳ ${formattedScheduledDate}`
-					);
-				}
-			}
-
-			// 8. Due Date
-			if (formattedDueDate) {
-				// Check if this date should be skipped based on useAsDateType
-				if (
-					!(
-						updatedTask.metadata.useAsDateType === "due" &&
-						formatDate(originalTask.metadata.dueDate) ===
-							formattedDueDate
-					)
-				) {
-					metadata.push(
-						useDataviewFormat
-							? `[due:: ${formattedDueDate}]`
-							: `📅 ${formattedDueDate}`
-					);
-				}
-			}
-
-			// 9. Completion Date (only if completed)
-			if (formattedCompletedDate && updatedTask.completed) {
-				metadata.push(
-					useDataviewFormat
-						? `[completion:: ${formattedCompletedDate}]`
-						: `✅ ${formattedCompletedDate}`
-				);
-			}
-
-			// Append all metadata to the line
-			if (metadata.length > 0) {
-				updatedLine = updatedLine.trim(); // Trim first to remove trailing space before adding metadata
-				updatedLine = `${updatedLine} ${metadata.join(" ")}`;
-			}
-
-			// Ensure indentation is preserved
-			if (indentation && !updatedLine.startsWith(indentation)) {
-				updatedLine = `${indentation}${updatedLine.trimStart()}`;
-			}
-
 			if (updatedTask.completed && !originalTask.completed) {
 				updatedTask &&
 					this.app.workspace.trigger(
@@ -1875,28 +1653,19 @@ export class TaskManager extends Component {
 
 			// Update the line in the file content
 			if (updatedLine !== taskLine) {
-				lines[updatedTask.line] = updatedLine;
-
-				// If this is a completed recurring task, create a new task with updated dates
-				if (isCompletingRecurringTask) {
-					try {
-						const newTaskLine = this.createRecurringTask(
-							updatedTask,
-							indentation
-						);
-
-						// Insert the new task line after the current task
-						lines.splice(updatedTask.line + 1, 0, newTaskLine);
-						this.log(
-							`Created new recurring task after line ${updatedTask.line}`
-						);
-					} catch (error) {
-						console.error("Error creating recurring task:", error);
-					}
-				}
+				this.applyUpdatedTaskLine(
+					lines,
+					originalTask,
+					updatedTask,
+					updatedLine
+				);
 
 				// Modify the file first - this is the critical operation
-				await this.vault.modify(file, lines.join("\n"));
+				const updatedContent = lines.join("\n");
+				await this.vault.modify(file, updatedContent);
+				this.recordEdit("Edit task", [
+					getLineChange(file.path, content, updatedContent),
+				]);
 				this.log(
 					`Updated task ${updatedTask.id} in file ${updatedTask.filePath}`
 				);
@@ -1928,87 +1697,1103 @@ export class TaskManager extends Component {
 	}
 
 	/**
-	 * Creates a new task line based on a completed recurring task
+	 * Markdown line of an updated task, rebuilt from its content and metadata
 	 */
-	private createRecurringTask(
-		completedTask: Task,
-		indentation: string
+	private buildUpdatedTaskLine(
+		originalTask: Task,
+		updatedTask: Task,
+		taskLine: string
 	): string {
-		// Calculate the next due date based on the recurrence pattern
-		const nextDate = this.calculateNextDueDate(completedTask);
-
-		// Create a new task with the same content but updated dates
-		const newTask = { ...completedTask };
+		// Determine the metadata format from plugin settings
+		const useDataviewFormat =
+			this.plugin.settings.preferMetadataFormat === "dataview";
 
-		// Reset completion status and date
-		newTask.completed = false;
-		newTask.metadata.completedDate = undefined;
+		const indentMatch = taskLine.match(/^(\s*)/);
+		const indentation = indentMatch ? indentMatch[0] : "";
+		let updatedLine = taskLine;
 
-		// Determine where to apply the next date based on what the original task had
-		if (completedTask.metadata.dueDate) {
-			// If original task had due date, update due date
-			newTask.metadata.dueDate = nextDate;
-		} else if (completedTask.metadata.scheduledDate) {
-			// If original task only had scheduled date, update scheduled date
-			newTask.metadata.scheduledDate = nextDate;
-			newTask.metadata.dueDate = undefined; // Make sure due date is not set
-		} else {
-			newTask.metadata.dueDate = nextDate;
+		// Update status if it exists in the updated task
+		if (updatedTask.status) {
+			updatedLine = updatedLine.replace(
+				/(\s*[-*+]\s*\[)[^\]]*(\]\s*)/,
+				`$1${updatedTask.status}$2`
+			);
+		}
+		// Otherwise, update completion status if it changed
+		else if (originalTask.completed !== updatedTask.completed) {
+			const statusMark = updatedTask.completed ? "x" : " ";
+			updatedLine = updatedLine.replace(
+				/(\s*[-*+]\s*\[)[^\]]*(\]\s*)/,
+				`$1${statusMark}$2`
+			);
 		}
 
-		console.log(newTask);
+		const formatDate = (
+			date: number | undefined
+		): string | undefined => {
+			if (!date) return undefined;
+			const d = new Date(date);
+			return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(
+				2,
+				"0"
+			)}-${String(d.getDate()).padStart(2, "0")}`;
+		};
 
-		// Format dates for task markdown
-		const formattedDueDate = newTask.metadata.dueDate
-			? this.formatDateForDisplay(newTask.metadata.dueDate)
-			: undefined;
+		// --- Update content first, then clean up metadata ---
+		// Extract the checkbox part and use the new content
+		const checkboxMatch = updatedLine.match(
+			/^(\s*[-*+]\s*\[[^\]]*\]\s*)/
+		);
+		const checkboxPart = checkboxMatch ? checkboxMatch[1] : "";
 
-		// For scheduled date, use the new calculated date if that's what was updated
-		const formattedScheduledDate = newTask.metadata.scheduledDate
-			? this.formatDateForDisplay(newTask.metadata.scheduledDate)
-			: undefined;
+		// Start with the checkbox part + new content
+		updatedLine = checkboxPart + updatedTask.content;
 
-		// For other dates, copy the original ones if they exist
-		const formattedStartDate = completedTask.metadata.startDate
-			? this.formatDateForDisplay(completedTask.metadata.startDate)
-			: undefined;
+		// --- Remove existing metadata (both formats) ---
+		// Emoji dates
+		// Due, start and scheduled dates can have a time and an end time
+		updatedLine = updatedLine.replace(
+			/📅\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?/g,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/🛫\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?/g,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/⏳\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?/g,
+			""
+		);
+		updatedLine = updatedLine.replace(/✅\s*\d{4}-\d{2}-\d{2}/g, "");
+		updatedLine = updatedLine.replace(/➕\s*\d{4}-\d{2}-\d{2}/g, ""); // Added created date emoji
+		// Dataview dates (inline field format) - match key or emoji
+		updatedLine = updatedLine.replace(
+			/\[(?:due|🗓️)::\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?\]/gi,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/\[(?:completion|✅)::\s*\d{4}-\d{2}-\d{2}\]/gi,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/\[(?:created|➕)::\s*\d{4}-\d{2}-\d{2}\]/gi,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/\[(?:start|🛫)::\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?\]/gi,
+			""
+		);
+		updatedLine = updatedLine.replace(
+			/\[(?:scheduled|⏳)::\s*\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?:\s*-\s*\d{1,2}:\d{2})?)?\]/gi,
+			""
+		);
 
-		// Extract the original list marker (-, *, 1., etc.) from the original markdown
-		let listMarker = "- ";
-		if (completedTask.originalMarkdown) {
-			// Match the list marker pattern: could be "- ", "* ", "1. ", etc.
-			const listMarkerMatch = completedTask.originalMarkdown.match(
-				/^(\s*)([*\-+]|\d+\.)\s+\[/
-			);
-			if (listMarkerMatch && listMarkerMatch[2]) {
-				listMarker = listMarkerMatch[2] + " ";
+		// Emoji Priority markers
+		updatedLine = updatedLine.replace(
+			/\s+(🔼|🔽|⏫|⏬|🔺|\[#[A-C]\])/g,
+			""
+		);
+		// Dataview Priority
+		updatedLine = updatedLine.replace(/\[priority::\s*\w+\]/gi, ""); // Assuming priority value is a word like high, medium, etc. or number
+
+		// Emoji Recurrence
+		updatedLine = updatedLine.replace(/🔁\s*[^\s]+/g, "");
+		// Dataview Recurrence
+		updatedLine = updatedLine.replace(
+			/\[(?:repeat|recurrence)::\s*[^\]]+\]/gi,
+			""
+		); // Allow 'repeat' or 'recurrence'
+
+		// Emoji dependencies
+		updatedLine = updatedLine.replace(/🆔\s*[a-zA-Z0-9_-]+/g, "");
+		updatedLine = updatedLine.replace(
+			/⛔\s*[a-zA-Z0-9_-]+(?:\s*,\s*[a-zA-Z0-9_-]+)*/g,
+			""
+		);
+		// Dataview dependencies
+		updatedLine = updatedLine.replace(
+			/\[(?:id|dependsOn)::\s*[^\]]+\]/gi,
+			""
+		);
+		// Reminders
+		updatedLine = updatedLine.replace(REMINDER_EMOJI_REGEX, "");
+		updatedLine = updatedLine.replace(/\[reminder::\s*[^\]]+\]/gi, "");
+		// Time tracking and manual order (dataview only)
+		updatedLine = updatedLine.replace(
+			/\[(?:estimatedTime|actualTime|duration|order)::\s*[^\]]+\]/gi,
+			""
+		);
+		// Recurrence completion behaviour and history
+		updatedLine = updatedLine.replace(/🏁\s*(?:delete|keep)?/gi, "");
+		updatedLine = updatedLine.replace(
+			/\[(?:onCompletion|completions)::\s*[^\]]+\]/gi,
+			""
+		);
+		// Calendar event backlink
+		updatedLine = updatedLine.replace(/\[ics::\s*[^\]]+\]/gi, "");
+
+		// Dataview Project and Context (using configurable prefixes)
+		const projectPrefix =
+			this.plugin.settings.projectTagPrefix[
+				this.plugin.settings.preferMetadataFormat
+			] || "project";
+		const contextPrefix =
+			this.plugin.settings.contextTagPrefix[
+				this.plugin.settings.preferMetadataFormat
+			] || "@";
+		updatedLine = updatedLine.replace(
+			new RegExp(`\\[${projectPrefix}::\\s*[^\\]]+\\]`, "gi"),
+			""
+		);
+		updatedLine = updatedLine.replace(
+			new RegExp(`\\[${contextPrefix}::\\s*[^\\]]+\\]`, "gi"),
+			""
+		);
 
-				// If it's a numbered list, increment the number
-				if (/^\d+\.$/.test(listMarkerMatch[2])) {
-					const numberStr = listMarkerMatch[2].replace(/\.$/, "");
-					const number = parseInt(numberStr);
-					listMarker = number + 1 + ". ";
-				}
-			}
-		}
+		// Remove ALL existing tags to prevent duplication
+		// This includes general hashtags, project tags, and context tags
+		updatedLine = updatedLine.replace(
+			/#[^\u2000-\u206F\u2E00-\u2E7F'!"#$%&()*+,.:;<=>?@^`{|}~\[\]\\\s]+/g,
+			""
+		); // Remove all hashtags
+		updatedLine = updatedLine.replace(/@[^\s@]+/g, ""); // Remove all @ mentions/context tags
 
-		// Create the task markdown with the correct list marker
-		const useDataviewFormat =
-			this.plugin.settings.preferMetadataFormat === "dataview";
+		// Clean up extra spaces
+		updatedLine = updatedLine.replace(/\s+/g, " ").trim();
 
-		// Extract clean content without any existing tags, project tags, or context tags
-		let cleanContent = completedTask.content;
+		// --- Add updated metadata ---
+		const metadata = [];
+		// Due, start and scheduled dates keep their time of day
+		const { formatDateTime, formatDuration } = this.getTaskDateFormatter(
+			originalTask,
+			updatedTask.metadata.duration,
+			useDataviewFormat
+		);
+		const formattedDueDate = formatDateTime(
+			"dueDate",
+			updatedTask.metadata.dueDate
+		);
+		const formattedStartDate = formatDateTime(
+			"startDate",
+			updatedTask.metadata.startDate
+		);
+		const formattedScheduledDate = formatDateTime(
+			"scheduledDate",
+			updatedTask.metadata.scheduledDate
+		);
+		const formattedCompletedDate = formatDate(
+			updatedTask.metadata.completedDate
+		);
 
-		// Remove all tags from the content to avoid duplication
+		// --- Add non-project/context tags first (1. Tags) ---
 		if (
-			completedTask.metadata.tags &&
-			completedTask.metadata.tags.length > 0
+			updatedTask.metadata.tags &&
+			updatedTask.metadata.tags.length > 0
 		) {
-			// Get a unique list of tags to avoid processing duplicates
-			const uniqueTags = [...new Set(completedTask.metadata.tags)];
+			// Filter out project and context tags, and ensure uniqueness
+			const projectPrefix =
+				this.plugin.settings.projectTagPrefix[
+					this.plugin.settings.preferMetadataFormat
+				] || "project";
+			const generalTags = updatedTask.metadata.tags.filter((tag) => {
+				if (typeof tag !== "string") return false;
+				// Skip project tags - they'll be handled separately
+				if (tag.startsWith(`#${projectPrefix}/`)) return false;
+				// Skip context tags if they match the current context
+				if (
+					tag.startsWith("@") &&
+					updatedTask.metadata.context &&
+					tag === `@${updatedTask.metadata.context}`
+				)
+					return false;
+				return true;
+			});
 
-			// Remove each tag from the content
-			for (const tag of uniqueTags) {
+			// Ensure uniqueness and proper formatting
+			const uniqueGeneralTags = [...new Set(generalTags)]
+				.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`))
+				.filter((tag) => tag.length > 1); // Filter out empty tags
+
+			if (!useDataviewFormat && uniqueGeneralTags.length > 0) {
+				metadata.push(...uniqueGeneralTags);
+			} else if (useDataviewFormat && uniqueGeneralTags.length > 0) {
+				// For dataview format, add tags as regular hashtags
+				metadata.push(...uniqueGeneralTags);
+			}
+		}
+
+		// 2. Project - Only write project if it's not a read-only tgProject
+		// Check if the project should be written to the file
+		const shouldWriteProject =
+			updatedTask.metadata.project &&
+			!isProjectReadonly(originalTask);
+
+		if (shouldWriteProject) {
+			if (useDataviewFormat) {
+				const projectPrefix =
+					this.plugin.settings.projectTagPrefix[
+						this.plugin.settings.preferMetadataFormat
+					] || "project";
+				const projectField = `[${projectPrefix}:: ${updatedTask.metadata.project}]`;
+				if (!metadata.includes(projectField)) {
+					metadata.push(projectField);
+				}
+			} else {
+				const projectPrefix =
+					this.plugin.settings.projectTagPrefix[
+						this.plugin.settings.preferMetadataFormat
+					] || "project";
+				const projectTag = `#${projectPrefix}/${updatedTask.metadata.project}`;
+				if (!metadata.includes(projectTag)) {
+					metadata.push(projectTag);
+				}
+			}
+		}
+
+		// 3. Context
+		if (updatedTask.metadata.context) {
+			if (useDataviewFormat) {
+				const contextPrefix =
+					this.plugin.settings.contextTagPrefix[
+						this.plugin.settings.preferMetadataFormat
+					] || "context";
+				const contextField = `[${contextPrefix}:: ${updatedTask.metadata.context}]`;
+				if (!metadata.includes(contextField)) {
+					metadata.push(contextField);
+				}
+			} else {
+				// For emoji format, always use @ prefix (not configurable)
+				const contextTag = `@${updatedTask.metadata.context}`;
+				if (!metadata.includes(contextTag)) {
+					metadata.push(contextTag);
+				}
+			}
+		}
+
+		// 4. Priority
+		if (updatedTask.metadata.priority) {
+			if (useDataviewFormat) {
+				let priorityValue: string | number;
+				switch (updatedTask.metadata.priority) {
+					case 5:
+						priorityValue = "highest";
+						break;
+					case 4:
+						priorityValue = "high";
+						break;
+					case 3:
+						priorityValue = "medium";
+						break;
+					case 2:
+						priorityValue = "low";
+						break;
+					case 1:
+						priorityValue = "lowest";
+						break;
+					default:
+						priorityValue = updatedTask.metadata.priority;
+				}
+				metadata.push(`[priority:: ${priorityValue}]`);
+			} else {
+				// Emoji format
+				let priorityMarker = "";
+				switch (updatedTask.metadata.priority) {
+					case 5:
+						priorityMarker = "🔺";
+						break;
+					case 4:
+						priorityMarker = "⏫";
+						break;
+					case 3:
+						priorityMarker = "🔼";
+						break;
+					case 2:
+						priorityMarker = "🔽";
+						break;
+					case 1:
+						priorityMarker = "⏬";
+						break;
+				}
+				if (priorityMarker) metadata.push(priorityMarker);
+			}
+		}
+
+		// 5. Recurrence
+		if (updatedTask.metadata.recurrence) {
+			metadata.push(
+				useDataviewFormat
+					? `[repeat:: ${updatedTask.metadata.recurrence}]`
+					: `🔁 ${updatedTask.metadata.recurrence}`
+			);
+		}
+		if (updatedTask.metadata.onCompletion) {
+			metadata.push(
+				useDataviewFormat
+					? `[onCompletion:: ${updatedTask.metadata.onCompletion}]`
+					: `🏁 ${updatedTask.metadata.onCompletion}`
+			);
+		}
+
+		// 6. Start Date
+		if (formattedStartDate) {
+			// Check if this date should be skipped based on useAsDateType
+			if (
+				!(
+					updatedTask.metadata.useAsDateType === "start" &&
+					formatDateTime(
+						"startDate",
+						originalTask.metadata.startDate
+					) ===
+						formattedStartDate
+				)
+			) {
+				metadata.push(
+					useDataviewFormat
+						? `[start:: ${formattedStartDate}]`
+						: `🛫 ${formattedStartDate}`
+				);
+			}
+		}
+
+		// 7. Scheduled Date
+		if (formattedScheduledDate) {
+			// Check if this date should be skipped based on useAsDateType
+			if (
+				!(
+					updatedTask.metadata.useAsDateType === "scheduled" &&
+					formatDateTime(
+						"scheduledDate",
+						originalTask.metadata.scheduledDate
+					) ===
+						formattedScheduledDate
+				)
+			) {
+				metadata.push(
+					useDataviewFormat
+						? `[scheduled:: ${formattedScheduledDate}]`
+						: `⏳ ${formattedScheduledDate}`
+				);
+			}
+		}
+
+		// 8. Due Date
+		if (formattedDueDate) {
+			// Check if this date should be skipped based on useAsDateType
+			if (
+				!(
+					updatedTask.metadata.useAsDateType === "due" &&
+					formatDateTime(
+						"dueDate",
+						originalTask.metadata.dueDate
+					) ===
+						formattedDueDate
+				)
+			) {
+				metadata.push(
+					useDataviewFormat
+						? `[due:: ${formattedDueDate}]`
+						: `📅 ${formattedDueDate}`
+				);
+			}
+		}
+
+		// 9. Completion Date (only if completed)
+		if (formattedCompletedDate && updatedTask.completed) {
+			metadata.push(
+				useDataviewFormat
+					? `[completion:: ${formattedCompletedDate}]`
+					: `✅ ${formattedCompletedDate}`
+			);
+		}
+
+		// 10. Dependencies
+		if (
+			updatedTask.metadata.dependsOn &&
+			updatedTask.metadata.dependsOn.length > 0
+		) {
+			const dependsOn = updatedTask.metadata.dependsOn.join(",");
+			metadata.push(
+				useDataviewFormat
+					? `[dependsOn:: ${dependsOn}]`
+					: `⛔ ${dependsOn}`
+			);
+		}
+		if (updatedTask.metadata.id) {
+			metadata.push(
+				useDataviewFormat
+					? `[id:: ${updatedTask.metadata.id}]`
+					: `🆔 ${updatedTask.metadata.id}`
+			);
+		}
+
+		// 11. Reminder (a bare 🔔 is stored as "true")
+		const reminder = updatedTask.metadata.reminder;
+		if (reminder) {
+			if (useDataviewFormat) {
+				metadata.push(`[reminder:: ${reminder}]`);
+			} else {
+				metadata.push(reminder === "true" ? "🔔" : `🔔 ${reminder}`);
+			}
+		}
+
+		// 12. Time tracking (no emoji form, always inline fields)
+		if (updatedTask.metadata.estimatedTime) {
+			metadata.push(
+				`[estimatedTime:: ${updatedTask.metadata.estimatedTime}]`
+			);
+		}
+		if (updatedTask.metadata.actualTime) {
+			metadata.push(
+				`[actualTime:: ${updatedTask.metadata.actualTime}]`
+			);
+		}
+		const formattedDuration = formatDuration();
+		if (formattedDuration) {
+			metadata.push(formattedDuration);
+		}
+
+		// Manual kanban order (inline field only)
+		if (updatedTask.metadata.order !== undefined) {
+			metadata.push(`[order:: ${updatedTask.metadata.order}]`);
+		}
+
+		// 13. Recurrence completion history (inline field only)
+		if (
+			updatedTask.metadata.completions &&
+			updatedTask.metadata.completions.length > 0
+		) {
+			metadata.push(
+				`[completions:: ${updatedTask.metadata.completions.join(
+					", "
+				)}]`
+			);
+		}
+
+		// 14. Calendar event backlink (inline field only)
+		if (updatedTask.metadata.icsUid) {
+			metadata.push(`[ics:: ${updatedTask.metadata.icsUid}]`);
+		}
+
+		// Append all metadata to the line
+		if (metadata.length > 0) {
+			updatedLine = updatedLine.trim(); // Trim first to remove trailing space before adding metadata
+			updatedLine = `${updatedLine} ${metadata.join(" ")}`;
+		}
+
+		// Ensure indentation is preserved
+		if (indentation && !updatedLine.startsWith(indentation)) {
+			updatedLine = `${indentation}${updatedLine.trimStart()}`;
+		}
+
+		return updatedLine;
+	}
+
+	/**
+	 * Put an updated task line in place. Completing a recurring task adds its
+	 * next occurrence and 🏁 delete removes the completed line.
+	 */
+	private applyUpdatedTaskLine(
+		lines: string[],
+		originalTask: Task,
+		updatedTask: Task,
+		updatedLine: string
+	): void {
+		// Check if this is a completion of a recurring task
+		const isCompletingRecurringTask =
+			!originalTask.completed &&
+			updatedTask.completed &&
+			updatedTask.metadata.recurrence;
+		const indentation = updatedLine.match(/^\s*/)![0];
+
+		lines[updatedTask.line] = updatedLine;
+
+		// If this is a completed recurring task, create a new task with updated dates
+		if (isCompletingRecurringTask) {
+			try {
+				const historyMode =
+					this.plugin.settings.recurrenceHistory || "none";
+				const historyLimit =
+					this.plugin.settings.recurrenceHistoryLimit ?? 10;
+				const completionDate = this.formatDateForDisplay(
+					updatedTask.metadata.completedDate || Date.now()
+				);
+				// 🏁 delete, or a history that stands in for the
+				// completed line, replaces it with the next occurrence
+				const keepCompleted =
+					updatedTask.metadata.onCompletion === "keep" ||
+					(updatedTask.metadata.onCompletion !== "delete" &&
+						historyMode === "none");
+
+				const newTaskLine = this.createRecurringTask(
+					updatedTask,
+					indentation,
+					historyMode === "property"
+						? appendCompletionHistory(
+								updatedTask.metadata.completions,
+								completionDate,
+								historyLimit
+						  )
+						: undefined
+				);
+
+				if (keepCompleted) {
+					// Insert the new task line after the current task
+					lines.splice(updatedTask.line + 1, 0, newTaskLine);
+				} else {
+					lines[updatedTask.line] = newTaskLine;
+					if (historyMode === "children") {
+						insertCompletionHistoryLine(
+							lines,
+							updatedTask.line,
+							indentation,
+							completionDate,
+							historyLimit
+						);
+					}
+				}
+				this.log(
+					`Created new recurring task after line ${updatedTask.line}`
+				);
+			} catch (error) {
+				console.error("Error creating recurring task:", error);
+			}
+		} else if (
+			updatedTask.completed &&
+			!originalTask.completed &&
+			updatedTask.metadata.onCompletion === "delete"
+		) {
+			lines.splice(updatedTask.line, 1);
+			this.log(
+				`Removed completed task ${updatedTask.id} (🏁 delete)`
+			);
+		}
+	}
+
+	/**
+	 * Delete a task's line from its markdown file.
+	 * Child lines are left in place; canvas and file metadata tasks are not supported.
+	 */
+	public async deleteTask(task: Task): Promise<void> {
+		const originalTask = this.indexer.getTaskById(task.id);
+		if (!originalTask) {
+			throw new Error(`Task with ID ${task.id} not found`);
+		}
+
+		if (
+			CanvasTaskUpdater.isCanvasTask(originalTask) ||
+			(this.fileMetadataUpdater &&
+				this.fileMetadataUpdater.isFileMetadataTask(originalTask))
+		) {
+			throw new Error(
+				`Task ${task.id} is not a markdown task and cannot be deleted`
+			);
+		}
+
+		const file = this.vault.getFileByPath(originalTask.filePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`File not found: ${originalTask.filePath}`);
+		}
+
+		const content = await this.vault.read(file);
+		const lines = content.split("\n");
+		const taskLine = lines[originalTask.line];
+		// Refuse to delete if the line no longer holds this task
+		if (
+			taskLine === undefined ||
+			taskLine.trim() !== originalTask.originalMarkdown.trim()
+		) {
+			throw new Error(
+				`Task line ${originalTask.line} in ${originalTask.filePath} has changed`
+			);
+		}
+
+		lines.splice(originalTask.line, 1);
+		const updatedContent = lines.join("\n");
+		await this.vault.modify(file, updatedContent);
+		this.recordEdit("Delete task", [
+			getLineChange(file.path, content, updatedContent),
+		]);
+		this.log(`Deleted task ${task.id} from ${originalTask.filePath}`);
+
+		try {
+			await this.indexFile(file);
+		} catch (indexError) {
+			console.error(
+				`Failed to re-index file ${originalTask.filePath} after task deletion:`,
+				indexError
+			);
+		}
+	}
+
+	/**
+	 * Update several tasks with one write per file. The markdown edits are
+	 * undone in one step, also the ones written before a file failed;
+	 * canvas and file metadata tasks are updated one by one and can't be
+	 * undone. Returns the number of updated tasks.
+	 */
+	public async updateTasks(updatedTasks: Task[]): Promise<number> {
+		const byFile = new Map<string, { original: Task; updated: Task }[]>();
+		let count = 0;
+
+		for (const updatedTask of updatedTasks) {
+			const originalTask = this.indexer.getTaskById(updatedTask.id);
+			if (!originalTask || isRecurrenceGhost(updatedTask)) continue;
+
+			if (!this.isMarkdownTask(originalTask)) {
+				await this.updateTask(updatedTask);
+				count++;
+				continue;
+			}
+			const edits = byFile.get(originalTask.filePath) ?? [];
+			edits.push({ original: originalTask, updated: updatedTask });
+			byFile.set(originalTask.filePath, edits);
+		}
+
+		const changes: TaskLineChange[] = [];
+		// Keep what was written for undo, also when a file failed
+		try {
+			for (const [filePath, edits] of byFile) {
+				const file = this.vault.getFileByPath(filePath);
+				if (!file) continue;
+
+				await this.processTaskFile(file, changes, (lines) => {
+					// Bottom up, so added and removed lines don't move the
+					// others
+					edits
+						.sort((a, b) => b.original.line - a.original.line)
+						.forEach(({ original, updated }) => {
+							const taskLine = lines[original.line];
+							if (!this.isLineOfTask(taskLine, original)) return;
+
+							const updatedLine = this.buildUpdatedTaskLine(
+								original,
+								updated,
+								taskLine
+							);
+							if (updatedLine !== taskLine) {
+								this.applyUpdatedTaskLine(
+									lines,
+									original,
+									updated,
+									updatedLine
+								);
+							}
+							if (updated.completed && !original.completed) {
+								this.app.workspace.trigger(
+									"task-genius:task-completed",
+									updated
+								);
+							}
+							count++;
+						});
+				});
+			}
+		} finally {
+			this.recordEdit("Bulk edit", changes);
+		}
+		return count;
+	}
+
+	/**
+	 * Delete the lines of several markdown tasks with one write per file,
+	 * child lines are left in place like deleteTask does
+	 */
+	public async deleteTasks(tasks: Task[]): Promise<number> {
+		const byFile = this.groupMarkdownTasks(tasks);
+		const changes: TaskLineChange[] = [];
+		let count = 0;
+
+		// Keep what was written for undo, also when a file failed
+		try {
+			for (const [filePath, fileTasks] of byFile) {
+				const file = this.vault.getFileByPath(filePath);
+				if (!file) continue;
+
+				await this.processTaskFile(file, changes, (lines) => {
+					fileTasks
+						.sort((a, b) => b.line - a.line)
+						.forEach((task) => {
+							if (!this.isLineOfTask(lines[task.line], task)) {
+								return;
+							}
+							lines.splice(task.line, 1);
+							count++;
+						});
+				});
+			}
+		} finally {
+			this.recordEdit("Delete tasks", changes);
+		}
+		return count;
+	}
+
+	/**
+	 * Move several markdown tasks with their subtasks to the end of a file,
+	 * which is created when missing. One write per file.
+	 */
+	public async moveTasks(tasks: Task[], targetPath: string): Promise<number> {
+		const selectedIds = new Set(tasks.map((task) => task.id));
+		// Subtasks of a moved task go along with it
+		const hasSelectedParent = (task: Task): boolean => {
+			const parent = task.metadata.parent
+				? this.indexer.getTaskById(task.metadata.parent)
+				: undefined;
+			return (
+				!!parent &&
+				(selectedIds.has(parent.id) || hasSelectedParent(parent))
+			);
+		};
+		const byFile = this.groupMarkdownTasks(
+			tasks.filter(
+				(task) =>
+					task.filePath !== targetPath && !hasSelectedParent(task)
+			)
+		);
+
+		const blocks: { task: Task; lines: string[] }[] = [];
+		for (const [filePath, fileTasks] of byFile) {
+			const file = this.vault.getFileByPath(filePath);
+			if (!file) continue;
+
+			const lines = (await this.vault.read(file)).split("\n");
+			fileTasks
+				.sort((a, b) => a.line - b.line)
+				.forEach((task) => {
+					if (!this.isLineOfTask(lines[task.line], task)) return;
+					const block = lines.slice(
+						task.line,
+						getTaskBlockEnd(lines, task.line)
+					);
+					const indentation = block[0].match(/^\s*/)![0];
+					blocks.push({
+						task,
+						lines: block.map((line) =>
+							line.startsWith(indentation)
+								? line.slice(indentation.length)
+								: line
+						),
+					});
+				});
+		}
+		if (blocks.length === 0) return 0;
+
+		const changes: TaskLineChange[] = [];
+		const movedLines = blocks.flatMap((block) => block.lines);
+		// Keep what was written for undo, also when a file failed
+		try {
+			const target = this.vault.getFileByPath(targetPath);
+			if (target) {
+				await this.processTaskFile(target, changes, (lines) => {
+					if (lines[lines.length - 1] === "") lines.pop();
+					lines.push(...movedLines, "");
+				});
+			} else {
+				const content = movedLines.join("\n") + "\n";
+				await this.createTaskFile(targetPath, content);
+				// Undoing the move deletes the file again
+				changes.push({
+					...getLineChange(targetPath, "", content)!,
+					file: "created",
+				});
+			}
+
+			// Remove the blocks that are still where they were read
+			for (const [filePath] of byFile) {
+				const file = this.vault.getFileByPath(filePath);
+				const fileBlocks = blocks.filter(
+					(block) => block.task.filePath === filePath
+				);
+				if (!file || fileBlocks.length === 0) continue;
+
+				await this.processTaskFile(file, changes, (lines) => {
+					fileBlocks
+						.sort((a, b) => b.task.line - a.task.line)
+						.forEach(({ task }) => {
+							if (!this.isLineOfTask(lines[task.line], task)) {
+								return;
+							}
+							lines.splice(
+								task.line,
+								getTaskBlockEnd(lines, task.line) - task.line
+							);
+						});
+				});
+			}
+		} finally {
+			this.recordEdit("Move tasks", changes);
+		}
+		return blocks.length;
+	}
+
+	/**
+	 * The edit undoTaskEdit would revert, if any
+	 */
+	public getUndoEdit(): TaskEditEntry | undefined {
+		return this.editJournal.peekUndo();
+	}
+
+	/**
+	 * The edit redoTaskEdit would apply again, if any
+	 */
+	public getRedoEdit(): TaskEditEntry | undefined {
+		return this.editJournal.peekRedo();
+	}
+
+	/**
+	 * Revert the last task edit. Refuses when a file it changed was edited
+	 * since.
+	 */
+	public async undoTaskEdit(): Promise<TaskEditEntry> {
+		const entry = this.editJournal.peekUndo();
+		if (!entry) {
+			throw new Error("There is no task edit to undo");
+		}
+
+		await this.applyLineChanges(
+			[...entry.changes].reverse().map(invertLineChange)
+		);
+		this.editJournal.markUndone();
+		return entry;
+	}
+
+	/**
+	 * Apply the last undone task edit again. Refuses when a file it changed
+	 * was edited since the undo.
+	 */
+	public async redoTaskEdit(): Promise<TaskEditEntry> {
+		const entry = this.editJournal.peekRedo();
+		if (!entry) {
+			throw new Error("There is no task edit to redo");
+		}
+
+		await this.applyLineChanges(entry.changes);
+		this.editJournal.markRedone();
+		return entry;
+	}
+
+	private recordEdit(label: string, changes: (TaskLineChange | null)[]) {
+		this.editJournal.record(
+			label,
+			changes.filter((change): change is TaskLineChange => !!change)
+		);
+	}
+
+	/**
+	 * Write line changes, from their before to their after lines. All files
+	 * are checked before any is written, each has to be just as the change
+	 * left it.
+	 */
+	private async applyLineChanges(changes: TaskLineChange[]): Promise<void> {
+		for (const change of changes) {
+			const file = this.vault.getFileByPath(change.filePath);
+			const reverted = invertLineChange(change);
+			let canApply: boolean;
+			if (change.file === "created") {
+				canApply = !this.vault.getAbstractFileByPath(change.filePath);
+			} else {
+				canApply =
+					!!file &&
+					revertLineChange(await this.vault.read(file), reverted) !==
+						null;
+			}
+			if (!canApply) {
+				throw new Error(
+					`${change.filePath} has changed since the edit was made`
+				);
+			}
+		}
+
+		for (const change of changes) {
+			const reverted = invertLineChange(change);
+			if (change.file === "created") {
+				await this.createTaskFile(
+					change.filePath,
+					revertLineChange("", reverted) ?? ""
+				);
+				continue;
+			}
+
+			const file = this.vault.getFileByPath(change.filePath);
+			if (!file) continue;
+			await this.vault.process(
+				file,
+				(data) => revertLineChange(data, reverted) ?? data
+			);
+			if (
+				change.file === "deleted" &&
+				(await this.vault.read(file)).trim() === ""
+			) {
+				await this.vault.delete(file);
+				continue;
+			}
+			await this.reindexAfterEdit(file);
+		}
+	}
+
+	/**
+	 * Create a file for moved tasks, with its folder when that is missing
+	 */
+	private async createTaskFile(path: string, content: string) {
+		const folder = path.split("/").slice(0, -1).join("/");
+		if (folder && !this.vault.getAbstractFileByPath(folder)) {
+			await this.vault.createFolder(folder);
+		}
+		const created = await this.vault.create(path, content);
+		await this.reindexAfterEdit(created);
+	}
+
+	/**
+	 * Edit the lines of a file in one write and keep the change for undo
+	 */
+	private async processTaskFile(
+		file: TFile,
+		changes: TaskLineChange[],
+		edit: (lines: string[]) => void
+	): Promise<void> {
+		let change = null as TaskLineChange | null;
+		await this.vault.process(file, (data) => {
+			const lines = data.split("\n");
+			edit(lines);
+			const content = lines.join("\n");
+			change = getLineChange(file.path, data, content);
+			return content;
+		});
+
+		if (change) {
+			changes.push(change);
+			await this.reindexAfterEdit(file);
+		}
+	}
+
+	private async reindexAfterEdit(file: TFile) {
+		try {
+			await this.indexFile(file);
+		} catch (indexError) {
+			console.error(
+				`Failed to re-index file ${file.path} after task edit:`,
+				indexError
+			);
+		}
+	}
+
+	private groupMarkdownTasks(tasks: Task[]): Map<string, Task[]> {
+		const byFile = new Map<string, Task[]>();
+		for (const task of tasks) {
+			const originalTask = this.indexer.getTaskById(task.id);
+			if (!originalTask || !this.isMarkdownTask(originalTask)) continue;
+			byFile.set(originalTask.filePath, [
+				...(byFile.get(originalTask.filePath) ?? []),
+				originalTask,
+			]);
+		}
+		return byFile;
+	}
+
+	/**
+	 * Whether a task is a line of a markdown file. Only edits of those go
+	 * into the undo journal, canvas and file metadata tasks are written
+	 * without it.
+	 */
+	public isMarkdownTask(task: Task): boolean {
+		return !(
+			CanvasTaskUpdater.isCanvasTask(task) ||
+			(this.fileMetadataUpdater &&
+				this.fileMetadataUpdater.isFileMetadataTask(task)) ||
+			isRecurrenceGhost(task)
+		);
+	}
+
+	// The line still holds the task as it was indexed
+	private isLineOfTask(line: string | undefined, task: Task): boolean {
+		return (
+			line !== undefined &&
+			line.trim() === task.originalMarkdown.trim()
+		);
+	}
+
+	/**
+	 * Creates a new task line based on a completed recurring task
+	 */
+	private createRecurringTask(
+		completedTask: Task,
+		indentation: string,
+		completions?: string[]
+	): string {
+		// Calculate the next due date based on the recurrence pattern
+		const nextDate = this.calculateNextDueDate(completedTask);
+
+		// Create a new task with the same content but updated dates
+		const newTask = {
+			...completedTask,
+			metadata: this.moveToNextOccurrence(
+				completedTask.metadata,
+				nextDate
+			),
+		};
+
+		// Reset completion status and date
+		newTask.completed = false;
+		newTask.metadata.completedDate = undefined;
+
+		const useDataviewFormat =
+			this.plugin.settings.preferMetadataFormat === "dataview";
+
+		// Format dates for task markdown, with their time of day and the
+		// duration written the way the completed task had it
+		const { formatDateTime, formatDuration } = this.getTaskDateFormatter(
+			completedTask,
+			completedTask.metadata.duration,
+			useDataviewFormat
+		);
+		const formattedDueDate = formatDateTime(
+			"dueDate",
+			newTask.metadata.dueDate
+		);
+
+		// For scheduled date, use the new calculated date if that's what was updated
+		const formattedScheduledDate = formatDateTime(
+			"scheduledDate",
+			newTask.metadata.scheduledDate
+		);
+
+		// For other dates, copy the original ones if they exist
+		const formattedStartDate = formatDateTime(
+			"startDate",
+			completedTask.metadata.startDate
+		);
+
+		// Extract the original list marker (-, *, 1., etc.) from the original markdown
+		let listMarker = "- ";
+		if (completedTask.originalMarkdown) {
+			// Match the list marker pattern: could be "- ", "* ", "1. ", etc.
+			const listMarkerMatch = completedTask.originalMarkdown.match(
+				/^(\s*)([*\-+]|\d+\.)\s+\[/
+			);
+			if (listMarkerMatch && listMarkerMatch[2]) {
+				listMarker = listMarkerMatch[2] + " ";
+
+				// If it's a numbered list, increment the number
+				if (/^\d+\.$/.test(listMarkerMatch[2])) {
+					const numberStr = listMarkerMatch[2].replace(/\.$/, "");
+					const number = parseInt(numberStr);
+					listMarker = number + 1 + ". ";
+				}
+			}
+		}
+
+		// Extract clean content without any existing tags, project tags, or context tags
+		let cleanContent = completedTask.content;
+
+		// Remove all tags from the content to avoid duplication
+		if (
+			completedTask.metadata.tags &&
+			completedTask.metadata.tags.length > 0
+		) {
+			// Get a unique list of tags to avoid processing duplicates
+			const uniqueTags = [...new Set(completedTask.metadata.tags)];
+
+			// Remove each tag from the content
+			for (const tag of uniqueTags) {
 				// Create a regex that looks for the tag preceded by whitespace or at start, and followed by whitespace or end
 				// Don't use \b as it doesn't work with Unicode characters like Chinese
 				const tagRegex = new RegExp(
@@ -2203,6 +2988,13 @@ export class TaskManager extends Component {
 					: `🔁 ${completedTask.metadata.recurrence}`
 			);
 		}
+		if (completedTask.metadata.onCompletion) {
+			metadata.push(
+				useDataviewFormat
+					? `[onCompletion:: ${completedTask.metadata.onCompletion}]`
+					: `🏁 ${completedTask.metadata.onCompletion}`
+			);
+		}
 
 		// 6. Start Date
 		if (formattedStartDate) {
@@ -2231,30 +3023,101 @@ export class TaskManager extends Component {
 			);
 		}
 
+		// 9. Dependencies - the id stays with the completed task so it stays unique
+		if (
+			completedTask.metadata.dependsOn &&
+			completedTask.metadata.dependsOn.length > 0
+		) {
+			const dependsOn = completedTask.metadata.dependsOn.join(",");
+			metadata.push(
+				useDataviewFormat
+					? `[dependsOn:: ${dependsOn}]`
+					: `⛔ ${dependsOn}`
+			);
+		}
+
+		// 10. Duration, unless it is the end time of a date
+		const formattedDuration = formatDuration();
+		if (formattedDuration) {
+			metadata.push(formattedDuration);
+		}
+
+		// 11. Completion history
+		if (completions && completions.length > 0) {
+			metadata.push(`[completions:: ${completions.join(", ")}]`);
+		}
+
 		// Append all metadata to the line
 		if (metadata.length > 0) {
 			newTaskLine = `${newTaskLine} ${metadata.join(" ")}`;
 		}
 
-		console.log(newTaskLine);
-
 		return newTaskLine;
 	}
 
 	/**
-	 * Calculates the next due date based on recurrence pattern
+	 * Metadata with the recurring date moved to the next occurrence: the due
+	 * date, or the scheduled date for tasks that only have one. The date
+	 * keeps its time of day.
 	 */
-	private calculateNextDueDate(task: Task): number | undefined {
-		if (!task.metadata.recurrence) return undefined;
+	private moveToNextOccurrence(
+		metadata: Task["metadata"],
+		nextDate: number | undefined
+	): Task["metadata"] {
+		if (metadata.dueDate) {
+			return {
+				...metadata,
+				dueDate: withTimeOfDay(nextDate, metadata.dueDate),
+			};
+		} else if (metadata.scheduledDate) {
+			return {
+				...metadata,
+				scheduledDate: withTimeOfDay(nextDate, metadata.scheduledDate),
+				dueDate: undefined,
+			};
+		}
+		return { ...metadata, dueDate: nextDate };
+	}
+
+	/**
+	 * Skip the current occurrence of a recurring task: move it to the next
+	 * occurrence without completing it
+	 */
+	public async skipOccurrence(task: Task): Promise<void> {
+		if (!task.metadata.recurrence) {
+			throw new Error(`Task ${task.id} is not a recurring task`);
+		}
+
+		// Count from the occurrence being skipped, not from today
+		const nextDate = this.calculateNextDueDate(
+			task,
+			task.metadata.dueDate ?? task.metadata.scheduledDate
+		);
+		await this.updateTask({
+			...task,
+			metadata: this.moveToNextOccurrence(task.metadata, nextDate),
+		});
+	}
 
-		console.log(task);
+	/**
+	 * Calculates the next due date based on recurrence pattern.
+	 * Counts from `fromDate` when given, otherwise from the date chosen in
+	 * the recurrence date base setting.
+	 */
+	private calculateNextDueDate(
+		task: Task,
+		fromDate?: number
+	): number | undefined {
+		if (!task.metadata.recurrence) return undefined;
 
 		// Determine base date based on user settings
 		let baseDate: Date;
 		const recurrenceDateBase =
 			this.plugin.settings.recurrenceDateBase || "due";
 
-		if (recurrenceDateBase === "current") {
+		if (fromDate !== undefined) {
+			baseDate = new Date(fromDate);
+		} else if (recurrenceDateBase === "current") {
 			// Always use current date
 			baseDate = new Date();
 		} else if (
@@ -2271,237 +3134,86 @@ export class TaskManager extends Component {
 			baseDate = new Date();
 		}
 
-		// Ensure baseDate is at the beginning of the day for date-based recurrence
-		baseDate.setHours(0, 0, 0, 0);
-
-		try {
-			// Attempt to parse using rrule first
-			try {
-				// Use the task's recurrence string directly if it's a valid RRULE string
-				// Provide dtstart to rrulestr for context, especially for rules that might depend on the start date.
-				const rule = rrulestr(task.metadata.recurrence, {
-					dtstart: baseDate,
-				});
-
-				// We want the first occurrence strictly *after* the baseDate.
-				// Adding a small time offset ensures we get the next instance even if baseDate itself is an occurrence.
-				const afterDate = new Date(baseDate.getTime() + 1000); // 1 second after baseDate
-				const nextOccurrence = rule.after(afterDate); // Find the first occurrence after this adjusted date
-
-				if (nextOccurrence) {
-					// Set time to start of day, assuming date-only recurrence for now
-					nextOccurrence.setHours(0, 0, 0, 0);
-					this.log(
-						`Calculated next date using rrule for '${
-							task.metadata.recurrence
-						}': ${nextOccurrence.toISOString()}`
-					);
-					return nextOccurrence.getTime();
-				} else {
-					// No next occurrence found by rrule (e.g., rule has COUNT and finished)
-					this.log(
-						`[TaskManager] rrule couldn't find next occurrence for rule: ${task.metadata.recurrence}. Falling back.`
-					);
-					// Fall through to simple logic below
-				}
-			} catch (e) {
-				// rrulestr failed, likely not a standard RRULE format. Fall back to simple parsing.
-				if (e instanceof Error) {
-					this.log(
-						`[TaskManager] Failed to parse recurrence '${task.metadata.recurrence}' with rrule. Falling back to simple logic. Error: ${e.message}`
-					);
-				} else {
-					this.log(
-						`[TaskManager] Failed to parse recurrence '${task.metadata.recurrence}' with rrule. Falling back to simple logic. Unknown error.`
-					);
-				}
-			}
-
-			// --- Fallback Simple Parsing Logic ---
-			this.log(
-				`[TaskManager] Using fallback logic for recurrence: ${task.metadata.recurrence}`
-			);
-			const recurrence = task.metadata.recurrence.trim().toLowerCase();
-			let nextDate = new Date(baseDate); // Start calculation from the base date
-
-			// Calculate the next date based on the recurrence pattern
-			const monthOnDayRegex =
-				/every\s+month\s+on\s+the\s+(\d+)(st|nd|rd|th)/i;
-			const monthOnDayMatch = recurrence.match(monthOnDayRegex);
-
-			if (monthOnDayMatch) {
-				const dayOfMonth = parseInt(monthOnDayMatch[1]);
-				if (!isNaN(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31) {
-					// Clone the base date for calculation
-					const nextMonthDate = new Date(baseDate.getTime());
-
-					// Move to the next month
-					nextMonthDate.setMonth(nextMonthDate.getMonth() + 1);
-					// Set to the specified date
-					nextMonthDate.setDate(dayOfMonth);
-
-					// Check if we need to move to the next month
-					// If the base date's date has already passed the specified date and it's the same month, use the next month's corresponding date
-					// If the base date's date hasn't passed the specified date and it's the same month, use the current month's corresponding date
-					if (baseDate.getDate() < dayOfMonth) {
-						// The base date hasn't passed the specified date, use the current month's date
-						nextMonthDate.setMonth(baseDate.getMonth());
-					}
-
-					// Validate the date (handle 2/30, etc.)
-					if (nextMonthDate.getDate() !== dayOfMonth) {
-						// Invalid date, use the last day of the month
-						nextMonthDate.setDate(0);
-					}
+		const nextDate = calculateNextOccurrence(
+			task.metadata.recurrence,
+			baseDate
+		);
+		this.log(
+			`Calculated next date for '${task.metadata.recurrence}': ${new Date(
+				nextDate
+			).toISOString()}`
+		);
+		return nextDate;
+	}
 
-					nextDate = nextMonthDate;
-				} else {
-					this.log(
-						`[TaskManager] Invalid day of month: ${dayOfMonth}`
-					);
-					// Fall back to +1 day
-					nextDate.setDate(baseDate.getDate() + 1);
-				}
-			}
-			// Parse "every X days/weeks/months/years" format
-			else if (recurrence.startsWith("every")) {
-				const parts = recurrence.split(" ");
-				if (parts.length >= 2) {
-					let interval = 1;
-					let unit = parts[1];
-					if (parts.length >= 3 && !isNaN(parseInt(parts[1]))) {
-						interval = parseInt(parts[1]);
-						unit = parts[2];
-					}
-					if (unit.endsWith("s")) {
-						unit = unit.substring(0, unit.length - 1);
-					}
-					switch (unit) {
-						case "day":
-							const dayBasedNextDate = new Date(
-								baseDate.getTime()
-							);
-							dayBasedNextDate.setDate(
-								dayBasedNextDate.getDate() + interval
-							);
-							nextDate = dayBasedNextDate;
-							break;
-						case "week":
-							nextDate.setDate(baseDate.getDate() + interval * 7);
-							break;
-						case "month":
-							const monthBasedNextDate = new Date(
-								baseDate.getTime()
-							);
-							monthBasedNextDate.setMonth(
-								monthBasedNextDate.getMonth() + interval
-							);
+	/**
+	 * Formatters for the due, start and scheduled dates and the duration of
+	 * a rewritten task line, in the form the original line used: a duration
+	 * read from an end time (📅 2025-03-01 14:30-16:00) goes back on that
+	 * date, a [duration::] field is kept as written while it is unchanged.
+	 * Format the dates before the duration.
+	 */
+	private getTaskDateFormatter(
+		originalTask: Task,
+		duration: number | undefined,
+		useDataviewFormat: boolean
+	): {
+		formatDateTime: (
+			field: TaskDateField,
+			date: number | undefined
+		) => string | undefined;
+		formatDuration: () => string | undefined;
+	} {
+		const separator = useDataviewFormat ? "T" : " ";
+		const markdown = originalTask.originalMarkdown || "";
+		const durationField = markdown.match(/\[duration::\s*[^\]]+\]/i)?.[0];
+		const endTimeField = durationField
+			? undefined
+			: this.getEndTimeDateField(markdown);
+		let durationInEndTime = false;
 
-							// Check if the date has changed
-							nextDate = monthBasedNextDate;
-							break;
-						case "year":
-							nextDate.setFullYear(
-								baseDate.getFullYear() + interval
-							);
-							break;
-						default:
-							this.log(
-								`[TaskManager] Unknown unit in recurrence '${recurrence}'. Defaulting to days.`
-							);
-							// 同样使用克隆日期对象进行计算
-							const defaultNextDate = new Date(
-								baseDate.getTime()
-							);
-							defaultNextDate.setDate(
-								defaultNextDate.getDate() + interval
-							);
-							nextDate = defaultNextDate;
-					}
-				} else {
-					// Malformed "every" rule, fallback to +1 day from baseDate
-					this.log(
-						`[TaskManager] Malformed 'every' rule '${recurrence}'. Defaulting to next day.`
+		return {
+			formatDateTime: (field, date) => {
+				if (!date) return undefined;
+				if (field === endTimeField && duration) {
+					const range = formatLocalTimeRange(
+						date,
+						duration,
+						separator
 					);
-					const fallbackNextDate = new Date(baseDate.getTime());
-					fallbackNextDate.setDate(fallbackNextDate.getDate() + 1);
-					nextDate = fallbackNextDate;
-				}
-			}
-			// Handle specific weekday recurrences like "every Monday"
-			else if (
-				recurrence.includes("monday") ||
-				recurrence.includes("tuesday") ||
-				recurrence.includes("wednesday") ||
-				recurrence.includes("thursday") ||
-				recurrence.includes("friday") ||
-				recurrence.includes("saturday") ||
-				recurrence.includes("sunday")
-			) {
-				const weekdays: { [key: string]: number } = {
-					sunday: 0,
-					monday: 1,
-					tuesday: 2,
-					wednesday: 3,
-					thursday: 4,
-					friday: 5,
-					saturday: 6,
-				};
-				let targetDay = -1;
-				for (const [day, value] of Object.entries(weekdays)) {
-					if (recurrence.includes(day)) {
-						targetDay = value;
-						break;
-					}
-				}
-				if (targetDay >= 0) {
-					// Start calculation from the day *after* the baseDate
-					nextDate.setDate(baseDate.getDate() + 1);
-					while (nextDate.getDay() !== targetDay) {
-						nextDate.setDate(nextDate.getDate() + 1);
+					if (range) {
+						durationInEndTime = true;
+						return range;
 					}
-				} else {
-					// Malformed weekday rule, fallback to +1 day from baseDate
-					this.log(
-						`[TaskManager] Malformed weekday rule '${recurrence}'. Defaulting to next day.`
-					);
-					nextDate.setDate(baseDate.getDate() + 1);
 				}
-			} else {
-				// Unknown format, fallback to +1 day from baseDate
-				this.log(
-					`[TaskManager] Unknown recurrence format '${recurrence}'. Defaulting to next day.`
-				);
-				nextDate.setDate(baseDate.getDate() + 1);
-			}
+				return formatLocalDateTime(date, separator);
+			},
+			formatDuration: () => {
+				if (!duration || durationInEndTime) return undefined;
+				return durationField &&
+					duration === originalTask.metadata.duration
+					? durationField
+					: `[duration:: ${duration}m]`;
+			},
+		};
+	}
 
-			// Ensure the calculated date is at the start of the day
-			nextDate.setHours(0, 0, 0, 0);
-			this.log(
-				`Calculated next date using simple logic for '${
-					task.metadata.recurrence
-				}': ${nextDate.toISOString()}`
-			);
-			return nextDate.getTime();
-		} catch (error) {
-			console.error("Error calculating next date:", error);
-			// Default fallback: add one day to baseDate
-			const fallbackDate = new Date(baseDate);
-			fallbackDate.setDate(fallbackDate.getDate() + 1);
-			fallbackDate.setHours(0, 0, 0, 0);
-			if (task.metadata.recurrence) {
-				this.log(
-					`Error calculating next date for '${
-						task.metadata.recurrence
-					}'. Defaulting to ${fallbackDate.toISOString()}`
-				);
-			} else {
-				this.log(
-					`Error calculating next date for task without recurrence. Defaulting to ${fallbackDate.toISOString()}`
-				);
-			}
-			return fallbackDate.getTime();
-		}
+	/**
+	 * The date of a task line that has an end time, in the order the parser
+	 * reads the duration from them
+	 */
+	private getEndTimeDateField(markdown: string): TaskDateField | undefined {
+		const dateWithEndTime =
+			"\\s*\\d{4}-\\d{2}-\\d{2}[T ]\\d{1,2}:\\d{2}\\s*-\\s*\\d{1,2}:\\d{2}";
+		const markers: Record<TaskDateField, string> = {
+			dueDate: "(?:📅|\\[(?:due|🗓️)::)",
+			scheduledDate: "(?:⏳|\\[(?:scheduled|⏳)::)",
+			startDate: "(?:🛫|\\[(?:start|🛫)::)",
+		};
+		return (["dueDate", "scheduledDate", "startDate"] as const).find(
+			(field) =>
+				new RegExp(markers[field] + dateWithEndTime, "i").test(markdown)
+		);
 	}
 
 	/**
@@ -0,0 +1,248 @@
+import { App, Component, Menu, Notice, TFile } from "obsidian";
+import type TaskProgressBarPlugin from "../index";
+import { Task } from "../types/task";
+import {
+	TimeLogEntry,
+	TimeTrackingSession,
+	TimeTrackingSettings,
+} from "../types/time-tracking";
+import {
+	formatDurationMinutes,
+	formatElapsed,
+	getElapsedMinutes,
+	isTrackedTask,
+	sumLoggedMinutes,
+} from "./timeTrackingUtils";
+import { t } from "../translations/helper";
+
+/**
+ * Runs a single task timer at a time. The running session is stored in
+ * settings so it survives restarts; stopping it adds the elapsed minutes
+ * to the task's `[actualTime::]` field and appends to the time log.
+ */
+export class TimeTracker extends Component {
+	private plugin: TaskProgressBarPlugin;
+	private app: App;
+	private statusBarEl: HTMLElement | null = null;
+
+	constructor(plugin: TaskProgressBarPlugin) {
+		super();
+		this.plugin = plugin;
+		this.app = plugin.app;
+
+		// Older settings may not have the section, and the default log
+		// array must not be shared with DEFAULT_SETTINGS
+		const existing = plugin.settings.timeTracking;
+		plugin.settings.timeTracking = {
+			activeSession: existing?.activeSession ?? null,
+			timeLog: [...(existing?.timeLog ?? [])],
+		};
+	}
+
+	onload() {
+		this.statusBarEl = this.plugin.addStatusBarItem();
+		this.statusBarEl.addClass("task-genius-timer-status", "mod-clickable");
+		this.registerDomEvent(this.statusBarEl, "click", (event) => {
+			this.showStatusBarMenu(event);
+		});
+
+		this.updateStatusBar();
+		this.registerInterval(
+			window.setInterval(() => this.updateStatusBar(), 1000)
+		);
+	}
+
+	onunload() {
+		this.statusBarEl?.remove();
+		this.statusBarEl = null;
+	}
+
+	private get settings(): TimeTrackingSettings {
+		return this.plugin.settings.timeTracking;
+	}
+
+	public getActiveSession(): TimeTrackingSession | null {
+		return this.settings.activeSession;
+	}
+
+	public getTimeLog(): TimeLogEntry[] {
+		return this.settings.timeLog;
+	}
+
+	/**
+	 * Whether the timer is running for the given task, or at all
+	 */
+	public isTracking(task?: Task): boolean {
+		const session = this.settings.activeSession;
+		if (!session) return false;
+		if (!task) return true;
+		return isTrackedTask(session, task);
+	}
+
+	/**
+	 * Minutes logged for the given tasks, optionally since a timestamp
+	 */
+	public getLoggedMinutes(tasks: Task[], since?: number): number {
+		return sumLoggedMinutes(this.settings.timeLog, tasks, since);
+	}
+
+	/**
+	 * Start the timer for a task, stopping any running timer first
+	 */
+	public async start(task: Task): Promise<void> {
+		if (this.isTracking(task)) return;
+		if (this.settings.activeSession) {
+			await this.stop();
+		}
+
+		this.settings.activeSession = {
+			taskId: task.id,
+			filePath: task.filePath,
+			line: task.line,
+			content: task.content,
+			startedAt: Date.now(),
+		};
+		await this.plugin.saveSettings();
+
+		this.updateStatusBar();
+		this.app.workspace.trigger(
+			"task-genius:timer-changed",
+			this.settings.activeSession
+		);
+		new Notice(`${t("Timer started")}: ${task.content}`);
+	}
+
+	/**
+	 * Stop the running timer and write the elapsed minutes to the task.
+	 * Returns the number of minutes logged.
+	 */
+	public async stop(): Promise<number> {
+		const session = this.settings.activeSession;
+		if (!session) return 0;
+
+		const end = Date.now();
+		const minutes = getElapsedMinutes(session.startedAt, end);
+		const task = this.findSessionTask(session);
+
+		this.settings.activeSession = null;
+		if (minutes > 0) {
+			this.settings.timeLog.push({
+				taskId: task?.id ?? session.taskId,
+				filePath: session.filePath,
+				content: task?.content ?? session.content,
+				project:
+					task?.metadata.project ||
+					task?.metadata.tgProject?.name ||
+					undefined,
+				start: session.startedAt,
+				end,
+				minutes,
+			});
+		}
+		await this.plugin.saveSettings();
+
+		this.updateStatusBar();
+		this.app.workspace.trigger("task-genius:timer-changed", null);
+
+		if (minutes > 0 && task) {
+			try {
+				await this.plugin.taskManager.updateTask({
+					...task,
+					metadata: {
+						...task.metadata,
+						actualTime: (task.metadata.actualTime ?? 0) + minutes,
+					},
+				});
+			} catch (error) {
+				console.error("Failed to write tracked time:", error);
+				new Notice(t("Failed to update task"));
+				return minutes;
+			}
+		} else if (minutes > 0) {
+			new Notice(t("Task for the running timer was not found"));
+			return minutes;
+		}
+
+		new Notice(
+			`${t("Timer stopped")}: ${formatDurationMinutes(minutes)}`
+		);
+		return minutes;
+	}
+
+	public async toggle(task: Task): Promise<void> {
+		if (this.isTracking(task)) {
+			await this.stop();
+		} else {
+			await this.start(task);
+		}
+	}
+
+	/**
+	 * Find the task of a session. Line based ids go stale when lines move,
+	 * so fall back to matching the content within the file.
+	 */
+	private findSessionTask(session: TimeTrackingSession): Task | undefined {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager) return undefined;
+
+		const byId = taskManager.getTaskById(session.taskId);
+		if (byId && isTrackedTask(session, byId)) return byId;
+
+		const candidates = taskManager
+			.getTasksForFile(session.filePath)
+			.filter((task) => task.content === session.content);
+		if (candidates.length > 0) {
+			// Prefer the match closest to where the task used to be
+			return candidates.reduce((closest, task) =>
+				Math.abs(task.line - session.line) <
+				Math.abs(closest.line - session.line)
+					? task
+					: closest
+			);
+		}
+
+		return byId;
+	}
+
+	private updateStatusBar() {
+		if (!this.statusBarEl) return;
+		const session = this.settings.activeSession;
+		if (!session) {
+			this.statusBarEl.hide();
+			return;
+		}
+
+		this.statusBarEl.show();
+		this.statusBarEl.setText(
+			`⏱ ${formatElapsed(Date.now() - session.startedAt)}`
+		);
+		this.statusBarEl.setAttr("aria-label", session.content);
+	}
+
+	private showStatusBarMenu(event: MouseEvent) {
+		const session = this.settings.activeSession;
+		if (!session) return;
+
+		const menu = new Menu();
+		menu.addItem((item) => {
+			item.setTitle(t("Stop timer"));
+			item.setIcon("square");
+			item.onClick(() => this.stop());
+		});
+		menu.addItem((item) => {
+			item.setTitle(t("Go to task"));
+			item.setIcon("file-input");
+			item.onClick(() => this.openSessionTask(session));
+		});
+		menu.showAtMouseEvent(event);
+	}
+
+	private async openSessionTask(session: TimeTrackingSession) {
+		const task = this.findSessionTask(session);
+		const file = this.app.vault.getAbstractFileByPath(session.filePath);
+		if (!(file instanceof TFile)) return;
+		await this.app.workspace.getLeaf(false).openFile(file, {
+			eState: { line: task?.line ?? session.line },
+		});
+	}
+}
@@ -0,0 +1,244 @@
+/**
+ * Bulk edit
+ * Changes applied to every selected task of a view at once, and the line
+ * changes a bulk edit makes to a file so it can be undone
+ */
+
+import { TaskProgressBarSettings } from "../common/setting-definition";
+import { Task } from "../types/task";
+import { isProjectReadonly } from "./taskUtil";
+
+export type BulkDateField = "dueDate" | "startDate" | "scheduledDate";
+
+export type BulkTaskAction =
+	| { type: "status"; status: string }
+	| { type: "priority"; priority?: number }
+	| { type: "date"; field: BulkDateField; value: string }
+	| { type: "add-tags"; tags: string[] }
+	| { type: "remove-tags"; tags: string[] }
+	| { type: "project"; project?: string };
+
+/**
+ * Lines of a file an edit replaced: before were at line, after are there
+ * now
+ */
+export interface TaskLineChange {
+	filePath: string;
+	line: number;
+	before: string[];
+	after: string[];
+	/** Hashes of the whole file before and after the edit */
+	beforeHash: string;
+	afterHash: string;
+	/** The edit created the file, or deleted it when it was left empty */
+	file?: "created" | "deleted";
+}
+
+/**
+ * Date of a bulk date input: "2025-06-18", a shift of the current date such
+ * as "+3d", "-1w", "+2m" or "+1y" (from today when unset) that keeps its
+ * time of day, or empty to clear. Null when the input can't be read.
+ */
+export function resolveBulkDate(
+	input: string,
+	current?: number,
+	today: Date = new Date()
+): number | undefined | null {
+	const value = input.trim();
+	if (value === "") return undefined;
+
+	const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (absolute) {
+		const [, year, month, day] = absolute.map(Number);
+		return new Date(year, month - 1, day).getTime();
+	}
+
+	const shift = value.match(/^([+-])\s*(\d+)\s*([dwmy])$/i);
+	if (!shift) return null;
+
+	const amount = Number(shift[2]) * (shift[1] === "-" ? -1 : 1);
+	const date =
+		current !== undefined
+			? new Date(current)
+			: new Date(today.getFullYear(), today.getMonth(), today.getDate());
+	switch (shift[3].toLowerCase()) {
+		case "d":
+			date.setDate(date.getDate() + amount);
+			break;
+		case "w":
+			date.setDate(date.getDate() + amount * 7);
+			break;
+		case "m":
+			date.setMonth(date.getMonth() + amount);
+			break;
+		case "y":
+			date.setFullYear(date.getFullYear() + amount);
+			break;
+	}
+	return date.getTime();
+}
+
+/**
+ * Copy of a task with a bulk action applied, read-only projects are kept
+ */
+export function applyBulkAction(
+	task: Task,
+	action: BulkTaskAction,
+	settings: TaskProgressBarSettings,
+	now: number = Date.now()
+): Task {
+	const updated: Task = {
+		...task,
+		metadata: { ...task.metadata, tags: [...task.metadata.tags] },
+	};
+
+	switch (action.type) {
+		case "status": {
+			const completedMarks = (
+				settings.taskStatuses.completed || "x|X"
+			).split("|");
+			updated.status = action.status;
+			updated.completed = completedMarks.includes(action.status);
+			if (updated.completed && !task.completed) {
+				updated.metadata.completedDate = now;
+			} else if (!updated.completed) {
+				updated.metadata.completedDate = undefined;
+			}
+			break;
+		}
+		case "priority":
+			updated.metadata.priority = action.priority;
+			break;
+		case "date": {
+			const date = resolveBulkDate(
+				action.value,
+				task.metadata[action.field],
+				new Date(now)
+			);
+			if (date !== null) updated.metadata[action.field] = date;
+			break;
+		}
+		case "add-tags":
+			updated.metadata.tags = [
+				...new Set([
+					...updated.metadata.tags,
+					...action.tags.map(normalizeTag),
+				]),
+			];
+			break;
+		case "remove-tags": {
+			const removed = new Set(action.tags.map(normalizeTag));
+			updated.metadata.tags = updated.metadata.tags.filter(
+				(tag) => !removed.has(normalizeTag(tag))
+			);
+			break;
+		}
+		case "project":
+			if (!isProjectReadonly(task)) {
+				updated.metadata.project = action.project?.trim() || undefined;
+			}
+			break;
+	}
+
+	return updated;
+}
+
+/**
+ * The lines that differ between two versions of a file, null when they're
+ * the same
+ */
+export function getLineChange(
+	filePath: string,
+	before: string,
+	after: string
+): TaskLineChange | null {
+	if (before === after) return null;
+	const beforeLines = before.split("\n");
+	const afterLines = after.split("\n");
+
+	let start = 0;
+	while (
+		start < beforeLines.length &&
+		start < afterLines.length &&
+		beforeLines[start] === afterLines[start]
+	) {
+		start++;
+	}
+
+	let end = 0;
+	while (
+		end < beforeLines.length - start &&
+		end < afterLines.length - start &&
+		beforeLines[beforeLines.length - 1 - end] ===
+			afterLines[afterLines.length - 1 - end]
+	) {
+		end++;
+	}
+
+	return {
+		filePath,
+		line: start,
+		before: beforeLines.slice(start, beforeLines.length - end),
+		after: afterLines.slice(start, afterLines.length - end),
+		beforeHash: hashContent(before),
+		afterHash: hashContent(after),
+	};
+}
+
+/**
+ * Put the lines of a change back, null when the file was edited since
+ */
+export function revertLineChange(
+	content: string,
+	change: TaskLineChange
+): string | null {
+	if (hashContent(content) !== change.afterHash) return null;
+
+	const lines = content.split("\n");
+	const current = lines.slice(change.line, change.line + change.after.length);
+	if (
+		current.length !== change.after.length ||
+		current.some((line, i) => line !== change.after[i])
+	) {
+		return null;
+	}
+
+	lines.splice(change.line, change.after.length, ...change.before);
+	return lines.join("\n");
+}
+
+/**
+ * The change that goes back from the lines after a change to the lines
+ * before it, to apply a reverted change again
+ */
+export function invertLineChange(change: TaskLineChange): TaskLineChange {
+	const inverted = {
+		...change,
+		before: change.after,
+		after: change.before,
+		beforeHash: change.afterHash,
+		afterHash: change.beforeHash,
+	};
+	if (change.file) {
+		inverted.file = change.file === "created" ? "deleted" : "created";
+	}
+	return inverted;
+}
+
+/**
+ * FNV-1a hash of a file's content with its length, to tell whether it
+ * changed without keeping a copy
+ */
+function hashContent(content: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < content.length; i++) {
+		hash ^= content.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return `${content.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function normalizeTag(tag: string): string {
+	const trimmed = tag.trim();
+	return trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
+}
@@ -0,0 +1,238 @@
+/**
+ * Capture format
+ * Turns captured lines into tasks with the metadata of the capture, the
+ * way quick capture writes them
+ */
+
+import { TaskProgressBarSettings } from "../common/setting-definition";
+
+export interface TaskMetadata {
+	startDate?: Date;
+	dueDate?: Date;
+	scheduledDate?: Date;
+	priority?: number;
+	project?: string;
+	context?: string;
+	recurrence?: string;
+	status?: string;
+}
+
+export type CaptureFormatSettings = Pick<
+	TaskProgressBarSettings,
+	"preferMetadataFormat" | "projectTagPrefix" | "contextTagPrefix"
+>;
+
+/**
+ * Turn each top-level line into a task with the metadata, indented lines
+ * are kept as subtasks
+ */
+export function formatCapturedTasks(
+	content: string,
+	taskMetadata: TaskMetadata,
+	settings: CaptureFormatSettings
+): string {
+	// Split content into lines
+	const lines = content.split("\n");
+	const processedLines: string[] = [];
+	const indentationRegex = /^(\s+)/;
+	const metadata = formatTaskMetadata(taskMetadata, settings);
+
+	for (const line of lines) {
+		if (!line.trim()) {
+			processedLines.push(line);
+			continue;
+		}
+
+		// Check for indentation to identify sub-tasks
+		const indentMatch = line.match(indentationRegex);
+		const isSubTask = indentMatch && indentMatch[1].length > 0;
+
+		// Check if line is already a task or a list item
+		const isTaskOrList = line
+			.trim()
+			.match(/^(-|\d+\.|\*|\+)(\s+\[[^\]]+\])?/);
+
+		if (isSubTask) {
+			// Don't add metadata to sub-tasks
+			processedLines.push(line);
+		} else if (isTaskOrList) {
+			// If it's a task, add metadata
+			if (line.trim().match(/^(-|\d+\.|\*|\+)\s+\[[^\]]+\]/)) {
+				processedLines.push(addMetadataToTask(line, metadata));
+			} else {
+				// If it's a list item but not a task, convert to task and add metadata
+				const listPrefix = line.trim().match(/^(-|\d+\.|\*|\+)/)?.[0];
+				const restOfLine = line
+					.trim()
+					.substring(listPrefix?.length || 0)
+					.trim();
+
+				// Use the specified status or default to empty checkbox
+				const statusMark = taskMetadata.status || " ";
+				processedLines.push(
+					addMetadataToTask(
+						`${listPrefix} [${statusMark}] ${restOfLine}`,
+						metadata
+					)
+				);
+			}
+		} else {
+			// Not a list item or task, convert to task and add metadata
+			// Use the specified status or default to empty checkbox
+			const statusMark = taskMetadata.status || " ";
+			processedLines.push(
+				addMetadataToTask(`- [${statusMark}] ${line}`, metadata)
+			);
+		}
+	}
+
+	return processedLines.join("\n");
+}
+
+function addMetadataToTask(taskLine: string, metadata: string): string {
+	if (!metadata) return taskLine;
+
+	return `${taskLine} ${metadata}`.trim();
+}
+
+/**
+ * The metadata of a capture in the preferred format
+ */
+export function formatTaskMetadata(
+	taskMetadata: TaskMetadata,
+	settings: CaptureFormatSettings
+): string {
+	const metadata: string[] = [];
+	const useDataviewFormat = settings.preferMetadataFormat === "dataview";
+
+	// Format dates to strings in YYYY-MM-DD format
+	if (taskMetadata.startDate) {
+		const formattedStartDate = formatCaptureDate(taskMetadata.startDate);
+		metadata.push(
+			useDataviewFormat
+				? `[start:: ${formattedStartDate}]`
+				: `🛫 ${formattedStartDate}`
+		);
+	}
+
+	if (taskMetadata.dueDate) {
+		const formattedDueDate = formatCaptureDate(taskMetadata.dueDate);
+		metadata.push(
+			useDataviewFormat
+				? `[due:: ${formattedDueDate}]`
+				: `📅 ${formattedDueDate}`
+		);
+	}
+
+	if (taskMetadata.scheduledDate) {
+		const formattedScheduledDate = formatCaptureDate(
+			taskMetadata.scheduledDate
+		);
+		metadata.push(
+			useDataviewFormat
+				? `[scheduled:: ${formattedScheduledDate}]`
+				: `⏳ ${formattedScheduledDate}`
+		);
+	}
+
+	// Add priority if set
+	if (taskMetadata.priority) {
+		if (useDataviewFormat) {
+			// 使用 dataview 格式
+			let priorityValue: string | number;
+			switch (taskMetadata.priority) {
+				case 5:
+					priorityValue = "highest";
+					break;
+				case 4:
+					priorityValue = "high";
+					break;
+				case 3:
+					priorityValue = "medium";
+					break;
+				case 2:
+					priorityValue = "low";
+					break;
+				case 1:
+					priorityValue = "lowest";
+					break;
+				default:
+					priorityValue = taskMetadata.priority;
+			}
+			metadata.push(`[priority:: ${priorityValue}]`);
+		} else {
+			// 使用 emoji 格式
+			let priorityMarker = "";
+			switch (taskMetadata.priority) {
+				case 5:
+					priorityMarker = "🔺";
+					break; // Highest
+				case 4:
+					priorityMarker = "⏫";
+					break; // High
+				case 3:
+					priorityMarker = "🔼";
+					break; // Medium
+				case 2:
+					priorityMarker = "🔽";
+					break; // Low
+				case 1:
+					priorityMarker = "⏬";
+					break; // Lowest
+			}
+			if (priorityMarker) {
+				metadata.push(priorityMarker);
+			}
+		}
+	}
+
+	// Add project if set
+	if (taskMetadata.project) {
+		if (useDataviewFormat) {
+			const projectPrefix =
+				settings.projectTagPrefix[settings.preferMetadataFormat] ||
+				"project";
+			metadata.push(`[${projectPrefix}:: ${taskMetadata.project}]`);
+		} else {
+			const projectPrefix =
+				settings.projectTagPrefix[settings.preferMetadataFormat] ||
+				"project";
+			metadata.push(`#${projectPrefix}/${taskMetadata.project}`);
+		}
+	}
+
+	// Add context if set
+	if (taskMetadata.context) {
+		if (useDataviewFormat) {
+			const contextPrefix =
+				settings.contextTagPrefix[settings.preferMetadataFormat] ||
+				"context";
+			metadata.push(`[${contextPrefix}:: ${taskMetadata.context}]`);
+		} else {
+			const contextPrefix =
+				settings.contextTagPrefix[settings.preferMetadataFormat] || "@";
+			metadata.push(`${contextPrefix}${taskMetadata.context}`);
+		}
+	}
+
+	// Add recurrence if set
+	if (taskMetadata.recurrence) {
+		metadata.push(
+			useDataviewFormat
+				? `[repeat:: ${taskMetadata.recurrence}]`
+				: `🔁 ${taskMetadata.recurrence}`
+		);
+	}
+
+	return metadata.join(" ");
+}
+
+/**
+ * A date as YYYY-MM-DD in local time
+ */
+export function formatCaptureDate(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+		2,
+		"0"
+	)}-${String(date.getDate()).padStart(2, "0")}`;
+}
@@ -74,6 +74,108 @@ export function parseLocalDate(dateString: string): number | undefined {
 	return undefined;
 }
 
+// A date with an optional time and end time: 2025-03-01, 2025-03-01 14:30,
+// 2025-03-01T09:00 or 2025-03-01 14:30-16:00
+const DATE_TIME_REGEX =
+	/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{1,2}):(\d{2})(?:\s*-\s*(\d{1,2}):(\d{2}))?)?$/;
+
+/**
+ * Parse a task date value with an optional time of day. Dates without a
+ * time are at local midnight, an end time is left to getEndTimeDuration.
+ * @param value Date value such as "2025-03-01" or "2025-03-01 14:30"
+ * @returns Parsed date as a number or undefined if invalid
+ */
+export function parseLocalDateTime(value: string): number | undefined {
+	const match = value?.trim().match(DATE_TIME_REGEX);
+	if (!match) return parseLocalDate(value?.trim());
+
+	const date = parseLocalDate(match[1]);
+	if (date === undefined || match[2] === undefined) return date;
+
+	const hours = parseInt(match[2], 10);
+	const minutes = parseInt(match[3], 10);
+	if (hours > 23 || minutes > 59) return date;
+	return date + (hours * 60 + minutes) * 60 * 1000;
+}
+
+/**
+ * Minutes from the time to the end time of a date value, such as 90 for
+ * "2025-03-01 14:30-16:00"
+ */
+export function getEndTimeDuration(value: string): number | undefined {
+	const match = value?.trim().match(DATE_TIME_REGEX);
+	if (!match || match[4] === undefined) return undefined;
+
+	const start = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+	const end = parseInt(match[4], 10) * 60 + parseInt(match[5], 10);
+	return end > start ? end - start : undefined;
+}
+
+/**
+ * Whether a timestamp has a time of day, dates at local midnight are
+ * whole-day dates
+ */
+export function hasTimeOfDay(timestamp: number | undefined): boolean {
+	if (timestamp === undefined) return false;
+	const date = new Date(timestamp);
+	return date.getHours() !== 0 || date.getMinutes() !== 0;
+}
+
+/**
+ * Format a task date as YYYY-MM-DD, with the time of day when it has one
+ * @param separator Between date and time, " " for emoji and "T" for
+ * dataview dates
+ */
+export function formatLocalDateTime(
+	timestamp: number,
+	separator: " " | "T" = " "
+): string {
+	const date = new Date(timestamp);
+	const day = getLocalDateString(date);
+	if (!hasTimeOfDay(timestamp)) return day;
+
+	const hours = String(date.getHours()).padStart(2, "0");
+	const minutes = String(date.getMinutes()).padStart(2, "0");
+	return `${day}${separator}${hours}:${minutes}`;
+}
+
+/**
+ * The day of a date at the time of day of another timestamp, for moving
+ * timed task dates to another day
+ */
+export function withTimeOfDay(
+	day: number | undefined,
+	timeOf: number
+): number | undefined {
+	if (day === undefined) return undefined;
+	const date = new Date(day);
+	const time = new Date(timeOf);
+	date.setHours(time.getHours(), time.getMinutes(), 0, 0);
+	return date.getTime();
+}
+
+/**
+ * Format a timed task date with the end time of its duration, such as
+ * "2025-03-01 14:30-16:00". Undefined for dates without a time of day and
+ * durations that end on another day.
+ */
+export function formatLocalTimeRange(
+	timestamp: number,
+	duration: number,
+	separator: " " | "T" = " "
+): string | undefined {
+	if (!hasTimeOfDay(timestamp)) return undefined;
+
+	const start = new Date(timestamp);
+	const end = new Date(timestamp + duration * 60 * 1000);
+	if (getLocalDateString(end) !== getLocalDateString(start)) {
+		return undefined;
+	}
+	const hours = String(end.getHours()).padStart(2, "0");
+	const minutes = String(end.getMinutes()).padStart(2, "0");
+	return `${formatLocalDateTime(timestamp, separator)}-${hours}:${minutes}`;
+}
+
 /**
  * Get today's date in local timezone as YYYY-MM-DD format
  * This fixes the issue where using toISOString() can return yesterday's date
@@ -1,5 +1,6 @@
 import { App, getFrontMatterInfo, TFile } from "obsidian";
 import { QuickCaptureOptions } from "../editor-ext/quickCapture";
+import { getLineChange } from "./bulkEdit";
 import { moment } from "obsidian";
 
 /**
@@ -46,12 +47,21 @@ export function processDateTemplates(filePath: string): string {
 	});
 }
 
-// Save the captured content to the target file
+/** Where saveCapture wrote the captured content */
+export interface SavedCapture {
+	file: TFile;
+	/** Line of the first captured line */
+	line: number;
+}
+
+// Save the captured content to the target file, daily notes are picked by
+// date (default: today)
 export async function saveCapture(
 	app: App,
 	content: string,
-	options: QuickCaptureOptions
-): Promise<void> {
+	options: QuickCaptureOptions,
+	date: moment.Moment = moment()
+): Promise<SavedCapture> {
 	const {
 		targetFile,
 		appendToFile,
@@ -65,7 +75,7 @@ export async function saveCapture(
 	// Determine the target file path based on target type
 	if (targetType === "daily-note" && dailyNoteSettings) {
 		// Generate daily note file path
-		const dateStr = moment().format(dailyNoteSettings.format);
+		const dateStr = date.format(dailyNoteSettings.format);
 		const sanitizedDateStr = sanitizeFilename(dateStr);
 		const fileName = `${sanitizedDateStr}.md`;
 		filePath = dailyNoteSettings.folder
@@ -78,6 +88,8 @@ export async function saveCapture(
 	}
 
 	let file = app.vault.getFileByPath(filePath);
+	let before = "";
+	let after = "";
 
 	if (!file) {
 		// Create directory structure if needed
@@ -150,83 +162,101 @@ export async function saveCapture(
 
 		// Create the file
 		file = await app.vault.create(filePath, initialContent);
+		after = initialContent;
 	} else if (file instanceof TFile) {
 		// Append or replace content in existing file
 		await app.vault.process(file, (data) => {
-			// If heading is specified, try to add content under that heading
-			if (targetHeading) {
-				return addContentUnderHeading(
-					data,
-					content,
-					targetHeading,
-					appendToFile || "append"
-				);
-			}
+			before = data;
+			after = insertCapture(data, content, options);
+			return after;
+		});
+	} else {
+		throw new Error("Target is not a file");
+	}
+
+	// The captured lines start where the file first changed
+	const change = getLineChange(filePath, before, after);
+	const offset = change?.after.indexOf(content.split("\n")[0]) ?? -1;
+	return { file, line: (change?.line ?? 0) + Math.max(offset, 0) };
+}
+
+/**
+ * The content of an existing file with the capture added as the options say
+ */
+function insertCapture(
+	data: string,
+	content: string,
+	options: QuickCaptureOptions
+): string {
+	const { appendToFile, targetHeading } = options;
 
-			// Original logic for no heading specified
-			switch (appendToFile) {
-				case "append": {
-					// Get frontmatter information using Obsidian API
-					const fmInfo = getFrontMatterInfo(data);
+	// If heading is specified, try to add content under that heading
+	if (targetHeading) {
+		return addContentUnderHeading(
+			data,
+			content,
+			targetHeading,
+			appendToFile || "append"
+		);
+	}
 
-					// Add a newline before the new content if needed
-					const separator = data.endsWith("\n") ? "" : "\n";
+	// Original logic for no heading specified
+	switch (appendToFile) {
+		case "append": {
+			// Get frontmatter information using Obsidian API
+			const fmInfo = getFrontMatterInfo(data);
 
-					if (fmInfo.exists) {
-						// If frontmatter exists, use the contentStart position to append after it
-						const contentStartPos = fmInfo.contentStart;
+			// Add a newline before the new content if needed
+			const separator = data.endsWith("\n") ? "" : "\n";
 
-						if (contentStartPos !== undefined) {
-							const contentBeforeFrontmatter = data.slice(
-								0,
-								contentStartPos
-							);
-							const contentAfterFrontmatter =
-								data.slice(contentStartPos);
+			if (fmInfo.exists) {
+				// If frontmatter exists, use the contentStart position to append after it
+				const contentStartPos = fmInfo.contentStart;
 
-							return (
-								contentBeforeFrontmatter +
-								contentAfterFrontmatter +
-								separator +
-								content
-							);
-						} else {
-							// Fallback if we can't get the exact position
-							return data + separator + content;
-						}
-					} else {
-						// No frontmatter, just append to the end
-						return data + separator + content;
-					}
-				}
-				case "prepend": {
-					// Get frontmatter information
-					const fmInfo = getFrontMatterInfo(data);
-					const separator = "\n";
+				if (contentStartPos !== undefined) {
+					const contentBeforeFrontmatter = data.slice(
+						0,
+						contentStartPos
+					);
+					const contentAfterFrontmatter = data.slice(contentStartPos);
 
-					if (fmInfo.exists && fmInfo.contentStart !== undefined) {
-						// Insert after frontmatter but before content
-						return (
-							data.slice(0, fmInfo.contentStart) +
-							content +
-							separator +
-							data.slice(fmInfo.contentStart)
-						);
-					} else {
-						// No frontmatter, prepend to beginning
-						return content + separator + data;
-					}
+					return (
+						contentBeforeFrontmatter +
+						contentAfterFrontmatter +
+						separator +
+						content
+					);
+				} else {
+					// Fallback if we can't get the exact position
+					return data + separator + content;
 				}
-				case "replace":
-				default:
-					return content;
+			} else {
+				// No frontmatter, just append to the end
+				return data + separator + content;
 			}
-		});
-	} else {
-		throw new Error("Target is not a file");
-	}
+		}
+		case "prepend": {
+			// Get frontmatter information
+			const fmInfo = getFrontMatterInfo(data);
+			const separator = "\n";
 
-	return;
+			if (fmInfo.exists && fmInfo.contentStart !== undefined) {
+				// Insert after frontmatter but before content
+				return (
+					data.slice(0, fmInfo.contentStart) +
+					content +
+					separator +
+					data.slice(fmInfo.contentStart)
+				);
+			} else {
+				// No frontmatter, prepend to beginning
+				return content + separator + data;
+			}
+		}
+		case "replace":
+		default:
+			return content;
+	}
 }
 
 /**
@@ -0,0 +1,195 @@
+/**
+ * Habit sources
+ * Reads and writes habit values kept as inline fields in the note body or
+ * as dated list items, e.g. "- 2025-06-18 [read:: 1] [water:: 5]", in
+ * periodic notes and log files
+ */
+
+export type HabitFieldValue = string | number;
+
+const BRACKETED_FIELD = /[\[(]([^\[\]():]+?)::\s*([^\[\]()]*?)\s*[\])]/g;
+const LINE_FIELD = /^(\s*(?:[-*+]\s+)?)([^\s\[\]():][^\[\]():]*?)::\s*(.*?)\s*$/;
+const DATED_LINE =
+	/^\s*[-*+]\s+(?:\[.\]\s+)?(?:\[\[)?(\d{4}-\d{2}-\d{2})(?:\]\])?(.*)$/;
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Inline field values are text, numbers are read as numbers like they are
+ * in frontmatter
+ */
+export function parseFieldValue(value: string): HabitFieldValue {
+	const trimmed = value.trim();
+	return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+/**
+ * Inline fields of the note body, frontmatter is skipped
+ */
+export function parseInlineFields(
+	content: string
+): Record<string, HabitFieldValue> {
+	const fields: Record<string, HabitFieldValue> = {};
+	for (const line of content.replace(FRONTMATTER, "").split(/\r?\n/)) {
+		Object.assign(fields, parseLineFields(line));
+	}
+	return fields;
+}
+
+/**
+ * Fields of the dated list items, by date. Later lines of the same date
+ * add to the earlier ones.
+ */
+export function parseDatedLines(
+	content: string
+): Record<string, Record<string, HabitFieldValue>> {
+	const result: Record<string, Record<string, HabitFieldValue>> = {};
+	for (const line of content.split(/\r?\n/)) {
+		const match = line.match(DATED_LINE);
+		if (!match) continue;
+		const fields = parseLineFields(match[2]);
+		if (Object.keys(fields).length === 0) continue;
+		result[match[1]] = { ...result[match[1]], ...fields };
+	}
+	return result;
+}
+
+/**
+ * Set fields in the note body, undefined removes a field. Fields that don't
+ * exist yet are added as lines at the end of the note.
+ */
+export function setInlineFields(
+	content: string,
+	fields: Record<string, HabitFieldValue | undefined>
+): string {
+	const lines = content.split("\n");
+
+	for (const [key, value] of Object.entries(fields)) {
+		const bracketed = getBracketedFieldRegex(key);
+		const lineIndex = lines.findIndex(
+			(line) => line.match(LINE_FIELD)?.[2].trim() === key
+		);
+
+		if (lineIndex !== -1) {
+			if (value === undefined) {
+				lines.splice(lineIndex, 1);
+			} else {
+				const prefix = lines[lineIndex].match(LINE_FIELD)![1];
+				lines[lineIndex] = `${prefix}${key}:: ${value}`;
+			}
+			continue;
+		}
+
+		const bracketedIndex = lines.findIndex((line) => bracketed.test(line));
+		if (bracketedIndex !== -1) {
+			lines[bracketedIndex] = setBracketedField(
+				lines[bracketedIndex],
+				key,
+				value
+			);
+		} else if (value !== undefined) {
+			if (lines[lines.length - 1] === "") lines.pop();
+			lines.push(`${key}:: ${value}`, "");
+		}
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Set fields on the list item of a date, undefined removes a field. The
+ * item is added when missing and removed once only its date is left.
+ */
+export function setDatedLineFields(
+	content: string,
+	date: string,
+	fields: Record<string, HabitFieldValue | undefined>
+): string {
+	const lines = content.split("\n");
+	const lineIndex = lines.findIndex(
+		(line) => line.match(DATED_LINE)?.[1] === date
+	);
+
+	if (lineIndex === -1) {
+		const values = Object.entries(fields).filter(
+			([, value]) => value !== undefined
+		);
+		if (values.length === 0) return content;
+
+		if (lines[lines.length - 1] === "") lines.pop();
+		lines.push(
+			`- ${date} ${values
+				.map(([key, value]) => `[${key}:: ${value}]`)
+				.join(" ")}`,
+			""
+		);
+		return lines.join("\n");
+	}
+
+	let line = bracketLineField(lines[lineIndex]);
+	for (const [key, value] of Object.entries(fields)) {
+		line = setBracketedField(line, key, value);
+	}
+
+	if (line.match(DATED_LINE)?.[2].trim() === "") {
+		lines.splice(lineIndex, 1);
+	} else {
+		lines[lineIndex] = line;
+	}
+	return lines.join("\n");
+}
+
+function parseLineFields(line: string): Record<string, HabitFieldValue> {
+	const fields: Record<string, HabitFieldValue> = {};
+	const rest = line.replace(BRACKETED_FIELD, (_, key: string, value) => {
+		if (value.trim() !== "") fields[key.trim()] = parseFieldValue(value);
+		return "";
+	});
+
+	const match = rest.match(LINE_FIELD);
+	if (match && match[3] !== "") {
+		fields[match[2].trim()] = parseFieldValue(match[3]);
+	}
+	return fields;
+}
+
+/**
+ * A field without brackets runs to the end of the line, it gets brackets
+ * before more fields are added after it
+ */
+function bracketLineField(line: string): string {
+	const match = line.match(DATED_LINE);
+	if (!match) return line;
+
+	const rest = match[2];
+	const bracketedFields = rest.match(BRACKETED_FIELD) ?? [];
+	const unbracketed = rest.replace(BRACKETED_FIELD, "").match(LINE_FIELD);
+	if (!unbracketed) return line;
+
+	const prefix = line.slice(0, line.length - rest.length);
+	return [
+		prefix.trimEnd(),
+		...bracketedFields,
+		`[${unbracketed[2].trim()}:: ${unbracketed[3]}]`,
+	].join(" ");
+}
+
+function setBracketedField(
+	line: string,
+	key: string,
+	value: HabitFieldValue | undefined
+): string {
+	const bracketed = getBracketedFieldRegex(key);
+	if (value === undefined) {
+		return line.replace(bracketed, "").replace(/\s+$/, "");
+	}
+	const field = `[${key}:: ${value}]`;
+	return bracketed.test(line)
+		? line.replace(bracketed, (match) => match.match(/^\s*/)![0] + field)
+		: `${line.replace(/\s+$/, "")} ${field}`;
+}
+
+function getBracketedFieldRegex(key: string): RegExp {
+	return new RegExp(
+		`\\s*[\\[(]${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}::[^\\])]*[\\])]`
+	);
+}
@@ -0,0 +1,345 @@
+/**
+ * Habit statistics
+ * Streaks and completion rates of habits measured against their frequency,
+ * and the figures of the habit analytics
+ */
+
+import {
+	CountHabitProps,
+	HabitCoOccurrence,
+	HabitFrequency,
+	HabitProps,
+	HabitStats,
+	MappingHabitProps,
+} from "../types/habit-card";
+import { getLocalDateString } from "./dateUtil";
+
+export const DEFAULT_HABIT_FREQUENCY: HabitFrequency = { type: "daily" };
+
+// Days the completion rate looks back on, today included
+export const DEFAULT_STATS_WINDOW = 30;
+
+interface HabitPeriod {
+	start: Date;
+	end: Date; // Inclusive
+}
+
+/**
+ * Whether a recorded value counts as doing the habit that day, matches what
+ * the habit cards show as filled
+ */
+export function isHabitDoneOn(habit: HabitProps, date: string): boolean {
+	const value: any = habit.completions?.[date];
+	if (value === undefined || value === null || value === "") return false;
+
+	switch (habit.type) {
+		case "daily":
+			return habit.completionText ? value === 1 : !!value;
+		case "count":
+			return habit.max && habit.max > 0
+				? value >= habit.max
+				: Number(value) > 0;
+		case "scheduled":
+			return typeof value === "object" && Object.keys(value).length > 0;
+		case "mapping":
+			return typeof value === "number" && value > 0;
+	}
+}
+
+/**
+ * Current and longest streak plus the completion rate of the last
+ * windowDays days. An unfinished current period doesn't break the streak.
+ */
+export function getHabitStats(
+	habit: HabitProps,
+	today: Date = new Date(),
+	windowDays: number = DEFAULT_STATS_WINDOW
+): HabitStats {
+	const frequency = habit.frequency ?? DEFAULT_HABIT_FREQUENCY;
+	const todayStart = startOfDay(today);
+	const doneDates = new Set(
+		Object.keys(habit.completions ?? {}).filter((date) =>
+			isHabitDoneOn(habit, date)
+		)
+	);
+
+	const stats: HabitStats = {
+		currentStreak: 0,
+		longestStreak: 0,
+		completionRate: getCompletionRate(
+			frequency,
+			doneDates,
+			todayStart,
+			windowDays
+		),
+		streakUnit: getStreakUnit(frequency),
+	};
+
+	const firstDate = [...doneDates].sort()[0];
+	if (!firstDate) return stats;
+
+	const periods = getPeriods(
+		frequency,
+		parseDateKey(firstDate),
+		todayStart
+	);
+	const required = getRequiredDays(frequency);
+	const met = periods.map(
+		(period) => countDoneDays(doneDates, period) >= required
+	);
+
+	let run = 0;
+	periods.forEach((period, index) => {
+		if (met[index]) {
+			run++;
+			stats.longestStreak = Math.max(stats.longestStreak, run);
+		} else if (period.end < todayStart) {
+			run = 0;
+		}
+	});
+	stats.currentStreak = run;
+
+	return stats;
+}
+
+/**
+ * Heatmap level of a day from 0, nothing recorded, to 4. Count habits scale
+ * towards their goal, mapping habits towards their highest value and
+ * scheduled habits towards all of their events.
+ */
+export function getHabitLevel(habit: HabitProps, date: string): number {
+	const value: any = habit.completions?.[date];
+	if (value === undefined || value === null || value === "") return 0;
+
+	let ratio: number;
+	switch (habit.type) {
+		case "count": {
+			const goal =
+				habit.max && habit.max > 0
+					? habit.max
+					: Math.max(...Object.values(habit.completions));
+			ratio = goal > 0 ? value / goal : 0;
+			break;
+		}
+		case "mapping": {
+			const keys = Object.keys(habit.mapping).map(Number);
+			const highest = Math.max(...keys);
+			ratio = highest > 0 ? value / highest : 0;
+			break;
+		}
+		case "scheduled": {
+			const total = habit.events?.length ?? 0;
+			const done = Object.keys(value).length;
+			ratio = total > 0 ? done / total : done > 0 ? 1 : 0;
+			break;
+		}
+		default:
+			ratio = isHabitDoneOn(habit, date) ? 1 : 0;
+	}
+
+	if (ratio <= 0) return 0;
+	return Math.min(4, Math.max(1, Math.ceil(ratio * 4)));
+}
+
+/**
+ * Sum of the recorded counts of every month of a year
+ */
+export function getMonthlyTotals(
+	habit: CountHabitProps,
+	year: number
+): number[] {
+	const totals = new Array(12).fill(0);
+	for (const [date, value] of Object.entries(habit.completions ?? {})) {
+		const [dateYear, month] = date.split("-").map(Number);
+		if (dateYear === year && typeof value === "number") {
+			totals[month - 1] += value;
+		}
+	}
+	return totals;
+}
+
+/**
+ * Number of days every mapping value was recorded, in value order
+ */
+export function getMappingDistribution(
+	habit: MappingHabitProps,
+	startDate?: string,
+	endDate?: string
+): { value: number; label: string; count: number }[] {
+	const counts = new Map<number, number>();
+	for (const [date, value] of Object.entries(habit.completions ?? {})) {
+		if (!isInRange(date, startDate, endDate)) continue;
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+
+	return Object.keys(habit.mapping)
+		.map(Number)
+		.sort((a, b) => a - b)
+		.map((value) => ({
+			value,
+			label: habit.mapping[value],
+			count: counts.get(value) ?? 0,
+		}));
+}
+
+/**
+ * Days every pair of habits was done on the same day
+ */
+export function getHabitCoOccurrence(
+	habits: HabitProps[],
+	startDate?: string,
+	endDate?: string
+): HabitCoOccurrence {
+	const doneDates = habits.map(
+		(habit) =>
+			new Set(
+				Object.keys(habit.completions ?? {}).filter(
+					(date) =>
+						isInRange(date, startDate, endDate) &&
+						isHabitDoneOn(habit, date)
+				)
+			)
+	);
+
+	return {
+		habitIds: habits.map((habit) => habit.id),
+		counts: doneDates.map((dates) =>
+			doneDates.map(
+				(otherDates) =>
+					[...dates].filter((date) => otherDates.has(date)).length
+			)
+		),
+	};
+}
+
+function isInRange(
+	date: string,
+	startDate?: string,
+	endDate?: string
+): boolean {
+	return (!startDate || date >= startDate) && (!endDate || date <= endDate);
+}
+
+function getStreakUnit(frequency: HabitFrequency): HabitStats["streakUnit"] {
+	switch (frequency.type) {
+		case "weekly":
+			return "week";
+		case "monthly":
+			return "month";
+		default:
+			return "day";
+	}
+}
+
+function getRequiredDays(frequency: HabitFrequency): number {
+	if (frequency.type === "weekly" || frequency.type === "monthly") {
+		return Math.max(1, frequency.times);
+	}
+	return 1;
+}
+
+/**
+ * Periods from the one containing from up to the one containing to.
+ * Weeks start on Monday, weekday habits only have their scheduled days.
+ */
+function getPeriods(
+	frequency: HabitFrequency,
+	from: Date,
+	to: Date
+): HabitPeriod[] {
+	const periods: HabitPeriod[] = [];
+	let start = from;
+
+	if (frequency.type === "weekly") {
+		start = addDays(from, -((from.getDay() + 6) % 7));
+	} else if (frequency.type === "monthly") {
+		start = new Date(from.getFullYear(), from.getMonth(), 1);
+	}
+
+	while (start <= to) {
+		let next: Date;
+		switch (frequency.type) {
+			case "weekly":
+				next = addDays(start, 7);
+				break;
+			case "monthly":
+				next = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+				break;
+			default:
+				next = addDays(start, 1);
+		}
+
+		if (
+			frequency.type !== "weekdays" ||
+			frequency.days.includes(start.getDay())
+		) {
+			periods.push({ start, end: addDays(next, -1) });
+		}
+		start = next;
+	}
+
+	return periods;
+}
+
+function countDoneDays(doneDates: Set<string>, period: HabitPeriod): number {
+	let count = 0;
+	for (let day = period.start; day <= period.end; day = addDays(day, 1)) {
+		if (doneDates.has(getLocalDateString(day))) count++;
+	}
+	return count;
+}
+
+/**
+ * Done days of the window against the days the frequency asks for. Today
+ * is only expected once it's done, so the rate doesn't drop every morning.
+ */
+function getCompletionRate(
+	frequency: HabitFrequency,
+	doneDates: Set<string>,
+	today: Date,
+	windowDays: number
+): number {
+	const windowStart = addDays(today, -(Math.max(1, windowDays) - 1));
+	const isDoneToday = doneDates.has(getLocalDateString(today));
+	const isScheduled = (day: Date) =>
+		frequency.type !== "weekdays" || frequency.days.includes(day.getDay());
+
+	let done = 0;
+	let scheduledDays = 0;
+	for (let day = windowStart; day <= today; day = addDays(day, 1)) {
+		if (!isScheduled(day)) continue;
+		scheduledDays++;
+		if (doneDates.has(getLocalDateString(day))) done++;
+	}
+
+	let expected: number;
+	switch (frequency.type) {
+		case "weekly":
+			expected = (getRequiredDays(frequency) * scheduledDays) / 7;
+			break;
+		case "monthly":
+			expected = (getRequiredDays(frequency) * scheduledDays) / 30;
+			break;
+		default:
+			expected =
+				isDoneToday || !isScheduled(today)
+					? scheduledDays
+					: scheduledDays - 1;
+	}
+
+	if (expected <= 0) return 0;
+	return Math.min(1, done / expected);
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function parseDateKey(date: string): Date {
+	const [year, month, day] = date.split("-").map(Number);
+	return new Date(year, month - 1, day);
+}
@@ -0,0 +1,256 @@
+/**
+ * ICS Exporter
+ * Writes the tasks of a view as an .ics feed file in the vault and keeps it
+ * up to date when the task index changes
+ */
+
+import { App, Component, debounce, TFile } from "obsidian";
+import type TaskProgressBarPlugin from "../../index";
+import { IcsExportConfig } from "../../types/ics";
+import { Task } from "../../types/task";
+import { TaskProgressBarSettings } from "../../common/setting-definition";
+import { filterTasks } from "../TaskFilterUtils";
+import { recurrenceToRRule } from "../recurrenceUtils";
+import { hasTimeOfDay } from "../dateUtil";
+import {
+	DEFAULT_TIMED_EVENT_MINUTES,
+} from "../../components/calendar/algorithm";
+import { clearAllMarks } from "../../components/MarkdownRenderer";
+import { IcsWriter, IcsWriterEvent } from "./IcsWriter";
+import { StatusMapper } from "./StatusMapper";
+
+// Wait for edits to settle before regenerating the feeds
+const EXPORT_DEBOUNCE = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert tasks to calendar events. Tasks become VTODOs with their dates,
+ * or VEVENTs: timed tasks last their duration, other tasks are all-day
+ * events spanning start to due date. VEVENTs need a date, so undated tasks
+ * are left out of event feeds.
+ */
+export function tasksToIcsEvents(
+	tasks: Task[],
+	config: Pick<IcsExportConfig, "componentType" | "includeCompleted">,
+	settings: TaskProgressBarSettings
+): IcsWriterEvent[] {
+	const events: IcsWriterEvent[] = [];
+
+	for (const task of tasks) {
+		if (task.completed && !config.includeCompleted) continue;
+
+		const { metadata } = task;
+		const start = metadata.startDate ?? metadata.scheduledDate;
+		const due = metadata.dueDate;
+		const isTodo = config.componentType === "VTODO";
+
+		let dtstart: Date | undefined;
+		let dtend: Date | undefined;
+		let allDay: boolean;
+		if (isTodo) {
+			dtstart = start !== undefined ? new Date(start) : undefined;
+			allDay = !hasTimeOfDay(start) && !hasTimeOfDay(due);
+		} else {
+			const first = start ?? due;
+			if (first === undefined) continue;
+			dtstart = new Date(first);
+			allDay = !hasTimeOfDay(first);
+			if (allDay) {
+				// DTEND of an all-day event is exclusive
+				dtend = new Date(Math.max(first, due ?? first) + DAY_MS);
+			} else {
+				const duration =
+					metadata.duration ?? DEFAULT_TIMED_EVENT_MINUTES;
+				dtend = new Date(first + duration * 60 * 1000);
+			}
+		}
+
+		const event: IcsWriterEvent = {
+			uid: getTaskUid(task),
+			summary: clearAllMarks(task.content),
+			componentType: config.componentType,
+			dtstart,
+			dtend,
+			allDay,
+			status: StatusMapper.mapTaskStatusToIcsStatus(
+				task.status,
+				config.componentType,
+				settings
+			),
+			priority: StatusMapper.mapTaskPriorityToIcsPriority(
+				metadata.priority
+			),
+			categories: metadata.tags
+				?.map((tag) => tag.replace(/^#/, ""))
+				.filter((tag) => tag.length > 0),
+			rrule: metadata.recurrence
+				? recurrenceToRRule(metadata.recurrence)
+				: undefined,
+		};
+
+		if (isTodo) {
+			event.due = due !== undefined ? new Date(due) : undefined;
+			if (task.completed && metadata.completedDate) {
+				event.completed = new Date(metadata.completedDate);
+			}
+		}
+
+		events.push(event);
+	}
+
+	return events;
+}
+
+/**
+ * A UID that stays the same while the task is edited in place: the task's
+ * own id when it has one, otherwise a hash of its file and text
+ */
+function getTaskUid(task: Task): string {
+	if (task.metadata.id) {
+		return `${task.metadata.id}@task-genius`;
+	}
+
+	const key = `${task.filePath}:${clearAllMarks(task.content)}`;
+	let hash = 0;
+	for (let i = 0; i < key.length; i++) {
+		hash = (hash << 5) - hash + key.charCodeAt(i);
+		hash = hash & hash; // Convert to 32-bit integer
+	}
+	return `${(hash >>> 0).toString(16)}@task-genius`;
+}
+
+export class IcsExporter extends Component {
+	private plugin: TaskProgressBarPlugin;
+	private app: App;
+	private isExporting = false;
+
+	private scheduleExport = debounce(
+		() => {
+			this.exportAll();
+		},
+		EXPORT_DEBOUNCE,
+		true
+	);
+
+	constructor(plugin: TaskProgressBarPlugin) {
+		super();
+		this.plugin = plugin;
+		this.app = plugin.app;
+	}
+
+	onload() {
+		this.registerEvent(
+			this.app.workspace.on("task-genius:task-cache-updated", () => {
+				if (this.getEnabledExports().length > 0) {
+					this.scheduleExport();
+				}
+			})
+		);
+	}
+
+	/**
+	 * Regenerate every enabled export feed. A feed that fails is logged and
+	 * the others are still written.
+	 */
+	public async exportAll(): Promise<void> {
+		if (this.isExporting) return;
+
+		this.isExporting = true;
+		let exported = false;
+		try {
+			for (const config of this.getEnabledExports()) {
+				const lastExported = config.lastExported;
+				try {
+					await this.exportFeed(config);
+					if (config.lastExported !== lastExported) exported = true;
+				} catch (error) {
+					// exportFeed has logged it, go on with the next feed
+				}
+			}
+			// Keep the export times
+			if (exported) await this.plugin.saveSettings();
+		} catch (error) {
+			console.error("Failed to save the ICS export times:", error);
+		} finally {
+			this.isExporting = false;
+		}
+	}
+
+	/**
+	 * Write the .ics file of one export, returns the number of exported
+	 * tasks
+	 */
+	public async exportFeed(config: IcsExportConfig): Promise<number> {
+		const taskManager = this.plugin.taskManager;
+		if (!taskManager?.isInitialized() || !config.filePath) return 0;
+
+		try {
+			const tasks = filterTasks(
+				taskManager
+					.getAllTasks()
+					.filter((task) => (task as any).source?.type !== "ics"),
+				config.viewId,
+				this.plugin
+			);
+			const events = tasksToIcsEvents(
+				tasks,
+				config,
+				this.plugin.settings
+			);
+			const content = IcsWriter.serialize(events, {
+				calendarName: config.name,
+			});
+
+			await this.writeFile(this.getFilePath(config), content);
+			config.lastExported = Date.now();
+			return events.length;
+		} catch (error) {
+			console.error(`Failed to export ICS feed ${config.name}:`, error);
+			throw error;
+		}
+	}
+
+	private getEnabledExports(): IcsExportConfig[] {
+		return (this.plugin.settings.icsIntegration.exports ?? []).filter(
+			(config) => config.enabled
+		);
+	}
+
+	private getFilePath(config: IcsExportConfig): string {
+		const path = config.filePath.trim().replace(/^\/+/, "");
+		return path.toLowerCase().endsWith(".ics") ? path : `${path}.ics`;
+	}
+
+	/**
+	 * Write the feed, skipping the write when only the DTSTAMP changed so
+	 * sync tools don't see a new file on every index update
+	 */
+	private async writeFile(filePath: string, content: string) {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (file instanceof TFile) {
+			const existing = await this.app.vault.read(file);
+			if (stripTimestamps(existing) === stripTimestamps(content)) {
+				return;
+			}
+			await this.app.vault.modify(file, content);
+			return;
+		}
+
+		const pathParts = filePath.split("/");
+		if (pathParts.length > 1) {
+			try {
+				await this.app.vault.createFolder(
+					pathParts.slice(0, -1).join("/")
+				);
+			} catch (e) {
+				// Folder might already exist, ignore error
+			}
+		}
+		await this.app.vault.create(filePath, content);
+	}
+}
+
+function stripTimestamps(content: string): string {
+	return content.replace(/^DTSTAMP:.*$/gm, "");
+}
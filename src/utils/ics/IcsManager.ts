@@ -3,7 +3,13 @@
  * Manages ICS sources, fetching, caching, and synchronization
  */
 
-import { Component, requestUrl, RequestUrlParam } from "obsidian";
+import {
+	Component,
+	requestUrl,
+	RequestUrlParam,
+	TFile,
+	Vault,
+} from "obsidian";
 import {
 	IcsSource,
 	IcsEvent,
@@ -19,23 +25,80 @@ import { Task, ExtendedMetadata } from "../../types/task";
 import { IcsParser } from "./IcsParser";
 import { HolidayDetector } from "./HolidayDetector";
 import { StatusMapper } from "./StatusMapper";
+import { RecurrenceExpander } from "./RecurrenceExpander";
 import { TaskProgressBarSettings } from "../../common/setting-definition";
+import { LocalStorageCache } from "../persister";
+
+// Recurring events are expanded from this many days ago to this many days
+// ahead, the window moves with the current day
+const RECURRENCE_PAST_DAYS = 90;
+const RECURRENCE_FUTURE_DAYS = 365;
+
+/** Cache entry as persisted between sessions, events without their source */
+interface PersistedIcsCache extends Omit<IcsCacheEntry, "events"> {
+	/** URL the events were fetched from */
+	url: string;
+	events: Omit<IcsEvent, "source">[];
+}
 
 export class IcsManager extends Component {
 	private config: IcsManagerConfig;
 	private cache: Map<string, IcsCacheEntry> = new Map();
+	private expandedEvents = new WeakMap<
+		IcsCacheEntry,
+		{ day: string; events: IcsEvent[] }
+	>();
 	private syncStatuses: Map<string, IcsSyncStatus> = new Map();
 	private refreshIntervals: Map<string, number> = new Map();
 	private onEventsUpdated?: (sourceId: string, events: IcsEvent[]) => void;
 	private pluginSettings: TaskProgressBarSettings;
+	private persister?: LocalStorageCache;
+	private persistedCacheLoaded: Promise<void> = Promise.resolve();
+	private vault?: Vault;
 
 	constructor(
 		config: IcsManagerConfig,
-		pluginSettings: TaskProgressBarSettings
+		pluginSettings: TaskProgressBarSettings,
+		persister?: LocalStorageCache,
+		vault?: Vault
 	) {
 		super();
 		this.config = config;
 		this.pluginSettings = pluginSettings;
+		this.persister = persister;
+		this.vault = vault;
+	}
+
+	override onload(): void {
+		if (!this.vault) return;
+
+		// Vault sources are refreshed when their file changes
+		const onFileChanged = (file: TFile) => {
+			for (const source of this.config.sources) {
+				if (
+					source.enabled &&
+					source.type === "vault" &&
+					source.filePath === file.path
+				) {
+					this.syncSource(source.id).catch((error) => {
+						console.error(
+							`Failed to sync vault source ${source.id}:`,
+							error
+						);
+					});
+				}
+			}
+		};
+		this.registerEvent(
+			this.vault.on("modify", (file) => {
+				if (file instanceof TFile) onFileChanged(file);
+			})
+		);
+		this.registerEvent(
+			this.vault.on("create", (file) => {
+				if (file instanceof TFile) onFileChanged(file);
+			})
+		);
 	}
 
 	/**
@@ -50,6 +113,10 @@ export class IcsManager extends Component {
 			});
 		}
 
+		// Show the events of the last session until the sources are synced
+		this.persistedCacheLoaded = this.loadPersistedCache();
+		await this.persistedCacheLoaded;
+
 		// Start background refresh if enabled
 		if (this.config.enableBackgroundRefresh) {
 			this.startBackgroundRefresh();
@@ -127,7 +194,7 @@ export class IcsManager extends Component {
 				console.log("Source is enabled, applying filters");
 				// Apply filters if configured
 				const filteredEvents = this.applyFilters(
-					cacheEntry.events,
+					this.getExpandedEvents(cacheEntry),
 					source
 				);
 				console.log("filteredEvents count", filteredEvents.length);
@@ -153,7 +220,7 @@ export class IcsManager extends Component {
 			if (source?.enabled) {
 				// Apply filters first
 				const filteredEvents = this.applyFilters(
-					cacheEntry.events,
+					this.getExpandedEvents(cacheEntry),
 					source
 				);
 
@@ -192,6 +259,7 @@ export class IcsManager extends Component {
 	 */
 	async getAllEventsWithSync(): Promise<IcsEvent[]> {
 		const now = Date.now();
+		await this.persistedCacheLoaded;
 
 		// If there's already a sync in progress, wait for it
 		if (this.syncPromise) {
@@ -206,8 +274,16 @@ export class IcsManager extends Component {
 			this.syncPromise = this.syncAllSources().finally(() => {
 				this.syncPromise = null;
 			});
-			await this.syncPromise;
 			this.lastSyncTime = now;
+
+			// With every source cached, revalidate in the background and
+			// let the listeners pick up the changes
+			const hasCachedEvents = this.config.sources.every(
+				(source) => !source.enabled || this.cache.has(source.id)
+			);
+			if (!hasCachedEvents) {
+				await this.syncPromise;
+			}
 		} else {
 			console.log("ICS: Skipping sync (debounced)");
 		}
@@ -227,23 +303,127 @@ export class IcsManager extends Component {
 			return [];
 		}
 
-		return this.applyFilters(cacheEntry.events, source);
+		return this.applyFilters(this.getExpandedEvents(cacheEntry), source);
 	}
 
 	/**
 	 * Convert ICS events to Task format
 	 */
 	convertEventsToTasks(events: IcsEvent[]): IcsTask[] {
-		return events.map((event) => this.convertEventToTask(event));
+		return this.linkTaskHierarchy(
+			events.map((event) => this.convertEventToTask(event))
+		);
 	}
 
 	/**
 	 * Convert ICS events with holiday detection to Task format
 	 */
 	convertEventsWithHolidayToTasks(events: IcsEventWithHoliday[]): IcsTask[] {
-		return events
-			.filter((event) => event.showInForecast) // Filter out events that shouldn't show in forecast
-			.map((event) => this.convertEventWithHolidayToTask(event));
+		return this.linkTaskHierarchy(
+			events
+				.filter((event) => event.showInForecast) // Filter out events that shouldn't show in forecast
+				.map((event) => this.convertEventWithHolidayToTask(event))
+		);
+	}
+
+	/**
+	 * Events of a cache entry with recurring events expanded into their
+	 * occurrences. The expansion is kept until the entry is replaced or the
+	 * window moves on the next day.
+	 */
+	private getExpandedEvents(cacheEntry: IcsCacheEntry): IcsEvent[] {
+		const now = new Date();
+		const day = now.toDateString();
+		const cached = this.expandedEvents.get(cacheEntry);
+		if (cached?.day === day) {
+			return cached.events;
+		}
+
+		const today = new Date(
+			now.getFullYear(),
+			now.getMonth(),
+			now.getDate()
+		);
+		const windowStart = new Date(today);
+		windowStart.setDate(windowStart.getDate() - RECURRENCE_PAST_DAYS);
+		const windowEnd = new Date(today);
+		windowEnd.setDate(windowEnd.getDate() + RECURRENCE_FUTURE_DAYS);
+
+		const events = RecurrenceExpander.expandEvents(
+			cacheEntry.events,
+			windowStart,
+			windowEnd
+		);
+		this.expandedEvents.set(cacheEntry, { day, events });
+		return events;
+	}
+
+	/**
+	 * Task id of an ICS component, occurrences of recurring events are told
+	 * apart by their original start
+	 */
+	private getTaskId(
+		sourceId: string,
+		uid: string,
+		recurrenceId?: Date
+	): string {
+		const id = `ics-${sourceId}-${uid}`;
+		if (!recurrenceId) return id;
+
+		// e.g. 20250602T070000Z
+		return `${id}-${recurrenceId
+			.toISOString()
+			.replace(/[-:]|\.\d{3}/g, "")}`;
+	}
+
+	/**
+	 * Task dates of an ICS component: events span DTSTART to DTEND, to-dos
+	 * have their own start, due and completion dates
+	 */
+	private getTaskDates(
+		event: IcsEvent
+	): Pick<
+		Task["metadata"],
+		"startDate" | "dueDate" | "scheduledDate" | "completedDate"
+	> {
+		if (event.componentType !== "VTODO") {
+			return {
+				startDate: event.dtstart.getTime(),
+				dueDate: event.dtend?.getTime(),
+				scheduledDate: event.dtstart.getTime(),
+			};
+		}
+
+		// The parser places to-dos without DTSTART on their due date
+		const hasStart = !event.undated && !event.startFromDue;
+		return {
+			startDate: hasStart ? event.dtstart.getTime() : undefined,
+			dueDate: event.due?.getTime(),
+			completedDate: event.completed?.getTime(),
+		};
+	}
+
+	/**
+	 * Fill in the children of tasks from the RELATED-TO parent links, so
+	 * to-do lists show their hierarchy
+	 */
+	private linkTaskHierarchy(tasks: IcsTask[]): IcsTask[] {
+		const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+		for (const task of tasks) {
+			const parentId = task.metadata.parent;
+			if (!parentId) continue;
+
+			const parent = tasksById.get(parentId);
+			if (parent && parent !== task) {
+				parent.metadata.children.push(task.id);
+			} else {
+				// The parent isn't shown, keep the task at the top level
+				task.metadata.parent = undefined;
+			}
+		}
+
+		return tasks;
 	}
 
 	/**
@@ -261,7 +441,11 @@ export class IcsManager extends Component {
 		);
 
 		const task: IcsTask = {
-			id: `ics-${event.source.id}-${event.uid}`,
+			id: this.getTaskId(
+				event.source.id,
+				event.uid,
+				event.recurrenceId
+			),
 			content: processedEvent.summary,
 			filePath: `ics://${event.source.name}`,
 			line: 0,
@@ -274,10 +458,13 @@ export class IcsManager extends Component {
 			metadata: {
 				tags: event.categories || [],
 				children: [],
-				priority: this.mapIcsPriorityToTaskPriority(event.priority),
-				startDate: event.dtstart.getTime(),
-				dueDate: event.dtend?.getTime(),
-				scheduledDate: event.dtstart.getTime(),
+				priority: StatusMapper.mapIcsPriorityToTaskPriority(
+					event.priority
+				),
+				...this.getTaskDates(event),
+				parent: event.relatedTo
+					? this.getTaskId(event.source.id, event.relatedTo)
+					: undefined,
 				project: event.source.name,
 				context: processedEvent.location,
 				heading: [],
@@ -331,7 +518,11 @@ export class IcsManager extends Component {
 		);
 
 		const task: IcsTask = {
-			id: `ics-${event.source.id}-${event.uid}`,
+			id: this.getTaskId(
+				event.source.id,
+				event.uid,
+				event.recurrenceId
+			),
 			content: displayTitle,
 			filePath: `ics://${event.source.name}`,
 			line: 0,
@@ -344,10 +535,13 @@ export class IcsManager extends Component {
 			metadata: {
 				tags: event.categories || [],
 				children: [],
-				priority: this.mapIcsPriorityToTaskPriority(event.priority),
-				startDate: event.dtstart.getTime(),
-				dueDate: event.dtend?.getTime(),
-				scheduledDate: event.dtstart.getTime(),
+				priority: StatusMapper.mapIcsPriorityToTaskPriority(
+					event.priority
+				),
+				...this.getTaskDates(event),
+				parent: event.relatedTo
+					? this.getTaskId(event.source.id, event.relatedTo)
+					: undefined,
 				project: event.source.name,
 				context: processedEvent.location,
 				heading: [],
@@ -387,22 +581,6 @@ export class IcsManager extends Component {
 		}
 	}
 
-	/**
-	 * Map ICS priority to task priority
-	 */
-	private mapIcsPriorityToTaskPriority(
-		icsPriority?: number
-	): number | undefined {
-		if (icsPriority === undefined) return undefined;
-
-		// ICS priority: 0 (undefined), 1-4 (high), 5 (normal), 6-9 (low)
-		// Task priority: 1 (highest), 2 (high), 3 (medium), 4 (low), 5 (lowest)
-		if (icsPriority >= 1 && icsPriority <= 4) return 1; // High
-		if (icsPriority === 5) return 3; // Medium
-		if (icsPriority >= 6 && icsPriority <= 9) return 5; // Low
-		return undefined;
-	}
-
 	/**
 	 * Manually sync a specific source
 	 */
@@ -426,33 +604,33 @@ export class IcsManager extends Component {
 					expiresAt:
 						result.timestamp +
 						this.config.maxCacheAge * 60 * 60 * 1000,
+					etag: result.etag,
+					lastModified: result.lastModified,
 				};
 				this.cache.set(sourceId, cacheEntry);
+				await this.persistCacheEntry(source, cacheEntry);
 
 				// Update sync status
 				this.updateSyncStatus(sourceId, {
 					status: "idle",
 					lastSync: result.timestamp,
 					eventCount: result.data.events.length,
+					error: undefined,
 				});
 
-				// Notify listeners
-				this.onEventsUpdated?.(sourceId, result.data.events);
+				// Notify listeners, unchanged events are already shown
+				if (!result.notModified) {
+					this.onEventsUpdated?.(sourceId, result.data.events);
+				}
 			} else {
-				this.updateSyncStatus(sourceId, {
-					status: "error",
-					error: result.error || "Unknown error",
-				});
+				this.setSyncFailed(sourceId, result.error || "Unknown error");
 			}
 
 			return result;
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : "Unknown error";
-			this.updateSyncStatus(sourceId, {
-				status: "error",
-				error: errorMessage,
-			});
+			this.setSyncFailed(sourceId, errorMessage);
 
 			return {
 				success: false,
@@ -499,22 +677,114 @@ export class IcsManager extends Component {
 	 */
 	clearSourceCache(sourceId: string): void {
 		this.cache.delete(sourceId);
+		this.removePersistedCache(sourceId);
 	}
 
 	/**
 	 * Clear all cache
 	 */
 	clearAllCache(): void {
+		for (const sourceId of this.cache.keys()) {
+			this.removePersistedCache(sourceId);
+		}
 		this.cache.clear();
 	}
 
+	/**
+	 * Mark a failed sync, sources with cached events stay usable and are
+	 * shown as stale instead of failed
+	 */
+	private setSyncFailed(sourceId: string, error: string): void {
+		const cacheEntry = this.cache.get(sourceId);
+		if (cacheEntry) {
+			this.updateSyncStatus(sourceId, {
+				status: "stale",
+				error,
+				lastSync: cacheEntry.timestamp,
+				eventCount: cacheEntry.events.length,
+			});
+		} else {
+			this.updateSyncStatus(sourceId, { status: "error", error });
+		}
+	}
+
+	/**
+	 * Load the cache entries persisted by the last session
+	 */
+	private async loadPersistedCache(): Promise<void> {
+		if (!this.persister) return;
+
+		for (const source of this.config.sources) {
+			if (
+				!source.enabled ||
+				source.type === "vault" ||
+				this.cache.has(source.id)
+			) {
+				continue;
+			}
+
+			const cached =
+				await this.persister.loadConsolidatedCache<PersistedIcsCache>(
+					this.getPersistKey(source.id)
+				);
+			// Events fetched from another URL don't belong to the source
+			if (!cached?.data || cached.data.url !== source.url) continue;
+
+			const { url, events, ...entry } = cached.data;
+			const cacheEntry: IcsCacheEntry = {
+				...entry,
+				events: events.map((event) => reviveEvent(event, source)),
+			};
+			this.cache.set(source.id, cacheEntry);
+			this.updateSyncStatus(source.id, {
+				status: "idle",
+				lastSync: cacheEntry.timestamp,
+				eventCount: cacheEntry.events.length,
+			});
+			this.onEventsUpdated?.(source.id, cacheEntry.events);
+		}
+	}
+
+	/**
+	 * Persist a cache entry, without the source so credentials stay in the
+	 * settings
+	 */
+	private async persistCacheEntry(
+		source: IcsSource,
+		cacheEntry: IcsCacheEntry
+	): Promise<void> {
+		// Vault files are read again quicker than the cache
+		if (!this.persister || source.type === "vault") return;
+
+		await this.persister.storeConsolidatedCache<PersistedIcsCache>(
+			this.getPersistKey(source.id),
+			{
+				...cacheEntry,
+				url: source.url,
+				events: cacheEntry.events.map(({ source, ...event }) => event),
+			}
+		);
+	}
+
+	private removePersistedCache(sourceId: string): void {
+		this.persister?.removeConsolidatedCache(this.getPersistKey(sourceId));
+	}
+
+	private getPersistKey(sourceId: string): string {
+		return `ics-${sourceId}`;
+	}
+
 	/**
 	 * Fetch ICS data from a source
 	 */
 	private async fetchIcsData(source: IcsSource): Promise<IcsFetchResult> {
+		if (source.type === "vault") {
+			return this.readVaultFile(source);
+		}
+
 		try {
 			const requestParams: RequestUrlParam = {
-				url: source.url,
+				url: normalizeIcsUrl(source.url),
 				method: "GET",
 				headers: {
 					"User-Agent": "Obsidian Task Progress Bar Plugin",
@@ -566,6 +836,9 @@ export class IcsManager extends Component {
 						errors: [],
 						metadata: {},
 					},
+					notModified: true,
+					etag: cacheEntry.etag,
+					lastModified: cacheEntry.lastModified,
 					timestamp: Date.now(),
 				};
 			}
@@ -584,15 +857,41 @@ export class IcsManager extends Component {
 			// Parse ICS content
 			const parseResult = IcsParser.parse(response.text, source);
 
-			// Update cache with HTTP headers
-			if (cacheEntry) {
-				cacheEntry.etag = response.headers["etag"];
-				cacheEntry.lastModified = response.headers["last-modified"];
-			}
-
 			return {
 				success: true,
 				data: parseResult,
+				etag: getHeader(response.headers, "etag"),
+				lastModified: getHeader(response.headers, "last-modified"),
+				timestamp: Date.now(),
+			};
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : "Unknown error",
+				timestamp: Date.now(),
+			};
+		}
+	}
+
+	/**
+	 * Read ICS data from a file in the vault
+	 */
+	private async readVaultFile(source: IcsSource): Promise<IcsFetchResult> {
+		const filePath = source.filePath?.trim() ?? "";
+		const file = this.vault?.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			return {
+				success: false,
+				error: `File not found: ${filePath}`,
+				timestamp: Date.now(),
+			};
+		}
+
+		try {
+			const content = await this.vault!.cachedRead(file);
+			return {
+				success: true,
+				data: IcsParser.parse(content, source),
 				timestamp: Date.now(),
 			};
 		} catch (error) {
@@ -859,7 +1158,8 @@ export class IcsManager extends Component {
 		this.stopBackgroundRefresh(); // Clear existing intervals
 
 		for (const source of this.config.sources) {
-			if (source.enabled) {
+			// Vault sources follow their file instead of a timer
+			if (source.enabled && source.type !== "vault") {
 				const interval =
 					source.refreshInterval || this.config.globalRefreshInterval;
 				const intervalId = setInterval(() => {
@@ -905,3 +1205,52 @@ export class IcsManager extends Component {
 		super.onunload();
 	}
 }
+
+/**
+ * Calendar apps share feeds as webcal:// links, which are plain https
+ */
+export function normalizeIcsUrl(url: string): string {
+	return url.trim().replace(/^webcals?:\/\//i, "https://");
+}
+
+/**
+ * Read a response header regardless of the case the server used
+ */
+function getHeader(
+	headers: Record<string, string>,
+	name: string
+): string | undefined {
+	const key = Object.keys(headers ?? {}).find(
+		(header) => header.toLowerCase() === name
+	);
+	return key ? headers[key] : undefined;
+}
+
+/**
+ * Restore a persisted event, dates come back as strings when the cache
+ * falls back to localStorage
+ */
+function reviveEvent(
+	event: Omit<IcsEvent, "source">,
+	source: IcsSource
+): IcsEvent {
+	const toDate = (value?: Date | string) =>
+		value === undefined ? undefined : new Date(value);
+
+	return {
+		...event,
+		source,
+		dtstart: new Date(event.dtstart),
+		dtend: toDate(event.dtend),
+		due: toDate(event.due),
+		completed: toDate(event.completed),
+		exdate: event.exdate?.map((date) => new Date(date)),
+		recurrenceId: toDate(event.recurrenceId),
+		created: toDate(event.created),
+		lastModified: toDate(event.lastModified),
+		alarms: event.alarms?.map((alarm) => ({
+			...alarm,
+			triggerDate: toDate(alarm.triggerDate),
+		})),
+	};
+}
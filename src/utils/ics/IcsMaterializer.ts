@@ -0,0 +1,293 @@
+/**
+ * ICS Materializer
+ * Writes calendar events as markdown tasks into the daily note or a target
+ * file, so they can be checked off and annotated like any other task
+ */
+
+import { App, Component, debounce, moment, Notice } from "obsidian";
+import type TaskProgressBarPlugin from "../../index";
+import {
+	IcsEvent,
+	IcsMaterializeConfig,
+	IcsSource,
+	IcsTask,
+} from "../../types/ics";
+import { TaskProgressBarSettings } from "../../common/setting-definition";
+import { QuickCaptureOptions } from "../../editor-ext/quickCapture";
+import { saveCapture } from "../fileUtils";
+import { t } from "../../translations/helper";
+
+// Wait for syncs and index updates to settle before writing tasks
+const AUTO_MATERIALIZE_DEBOUNCE = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MATERIALIZE_CONFIG: IcsMaterializeConfig = {
+	targetType: "daily-note",
+	autoMaterialize: false,
+};
+
+const PRIORITY_EMOJIS: Record<number, string> = {
+	5: "🔺",
+	4: "⏫",
+	3: "🔼",
+	2: "🔽",
+	1: "⏬",
+};
+
+const PRIORITY_NAMES: Record<number, string> = {
+	5: "highest",
+	4: "high",
+	3: "medium",
+	2: "low",
+	1: "lowest",
+};
+
+/**
+ * The [ics::] value of a task written from an event, occurrences of a
+ * recurring event are told apart by their original start
+ */
+export function getIcsMaterializeKey(event: IcsEvent): string {
+	if (!event.recurrenceId) return event.uid;
+	return `${event.uid}/${event.recurrenceId
+		.toISOString()
+		.replace(/[-:]|\.\d{3}/g, "")}`;
+}
+
+/**
+ * Markdown task line of a calendar task. Events are scheduled on their day,
+ * to-dos keep their start and due dates.
+ */
+export function icsTaskToMarkdown(
+	task: IcsTask,
+	settings: TaskProgressBarSettings
+): string {
+	const useDataviewFormat = settings.preferMetadataFormat === "dataview";
+	const { metadata, icsEvent } = task;
+	const parts = [`- [${task.status}] ${task.content}`];
+
+	const addDate = (
+		date: number | undefined,
+		key: string,
+		emoji: string
+	) => {
+		if (date === undefined) return;
+		const value = moment(date).format("YYYY-MM-DD");
+		parts.push(
+			useDataviewFormat ? `[${key}:: ${value}]` : `${emoji} ${value}`
+		);
+	};
+
+	if (metadata.priority) {
+		parts.push(
+			useDataviewFormat
+				? `[priority:: ${PRIORITY_NAMES[metadata.priority]}]`
+				: PRIORITY_EMOJIS[metadata.priority]
+		);
+	}
+	if (icsEvent.componentType === "VTODO") {
+		addDate(metadata.startDate, "start", "🛫");
+		addDate(metadata.dueDate, "due", "📅");
+	} else {
+		addDate(icsEvent.dtstart.getTime(), "scheduled", "⏳");
+	}
+	if (task.completed) {
+		addDate(metadata.completedDate ?? Date.now(), "completion", "✅");
+	}
+	parts.push(`[ics:: ${getIcsMaterializeKey(icsEvent)}]`);
+
+	return parts.join(" ");
+}
+
+export class IcsMaterializer extends Component {
+	private plugin: TaskProgressBarPlugin;
+	private app: App;
+	private isRunning = false;
+	// Keys written this session, the index may not have picked them up yet
+	private writtenKeys = new Set<string>();
+
+	private scheduleAutoMaterialize = debounce(
+		() => {
+			this.autoMaterialize();
+		},
+		AUTO_MATERIALIZE_DEBOUNCE,
+		true
+	);
+
+	constructor(plugin: TaskProgressBarPlugin) {
+		super();
+		this.plugin = plugin;
+		this.app = plugin.app;
+	}
+
+	onload() {
+		this.registerEvent(
+			this.app.workspace.on("task-genius:task-cache-updated", () => {
+				if (this.getAutoSources().length > 0) {
+					this.scheduleAutoMaterialize();
+				}
+			})
+		);
+	}
+
+	/**
+	 * Write a calendar task to its note, telling the user how it went
+	 */
+	public async materializeTask(task: IcsTask): Promise<boolean> {
+		const key = getIcsMaterializeKey(task.icsEvent);
+		if (this.getMaterializedKeys().has(key)) {
+			new Notice(t("A task was already created for this event"));
+			return false;
+		}
+
+		try {
+			await this.writeTask(task);
+			new Notice(t("Task created from calendar event"));
+			return true;
+		} catch (error) {
+			console.error("Failed to create task from calendar event:", error);
+			new Notice(t("Failed to create task: ") + error.message);
+			return false;
+		}
+	}
+
+	/**
+	 * Write the upcoming events of sources with the auto-rule on, returns
+	 * the number of created tasks
+	 */
+	public async autoMaterialize(): Promise<number> {
+		const taskManager = this.plugin.taskManager;
+		const icsManager = this.plugin.getIcsManager();
+		// Existing tasks are only known once the index is built
+		if (!taskManager?.isInitialized() || !icsManager || this.isRunning) {
+			return 0;
+		}
+
+		this.isRunning = true;
+		let created = 0;
+		try {
+			const materialized = this.getMaterializedKeys();
+			const windowStart = moment().startOf("day").valueOf();
+
+			for (const source of this.getAutoSources()) {
+				const config = source.materialize!;
+				const days = config.autoMaterializeDays ?? 0;
+				const windowEnd = windowStart + (days + 1) * DAY_MS;
+				const pattern = this.getPattern(config);
+
+				const events = icsManager
+					.getEventsFromSource(source.id)
+					.filter((event) => {
+						const time = this.getEventDate(event).valueOf();
+						return (
+							time >= windowStart &&
+							time < windowEnd &&
+							(!pattern || pattern.test(event.summary)) &&
+							!materialized.has(getIcsMaterializeKey(event))
+						);
+					});
+
+				for (const task of icsManager.convertEventsToTasks(events)) {
+					try {
+						await this.writeTask(task);
+						created++;
+					} catch (error) {
+						console.error(
+							`Failed to create task for event ${task.icsEvent.uid}:`,
+							error
+						);
+					}
+				}
+			}
+		} finally {
+			this.isRunning = false;
+		}
+
+		return created;
+	}
+
+	/**
+	 * Backlinks of the tasks already written from events
+	 */
+	public getMaterializedKeys(): Set<string> {
+		const keys = new Set(this.writtenKeys);
+		for (const task of this.plugin.taskManager?.getAllTasks() ?? []) {
+			if (task.metadata.icsUid) {
+				keys.add(task.metadata.icsUid);
+			}
+		}
+		return keys;
+	}
+
+	private async writeTask(task: IcsTask): Promise<void> {
+		const key = getIcsMaterializeKey(task.icsEvent);
+		const config =
+			this.getSource(task.icsEvent.source)?.materialize ??
+			DEFAULT_MATERIALIZE_CONFIG;
+
+		const options: QuickCaptureOptions = {
+			targetType: config.targetType,
+			targetFile: config.targetFile,
+			targetHeading: config.targetHeading,
+			appendToFile: "append",
+			dailyNoteSettings:
+				this.plugin.settings.quickCapture.dailyNoteSettings,
+		};
+
+		this.writtenKeys.add(key);
+		try {
+			await saveCapture(
+				this.app,
+				icsTaskToMarkdown(task, this.plugin.settings),
+				options,
+				this.getEventDate(task.icsEvent)
+			);
+		} catch (error) {
+			this.writtenKeys.delete(key);
+			throw error;
+		}
+	}
+
+	/**
+	 * Day a task belongs to: the start of events, the due date of to-dos
+	 * and today for undated to-dos
+	 */
+	private getEventDate(event: IcsEvent): moment.Moment {
+		if (event.componentType === "VTODO") {
+			if (event.due) return moment(event.due);
+			if (event.undated) return moment();
+		}
+		return moment(event.dtstart);
+	}
+
+	private getPattern(config: IcsMaterializeConfig): RegExp | undefined {
+		if (!config.autoMaterializePattern) return undefined;
+		try {
+			return new RegExp(config.autoMaterializePattern, "i");
+		} catch (error) {
+			console.warn(
+				`Invalid auto-create pattern: ${config.autoMaterializePattern}`,
+				error
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Current settings of a source, events keep the source they were
+	 * fetched with
+	 */
+	private getSource(source: IcsSource): IcsSource | undefined {
+		return (
+			this.plugin.settings.icsIntegration.sources.find(
+				(s) => s.id === source.id
+			) ?? source
+		);
+	}
+
+	private getAutoSources(): IcsSource[] {
+		return this.plugin.settings.icsIntegration.sources.filter(
+			(source) => source.enabled && source.materialize?.autoMaterialize
+		);
+	}
+}
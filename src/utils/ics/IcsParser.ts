@@ -3,13 +3,22 @@
  * Parses iCalendar format data into structured events
  */
 
-import { IcsEvent, IcsParseResult, IcsSource } from "../../types/ics";
+import {
+	IcsAlarm,
+	IcsEvent,
+	IcsParseResult,
+	IcsSource,
+} from "../../types/ics";
 
 export class IcsParser {
 	// Pre-compiled regular expressions for better performance
 	private static readonly CN_REGEX = /CN=([^;:]+)/;
 	private static readonly ROLE_REGEX = /ROLE=([^;:]+)/;
 	private static readonly PARTSTAT_REGEX = /PARTSTAT=([^;:]+)/;
+	private static readonly RELTYPE_REGEX = /RELTYPE=([^;:]+)/i;
+	private static readonly ALL_DAY_REGEX = /VALUE=DATE(?!-TIME)/;
+	private static readonly DURATION_REGEX =
+		/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
 
 	// Cache for parsed content to avoid re-parsing identical content
 	private static readonly parseCache = new Map<string, IcsParseResult>();
@@ -36,6 +45,26 @@ export class IcsParser {
 		['DTEND', (event, value, fullLine) => {
 			event.dtend = IcsParser.parseDateTime(value, fullLine).date;
 		}],
+		['DUE', (event, value, fullLine) => {
+			const result = IcsParser.parseDateTime(value, fullLine);
+			event.due = result.date;
+			// A to-do without DTSTART takes its all-day flag from DUE
+			if (!event.dtstart) event.allDay = result.allDay;
+		}],
+		['COMPLETED', (event, value, fullLine) => {
+			event.completed = IcsParser.parseDateTime(value, fullLine).date;
+		}],
+		['PERCENT-COMPLETE', (event, value) => {
+			const percent = parseInt(value, 10);
+			if (!isNaN(percent)) event.percentComplete = Math.min(100, Math.max(0, percent));
+		}],
+		['RELATED-TO', (event, value, fullLine) => {
+			// Only parent links, RELTYPE defaults to PARENT
+			const reltype = fullLine.match(IcsParser.RELTYPE_REGEX);
+			if (!reltype || reltype[1].toUpperCase() === "PARENT") {
+				event.relatedTo = value.trim();
+			}
+		}],
 		['CREATED', (event, value, fullLine) => {
 			event.created = IcsParser.parseDateTime(value, fullLine).date;
 		}],
@@ -45,6 +74,9 @@ export class IcsParser {
 		['CATEGORIES', (event, value) => {
 			event.categories = value.split(",").map(cat => cat.trim());
 		}],
+		['RECURRENCE-ID', (event, value, fullLine) => {
+			event.recurrenceId = IcsParser.parseDateTime(value, fullLine).date;
+		}],
 		['EXDATE', (event, value, fullLine) => {
 			if (!event.exdate) event.exdate = [];
 			const exdates = value.split(",");
@@ -88,6 +120,7 @@ export class IcsParser {
 		try {
 			const lines = this.unfoldLines(content.split(/\r?\n/));
 			let currentEvent: Partial<IcsEvent> | null = null;
+			let currentAlarm: Partial<IcsAlarm> | null = null;
 			let inCalendar = false;
 			let lineNumber = 0;
 
@@ -106,18 +139,34 @@ export class IcsParser {
 						case "BEGIN":
 							if (value === "VCALENDAR") {
 								inCalendar = true;
-							} else if (value === "VEVENT" && inCalendar) {
-								currentEvent = { source };
+							} else if (
+								(value === "VEVENT" || value === "VTODO") &&
+								inCalendar
+							) {
+								currentEvent = { source, componentType: value };
+							} else if (value === "VALARM" && currentEvent) {
+								currentAlarm = {};
 							}
 							break;
 
 						case "END":
-							if (value === "VEVENT" && currentEvent) {
+							if (value === "VALARM" && currentEvent && currentAlarm) {
+								const alarm = this.finalizeAlarm(currentAlarm);
+								if (alarm) {
+									if (!currentEvent.alarms) currentEvent.alarms = [];
+									currentEvent.alarms.push(alarm);
+								}
+								currentAlarm = null;
+							} else if (
+								currentEvent &&
+								value === currentEvent.componentType
+							) {
 								const event = this.finalizeEvent(currentEvent);
 								if (event) {
 									result.events.push(event);
 								}
 								currentEvent = null;
+								currentAlarm = null;
 							} else if (value === "VCALENDAR") {
 								inCalendar = false;
 							}
@@ -160,7 +209,14 @@ export class IcsParser {
 							break;
 
 						default:
-							if (currentEvent) {
+							if (currentAlarm) {
+								this.parseAlarmProperty(
+									currentAlarm,
+									property,
+									value,
+									trimmedLine
+								);
+							} else if (currentEvent) {
 								this.parseEventProperty(
 									currentEvent,
 									property,
@@ -317,6 +373,81 @@ export class IcsParser {
 		}
 	}
 
+	/**
+	 * Parse alarm (VALARM) properties
+	 */
+	private static parseAlarmProperty(
+		alarm: Partial<IcsAlarm>,
+		property: string,
+		value: string,
+		fullLine: string
+	): void {
+		switch (property) {
+			case "ACTION":
+				alarm.action = value.toUpperCase();
+				break;
+			case "DESCRIPTION":
+				alarm.description = this.unescapeText(value);
+				break;
+			case "TRIGGER":
+				if (fullLine.indexOf("VALUE=DATE-TIME") !== -1) {
+					alarm.triggerDate = this.parseDateTime(value, fullLine).date;
+				} else {
+					alarm.triggerOffset = this.parseDuration(value);
+					alarm.triggerRelated =
+						fullLine.indexOf("RELATED=END") !== -1 ? "END" : "START";
+				}
+				break;
+		}
+	}
+
+	/**
+	 * Parse a duration value like -PT15M or P1DT2H into milliseconds
+	 */
+	private static parseDuration(value: string): number | undefined {
+		const match = value.trim().match(this.DURATION_REGEX);
+		if (!match) return undefined;
+
+		const [, sign, weeks, days, hours, minutes, seconds] = match;
+		const totalSeconds =
+			(parseInt(weeks || "0", 10) * 7 + parseInt(days || "0", 10)) * 86400 +
+			parseInt(hours || "0", 10) * 3600 +
+			parseInt(minutes || "0", 10) * 60 +
+			parseInt(seconds || "0", 10);
+
+		return (sign === "-" ? -1 : 1) * totalSeconds * 1000;
+	}
+
+	/**
+	 * Get the times an event's alarms go off, in chronological order
+	 */
+	static getAlarmTimes(
+		event: Pick<IcsEvent, "alarms" | "dtstart" | "dtend" | "due" | "undated">
+	): Date[] {
+		const times: Date[] = [];
+
+		for (const alarm of event.alarms ?? []) {
+			if (alarm.triggerDate) {
+				times.push(alarm.triggerDate);
+				continue;
+			}
+			if (alarm.triggerOffset === undefined) continue;
+
+			// Relative to DTEND for events and DUE for to-dos
+			const base =
+				alarm.triggerRelated === "END"
+					? event.dtend ?? event.due
+					: event.undated
+					? undefined
+					: event.dtstart;
+			if (base) {
+				times.push(new Date(base.getTime() + alarm.triggerOffset));
+			}
+		}
+
+		return times.sort((a, b) => a.getTime() - b.getTime());
+	}
+
 	/**
 	 * Parse date/time values
 	 * Optimized version with reduced string operations and better parsing
@@ -325,8 +456,8 @@ export class IcsParser {
 		value: string,
 		fullLine: string
 	): { date: Date; allDay?: boolean } {
-		// Check if it's an all-day event (VALUE=DATE parameter)
-		const isAllDay = fullLine.indexOf("VALUE=DATE") !== -1;
+		// Check if it's an all-day event (VALUE=DATE parameter, not DATE-TIME)
+		const isAllDay = this.ALL_DAY_REGEX.test(fullLine);
 
 		// Extract actual date/time string, handling timezone info efficiently
 		let dateStr = value;
@@ -495,8 +626,18 @@ export class IcsParser {
 	 * Finalize and validate event
 	 */
 	private static finalizeEvent(event: Partial<IcsEvent>): IcsEvent | null {
+		// To-dos don't need a start date, place them on their due date
+		let dtstart = event.dtstart;
+		let undated: boolean | undefined;
+		let startFromDue: boolean | undefined;
+		if (!dtstart && event.componentType === "VTODO") {
+			dtstart = event.due ?? event.created ?? new Date();
+			undated = !event.due || undefined;
+			startFromDue = !!event.due || undefined;
+		}
+
 		// Required fields validation
-		if (!event.uid || !event.summary || !event.dtstart) {
+		if (!event.uid || !event.summary || !dtstart) {
 			return null;
 		}
 
@@ -504,9 +645,17 @@ export class IcsParser {
 		const finalEvent: IcsEvent = {
 			uid: event.uid,
 			summary: event.summary,
-			dtstart: event.dtstart,
+			dtstart,
 			allDay: event.allDay ?? false,
 			source: event.source!,
+			componentType: event.componentType,
+			due: event.due,
+			completed: event.completed,
+			percentComplete: event.percentComplete,
+			relatedTo: event.relatedTo,
+			undated,
+			startFromDue,
+			alarms: event.alarms,
 			description: event.description,
 			dtend: event.dtend,
 			location: event.location,
@@ -514,6 +663,7 @@ export class IcsParser {
 			status: event.status,
 			rrule: event.rrule,
 			exdate: event.exdate,
+			recurrenceId: event.recurrenceId,
 			created: event.created,
 			lastModified: event.lastModified,
 			priority: event.priority,
@@ -525,4 +675,21 @@ export class IcsParser {
 
 		return finalEvent;
 	}
+
+	/**
+	 * Finalize an alarm, alarms without a trigger are dropped
+	 */
+	private static finalizeAlarm(alarm: Partial<IcsAlarm>): IcsAlarm | null {
+		if (alarm.triggerOffset === undefined && !alarm.triggerDate) {
+			return null;
+		}
+
+		return {
+			action: alarm.action || "DISPLAY",
+			triggerOffset: alarm.triggerOffset,
+			triggerRelated: alarm.triggerRelated,
+			triggerDate: alarm.triggerDate,
+			description: alarm.description,
+		};
+	}
 }
@@ -0,0 +1,231 @@
+/**
+ * ICS (iCalendar) Writer
+ * Serializes events into iCalendar format, the reverse of IcsParser
+ */
+
+import { IcsEvent } from "../../types/ics";
+
+/**
+ * An event to serialize, it doesn't need to come from an ICS source.
+ * DTSTART is optional for VTODO components.
+ */
+export type IcsWriterEvent = Omit<IcsEvent, "source" | "dtstart"> & {
+	dtstart?: Date;
+};
+
+export interface IcsWriterMetadata {
+	/** Calendar name (X-WR-CALNAME) */
+	calendarName?: string;
+	/** Product identifier */
+	prodid?: string;
+}
+
+export class IcsWriter {
+	private static readonly DEFAULT_PRODID = "-//Task Genius//Task Genius//EN";
+	// Content lines are folded at 75 octets (RFC 5545 3.1)
+	private static readonly MAX_LINE_LENGTH = 75;
+
+	/**
+	 * Serialize events into an iCalendar document
+	 */
+	static serialize(
+		events: IcsWriterEvent[],
+		metadata: IcsWriterMetadata = {}
+	): string {
+		const lines: string[] = [
+			"BEGIN:VCALENDAR",
+			"VERSION:2.0",
+			`PRODID:${metadata.prodid || this.DEFAULT_PRODID}`,
+			"CALSCALE:GREGORIAN",
+			"METHOD:PUBLISH",
+		];
+
+		if (metadata.calendarName) {
+			lines.push(
+				`X-WR-CALNAME:${this.escapeText(metadata.calendarName)}`
+			);
+		}
+
+		const timestamp = this.formatDateTime(new Date());
+		for (const event of events) {
+			lines.push(...this.serializeEvent(event, timestamp));
+		}
+
+		lines.push("END:VCALENDAR");
+
+		return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+	}
+
+	/**
+	 * Serialize a single event as a VEVENT or VTODO component
+	 */
+	private static serializeEvent(
+		event: IcsWriterEvent,
+		timestamp: string
+	): string[] {
+		const component = event.componentType || "VEVENT";
+		const lines = [
+			`BEGIN:${component}`,
+			`UID:${event.uid}`,
+			`DTSTAMP:${timestamp}`,
+		];
+
+		if (event.dtstart) {
+			lines.push(
+				this.formatDateProperty("DTSTART", event.dtstart, event)
+			);
+		}
+		if (event.dtend) {
+			lines.push(this.formatDateProperty("DTEND", event.dtend, event));
+		}
+		if (event.due) {
+			lines.push(this.formatDateProperty("DUE", event.due, event));
+		}
+		if (event.completed) {
+			// COMPLETED is always a UTC date-time
+			lines.push(`COMPLETED:${this.formatDateTime(event.completed)}`);
+		}
+
+		lines.push(`SUMMARY:${this.escapeText(event.summary)}`);
+		if (event.description) {
+			lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+		}
+		if (event.location) {
+			lines.push(`LOCATION:${this.escapeText(event.location)}`);
+		}
+		if (event.status) {
+			lines.push(`STATUS:${event.status}`);
+		}
+		if (event.priority !== undefined) {
+			lines.push(`PRIORITY:${event.priority}`);
+		}
+		if (event.categories && event.categories.length > 0) {
+			lines.push(
+				`CATEGORIES:${event.categories
+					.map((category) => this.escapeText(category))
+					.join(",")}`
+			);
+		}
+		if (event.rrule) {
+			lines.push(`RRULE:${event.rrule}`);
+		}
+		if (event.exdate && event.exdate.length > 0) {
+			lines.push(this.formatDateProperty("EXDATE", event.exdate, event));
+		}
+		if (event.created) {
+			lines.push(`CREATED:${this.formatDateTime(event.created)}`);
+		}
+		if (event.lastModified) {
+			lines.push(
+				`LAST-MODIFIED:${this.formatDateTime(event.lastModified)}`
+			);
+		}
+		if (event.customProperties) {
+			for (const [property, value] of Object.entries(
+				event.customProperties
+			)) {
+				lines.push(`${property}:${value}`);
+			}
+		}
+
+		lines.push(`END:${component}`);
+		return lines;
+	}
+
+	/**
+	 * Format a date property, as a date for all-day events and a UTC
+	 * date-time otherwise
+	 */
+	private static formatDateProperty(
+		property: string,
+		value: Date | Date[],
+		event: IcsWriterEvent
+	): string {
+		const dates = Array.isArray(value) ? value : [value];
+		if (event.allDay) {
+			return `${property};VALUE=DATE:${dates
+				.map((date) => this.formatDate(date))
+				.join(",")}`;
+		}
+		return `${property}:${dates
+			.map((date) => this.formatDateTime(date))
+			.join(",")}`;
+	}
+
+	/**
+	 * Format a local date as YYYYMMDD
+	 */
+	private static formatDate(date: Date): string {
+		return (
+			date.getFullYear().toString().padStart(4, "0") +
+			this.pad(date.getMonth() + 1) +
+			this.pad(date.getDate())
+		);
+	}
+
+	/**
+	 * Format a date-time as YYYYMMDDTHHMMSSZ in UTC
+	 */
+	private static formatDateTime(date: Date): string {
+		return (
+			date.getUTCFullYear().toString().padStart(4, "0") +
+			this.pad(date.getUTCMonth() + 1) +
+			this.pad(date.getUTCDate()) +
+			"T" +
+			this.pad(date.getUTCHours()) +
+			this.pad(date.getUTCMinutes()) +
+			this.pad(date.getUTCSeconds()) +
+			"Z"
+		);
+	}
+
+	private static pad(value: number): string {
+		return value.toString().padStart(2, "0");
+	}
+
+	/**
+	 * Escape special characters in text values (RFC 5545 3.3.11)
+	 */
+	private static escapeText(text: string): string {
+		return text
+			.replace(/\\/g, "\\\\")
+			.replace(/;/g, "\\;")
+			.replace(/,/g, "\\,")
+			.replace(/\r?\n/g, "\\n");
+	}
+
+	/**
+	 * Fold a content line longer than 75 octets into continuation lines
+	 * starting with a space
+	 */
+	private static foldLine(line: string): string {
+		const parts: string[] = [];
+		let part = "";
+		let partLength = 0;
+		// Split by code point, so multi-byte characters are never cut
+		for (const char of Array.from(line)) {
+			const charLength = this.getUtf8Length(char);
+			if (partLength + charLength > this.MAX_LINE_LENGTH) {
+				parts.push(part);
+				// Continuation lines lose one octet to the leading space
+				part = " ";
+				partLength = 1;
+			}
+			part += char;
+			partLength += charLength;
+		}
+		parts.push(part);
+		return parts.join("\r\n");
+	}
+
+	/**
+	 * Length in UTF-8 octets of a single code point
+	 */
+	private static getUtf8Length(char: string): number {
+		const codePoint = char.codePointAt(0) ?? 0;
+		if (codePoint < 0x80) return 1;
+		if (codePoint < 0x800) return 2;
+		if (codePoint < 0x10000) return 3;
+		return 4;
+	}
+}
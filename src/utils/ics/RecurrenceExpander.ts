@@ -0,0 +1,189 @@
+/**
+ * Recurrence Expander for ICS Events
+ * Expands recurring events (RRULE) into their occurrences within a date
+ * window, honouring EXDATE and instances overridden by RECURRENCE-ID
+ */
+
+import { RRule } from "rrule";
+import { IcsEvent } from "../../types/ics";
+
+export class RecurrenceExpander {
+	// Upper bound of occurrences per event, guards against runaway rules
+	private static readonly MAX_OCCURRENCES = 1000;
+
+	/**
+	 * Replace recurring events with their occurrences between windowStart
+	 * and windowEnd. Every occurrence keeps the UID of its series and gets
+	 * its original start as recurrenceId, like an overridden instance.
+	 */
+	static expandEvents(
+		events: IcsEvent[],
+		windowStart: Date,
+		windowEnd: Date
+	): IcsEvent[] {
+		// Overridden instances, by series UID and original start
+		const overrides = new Map<string, Map<string, IcsEvent>>();
+		const seriesUids = new Set<string>();
+		for (const event of events) {
+			if (event.rrule && !event.recurrenceId) {
+				seriesUids.add(event.uid);
+			}
+			if (!event.recurrenceId) continue;
+			if (!overrides.has(event.uid)) {
+				overrides.set(event.uid, new Map());
+			}
+			overrides
+				.get(event.uid)!
+				.set(this.getOccurrenceKey(event.recurrenceId, event), event);
+		}
+
+		const result: IcsEvent[] = [];
+		for (const event of events) {
+			if (event.recurrenceId) {
+				// Overrides are emitted in place of their occurrence
+				if (!seriesUids.has(event.uid)) {
+					result.push(event);
+				}
+				continue;
+			}
+
+			if (!event.rrule) {
+				result.push(event);
+				continue;
+			}
+
+			const occurrences = this.expandEvent(
+				event,
+				windowStart,
+				windowEnd,
+				overrides.get(event.uid)
+			);
+			// A rule that can't be read still shows its first occurrence
+			result.push(...(occurrences ?? [event]));
+		}
+
+		return result;
+	}
+
+	/**
+	 * Occurrences of a recurring event within the window, or undefined if
+	 * its rule is invalid
+	 */
+	private static expandEvent(
+		event: IcsEvent,
+		windowStart: Date,
+		windowEnd: Date,
+		overrides?: Map<string, IcsEvent>
+	): IcsEvent[] | undefined {
+		let rule: RRule;
+		try {
+			rule = new RRule({
+				...RRule.parseString(event.rrule!.replace(/^RRULE:/i, "")),
+				dtstart: this.toFloating(event.dtstart),
+			});
+		} catch (error) {
+			console.warn(`Invalid RRULE for event ${event.uid}:`, error);
+			return undefined;
+		}
+
+		const excluded = new Set(
+			(event.exdate ?? []).map((date) =>
+				this.getOccurrenceKey(date, event)
+			)
+		);
+		// Occurrences that started before the window may still be running
+		const duration = event.dtend
+			? event.dtend.getTime() - event.dtstart.getTime()
+			: 0;
+		const starts = rule.between(
+			this.toFloating(new Date(windowStart.getTime() - duration)),
+			this.toFloating(windowEnd),
+			true,
+			(_, index) => index < this.MAX_OCCURRENCES
+		);
+
+		const occurrences: IcsEvent[] = [];
+		const overridden = new Set<string>();
+		for (const floatingStart of starts) {
+			const start = this.fromFloating(floatingStart);
+			const key = this.getOccurrenceKey(start, event);
+			if (excluded.has(key)) continue;
+
+			const override = overrides?.get(key);
+			if (override) {
+				overridden.add(key);
+				occurrences.push({ ...override, rrule: event.rrule });
+				continue;
+			}
+
+			const offset = start.getTime() - event.dtstart.getTime();
+			occurrences.push({
+				...event,
+				dtstart: start,
+				dtend: event.dtend
+					? new Date(event.dtend.getTime() + offset)
+					: undefined,
+				due: event.due
+					? new Date(event.due.getTime() + offset)
+					: undefined,
+				recurrenceId: start,
+				exdate: undefined,
+			});
+		}
+
+		// Overrides moved into the window from an occurrence outside of it
+		for (const [key, override] of overrides ?? []) {
+			if (
+				!overridden.has(key) &&
+				!excluded.has(key) &&
+				override.dtstart <= windowEnd &&
+				(override.dtend ?? override.dtstart) >= windowStart
+			) {
+				occurrences.push({ ...override, rrule: event.rrule });
+			}
+		}
+
+		return occurrences;
+	}
+
+	/**
+	 * Key of an occurrence: the date for all-day events, the start time
+	 * otherwise
+	 */
+	private static getOccurrenceKey(date: Date, event: IcsEvent): string {
+		if (event.allDay) {
+			return `${date.getFullYear()}-${
+				date.getMonth() + 1
+			}-${date.getDate()}`;
+		}
+		return date.getTime().toString();
+	}
+
+	/**
+	 * rrule works in UTC, so local wall-clock times are expanded as UTC
+	 * times with the same fields to keep them across DST changes
+	 */
+	private static toFloating(date: Date): Date {
+		return new Date(
+			Date.UTC(
+				date.getFullYear(),
+				date.getMonth(),
+				date.getDate(),
+				date.getHours(),
+				date.getMinutes(),
+				date.getSeconds()
+			)
+		);
+	}
+
+	private static fromFloating(date: Date): Date {
+		return new Date(
+			date.getUTCFullYear(),
+			date.getUTCMonth(),
+			date.getUTCDate(),
+			date.getUTCHours(),
+			date.getUTCMinutes(),
+			date.getUTCSeconds()
+		);
+	}
+}
@@ -21,6 +21,11 @@ export class StatusMapper {
 		config: IcsStatusMapping | undefined,
 		pluginSettings: TaskProgressBarSettings
 	): string {
+		// To-dos carry their own progress, the rules are meant for events
+		if (event.componentType === "VTODO") {
+			return this.mapIcsTodoStatus(event, pluginSettings);
+		}
+
 		// If no custom status mapping is configured, use default ICS status mapping
 		if (!config?.enabled) {
 			return this.mapIcsStatusToTaskStatus(event.status, pluginSettings);
@@ -230,12 +235,128 @@ export class StatusMapper {
 				return statusMarks["Abandoned"] || "-";
 			case "TENTATIVE":
 				return statusMarks["Planned"] || "?";
+			case "IN-PROCESS":
+				return statusMarks["In Progress"] || "/";
 			case "CONFIRMED":
 			default:
 				return statusMarks["Not Started"] || " ";
 		}
 	}
 
+	/**
+	 * Map the progress of a to-do (STATUS, COMPLETED and PERCENT-COMPLETE)
+	 * to a task status
+	 */
+	private static mapIcsTodoStatus(
+		event: IcsEvent,
+		pluginSettings: TaskProgressBarSettings
+	): string {
+		const statusMarks = pluginSettings.taskStatusMarks;
+		const status = event.status?.toUpperCase();
+
+		if (
+			status === "COMPLETED" ||
+			event.completed ||
+			event.percentComplete === 100
+		) {
+			return statusMarks["Completed"] || "x";
+		}
+		if (
+			status === "IN-PROCESS" ||
+			(event.percentComplete !== undefined && event.percentComplete > 0)
+		) {
+			return statusMarks["In Progress"] || "/";
+		}
+		return this.mapIcsStatusToTaskStatus(status, pluginSettings);
+	}
+
+	/**
+	 * Map a task status back to an ICS status, the reverse of
+	 * mapIcsStatusToTaskStatus. VTODO and VEVENT use different status values.
+	 */
+	static mapTaskStatusToIcsStatus(
+		taskStatus: string,
+		componentType: "VEVENT" | "VTODO",
+		pluginSettings: TaskProgressBarSettings
+	): string {
+		const isTodo = componentType === "VTODO";
+
+		switch (this.getStatusCategory(taskStatus, pluginSettings)) {
+			case "completed":
+				return isTodo ? "COMPLETED" : "CONFIRMED";
+			case "abandoned":
+				return "CANCELLED";
+			case "planned":
+				return isTodo ? "NEEDS-ACTION" : "TENTATIVE";
+			case "inProgress":
+				return isTodo ? "IN-PROCESS" : "CONFIRMED";
+			default:
+				return isTodo ? "NEEDS-ACTION" : "CONFIRMED";
+		}
+	}
+
+	/**
+	 * Map an ICS priority to a task priority
+	 * ICS priority: 0 (undefined), 1 (highest) ... 5 (normal) ... 9 (lowest)
+	 * Task priority: 5 (highest), 4 (high), 3 (medium), 2 (low), 1 (lowest)
+	 */
+	static mapIcsPriorityToTaskPriority(
+		icsPriority?: number
+	): number | undefined {
+		if (icsPriority === undefined) return undefined;
+
+		if (icsPriority === 1) return 5; // Highest
+		if (icsPriority >= 2 && icsPriority <= 4) return 4; // High
+		if (icsPriority === 5) return 3; // Medium
+		if (icsPriority >= 6 && icsPriority <= 8) return 2; // Low
+		if (icsPriority === 9) return 1; // Lowest
+		return undefined;
+	}
+
+	/**
+	 * Map a task priority to an ICS priority, the reverse of
+	 * mapIcsPriorityToTaskPriority
+	 */
+	static mapTaskPriorityToIcsPriority(
+		taskPriority?: number
+	): number | undefined {
+		switch (taskPriority) {
+			case 5:
+				return 1;
+			case 4:
+				return 3;
+			case 3:
+				return 5;
+			case 2:
+				return 7;
+			case 1:
+				return 9;
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Find the status category of a task status mark
+	 */
+	private static getStatusCategory(
+		taskStatus: string,
+		pluginSettings: TaskProgressBarSettings
+	): string | undefined {
+		const statuses = pluginSettings.taskStatuses;
+		const categories = [
+			"completed",
+			"abandoned",
+			"inProgress",
+			"planned",
+			"notStarted",
+		] as const;
+
+		return categories.find((category) =>
+			(statuses?.[category] ?? "").split("|").includes(taskStatus)
+		);
+	}
+
 	/**
 	 * Get default status mapping configuration
 	 */
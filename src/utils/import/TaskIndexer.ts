@@ -83,6 +83,8 @@ export class TaskIndexer extends Component implements TaskIndexerInterface {
 			scheduledDate: new Map<string, Set<string>>(),
 			completed: new Map<boolean, Set<string>>(),
 			priority: new Map<number, Set<string>>(),
+			ids: new Map<string, Set<string>>(),
+			blocks: new Map<string, Set<string>>(),
 		};
 	}
 
@@ -330,6 +332,22 @@ export class TaskIndexer extends Component implements TaskIndexerInterface {
 			priorityTasks.add(task.id);
 			this.taskCache.priority.set(task.metadata.priority, priorityTasks);
 		}
+
+		// Update dependency indexes
+		if (task.metadata.id) {
+			let idTasks = this.taskCache.ids.get(task.metadata.id) || new Set();
+			idTasks.add(task.id);
+			this.taskCache.ids.set(task.metadata.id, idTasks);
+		}
+
+		if (task.metadata.dependsOn) {
+			for (const dependencyId of task.metadata.dependsOn) {
+				let blockedTasks =
+					this.taskCache.blocks.get(dependencyId) || new Set();
+				blockedTasks.add(task.id);
+				this.taskCache.blocks.set(dependencyId, blockedTasks);
+			}
+		}
 	}
 
 	/**
@@ -428,6 +446,29 @@ export class TaskIndexer extends Component implements TaskIndexerInterface {
 				}
 			}
 		}
+
+		// Remove from dependency indexes
+		if (task.metadata.id) {
+			const idTasks = this.taskCache.ids.get(task.metadata.id);
+			if (idTasks) {
+				idTasks.delete(task.id);
+				if (idTasks.size === 0) {
+					this.taskCache.ids.delete(task.metadata.id);
+				}
+			}
+		}
+
+		if (task.metadata.dependsOn) {
+			for (const dependencyId of task.metadata.dependsOn) {
+				const blockedTasks = this.taskCache.blocks.get(dependencyId);
+				if (blockedTasks) {
+					blockedTasks.delete(task.id);
+					if (blockedTasks.size === 0) {
+						this.taskCache.blocks.delete(dependencyId);
+					}
+				}
+			}
+		}
 	}
 
 	/**
@@ -904,6 +945,55 @@ export class TaskIndexer extends Component implements TaskIndexerInterface {
 		return this.taskCache.tasks.get(id);
 	}
 
+	/**
+	 * Get the tasks a task depends on (its ⛔ / dependsOn targets)
+	 */
+	public getBlockingTasks(task: Task): Task[] {
+		const result: Task[] = [];
+		for (const dependencyId of task.metadata.dependsOn || []) {
+			const taskIds = this.taskCache.ids.get(dependencyId);
+			if (!taskIds) continue;
+			for (const taskId of taskIds) {
+				const blockingTask = this.taskCache.tasks.get(taskId);
+				if (blockingTask && blockingTask.id !== task.id) {
+					result.push(blockingTask);
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Get the tasks that depend on a task through its 🆔 / id
+	 */
+	public getBlockedTasks(task: Task): Task[] {
+		if (!task.metadata.id) return [];
+		const taskIds = this.taskCache.blocks.get(task.metadata.id);
+		if (!taskIds) return [];
+		return Array.from(taskIds)
+			.map((id) => this.taskCache.tasks.get(id))
+			.filter(
+				(blockedTask): blockedTask is Task =>
+					blockedTask !== undefined && blockedTask.id !== task.id
+			);
+	}
+
+	/**
+	 * Check whether a task still waits on an unfinished dependency.
+	 * Dependency ids that match no indexed task do not block.
+	 */
+	public isTaskBlocked(
+		task: Task,
+		isDone: (task: Task) => boolean = (t) => t.completed
+	): boolean {
+		if (!task.metadata.dependsOn || task.metadata.dependsOn.length === 0) {
+			return false;
+		}
+		return this.getBlockingTasks(task).some(
+			(blockingTask) => !isDone(blockingTask)
+		);
+	}
+
 	/**
 	 * Create a new task - Not implemented (handled by external components)
 	 */
@@ -944,6 +1034,15 @@ export class TaskIndexer extends Component implements TaskIndexerInterface {
 	public setCache(cache: TaskCache): void {
 		this.taskCache = cache;
 
+		// Caches persisted before dependency tracking lack these indexes
+		if (!this.taskCache.ids || !this.taskCache.blocks) {
+			this.taskCache.ids = new Map<string, Set<string>>();
+			this.taskCache.blocks = new Map<string, Set<string>>();
+			for (const task of this.taskCache.tasks.values()) {
+				this.updateIndexMaps(task);
+			}
+		}
+
 		// Update lastIndexTime for all files in the cache
 		for (const filePath of this.taskCache.files.keys()) {
 			this.lastIndexTime.set(filePath, Date.now());
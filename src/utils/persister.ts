@@ -293,6 +293,22 @@ export class LocalStorageCache {
 		}
 	}
 
+	/**
+	 * Remove a consolidated cache entry
+	 */
+	public async removeConsolidatedCache(key: string): Promise<void> {
+		if (!this.initialized) await this.initialize();
+
+		try {
+			await this.persister.removeItem(`${this.appId}:consolidated:${key}`);
+		} catch (error) {
+			console.error(
+				`Error removing consolidated cache for ${key}:`,
+				error
+			);
+		}
+	}
+
 	/**
 	 * Get all cached files with their data
 	 * @returns Object with file paths as keys and cached data as values
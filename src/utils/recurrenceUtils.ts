@@ -0,0 +1,282 @@
+/**
+ * Helpers for recurring tasks.
+ *
+ * - the next date of a recurrence rule (RRULE strings or "every ..." text)
+ * - the RRULE of a recurrence, for calendar exports
+ * - projected future occurrences, shown as read-only "ghost" tasks
+ * - the compact completion history of a recurring task, kept either as a
+ *   `[completions:: 2025-06-01, 2025-06-08]` property or as `- ✅ 2025-06-01`
+ *   child lines under the task
+ */
+
+import { RRule, rrulestr } from "rrule";
+import { Task } from "../types/task";
+import { getLocalDateString } from "./dateUtil";
+
+/** A projected occurrence of a recurring task that doesn't exist yet */
+export interface RecurrenceGhostTask extends Task {
+	readonly: true;
+	/** Id of the recurring task the occurrence was projected from */
+	recurrenceGhostOf: string;
+}
+
+/** Matches a completion history child line */
+const HISTORY_LINE_REGEX = /^(\s*)[-*+] ✅ \d{4}-\d{2}-\d{2}\s*$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+	sunday: 0,
+	monday: 1,
+	tuesday: 2,
+	wednesday: 3,
+	thursday: 4,
+	friday: 5,
+	saturday: 6,
+};
+
+export function isRecurrenceGhost(task: Task): task is RecurrenceGhostTask {
+	return (task as RecurrenceGhostTask).recurrenceGhostOf !== undefined;
+}
+
+/**
+ * The first occurrence of a recurrence rule after the base date, at the
+ * start of that day
+ */
+export function calculateNextOccurrence(
+	recurrence: string,
+	baseDate: Date
+): number {
+	const base = new Date(baseDate);
+	// Date-based recurrence, count from the beginning of the day
+	base.setHours(0, 0, 0, 0);
+
+	try {
+		const rule = rrulestr(recurrence, { dtstart: base });
+		// Strictly after the base date, even if it is an occurrence itself
+		const nextOccurrence = rule.after(new Date(base.getTime() + 1000));
+		if (nextOccurrence) {
+			nextOccurrence.setHours(0, 0, 0, 0);
+			return nextOccurrence.getTime();
+		}
+		// No next occurrence (e.g. COUNT reached), fall back to simple rules
+	} catch (e) {
+		// Not an RRULE string, fall back to simple rules
+	}
+
+	const rule = recurrence.trim().toLowerCase();
+	let nextDate = new Date(base);
+
+	const monthOnDayMatch = rule.match(
+		/every\s+month\s+on\s+the\s+(\d+)(st|nd|rd|th)/i
+	);
+
+	if (monthOnDayMatch) {
+		const dayOfMonth = parseInt(monthOnDayMatch[1]);
+		if (!isNaN(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31) {
+			const nextMonthDate = new Date(base.getTime());
+			nextMonthDate.setMonth(nextMonthDate.getMonth() + 1);
+			nextMonthDate.setDate(dayOfMonth);
+
+			// The day hasn't come yet this month, use this month
+			if (base.getDate() < dayOfMonth) {
+				nextMonthDate.setMonth(base.getMonth());
+			}
+
+			// Invalid date (e.g. 2/30), use the last day of the month
+			if (nextMonthDate.getDate() !== dayOfMonth) {
+				nextMonthDate.setDate(0);
+			}
+
+			nextDate = nextMonthDate;
+		} else {
+			nextDate.setDate(base.getDate() + 1);
+		}
+	}
+	// Specific weekdays like "every Monday", before "every X" which would
+	// read the day as a unit. "every 2 weeks on Monday" skips the weeks in
+	// between before looking for the day.
+	else if (Object.keys(WEEKDAYS).some((day) => rule.includes(day))) {
+		const targetDay =
+			WEEKDAYS[Object.keys(WEEKDAYS).find((day) => rule.includes(day))!];
+		const weeksMatch = rule.match(/every\s+(\d+)\s+weeks?/);
+		const skippedWeeks = weeksMatch
+			? Math.max(parseInt(weeksMatch[1]) - 1, 0)
+			: 0;
+		nextDate.setDate(base.getDate() + 1 + skippedWeeks * 7);
+		while (nextDate.getDay() !== targetDay) {
+			nextDate.setDate(nextDate.getDate() + 1);
+		}
+	}
+	// "every X days/weeks/months/years"
+	else if (rule.startsWith("every")) {
+		const parts = rule.split(" ");
+		if (parts.length >= 2) {
+			let interval = 1;
+			let unit = parts[1];
+			if (parts.length >= 3 && !isNaN(parseInt(parts[1]))) {
+				interval = parseInt(parts[1]);
+				unit = parts[2];
+			}
+			if (unit.endsWith("s")) {
+				unit = unit.substring(0, unit.length - 1);
+			}
+			switch (unit) {
+				case "week":
+					nextDate.setDate(base.getDate() + interval * 7);
+					break;
+				case "month":
+					nextDate.setMonth(base.getMonth() + interval);
+					break;
+				case "year":
+					nextDate.setFullYear(base.getFullYear() + interval);
+					break;
+				default:
+					// "day" and unknown units
+					nextDate.setDate(base.getDate() + interval);
+			}
+		} else {
+			nextDate.setDate(base.getDate() + 1);
+		}
+	} else {
+		// Unknown format, next day
+		nextDate.setDate(base.getDate() + 1);
+	}
+
+	nextDate.setHours(0, 0, 0, 0);
+	return nextDate.getTime();
+}
+
+/**
+ * The RRULE value (without the "RRULE:" prefix) of a recurrence, or
+ * undefined if it can't be expressed as one
+ */
+export function recurrenceToRRule(recurrence: string): string | undefined {
+	const value = recurrence.trim();
+	if (!value) return undefined;
+
+	// Already an RRULE, possibly with a DTSTART line
+	if (/FREQ=/i.test(value)) {
+		const ruleLine = value
+			.split(/\r?\n/)
+			.find((line) => /FREQ=/i.test(line));
+		return ruleLine?.replace(/^RRULE:/i, "").trim().toUpperCase();
+	}
+
+	try {
+		const rule = RRule.fromText(value).toString();
+		return /FREQ=/.test(rule) ? rule.replace(/^RRULE:/, "") : undefined;
+	} catch (e) {
+		return undefined;
+	}
+}
+
+/**
+ * Projected future occurrences of a recurring task up to `until`, as
+ * read-only tasks. The recurrence moves the due date, or the scheduled date
+ * for tasks without one, and the start date keeps its distance.
+ */
+export function getProjectedOccurrences(
+	task: Task,
+	until: number,
+	limit = 30
+): RecurrenceGhostTask[] {
+	const recurrence = task.metadata.recurrence;
+	if (
+		!recurrence ||
+		task.completed ||
+		isRecurrenceGhost(task) ||
+		(task as any).source?.type === "ics"
+	) {
+		return [];
+	}
+
+	const dateField = task.metadata.dueDate
+		? "dueDate"
+		: task.metadata.scheduledDate
+		? "scheduledDate"
+		: undefined;
+	if (!dateField) return [];
+
+	const anchor = task.metadata[dateField]!;
+	const ghosts: RecurrenceGhostTask[] = [];
+	let current = anchor;
+
+	while (ghosts.length < limit) {
+		const next = calculateNextOccurrence(recurrence, new Date(current));
+		if (next <= current || next > until) break;
+
+		let startDate = task.metadata.startDate;
+		if (startDate) {
+			const shifted = new Date(startDate);
+			shifted.setDate(
+				shifted.getDate() + Math.round((next - anchor) / DAY_MS)
+			);
+			startDate = shifted.getTime();
+		}
+
+		ghosts.push({
+			...task,
+			id: `${task.id}-occurrence-${getLocalDateString(new Date(next))}`,
+			readonly: true,
+			recurrenceGhostOf: task.id,
+			metadata: {
+				...task.metadata,
+				[dateField]: next,
+				startDate,
+				completedDate: undefined,
+			},
+		});
+		current = next;
+	}
+
+	return ghosts;
+}
+
+/**
+ * Add a completion date to a history, keeping the latest `limit` dates
+ */
+export function appendCompletionHistory(
+	history: string[] | undefined,
+	date: string,
+	limit: number
+): string[] {
+	const dates = [...(history ?? []), date];
+	return limit > 0 ? dates.slice(-limit) : dates;
+}
+
+/**
+ * Insert a `- ✅ date` history line as the first child of the task on
+ * `taskLineIndex` and drop the history lines beyond `limit`
+ */
+export function insertCompletionHistoryLine(
+	lines: string[],
+	taskLineIndex: number,
+	indentation: string,
+	date: string,
+	limit: number
+): void {
+	const childIndentation = `${indentation}\t`;
+	lines.splice(taskLineIndex + 1, 0, `${childIndentation}- ✅ ${date}`);
+	if (limit <= 0) return;
+
+	let kept = 0;
+	let index = taskLineIndex + 1;
+	while (index < lines.length) {
+		const line = lines[index];
+		const lineIndentation = line.match(/^\s*/)![0];
+		// The child list ends at the first line that isn't indented deeper
+		if (
+			line.trim() === "" ||
+			lineIndentation.length <= indentation.length
+		) {
+			break;
+		}
+
+		if (HISTORY_LINE_REGEX.test(line) && ++kept > limit) {
+			lines.splice(index, 1);
+			continue;
+		}
+		index++;
+	}
+}
@@ -0,0 +1,172 @@
+/**
+ * Helpers for task reminders.
+ *
+ * Reminder values (🔔 / [reminder::]):
+ * - `2025-06-01 09:30` or `2025-06-01T09:30`: at that time
+ * - `2025-06-01`: on that day at the default reminder time
+ * - `09:30`: at that time on the due (or scheduled) date
+ * - `30m`, `1h`, `1d` (optionally with a leading "-"): that long before
+ *   the due (or scheduled) time
+ * - no value: the default offset before the due (or scheduled) time
+ */
+
+import { Task } from "../types/task";
+import type { ReminderSettings } from "../common/setting-definition";
+import { parseLocalDate } from "./dateUtil";
+
+/** Matches a reminder value right after the 🔔 emoji */
+export const REMINDER_VALUE_REGEX =
+	/^(?:\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2})?|\d{1,2}:\d{2}|-?\d+[mhd](?![a-zA-Z]))/;
+
+const DATE_TIME_REGEX = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{1,2}):(\d{2}))?$/;
+const TIME_REGEX = /^(\d{1,2}):(\d{2})$/;
+const OFFSET_REGEX = /^-?(\d+)([mhd])$/;
+
+const OFFSET_UNIT_MINUTES: Record<string, number> = {
+	m: 1,
+	h: 60,
+	d: 60 * 24,
+};
+
+export interface DueReminder {
+	task: Task;
+	/** When the reminder is (or was) due */
+	time: number;
+	key: string;
+	/** The reminder was snoozed and the snooze has run out */
+	snoozed: boolean;
+}
+
+/**
+ * Parse an offset such as "30m", "1h", "-1d" into minutes before
+ */
+export function parseReminderOffset(
+	value: string | undefined
+): number | undefined {
+	const match = value?.trim().toLowerCase().match(OFFSET_REGEX);
+	if (!match) return undefined;
+	return parseInt(match[1], 10) * OFFSET_UNIT_MINUTES[match[2]];
+}
+
+function parseTimeOfDay(value: string): [number, number] | undefined {
+	const match = value.trim().match(TIME_REGEX);
+	if (!match) return undefined;
+	const hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	if (hours > 23 || minutes > 59) return undefined;
+	return [hours, minutes];
+}
+
+function setTimeOfDay(timestamp: number, time: [number, number]): number {
+	const date = new Date(timestamp);
+	date.setHours(time[0], time[1], 0, 0);
+	return date.getTime();
+}
+
+/**
+ * Due/scheduled time of a task. Dates without a time (local midnight)
+ * get the default reminder time.
+ */
+function getBaseTime(
+	task: Task,
+	settings: ReminderSettings
+): number | undefined {
+	const base = task.metadata.dueDate ?? task.metadata.scheduledDate;
+	if (base === undefined) return undefined;
+
+	const date = new Date(base);
+	const isDateOnly =
+		date.getHours() === 0 &&
+		date.getMinutes() === 0 &&
+		date.getSeconds() === 0;
+	const defaultTime = parseTimeOfDay(settings.defaultTime) ?? [9, 0];
+	return isDateOnly ? setTimeOfDay(base, defaultTime) : base;
+}
+
+/**
+ * When a task's reminder is due, or undefined if it has none
+ */
+export function resolveReminderTime(
+	task: Task,
+	settings: ReminderSettings
+): number | undefined {
+	const value = task.metadata.reminder?.trim();
+
+	// No explicit time: remind the default offset before due/scheduled
+	if (!value || value === "true") {
+		if (!value && !settings.remindBeforeDue) return undefined;
+		const base = getBaseTime(task, settings);
+		if (base === undefined) return undefined;
+		const offset = parseReminderOffset(settings.defaultOffset) ?? 0;
+		return base - offset * 60000;
+	}
+
+	const dateTime = value.match(DATE_TIME_REGEX);
+	if (dateTime) {
+		const date = parseLocalDate(dateTime[1]);
+		if (date === undefined) return undefined;
+		const time = dateTime[2]
+			? parseTimeOfDay(`${dateTime[2]}:${dateTime[3]}`)
+			: parseTimeOfDay(settings.defaultTime) ?? [9, 0];
+		return time ? setTimeOfDay(date, time) : undefined;
+	}
+
+	const time = parseTimeOfDay(value);
+	if (time) {
+		const base = task.metadata.dueDate ?? task.metadata.scheduledDate;
+		return base !== undefined ? setTimeOfDay(base, time) : undefined;
+	}
+
+	const offset = parseReminderOffset(value);
+	if (offset !== undefined) {
+		const base = getBaseTime(task, settings);
+		return base !== undefined ? base - offset * 60000 : undefined;
+	}
+
+	return undefined;
+}
+
+/**
+ * Identifies one reminder of one task. Task ids are line based, so the key
+ * uses file and content to survive edits elsewhere in the file; changing
+ * the reminder time makes a new reminder.
+ */
+export function getReminderKey(task: Task, time: number): string {
+	return `${task.filePath}|${task.content}|${time}`;
+}
+
+/**
+ * Reminders that should fire now: due after `since` (the last check) and
+ * not fired yet, or snoozed until a time that has passed
+ */
+export function getDueReminders(
+	tasks: Task[],
+	settings: ReminderSettings,
+	now: number,
+	since: number
+): DueReminder[] {
+	const due: DueReminder[] = [];
+
+	for (const task of tasks) {
+		if (task.completed) continue;
+
+		const time = resolveReminderTime(task, settings);
+		if (time === undefined) continue;
+
+		const key = getReminderKey(task, time);
+		const snoozedUntil = settings.snoozedReminders[key];
+		if (snoozedUntil !== undefined) {
+			if (snoozedUntil <= now) {
+				due.push({ task, time, key, snoozed: true });
+			}
+			continue;
+		}
+
+		if (settings.firedReminders[key] !== undefined) continue;
+		if (time > now || time <= since) continue;
+
+		due.push({ task, time, key, snoozed: false });
+	}
+
+	return due.sort((a, b) => a.time - b.time);
+}
@@ -77,6 +77,8 @@ export function taskToLegacy(task: Task): LegacyTask {
 	return {
 		...task,
 		...task.metadata,
+		// metadata.id is the dependency id; keep the task's own id
+		id: task.id,
 	};
 }
 
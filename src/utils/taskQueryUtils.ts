@@ -0,0 +1,310 @@
+import { Task } from "../types/task";
+import {
+	SortCriterion,
+	TaskProgressBarSettings,
+} from "../common/setting-definition";
+import { evaluateFilterNode, parseAdvancedFilterQuery } from "./filterUtils";
+import { sortTasks } from "../commands/sortTaskCommands";
+
+/**
+ * Query blocks look like this:
+ *
+ * ```task-genius
+ * filter: #work AND PRIORITY:>=3
+ * sort: dueDate asc, priority desc
+ * group: project
+ * limit: 20
+ * view: list
+ * ```
+ *
+ * Lines without a known key are treated as filter lines, and several
+ * filter lines are combined with AND.
+ */
+
+export type TaskQueryView = "list" | "tree" | "table";
+
+export type TaskQueryGroupField =
+	| "project"
+	| "context"
+	| "tags"
+	| "priority"
+	| "status"
+	| "dueDate"
+	| "startDate"
+	| "scheduledDate"
+	| "filePath";
+
+export interface TaskQuery {
+	filter: string;
+	sort: SortCriterion[];
+	groupBy?: TaskQueryGroupField;
+	limit?: number;
+	view: TaskQueryView;
+	title?: string;
+	// Problems found while parsing, shown above the results
+	errors: string[];
+}
+
+export interface TaskQueryGroup {
+	key: string;
+	title: string;
+	tasks: Task[];
+}
+
+export interface TaskQueryResult {
+	groups: TaskQueryGroup[];
+	// Number of matching tasks before the limit was applied
+	total: number;
+}
+
+const QUERY_VIEWS: TaskQueryView[] = ["list", "tree", "table"];
+
+const GROUP_FIELDS: TaskQueryGroupField[] = [
+	"project",
+	"context",
+	"tags",
+	"priority",
+	"status",
+	"dueDate",
+	"startDate",
+	"scheduledDate",
+	"filePath",
+];
+
+const SORT_FIELDS: SortCriterion["field"][] = [
+	"status",
+	"completed",
+	"priority",
+	"dueDate",
+	"startDate",
+	"scheduledDate",
+	"createdDate",
+	"completedDate",
+	"content",
+	"tags",
+	"project",
+	"context",
+	"recurrence",
+	"filePath",
+	"lineNumber",
+];
+
+// Short names accepted in sort and group lines
+const FIELD_ALIASES: Record<string, string> = {
+	due: "dueDate",
+	start: "startDate",
+	scheduled: "scheduledDate",
+	created: "createdDate",
+	done: "completedDate",
+	file: "filePath",
+	path: "filePath",
+	tag: "tags",
+	line: "lineNumber",
+};
+
+const QUERY_KEYS = ["filter", "sort", "group", "limit", "view", "title"];
+
+function resolveField<T extends string>(
+	value: string,
+	fields: readonly T[]
+): T | undefined {
+	const name = FIELD_ALIASES[value.toLowerCase()] ?? value;
+	return fields.find((field) => field.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Parse the source of a ```task-genius``` code block
+ */
+export function parseTaskQuery(source: string): TaskQuery {
+	const query: TaskQuery = {
+		filter: "",
+		sort: [],
+		view: "list",
+		errors: [],
+	};
+	const filterLines: string[] = [];
+
+	for (const rawLine of source.split("\n")) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("//")) continue;
+
+		const match = line.match(/^([a-zA-Z]+)\s*:\s*(.*)$/);
+		const key = match?.[1].toLowerCase();
+		if (!match || !key || !QUERY_KEYS.includes(key)) {
+			// Anything else (including "PRIORITY:" and "DATE:") is filter text
+			filterLines.push(line);
+			continue;
+		}
+
+		const value = match[2].trim();
+		switch (key) {
+			case "filter":
+				if (value) filterLines.push(value);
+				break;
+			case "sort":
+				for (const part of value.split(",")) {
+					const [fieldName, order] = part.trim().split(/\s+/);
+					if (!fieldName) continue;
+					const field = resolveField(fieldName, SORT_FIELDS);
+					if (!field) {
+						query.errors.push(`Unknown sort field: ${fieldName}`);
+						continue;
+					}
+					query.sort.push({
+						field,
+						order:
+							order?.toLowerCase() === "desc" ? "desc" : "asc",
+					});
+				}
+				break;
+			case "group": {
+				const field = resolveField(value, GROUP_FIELDS);
+				if (field) {
+					query.groupBy = field;
+				} else if (value && value.toLowerCase() !== "none") {
+					query.errors.push(`Unknown group field: ${value}`);
+				}
+				break;
+			}
+			case "limit": {
+				const limit = parseInt(value, 10);
+				if (!isNaN(limit) && limit > 0) {
+					query.limit = limit;
+				} else {
+					query.errors.push(`Invalid limit: ${value}`);
+				}
+				break;
+			}
+			case "view": {
+				const view = QUERY_VIEWS.find(
+					(v) => v === value.toLowerCase()
+				);
+				if (view) {
+					query.view = view;
+				} else {
+					query.errors.push(`Unknown view: ${value}`);
+				}
+				break;
+			}
+			case "title":
+				query.title = value;
+				break;
+		}
+	}
+
+	if (filterLines.length > 1) {
+		query.filter = filterLines.map((line) => `(${line})`).join(" AND ");
+	} else {
+		query.filter = filterLines[0] ?? "";
+	}
+
+	return query;
+}
+
+function formatDateKey(timestamp: number | undefined): string {
+	if (!timestamp) return "";
+	const date = new Date(timestamp);
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// A task can belong to several groups when grouping by tags
+function getGroupKeys(task: Task, field: TaskQueryGroupField): string[] {
+	switch (field) {
+		case "project":
+			return [
+				task.metadata.project || task.metadata.tgProject?.name || "",
+			];
+		case "context":
+			return [task.metadata.context || ""];
+		case "tags": {
+			const tags = task.metadata.tags.filter(
+				(tag) => typeof tag === "string"
+			);
+			return tags.length > 0 ? tags : [""];
+		}
+		case "priority":
+			return [
+				task.metadata.priority ? String(task.metadata.priority) : "",
+			];
+		case "status":
+			return [task.status || " "];
+		case "dueDate":
+		case "startDate":
+		case "scheduledDate":
+			return [formatDateKey(task.metadata[field])];
+		case "filePath":
+			return [task.filePath];
+	}
+}
+
+/**
+ * Filter, sort, limit and group tasks for a parsed query.
+ * Groups are ordered by key; tasks without a value are grouped last
+ * under an empty key.
+ */
+export function runTaskQuery(
+	tasks: Task[],
+	query: TaskQuery,
+	settings: TaskProgressBarSettings
+): TaskQueryResult {
+	let matched = tasks;
+
+	if (query.filter.trim()) {
+		const filterNode = parseAdvancedFilterQuery(query.filter);
+		matched = matched.filter((task) =>
+			evaluateFilterNode(filterNode, task)
+		);
+	}
+
+	if (query.sort.length > 0) {
+		// sortTasks compares top-level fields, so sort flattened copies
+		const flattened = matched.map((task) => ({
+			...task.metadata,
+			...task,
+			original: task,
+		}));
+		matched = sortTasks(flattened, query.sort, settings).map(
+			(item) => item.original
+		);
+	}
+
+	const total = matched.length;
+	if (query.limit !== undefined) {
+		matched = matched.slice(0, query.limit);
+	}
+
+	if (!query.groupBy) {
+		return { groups: [{ key: "", title: "", tasks: matched }], total };
+	}
+
+	const groups = new Map<string, Task[]>();
+	for (const task of matched) {
+		for (const key of getGroupKeys(task, query.groupBy)) {
+			const group = groups.get(key);
+			if (group) {
+				group.push(task);
+			} else {
+				groups.set(key, [task]);
+			}
+		}
+	}
+
+	const keys = Array.from(groups.keys()).sort((a, b) => {
+		if (a === "") return 1;
+		if (b === "") return -1;
+		// Higher priority first, everything else alphabetically
+		if (query.groupBy === "priority") return Number(b) - Number(a);
+		return a.localeCompare(b);
+	});
+
+	return {
+		groups: keys.map((key) => ({
+			key,
+			title: key,
+			tasks: groups.get(key) ?? [],
+		})),
+		total,
+	};
+}
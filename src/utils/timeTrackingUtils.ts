@@ -0,0 +1,102 @@
+/**
+ * Helpers for task time tracking.
+ * Durations are stored as whole minutes in `[actualTime:: N]` and
+ * `[estimatedTime:: N]` fields.
+ */
+
+import { Task } from "../types/task";
+import { TimeLogEntry } from "../types/time-tracking";
+
+/**
+ * Parse a duration such as "90", "45m", "1h30m" or "1.5h" into minutes.
+ * Plain numbers are minutes.
+ */
+export function parseDurationMinutes(
+	value: string | number | undefined
+): number | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value === "number") {
+		return isNaN(value) ? undefined : Math.round(value);
+	}
+
+	const normalized = value.trim().toLowerCase().replace(/\s+/g, "");
+	if (!normalized) return undefined;
+	if (/^\d+(\.\d+)?$/.test(normalized)) {
+		return Math.round(parseFloat(normalized));
+	}
+
+	const match = normalized.match(
+		/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?:in)?)?$/
+	);
+	if (!match || (!match[1] && !match[2])) return undefined;
+
+	const hours = match[1] ? parseFloat(match[1]) : 0;
+	const minutes = match[2] ? parseFloat(match[2]) : 0;
+	return Math.round(hours * 60 + minutes);
+}
+
+/**
+ * Format minutes as "1h 30m", "45m" or "0m"
+ */
+export function formatDurationMinutes(minutes: number): string {
+	const total = Math.max(0, Math.round(minutes));
+	const hours = Math.floor(total / 60);
+	const rest = total % 60;
+	if (hours === 0) return `${rest}m`;
+	return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Format a running timer as "h:mm:ss" / "m:ss"
+ */
+export function formatElapsed(milliseconds: number): string {
+	const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = String(totalSeconds % 60).padStart(2, "0");
+	if (hours > 0) {
+		return `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`;
+	}
+	return `${minutes}:${seconds}`;
+}
+
+/**
+ * Whole minutes between start and end, rounded to the nearest minute
+ */
+export function getElapsedMinutes(start: number, end: number): number {
+	return Math.max(0, Math.round((end - start) / 60000));
+}
+
+/**
+ * Whether a log entry or the running session belongs to a task. Task ids
+ * are line based and pass to whatever task takes over the line, so the
+ * content has to match as well; it also finds the task after it moved.
+ */
+export function isTrackedTask(
+	record: Pick<TimeLogEntry, "taskId" | "filePath" | "content">,
+	task: Task
+): boolean {
+	return (
+		record.content === task.content &&
+		(record.taskId === task.id || record.filePath === task.filePath)
+	);
+}
+
+/**
+ * Total logged minutes for the given tasks, optionally only counting
+ * entries that ended at or after `since`
+ */
+export function sumLoggedMinutes(
+	entries: TimeLogEntry[],
+	tasks: Task[],
+	since?: number
+): number {
+	let total = 0;
+	for (const entry of entries) {
+		if (since !== undefined && entry.end < since) continue;
+		if (tasks.some((task) => isTrackedTask(entry, task))) {
+			total += entry.minutes;
+		}
+	}
+	return total;
+}
@@ -9,7 +9,9 @@ import {
 	EnhancedTask,
 	MetadataParseMode,
 } from "../../types/TaskParserConfig";
-import { parseLocalDate } from "../dateUtil";
+import { getEndTimeDuration, parseLocalDateTime } from "../dateUtil";
+import { parseDurationMinutes } from "../timeTrackingUtils";
+import { REMINDER_VALUE_REGEX } from "../reminderUtils";
 import { TASK_REGEX } from "../../common/regex-define";
 import { TgProject } from "../../types/task";
 
@@ -462,6 +464,10 @@ export class MarkdownTaskParser {
 			scheduled: "scheduledDate",
 			completion: "completedDate",
 			created: "createdDate",
+			dependson: "dependsOn",
+			actualtime: "actualTime",
+			estimatedtime: "estimatedTime",
+			oncompletion: "onCompletion",
 		};
 
 		// Apply key mapping if it exists
@@ -508,7 +514,27 @@ export class MarkdownTaskParser {
 		const valuePart = afterEmoji.substring(valueStart);
 
 		let valueEnd = valuePart.length;
-		for (let i = 0; i < valuePart.length; i++) {
+		// Dependency ids and reminders are single tokens, so they never swallow the text after them
+		const tokenMatch =
+			earliestEmoji.key === "id"
+				? valuePart.match(/^[a-zA-Z0-9_-]+/)
+				: earliestEmoji.key === "dependsOn"
+				? valuePart.match(/^[a-zA-Z0-9_-]+(\s*,\s*[a-zA-Z0-9_-]+)*/)
+				: earliestEmoji.key === "reminder"
+				? valuePart.match(REMINDER_VALUE_REGEX)
+				: earliestEmoji.key === "onCompletion"
+				? valuePart.match(/^(?:delete|keep)\b/i)
+				: null;
+		if (tokenMatch) {
+			valueEnd = tokenMatch[0].length;
+		} else if (
+			earliestEmoji.key === "reminder" ||
+			earliestEmoji.key === "onCompletion"
+		) {
+			// A bare 🔔 uses the default reminder offset, a bare 🏁 is ignored
+			valueEnd = 0;
+		}
+		for (let i = 0; i < valueEnd; i++) {
 			const char = valuePart[i];
 			// Check if we encounter other emojis or special characters
 			if (
@@ -896,7 +922,7 @@ export class MarkdownTaskParser {
 		}
 
 		// Parse date and cache the result
-		const date = parseLocalDate(dateStr);
+		const date = parseLocalDateTime(dateStr);
 
 		// Implement cache size limit to prevent memory issues
 		if (
@@ -953,10 +979,95 @@ export class MarkdownTaskParser {
 					: [],
 				parent: enhancedTask.parentId,
 				tgProject: enhancedTask.tgProject,
+				id:
+					enhancedTask.metadata.id?.trim().split(/\s+/)[0] ||
+					undefined,
+				dependsOn: this.parseDependsOn(
+					enhancedTask.metadata.dependsOn
+				),
+				reminder: enhancedTask.metadata.reminder,
+				onCompletion: this.parseOnCompletion(
+					enhancedTask.metadata.onCompletion
+				),
+				completions: this.parseCompletions(
+					enhancedTask.metadata.completions
+				),
+				estimatedTime: parseDurationMinutes(
+					enhancedTask.metadata.estimatedTime
+				),
+				actualTime: parseDurationMinutes(
+					enhancedTask.metadata.actualTime
+				),
+				duration: this.extractDuration(enhancedTask.metadata),
+				order: this.parseOrder(enhancedTask.metadata.order),
+				icsUid: enhancedTask.metadata.ics,
 			},
 		} as any;
 	}
 
+	/**
+	 * Planned minutes of a timed task: [duration::], or the end time of its
+	 * due, scheduled or start date such as 📅 2025-03-01 14:30-16:00
+	 */
+	private extractDuration(
+		metadata: Record<string, string>
+	): number | undefined {
+		const duration = parseDurationMinutes(metadata.duration);
+		if (duration) return duration;
+
+		for (const key of ["dueDate", "scheduledDate", "startDate"]) {
+			const endTimeDuration = metadata[key]
+				? getEndTimeDuration(metadata[key])
+				: undefined;
+			if (endTimeDuration) return endTimeDuration;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Normalize an on-completion value (🏁 / [onCompletion::])
+	 */
+	private parseOnCompletion(
+		value: string | undefined
+	): "delete" | "keep" | undefined {
+		const normalized = value?.trim().toLowerCase();
+		return normalized === "delete" || normalized === "keep"
+			? normalized
+			: undefined;
+	}
+
+	/**
+	 * Read a manual order key ([order::]), which may be negative
+	 */
+	private parseOrder(value: string | undefined): number | undefined {
+		const order = value !== undefined ? parseFloat(value) : NaN;
+		return isNaN(order) ? undefined : order;
+	}
+
+	/**
+	 * Split a completions value ("2025-06-01, 2025-06-08") into dates
+	 */
+	private parseCompletions(value: string | undefined): string[] | undefined {
+		if (!value) return undefined;
+		const dates = value
+			.split(",")
+			.map((date) => date.trim())
+			.filter((date) => /^\d{4}-\d{2}-\d{2}$/.test(date));
+		return dates.length > 0 ? dates : undefined;
+	}
+
+	/**
+	 * Split a dependsOn value ("a, b,c") into dependency ids
+	 */
+	private parseDependsOn(value: string | undefined): string[] | undefined {
+		if (!value) return undefined;
+		const ids = value
+			.split(",")
+			.map((id) => id.trim())
+			.filter((id) => id.length > 0);
+		return ids.length > 0 ? ids : undefined;
+	}
+
 	/**
 	 * Load project configuration for the given file path
 	 */
@@ -1146,6 +1257,7 @@ export class MarkdownTaskParser {
 			"children",
 			"childrenIds",
 			"tags", // Tags are task-specific
+			"dependsOn", // Dependencies are task-specific
 			"comment", // Comments are task-specific
 			"indentLevel",
 			"actualIndent",